@@ -12,10 +12,20 @@ CREATE TABLE IF NOT EXISTS events (
   scheduled_at TIMESTAMP WITH TIME ZONE,
   status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'live', 'ended')),
   participation_code VARCHAR(10) UNIQUE NOT NULL,
+  participation_code_version INTEGER NOT NULL DEFAULT 1 CHECK (participation_code_version >= 1), -- Bumped on rotation; older camera tokens stop working
+  participation_code_rotated_at TIMESTAMP WITH TIME ZONE,
   youtube_stream_url TEXT,
   youtube_stream_key TEXT,
   youtube_video_id VARCHAR(50),
   livekit_room_name VARCHAR(255) UNIQUE NOT NULL,
+  switching_policy VARCHAR(30) DEFAULT 'last-in-wins' CHECK (switching_policy IN ('last-in-wins', 'manual-only', 'round-robin', 'best-quality')),
+  switching_dwell_seconds INTEGER DEFAULT 30 CHECK (switching_dwell_seconds > 0),
+  min_on_air_seconds INTEGER DEFAULT 10 CHECK (min_on_air_seconds >= 0),
+  switch_cooldown_seconds INTEGER DEFAULT 3 CHECK (switch_cooldown_seconds >= 0),
+  max_cameras INTEGER DEFAULT 4 CHECK (max_cameras BETWEEN 1 AND 10),
+  admission_mode VARCHAR(20) DEFAULT 'open' CHECK (admission_mode IN ('open', 'waitlist', 'approval')),
+  organizer_id VARCHAR(255), -- Organizer whose YouTube channel hosts the broadcast
+  standby_image_url TEXT, -- Uploaded standby slate shown while no camera is on air
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -28,10 +38,11 @@ CREATE TABLE IF NOT EXISTS camera_connections (
   participant_name VARCHAR(255),
   device_info JSONB DEFAULT '{}',
   stream_quality JSONB DEFAULT '{}',
-  status VARCHAR(20) DEFAULT 'connecting' CHECK (status IN ('connecting', 'active', 'inactive', 'error')),
+  status VARCHAR(20) DEFAULT 'connecting' CHECK (status IN ('pending', 'waiting', 'connecting', 'active', 'inactive', 'error')),
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   last_active_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  disconnected_at TIMESTAMP WITH TIME ZONE
+  disconnected_at TIMESTAMP WITH TIME ZONE,
+  disconnect_reason VARCHAR(50) CHECK (disconnect_reason IN ('rejected', 'kicked', 'banned'))
 );
 
 -- Stream status table (for real-time monitoring)
@@ -44,6 +55,12 @@ CREATE TABLE IF NOT EXISTS stream_status (
   youtube_viewer_count INTEGER DEFAULT 0,
   stream_health VARCHAR(20) DEFAULT 'unknown' CHECK (stream_health IN ('excellent', 'good', 'poor', 'critical', 'unknown')),
   last_switch_at TIMESTAMP WITH TIME ZONE,
+  egress_id VARCHAR(100),
+  auto_switch_locked_until TIMESTAMP WITH TIME ZONE,
+  broadcast_state VARCHAR(20) DEFAULT 'idle' CHECK (broadcast_state IN ('idle', 'waiting-for-camera', 'starting', 'live', 'ending', 'ended', 'failed')),
+  broadcast_attempts INTEGER DEFAULT 0,
+  broadcast_retry_at TIMESTAMP WITH TIME ZONE,
+  broadcast_error TEXT,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -58,6 +75,99 @@ CREATE TABLE IF NOT EXISTS event_logs (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Processed LiveKit webhook deliveries (for idempotent handling of retries)
+CREATE TABLE IF NOT EXISTS livekit_webhook_events (
+  id VARCHAR(100) PRIMARY KEY, -- LiveKit webhook event id
+  event VARCHAR(50) NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organizers' YouTube channel connections (OAuth refresh tokens, encrypted)
+CREATE TABLE IF NOT EXISTS youtube_connections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organizer_id VARCHAR(255) UNIQUE NOT NULL,
+  channel_id VARCHAR(100) NOT NULL,
+  channel_title VARCHAR(255),
+  encrypted_refresh_token TEXT NOT NULL,
+  scopes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Banned participants/devices may not rejoin the event
+CREATE TABLE IF NOT EXISTS camera_bans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  participant_id VARCHAR(255) NOT NULL,
+  device_fingerprint VARCHAR(64), -- SHA-256 of the device id the camera page keeps in localStorage
+  camera_connection_id UUID REFERENCES camera_connections(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organizer accounts
+CREATE TABLE IF NOT EXISTS organizers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email VARCHAR(255) UNIQUE NOT NULL, -- Stored lowercased
+  display_name VARCHAR(100),
+  password_hash TEXT NOT NULL, -- scrypt, see src/lib/secret-hash.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Who may manage an event: owner (everything), operator (runs the show), monitor (view only)
+CREATE TABLE IF NOT EXISTS event_members (
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  organizer_id UUID REFERENCES organizers(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'operator', 'monitor')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (event_id, organizer_id)
+);
+
+-- Co-organizer invitations, accepted by signing in with the invited email
+CREATE TABLE IF NOT EXISTS organizer_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('operator', 'monitor')),
+  invited_by UUID REFERENCES organizers(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES organizers(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-person camera invite links minted by the organizer
+CREATE TABLE IF NOT EXISTS camera_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  participant_name VARCHAR(100), -- Preset display name for the camera operator
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_redeemed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Hashed per-event secrets, kept out of the publicly readable events table
+CREATE TABLE IF NOT EXISTS event_secrets (
+  event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  camera_pin_hash TEXT, -- Optional PIN camera operators enter along with the participation code
+  viewer_passphrase_hash TEXT, -- Optional passphrase viewers exchange for a viewer session
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Shared rate-limit state (RATE_LIMIT_STORE=postgres); updated with optimistic version checks
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key VARCHAR(255) PRIMARY KEY,
+  state JSONB NOT NULL,
+  version BIGINT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
 CREATE INDEX IF NOT EXISTS idx_events_participation_code ON events(participation_code);
@@ -66,12 +176,24 @@ CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
 CREATE INDEX IF NOT EXISTS idx_camera_connections_event_id ON camera_connections(event_id);
 CREATE INDEX IF NOT EXISTS idx_camera_connections_status ON camera_connections(status);
 CREATE INDEX IF NOT EXISTS idx_camera_connections_participant_id ON camera_connections(participant_id);
+CREATE INDEX IF NOT EXISTS idx_camera_connections_status_last_active_at ON camera_connections(status, last_active_at);
+
+CREATE INDEX IF NOT EXISTS idx_camera_bans_event_id ON camera_bans(event_id);
+CREATE INDEX IF NOT EXISTS idx_camera_invites_event_id ON camera_invites(event_id);
+
+CREATE INDEX IF NOT EXISTS idx_event_members_organizer_id ON event_members(organizer_id);
+CREATE INDEX IF NOT EXISTS idx_organizer_invitations_event_id ON organizer_invitations(event_id);
 
 CREATE INDEX IF NOT EXISTS idx_stream_status_event_id ON stream_status(event_id);
+CREATE INDEX IF NOT EXISTS idx_stream_status_broadcast_state ON stream_status(broadcast_state);
 
 CREATE INDEX IF NOT EXISTS idx_event_logs_event_id ON event_logs(event_id);
 CREATE INDEX IF NOT EXISTS idx_event_logs_created_at ON event_logs(created_at);
 
+CREATE INDEX IF NOT EXISTS idx_livekit_webhook_events_received_at ON livekit_webhook_events(received_at);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
+
 -- Triggers for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -87,11 +209,36 @@ CREATE TRIGGER update_events_updated_at BEFORE UPDATE ON events
 CREATE TRIGGER update_stream_status_updated_at BEFORE UPDATE ON stream_status
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_youtube_connections_updated_at BEFORE UPDATE ON youtube_connections
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_event_secrets_updated_at BEFORE UPDATE ON event_secrets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_organizers_updated_at BEFORE UPDATE ON organizers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- RLS (Row Level Security) policies
 ALTER TABLE events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE camera_connections ENABLE ROW LEVEL SECURITY;
 ALTER TABLE stream_status ENABLE ROW LEVEL SECURITY;
 ALTER TABLE event_logs ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role records webhook deliveries
+ALTER TABLE livekit_webhook_events ENABLE ROW LEVEL SECURITY;
+-- No policies: refresh tokens are only read by the service role
+ALTER TABLE youtube_connections ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role reads and writes counters
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role checks and records bans
+ALTER TABLE camera_bans ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role mints and redeems invites
+ALTER TABLE camera_invites ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role reads and writes secrets
+ALTER TABLE event_secrets ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role reads accounts and memberships
+ALTER TABLE organizers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organizer_invitations ENABLE ROW LEVEL SECURITY;
 
 -- Basic policies (can be customized based on authentication requirements)
 -- For now, allow all operations for authenticated users
@@ -105,4 +252,13 @@ CREATE POLICY "Allow all operations for authenticated users" ON stream_status
     FOR ALL USING (auth.role() = 'authenticated' OR auth.role() = 'anon');
 
 CREATE POLICY "Allow all operations for authenticated users" ON event_logs
-    FOR ALL USING (auth.role() = 'authenticated' OR auth.role() = 'anon');
\ No newline at end of file
+    FOR ALL USING (auth.role() = 'authenticated' OR auth.role() = 'anon');
+-- Standby slate images (public read; uploads go through the API with the service role)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('standby-slates', 'standby-slates', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Preview snapshots of cameras awaiting approval (private; served to the organizer through the API)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('camera-previews', 'camera-previews', false)
+ON CONFLICT (id) DO NOTHING;
@@ -10,6 +10,16 @@ export async function register() {
     await initializeMonitoring();
   }
 
+  // 再起動前に途中だった配信の開始・終了処理を再開
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    const { BroadcastLifecycle } = await import('./src/lib/broadcast-lifecycle');
+    BroadcastLifecycle.ensureStarted();
+
+    // 配信中イベントの視聴者数と配信状態を定期取得
+    const { StreamHealthPoller } = await import('./src/lib/stream-health');
+    StreamHealthPoller.ensureStarted();
+  }
+
   console.log('Instrumentation: Application initialized');
 }
 
@@ -61,8 +61,6 @@ process.env.NEXT_PUBLIC_LIVEKIT_URL = 'wss://test.livekit.cloud';
 process.env.LIVEKIT_API_KEY = 'test-api-key';
 process.env.LIVEKIT_API_SECRET = 'test-api-secret';
 process.env.JWT_SECRET = 'test-jwt-secret-key';
-process.env.ADMIN_KEY = 'test-admin-key';
-process.env.ADMIN_TOKEN = 'test-admin-token';
 
 // Global test timeout
 jest.setTimeout(30000);
@@ -1,17 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService, type JWTPayload } from '@/lib/auth';
+import { hasEventRole } from '@/lib/event-roles';
+import { rateLimit } from '@/lib/middleware';
+import { getRateLimitRuleKey, getRouteRateLimit } from '@/lib/rate-limit';
 
 // Protected routes configuration
 const PROTECTED_ROUTES = {
-  // Admin routes - require admin authentication
-  admin: [
+  // Account routes - require a signed-in organizer account
+  account: [
     '/api/events', // POST (create event)
-    '/api/events/[eventId]', // PUT, DELETE
-    '/api/auth/admin',
   ],
 
-  // Organizer routes - require organizer or admin authentication
+  // Owner routes - require the owner role in the event
+  owner: [
+    '/api/events/[eventId]', // DELETE
+  ],
+
+  // Organizer routes - require membership of the event (handlers check finer roles)
   organizer: [
+    '/api/events/[eventId]', // PUT
     '/api/events/[eventId]/status', // PUT
     '/api/events/[eventId]/cameras', // GET
   ],
@@ -20,6 +27,7 @@ const PROTECTED_ROUTES = {
   camera: [
     '/api/events/[eventId]/join', // POST
     '/api/events/[eventId]/cameras/[cameraId]/status', // PUT
+    '/api/events/[eventId]/cameras/[cameraId]/heartbeat', // POST
   ],
 
   // Public routes - no authentication required
@@ -27,6 +35,8 @@ const PROTECTED_ROUTES = {
     '/api/events', // GET (list events)
     '/api/events/[eventId]', // GET (event details)
     '/api/events/validate-code', // POST
+    '/api/auth/login', // POST, DELETE
+    '/api/auth/register', // POST
     '/api/events/[eventId]/stream', // GET (SSE)
     '/api/health',
     '/api/docs',
@@ -35,15 +45,6 @@ const PROTECTED_ROUTES = {
   ],
 };
 
-// Rate limiting configuration for different route types
-const ROUTE_RATE_LIMITS = {
-  '/api/auth/admin': { windowMs: 300000, maxRequests: 3 }, // 3 per 5 minutes
-  '/api/events/validate-code': { windowMs: 60000, maxRequests: 10 }, // 10 per minute
-  '/api/events/[eventId]/join': { windowMs: 60000, maxRequests: 5 }, // 5 per minute
-  '/api/events': { windowMs: 60000, maxRequests: 20 }, // 20 per minute for event operations
-  default: { windowMs: 60000, maxRequests: 100 }, // 100 per minute for other APIs
-};
-
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -115,6 +116,17 @@ export async function middleware(request: NextRequest) {
   response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
   response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
+  // Rate limits from ROUTE_RATE_LIMITS (src/lib/rate-limit.ts), counted separately
+  // from the handlers' own checks so a request is not counted twice
+  const routeRateLimit = getRouteRateLimit(pathname);
+  if (routeRateLimit) {
+    const limited = await rateLimit({
+      ...routeRateLimit,
+      name: `edge:${getRateLimitRuleKey(routeRateLimit)}`,
+    })(request);
+    if (limited) return limited;
+  }
+
   // Check if route requires authentication
   const routeType = getRouteType(pathname, request.method);
 
@@ -162,22 +174,25 @@ export async function middleware(request: NextRequest) {
 }
 
 // Route type definition for better type safety
-type RouteType = 'admin' | 'organizer' | 'camera' | 'public';
+type RouteType = 'account' | 'owner' | 'organizer' | 'camera' | 'public';
 
 // Determine route type based on pathname and method
 function getRouteType(pathname: string, method: string): RouteType {
-  // Admin routes
-  if (pathname === '/api/events' && method === 'POST') return 'admin';
-  if (pathname.match(/^\/api\/events\/[^/]+$/) && (method === 'PUT' || method === 'DELETE')) return 'admin';
-  if (pathname === '/api/auth/admin') return 'admin';
+  // Account routes
+  if (pathname === '/api/events' && method === 'POST') return 'account';
+
+  // Owner routes
+  if (pathname.match(/^\/api\/events\/[^/]+$/) && method === 'DELETE') return 'owner';
 
   // Organizer routes
+  if (pathname.match(/^\/api\/events\/[^/]+$/) && method === 'PUT') return 'organizer';
   if (pathname.match(/^\/api\/events\/[^/]+\/status$/) && method === 'PUT') return 'organizer';
   if (pathname.match(/^\/api\/events\/[^/]+\/cameras$/) && method === 'GET') return 'organizer';
 
   // Camera routes
   if (pathname.match(/^\/api\/events\/[^/]+\/join$/) && method === 'POST') return 'camera';
   if (pathname.match(/^\/api\/events\/[^/]+\/cameras\/[^/]+\/status$/) && method === 'PUT') return 'camera';
+  if (pathname.match(/^\/api\/events\/[^/]+\/cameras\/[^/]+\/heartbeat$/) && method === 'POST') return 'camera';
 
   // Default to public
   return 'public';
@@ -191,25 +206,26 @@ async function checkRouteAccess(
   _request: NextRequest // Prefixed with _ to indicate intentionally unused
 ): Promise<boolean> {
   switch (routeType) {
-    case 'admin':
-      return payload.type === 'admin';
-
-    case 'organizer':
-      // Admin or organizer with matching event ID
-      if (payload.type === 'admin') return true;
-      if (payload.type === 'organizer') {
-        const eventId = extractEventIdFromPath(pathname);
-        return eventId === payload.eventId;
-      }
-      return false;
-
-    case 'camera':
-      // Admin, organizer, or camera operator with matching event ID
-      if (payload.type === 'admin') return true;
+    case 'account':
+      return payload.type === 'organizer';
+
+    case 'owner':
+    case 'organizer': {
+      // Organizers reach an event through their membership, never the token alone
+      const eventId = extractEventIdFromPath(pathname);
+      if (!eventId) return false;
+      const role = await AuthService.getEventRole(payload, eventId);
+      return hasEventRole(role, routeType === 'owner' ? 'owner' : 'monitor');
+    }
+
+    case 'camera': {
+      // Organizers of the event, or camera operators with matching event ID
+      // whose participation code has not been rotated since they joined
       const eventId = extractEventIdFromPath(pathname);
-      if (payload.type === 'organizer' && eventId === payload.eventId) return true;
-      if (payload.type === 'camera' && eventId === payload.eventId) return true;
-      return false;
+      if (!eventId) return false;
+      if (payload.type === 'camera') return AuthService.isCurrentCameraToken(payload, eventId);
+      return (await AuthService.getEventRole(payload, eventId)) !== null;
+    }
 
     default:
       return true; // Public routes
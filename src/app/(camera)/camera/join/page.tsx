@@ -1,8 +1,11 @@
 import type { Metadata } from 'next';
 import { Suspense } from 'react';
 import { CameraJoinForm } from '@/components/camera/CameraJoinForm';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent } from '@/components/ui/card';
-import { Camera, Loader2 } from 'lucide-react';
+import { CAMERA_INVITE_ERROR_MESSAGES, getCameraInviteStatus } from '@/lib/camera-invite-status';
+import { CameraInvites } from '@/lib/camera-invites';
+import { AlertCircle, Camera, Loader2 } from 'lucide-react';
 
 // Next.js 15: App Router専用の最適化設定
 export const dynamic = 'force-dynamic'; // searchParamsを使用するため動的
@@ -14,10 +17,38 @@ export const metadata: Metadata = {
 };
 
 interface CameraJoinPageProps {
-  searchParams: Promise<{ code?: string }>;
+  searchParams: Promise<{ code?: string; invite?: string }>;
 }
 
-function CameraJoinContent({ participationCode }: { participationCode?: string }) {
+// 招待リンクで開いた場合: 使える招待なら参加コードの入力を省き、使えなければ理由を表示する
+type CameraInviteLinkState =
+  | { token: string; participantName?: string }
+  | { error: string };
+
+async function getInviteLinkState(token: string): Promise<CameraInviteLinkState> {
+  const invite = await CameraInvites.inspect(token).catch((error) => {
+    console.error('Failed to look up camera invite:', error);
+    return null;
+  });
+  if (!invite) {
+    return { error: CAMERA_INVITE_ERROR_MESSAGES.invalid };
+  }
+
+  const status = getCameraInviteStatus(invite);
+  if (status !== 'active') {
+    return { error: CAMERA_INVITE_ERROR_MESSAGES[status] };
+  }
+
+  return { token, participantName: invite.participantName };
+}
+
+function CameraJoinContent({
+  participationCode,
+  invite,
+}: {
+  participationCode?: string;
+  invite?: CameraInviteLinkState;
+}) {
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8 text-center">
@@ -30,7 +61,19 @@ function CameraJoinContent({ participationCode }: { participationCode?: string }
         </p>
       </div>
 
-      <CameraJoinForm initialParticipationCode={participationCode} />
+      {invite && 'error' in invite && (
+        <Alert variant="destructive" className="max-w-md mx-auto mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {invite.error} 参加コードをお持ちの場合は、下のフォームから参加できます。
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <CameraJoinForm
+        initialParticipationCode={participationCode}
+        invite={invite && 'token' in invite ? invite : undefined}
+      />
 
       <div className="mt-8 text-center">
         <Card className="max-w-md mx-auto">
@@ -49,7 +92,8 @@ function CameraJoinContent({ participationCode }: { participationCode?: string }
 }
 
 export default async function CameraJoinPage({ searchParams }: CameraJoinPageProps) {
-  const { code } = await searchParams;
+  const { code, invite } = await searchParams;
+  const inviteState = invite ? await getInviteLinkState(invite) : undefined;
 
   return (
     <Suspense fallback={
@@ -58,7 +102,7 @@ export default async function CameraJoinPage({ searchParams }: CameraJoinPagePro
         <p>読み込み中...</p>
       </div>
     }>
-      <CameraJoinContent participationCode={code} />
+      <CameraJoinContent participationCode={code} invite={inviteState} />
     </Suspense>
   );
 }
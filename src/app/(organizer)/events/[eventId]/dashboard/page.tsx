@@ -1,12 +1,28 @@
 import type { Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, redirect } from 'next/navigation';
 import { headers } from 'next/headers';
 import { after } from 'next/server';
-import { EventService, CameraConnectionService, StreamStatusService } from '@/lib/database';
+import {
+  EventService,
+  CameraConnectionService,
+  CameraInviteService,
+  EventMemberService,
+  EventSecretService,
+  OrganizerInvitationService,
+  StreamStatusService,
+} from '@/lib/database';
+import { hasEventRole } from '@/lib/event-roles';
+import { getLoginUrl, getSessionEventRole, getSessionOrganizerId } from '@/lib/organizer-session';
 import { EventDashboard } from '@/components/events/EventDashboard';
 import { CameraStatusGrid } from '@/components/events/CameraStatusGrid';
 import { QRCodeGenerator } from '@/components/events/QRCodeGenerator';
+import { CameraPinCard } from '@/components/events/CameraPinCard';
+import { CameraInviteCard } from '@/components/events/CameraInviteCard';
+import { ViewerPassphraseCard } from '@/components/events/ViewerPassphraseCard';
+import { EventMembersCard } from '@/components/events/EventMembersCard';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Eye } from 'lucide-react';
 
 // Next.js 15: App Router専用の最適化設定
 export const dynamic = 'force-dynamic'; // リアルタイムダッシュボードデータのため
@@ -68,9 +84,28 @@ export default async function EventDashboardPage({ params }: DashboardPageProps)
   const { eventId } = await params;
   const headersList = await headers();
 
+  // ダッシュボードはイベントの主催者メンバーだけが開ける
+  const [organizerId, role] = await Promise.all([
+    getSessionOrganizerId(),
+    getSessionEventRole(eventId).catch(() => null),
+  ]);
+  if (!organizerId) {
+    redirect(getLoginUrl(`/events/${eventId}/dashboard`));
+  }
+  if (!role) {
+    notFound();
+  }
+  // モニターは閲覧のみ
+  const canOperate = hasEventRole(role, 'operator');
+
   let event: Awaited<ReturnType<typeof EventService.getById>>;
   let cameras: Awaited<ReturnType<typeof CameraConnectionService.getByEventId>>;
   let streamStatus: Awaited<ReturnType<typeof StreamStatusService.getByEventId>>;
+  let pinEnabled: boolean;
+  let passphraseEnabled: boolean;
+  let invites: Awaited<ReturnType<typeof CameraInviteService.getByEventId>>;
+  let members: Awaited<ReturnType<typeof EventMemberService.getByEventId>>;
+  let invitations: Awaited<ReturnType<typeof OrganizerInvitationService.getByEventId>>;
 
   try {
     // Fetch event data
@@ -80,9 +115,14 @@ export default async function EventDashboardPage({ params }: DashboardPageProps)
     }
 
     // Fetch related data
-    [cameras, streamStatus] = await Promise.all([
+    [cameras, streamStatus, pinEnabled, passphraseEnabled, invites, members, invitations] = await Promise.all([
       CameraConnectionService.getByEventId(eventId).catch(() => []),
       StreamStatusService.getByEventId(eventId).catch(() => null),
+      EventSecretService.getCameraPinHash(eventId).then(Boolean).catch(() => false),
+      EventSecretService.getViewerPassphraseHash(eventId).then(Boolean).catch(() => false),
+      CameraInviteService.getByEventId(eventId).catch(() => []),
+      EventMemberService.getByEventId(eventId).catch(() => []),
+      OrganizerInvitationService.getByEventId(eventId).catch(() => []),
     ]);
 
     // after() APIを使用してダッシュボードアクセスのアナリティクスを応答後に記録
@@ -116,11 +156,21 @@ export default async function EventDashboardPage({ params }: DashboardPageProps)
 
   return (
     <div className="container mx-auto py-8 px-4">
+      {!canOperate && (
+        <Alert className="mb-6">
+          <Eye className="h-4 w-4" />
+          <AlertDescription>
+            モニターとして閲覧しています。配信や設定の操作はオーナーかオペレーターに依頼してください
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="overview">概要</TabsTrigger>
           <TabsTrigger value="cameras">カメラ管理</TabsTrigger>
           <TabsTrigger value="qrcode">参加QR</TabsTrigger>
+          <TabsTrigger value="members">主催者</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -129,17 +179,39 @@ export default async function EventDashboardPage({ params }: DashboardPageProps)
             initialCameras={cameras}
             initialStreamStatus={streamStatus || undefined}
           />
+          <ViewerPassphraseCard eventId={eventId} passphraseEnabled={passphraseEnabled} />
         </TabsContent>
 
         <TabsContent value="cameras" className="space-y-6">
           <CameraStatusGrid
             eventId={eventId}
             initialCameras={cameras}
+            activeCameraId={streamStatus?.currentActiveCamera}
           />
         </TabsContent>
 
         <TabsContent value="qrcode" className="space-y-6">
           <QRCodeGenerator event={event} />
+          <CameraPinCard
+            eventId={eventId}
+            pinEnabled={pinEnabled}
+            disabled={!canOperate || event.status === 'ended'}
+          />
+          <CameraInviteCard
+            eventId={eventId}
+            initialInvites={invites}
+            disabled={!canOperate || event.status === 'ended'}
+          />
+        </TabsContent>
+
+        <TabsContent value="members" className="space-y-6">
+          <EventMembersCard
+            eventId={eventId}
+            currentOrganizerId={organizerId}
+            role={role}
+            initialMembers={members}
+            initialInvitations={invitations}
+          />
         </TabsContent>
       </Tabs>
     </div>
@@ -1,15 +1,20 @@
 import type { Metadata } from 'next';
 import { EventCreationForm } from '@/components/events/EventCreationForm';
+import { YouTubeConnectionCard } from '@/components/events/YouTubeConnectionCard';
+import { requireSessionOrganizer } from '@/lib/organizer-session';
 
-// Next.js 15: 静的ルート最適化のためのdynamic設定
-export const dynamic = 'force-static';
+// Next.js 15: 主催者のセッションを確認するため動的
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs'; // データベース接続のためNode.jsランタイム
 
 export const metadata: Metadata = {
   title: 'イベント作成 - Harecame',
   description: '新しいライブ配信イベントを作成します',
 };
 
-export default function CreateEventPage() {
+export default async function CreateEventPage() {
+  await requireSessionOrganizer('/events/create');
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8">
@@ -21,6 +26,7 @@ export default function CreateEventPage() {
         </p>
       </div>
 
+      <YouTubeConnectionCard />
       <EventCreationForm />
     </div>
   );
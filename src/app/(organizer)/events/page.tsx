@@ -1,9 +1,11 @@
 import type { Metadata } from 'next';
 import Link from 'next/link';
-import { EventService } from '@/lib/database';
+import { EventMemberService } from '@/lib/database';
+import { EVENT_ROLE_LABELS } from '@/lib/event-roles';
+import { requireSessionOrganizer } from '@/lib/organizer-session';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Calendar, Users, Video } from 'lucide-react';
+import { Plus, Calendar, Shield, Users, Video } from 'lucide-react';
 
 // Next.js 15: App Router専用の最適化設定
 export const dynamic = 'force-dynamic'; // イベントリストは動的データのため
@@ -15,13 +17,16 @@ export const metadata: Metadata = {
 };
 
 export default async function EventsPage() {
-  let events: Awaited<ReturnType<typeof EventService.list>> = [];
+  const organizer = await requireSessionOrganizer('/events');
+
+  // 自分がメンバーになっているイベントだけを表示
+  let memberships: Awaited<ReturnType<typeof EventMemberService.getEventsByOrganizerId>> = [];
 
   try {
-    events = await EventService.list({ limit: 20 });
+    memberships = await EventMemberService.getEventsByOrganizerId(organizer.id);
   } catch (error) {
     console.error('Failed to load events:', error);
-    events = [];
+    memberships = [];
   }
 
   return (
@@ -41,13 +46,13 @@ export default async function EventsPage() {
         </Link>
       </div>
 
-      {events.length === 0 ? (
+      {memberships.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
             <Video className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-lg font-semibold mb-2">イベントがありません</h3>
             <p className="text-muted-foreground mb-4">
-              最初のライブ配信イベントを作成してみましょう
+              最初のライブ配信イベントを作成してみましょう。共同主催者として招待された場合は、招待リンクを開いてください
             </p>
             <Link href="/events/create">
               <Button>
@@ -59,7 +64,7 @@ export default async function EventsPage() {
         </Card>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {events.map((event) => (
+          {memberships.map(({ event, role }) => (
             <Card key={event.id} className="hover:shadow-md transition-shadow">
               <CardHeader>
                 <div className="flex items-start justify-between">
@@ -95,6 +100,10 @@ export default async function EventsPage() {
                     <Users className="h-4 w-4" />
                     参加コード: <code className="font-mono font-semibold">{event.participationCode}</code>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Shield className="h-4 w-4" />
+                    あなたの権限: {EVENT_ROLE_LABELS[role]}
+                  </div>
                 </div>
 
                 <div className="flex gap-2 mt-4">
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Loader2, UserCheck } from 'lucide-react';
+import { acceptOrganizerInvitationAction } from '@/app/actions/events';
+
+interface AcceptInvitationButtonProps {
+  token: string;
+}
+
+// 招待を承諾してイベントのダッシュボードへ移動する
+export function AcceptInvitationButton({ token }: AcceptInvitationButtonProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleAccept = () => {
+    startTransition(async () => {
+      setError(null);
+      const result = await acceptOrganizerInvitationAction(token);
+      if (!result.success || !result.eventId) {
+        setError(result.message);
+        return;
+      }
+
+      router.push(`/events/${result.eventId}/dashboard`);
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Button onClick={handleAccept} disabled={isPending} className="w-full">
+        {isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <UserCheck className="h-4 w-4 mr-2" />
+        )}
+        招待を承諾する
+      </Button>
+    </div>
+  );
+}
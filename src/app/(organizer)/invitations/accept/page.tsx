@@ -0,0 +1,100 @@
+import type { Metadata } from 'next';
+import { OrganizerLoginForm } from '@/components/auth/OrganizerLoginForm';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EventService } from '@/lib/database';
+import {
+  EVENT_ROLE_LABELS,
+  ORGANIZER_INVITATION_ERROR_MESSAGES,
+  getOrganizerInvitationStatus,
+} from '@/lib/event-roles';
+import { OrganizerInvitations } from '@/lib/organizer-accounts';
+import { getSessionOrganizer } from '@/lib/organizer-session';
+import { AlertCircle, Users } from 'lucide-react';
+import { AcceptInvitationButton } from './AcceptInvitationButton';
+
+// Next.js 15: App Router専用の最適化設定
+export const dynamic = 'force-dynamic'; // searchParamsとセッションCookieを使用するため動的
+export const runtime = 'nodejs'; // データベース接続のためNode.jsランタイム
+
+export const metadata: Metadata = {
+  title: '共同主催者の招待 - Harecame',
+  description: 'イベントの共同主催者として参加します',
+};
+
+interface AcceptInvitationPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+function InvitationError({ message }: { message: string }) {
+  return (
+    <div className="container mx-auto py-16 px-4">
+      <Alert variant="destructive" className="max-w-md mx-auto">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{message}</AlertDescription>
+      </Alert>
+    </div>
+  );
+}
+
+export default async function AcceptInvitationPage({ searchParams }: AcceptInvitationPageProps) {
+  const { token } = await searchParams;
+  if (!token) {
+    return <InvitationError message={ORGANIZER_INVITATION_ERROR_MESSAGES.invalid} />;
+  }
+
+  const invitation = await OrganizerInvitations.inspect(token).catch((error) => {
+    console.error('Failed to look up organizer invitation:', error);
+    return null;
+  });
+  const event = invitation ? await EventService.getById(invitation.eventId).catch(() => null) : null;
+  if (!invitation || !event) {
+    return <InvitationError message={ORGANIZER_INVITATION_ERROR_MESSAGES.invalid} />;
+  }
+
+  const status = getOrganizerInvitationStatus(invitation);
+  if (status !== 'pending') {
+    return <InvitationError message={ORGANIZER_INVITATION_ERROR_MESSAGES[status]} />;
+  }
+
+  const organizer = await getSessionOrganizer();
+  const isInvitedAccount = organizer?.email === invitation.email;
+
+  return (
+    <div className="container mx-auto py-16 px-4 space-y-6">
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Users className="h-8 w-8 text-blue-600" />
+          </div>
+          <CardTitle>{event.title}</CardTitle>
+          <CardDescription>
+            {EVENT_ROLE_LABELS[invitation.role]}として共同主催者に招待されています（{invitation.email}）
+          </CardDescription>
+        </CardHeader>
+        {organizer && (
+          <CardContent>
+            {isInvitedAccount ? (
+              <AcceptInvitationButton token={token} />
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {ORGANIZER_INVITATION_ERROR_MESSAGES['wrong-account']}（現在のアカウント: {organizer.email}）
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* 招待されたメールアドレスでログイン（またはアカウント作成）してもらう */}
+      {!isInvitedAccount && (
+        <OrganizerLoginForm
+          redirectTo={`/invitations/accept?token=${encodeURIComponent(token)}`}
+          defaultEmail={invitation.email}
+        />
+      )}
+    </div>
+  );
+}
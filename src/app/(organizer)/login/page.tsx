@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { OrganizerLoginForm } from '@/components/auth/OrganizerLoginForm';
+import { getSessionOrganizer, sanitizeLoginNext } from '@/lib/organizer-session';
+
+// Next.js 15: App Router専用の最適化設定
+export const dynamic = 'force-dynamic'; // セッションCookieを参照するため動的
+export const runtime = 'nodejs'; // データベース接続のためNode.jsランタイム
+
+export const metadata: Metadata = {
+  title: '主催者ログイン - Harecame',
+  description: '主催者アカウントでログインしてイベントを管理します',
+};
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const next = sanitizeLoginNext((await searchParams).next);
+
+  // ログイン済みならそのまま戻る
+  if (await getSessionOrganizer()) {
+    redirect(next);
+  }
+
+  return (
+    <div className="container mx-auto py-16 px-4">
+      <OrganizerLoginForm redirectTo={next} />
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { Suspense } from 'react';
 import { notFound } from 'next/navigation';
+import { cookies } from 'next/headers';
 import { after } from 'next/server';
 import { StreamViewer } from '@/components/stream/StreamViewer';
+import { ViewerPassphraseGate } from '@/components/stream/ViewerPassphraseGate';
 import { getEventById } from '@/app/actions/events';
+import { SessionService } from '@/lib/auth';
+import { ViewerAccess } from '@/lib/viewer-access';
 
 // Next.js 15: App Router専用の最適化設定
 export const dynamic = 'force-dynamic'; // 動的パラメータとリアルタイムストリームのため
-export const runtime = 'edge'; // 視聴者向けページはエッジランタイムで高速化
+export const runtime = 'nodejs'; // 視聴パスフレーズの確認にサービスロールでのDBアクセスが必要なため
 export const revalidate = 60; // 1分間隔でイベント情報を再検証
 
 interface ViewerPageProps {
@@ -22,6 +26,13 @@ export default async function ViewerPage({ params }: ViewerPageProps) {
     notFound();
   }
 
+  // パスフレーズ付きイベントは視聴セッションのCookieがある場合のみ配信URLを渡す
+  const cookieStore = await cookies();
+  const viewerAccess = await ViewerAccess.check(
+    eventId,
+    cookieStore.get(SessionService.getViewerCookieName(eventId))?.value
+  );
+
   // Next.js 15: after() APIを使用して視聴開始のアナリティクスを応答後に記録
   after(async () => {
     try {
@@ -30,6 +41,7 @@ export default async function ViewerPage({ params }: ViewerPageProps) {
         eventTitle: event.title,
         timestamp: new Date().toISOString(),
         hasStreamUrl: !!event.youtubeStreamUrl,
+        viewerAccess,
       });
       // 実際の実装では、アナリティクスサービスに送信
       // await analyticsService.trackViewerAccess({ eventId, timestamp: new Date() });
@@ -51,20 +63,25 @@ export default async function ViewerPage({ params }: ViewerPageProps) {
             )}
           </div>
 
-          <Suspense fallback={
-            <div className="aspect-video bg-gray-200 rounded-lg flex items-center justify-center">
-              <div className="text-center">
-                <div className="animate-spin rounded-full h-8 w-8 sm:h-12 sm:w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                <p className="text-sm sm:text-base text-gray-600">ストリームを読み込み中...</p>
+          {!viewerAccess.granted ? (
+            <ViewerPassphraseGate eventId={eventId} />
+          ) : (
+            <Suspense fallback={
+              <div className="aspect-video bg-gray-200 rounded-lg flex items-center justify-center">
+                <div className="text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 sm:h-12 sm:w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                  <p className="text-sm sm:text-base text-gray-600">ストリームを読み込み中...</p>
+                </div>
               </div>
-            </div>
-          }>
-            <StreamViewer
-              eventId={eventId}
-              streamUrl={event.youtubeStreamUrl || ''}
-              eventTitle={event.title}
-            />
-          </Suspense>
+            }>
+              <StreamViewer
+                eventId={eventId}
+                streamUrl={event.youtubeStreamUrl || ''}
+                eventTitle={event.title}
+                viewerAccess={viewerAccess}
+              />
+            </Suspense>
+          )}
         </div>
       </div>
     </div>
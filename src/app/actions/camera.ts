@@ -1,43 +1,239 @@
 'use server';
 
-import { EventService, CameraConnectionService } from '@/lib/database';
-import { generateAccessToken } from '@/lib/livekit';
+import { cookies, headers } from 'next/headers';
 import { AuthService } from '@/lib/auth';
+import { CodeGuard, getCodeGuardClientKey } from '@/lib/code-guard';
+import { CameraAdmission } from '@/lib/camera-admission';
+import { DEFAULT_ADMISSION_MODE } from '@/lib/camera-capacity';
+import { CAMERA_INVITE_ERROR_MESSAGES } from '@/lib/camera-invite-status';
+import { CameraInvites } from '@/lib/camera-invites';
+import {
+  CAMERA_DEVICE_COOKIE,
+  CAMERA_DEVICE_COOKIE_OPTIONS,
+  CameraModeration,
+  resolveCameraDeviceId,
+} from '@/lib/camera-moderation';
+import { CameraReaper } from '@/lib/camera-reaper';
+import type { AdmissionMode, EventClient } from '@/types';
 import { z } from 'zod';
 
+// Device details the join form sends along
+const deviceInfoSchema = z.object({
+  userAgent: z.string().optional(),
+  screenResolution: z.string().optional(),
+  connectionType: z.string().optional(),
+  platform: z.string().optional(),
+  browser: z.string().optional(),
+}).optional();
+
+const participantNameSchema = z.string()
+  .max(100, '参加者名は100文字以内で入力してください')
+  .optional();
+
 // Form validation schema
 const cameraJoinSchema = z.object({
   participationCode: z.string()
     .min(1, '参加コードは必須です')
     .max(10, '参加コードは10文字以内で入力してください')
     .regex(/^[A-Z0-9]+$/, '参加コードは英数字（大文字）で入力してください'),
-  participantName: z.string()
-    .max(100, '参加者名は100文字以内で入力してください')
+  participantName: participantNameSchema,
+  pin: z.string()
+    .regex(/^\d{4,8}$/, 'PINは4〜8桁の数字で入力してください')
     .optional(),
-  deviceInfo: z.object({
-    userAgent: z.string().optional(),
-    screenResolution: z.string().optional(),
-    connectionType: z.string().optional(),
-    platform: z.string().optional(),
-    browser: z.string().optional(),
-  }).optional(),
+  deviceInfo: deviceInfoSchema,
+});
+
+// Joining through an organizer's invite link instead of the participation code
+const cameraInviteJoinSchema = z.object({
+  inviteToken: z.string().min(1).max(2048),
+  participantName: participantNameSchema,
+  deviceInfo: deviceInfoSchema,
 });
 
+type CameraJoinRequest = {
+  participantName?: string;
+  deviceInfo?: z.infer<typeof deviceInfoSchema>;
+};
+
 export type CameraJoinState = {
   success: boolean;
   message: string;
   errors?: {
     participationCode?: string[];
     participantName?: string[];
+    pin?: string[];
   };
+  // The event requires a PIN along with the participation code
+  pinRequired?: boolean;
   eventId?: string;
   roomToken?: string;
   roomName?: string;
   cameraConnectionId?: string;
   authToken?: string;
-  liveKitToken?: string;
+  // 'waiting' / 'pending': no room token yet, poll the admission endpoint with authToken
+  // ('pending' also uploads preview snapshots for the organizer)
+  admissionStatus?: 'admitted' | 'waiting' | 'pending';
+  admissionMode?: AdmissionMode;
+  waitlistPosition?: number;
 };
 
+// 失敗が続いた後は、待ち時間が過ぎるまで再試行できない
+function getTooManyAttemptsMessage(retryAfterMs: number): string {
+  return `試行回数が多すぎます。${Math.ceil(retryAfterMs / 1000)}秒後にもう一度お試しください。`;
+}
+
+function tooManyAttempts(retryAfterMs: number, pinRequired: boolean): CameraJoinState {
+  return {
+    success: false,
+    message: getTooManyAttemptsMessage(retryAfterMs),
+    pinRequired: pinRequired || undefined,
+  };
+}
+
+function getDeviceInfo(formData: FormData) {
+  return {
+    userAgent: formData.get('userAgent') as string,
+    screenResolution: formData.get('screenResolution') as string,
+    connectionType: formData.get('connectionType') as string,
+    platform: formData.get('platform') as string,
+    browser: formData.get('browser') as string,
+  };
+}
+
+// This browser's server-issued device id, set as a cookie on first join
+async function getCameraDeviceId(): Promise<string> {
+  const cookieStore = await cookies();
+  const { deviceId, issued } = resolveCameraDeviceId(cookieStore.get(CAMERA_DEVICE_COOKIE)?.value);
+  if (issued) {
+    cookieStore.set(CAMERA_DEVICE_COOKIE, deviceId, CAMERA_DEVICE_COOKIE_OPTIONS);
+  }
+  return deviceId;
+}
+
+// Shared by code and invite joins once the event is known: take a camera slot
+// (or a place in line) and issue the tokens. Invite joins are tied to their
+// invite instead of the participation code, so a code rotation keeps them.
+async function admitCamera(
+  event: EventClient,
+  { participantName, deviceInfo }: CameraJoinRequest,
+  inviteId?: string
+): Promise<CameraJoinState> {
+  const codeVersion = inviteId ? undefined : event.participationCodeVersion ?? 1;
+  // Generate unique participant ID
+  const participantId = `camera_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  console.log('Generated participant ID:', participantId);
+  const deviceId = await getCameraDeviceId();
+
+  // 主催者に参加を禁止された端末は参加できない
+  const ban = await CameraModeration.findBan(event.id, { deviceId });
+  if (ban) {
+    return {
+      success: false,
+      message: 'このイベントへの参加は主催者により制限されています。',
+    };
+  }
+
+  // Free the slots of cameras that stopped sending heartbeats
+  CameraReaper.ensureStarted();
+  await CameraReaper.reapStaleConnections().catch(error => {
+    console.error('Failed to reap stale camera connections:', error);
+  });
+
+  // Take a camera slot, or a place in line when the event is full / needs approval
+  const admission = await CameraAdmission.requestSlot(event, {
+    participantId,
+    participantName,
+    deviceInfo: { ...deviceInfo, deviceId },
+    codeVersion,
+  });
+
+  if (admission.status === 'full') {
+    return {
+      success: false,
+      message: `このイベントのカメラは上限（${admission.maxCameras}台）に達しています。しばらくしてからもう一度お試しください。`,
+    };
+  }
+
+  const cameraConnection = admission.camera;
+  console.log('Camera connection created:', cameraConnection.id, admission.status);
+
+  // Generate authentication token for camera operator
+  let authToken: string;
+  try {
+    console.log('Generating camera authentication token...');
+    authToken = await AuthService.generateCameraToken(
+      participantId,
+      event.id,
+      participantName,
+      { codeVersion, deviceId, inviteId }
+    );
+    console.log('Camera authentication token generated successfully');
+  } catch (error) {
+    console.error('Failed to generate camera authentication token:', error);
+    return {
+      success: false,
+      message: '認証トークンの生成に失敗しました。もう一度お試しください。',
+    };
+  }
+
+  if (admission.status === 'pending') {
+    return {
+      success: true,
+      message: '主催者の承認を待っています',
+      eventId: event.id,
+      cameraConnectionId: cameraConnection.id,
+      authToken,
+      admissionStatus: 'pending',
+      admissionMode: 'approval',
+    };
+  }
+
+  if (admission.status === 'waiting') {
+    return {
+      success: true,
+      message: `カメラの台数が上限に達しているため順番待ちです（${admission.position}番目）`,
+      eventId: event.id,
+      cameraConnectionId: cameraConnection.id,
+      authToken,
+      admissionStatus: 'waiting',
+      admissionMode: event.admissionMode ?? DEFAULT_ADMISSION_MODE,
+      waitlistPosition: admission.position,
+    };
+  }
+
+  // Generate LiveKit access token
+  let roomToken: string;
+  try {
+    console.log('Generating LiveKit token for room:', event.livekitRoomName);
+    roomToken = await AuthService.generateLiveKitToken({
+      identity: participantId,
+      roomName: event.livekitRoomName,
+      role: 'camera',
+      participantName,
+      cameraConnectionId: cameraConnection.id,
+    });
+    console.log('LiveKit token generated successfully');
+  } catch (error) {
+    console.error('Failed to generate LiveKit token:', error);
+    return {
+      success: false,
+      message: 'アクセストークンの生成に失敗しました。もう一度お試しください。',
+    };
+  }
+
+  console.log('Camera join successful, returning success state');
+  return {
+    success: true,
+    message: 'イベントに参加しました',
+    eventId: event.id,
+    roomToken,
+    roomName: event.livekitRoomName,
+    cameraConnectionId: cameraConnection.id,
+    authToken,
+    admissionStatus: 'admitted',
+  };
+}
+
 export async function joinCameraAction(
   prevState: CameraJoinState,
   formData: FormData
@@ -49,13 +245,8 @@ export async function joinCameraAction(
     const rawData = {
       participationCode: (formData.get('participationCode') as string)?.toUpperCase(),
       participantName: formData.get('participantName') as string,
-      deviceInfo: {
-        userAgent: formData.get('userAgent') as string,
-        screenResolution: formData.get('screenResolution') as string,
-        connectionType: formData.get('connectionType') as string,
-        platform: formData.get('platform') as string,
-        browser: formData.get('browser') as string,
-      },
+      pin: (formData.get('pin') as string) || undefined,
+      deviceInfo: getDeviceInfo(formData),
     };
 
     console.log('Extracted form data:', { 
@@ -75,14 +266,23 @@ export async function joinCameraAction(
       };
     }
 
-    const { participationCode, participantName, deviceInfo } = validationResult.data;
+    const { participationCode, participantName, pin, deviceInfo } = validationResult.data;
+
+    // 誤った参加コードやPINが続いた端末は待ち時間が必要
+    const clientKey = getCodeGuardClientKey(await headers());
+    const guard = await CodeGuard.check(clientKey);
+    if (!guard.allowed) {
+      return tooManyAttempts(guard.retryAfterMs, Boolean(pin));
+    }
 
     console.log('Looking for event with participation code:', participationCode);
 
-    // Find event by participation code
-    const event = await EventService.getByParticipationCode(participationCode);
-    if (!event) {
+    const verification = await CodeGuard.verifyCode(clientKey, participationCode, pin);
+    if (verification.status === 'not-found') {
       console.error('Event not found for participation code:', participationCode);
+      if (verification.retryAfterMs > 0) {
+        return tooManyAttempts(verification.retryAfterMs, false);
+      }
       return {
         success: false,
         message: '参加コードが見つかりません。正しいコードを入力してください。',
@@ -92,10 +292,11 @@ export async function joinCameraAction(
       };
     }
 
+    const { event } = verification;
     console.log('Found event:', { id: event.id, title: event.title, status: event.status });
 
     // Check if event is active
-    if (event.status === 'ended') {
+    if (verification.status === 'ended') {
       console.error('Event has ended:', event.id);
       return {
         success: false,
@@ -106,86 +307,92 @@ export async function joinCameraAction(
       };
     }
 
-    // Generate unique participant ID
-    const participantId = `camera_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-    console.log('Generated participant ID:', participantId);
-
-    // Create camera connection record
-    console.log('Creating camera connection record...');
-    const cameraConnection = await CameraConnectionService.create({
-      eventId: event.id,
-      participantId,
-      participantName: participantName || undefined,
-      deviceInfo: deviceInfo || {},
-    });
-    console.log('Camera connection created:', cameraConnection.id);
-
-    // Generate authentication token for camera operator
-    let authToken: string;
-    try {
-      console.log('Generating camera authentication token...');
-      authToken = await AuthService.generateCameraToken(
-        participantId,
-        event.id,
-        participantName || undefined
-      );
-      console.log('Camera authentication token generated successfully');
-    } catch (error) {
-      console.error('Failed to generate camera authentication token:', error);
+    if (verification.status === 'pin-required') {
       return {
         success: false,
-        message: '認証トークンの生成に失敗しました。もう一度お試しください。',
+        message: 'このイベントに参加するにはPINが必要です。',
+        errors: {
+          pin: ['PINを入力してください'],
+        },
+        pinRequired: true,
       };
     }
 
-    // Generate LiveKit access token
-    let roomToken: string;
-    let liveKitToken: string;
-    try {
-      console.log('Generating LiveKit token for room:', event.livekitRoomName);
-      roomToken = await generateAccessToken(
-        event.livekitRoomName,
-        participantId,
-        {
-          canPublish: true,
-          canSubscribe: true,
-          canPublishData: true,
-          metadata: JSON.stringify({
-            participantName: participantName || participantId,
-            cameraConnectionId: cameraConnection.id,
-          }),
-        }
-      );
-      
-      // Generate additional LiveKit token using AuthService
-      liveKitToken = await AuthService.generateLiveKitToken(
-        participantId,
-        event.id,
-        participantName || undefined
-      );
-      
-      console.log('LiveKit tokens generated successfully');
-    } catch (error) {
-      console.error('Failed to generate LiveKit token:', error);
+    if (verification.status === 'wrong-pin') {
+      if (verification.retryAfterMs > 0) {
+        return tooManyAttempts(verification.retryAfterMs, true);
+      }
       return {
         success: false,
-        message: 'アクセストークンの生成に失敗しました。もう一度お試しください。',
+        message: 'PINが正しくありません。',
+        errors: {
+          pin: ['PINが正しくありません'],
+        },
+        pinRequired: true,
       };
     }
 
-    console.log('Camera join successful, returning success state');
+    return await admitCamera(event, {
+      participantName: participantName || undefined,
+      deviceInfo,
+    });
+  } catch (error) {
+    console.error('Failed to join camera:', error);
     return {
-      success: true,
-      message: 'イベントに参加しました',
-      eventId: event.id,
-      roomToken,
-      roomName: event.livekitRoomName,
-      cameraConnectionId: cameraConnection.id,
-      authToken,
-      liveKitToken,
+      success: false,
+      message: 'カメラの参加に失敗しました。もう一度お試しください。',
     };
+  }
+}
+
+// 招待リンクで参加: 参加コードとPINの代わりに、主催者が発行した招待を1回分使う
+export async function joinCameraWithInviteAction(
+  prevState: CameraJoinState,
+  formData: FormData
+): Promise<CameraJoinState> {
+  try {
+    const validationResult = cameraInviteJoinSchema.safeParse({
+      inviteToken: formData.get('inviteToken') as string,
+      participantName: formData.get('participantName') as string,
+      deviceInfo: getDeviceInfo(formData),
+    });
+
+    if (!validationResult.success) {
+      return {
+        success: false,
+        message: '入力内容に誤りがあります',
+        errors: {
+          participantName: validationResult.error.flatten().fieldErrors.participantName,
+        },
+      };
+    }
+
+    const { inviteToken, participantName, deviceInfo } = validationResult.data;
+
+    const redemption = await CameraInvites.redeem(inviteToken);
+    if (redemption.status !== 'ok') {
+      return { success: false, message: CAMERA_INVITE_ERROR_MESSAGES[redemption.status] };
+    }
+
+    const { invite, event } = redemption;
+    console.log('Camera invite redeemed:', { inviteId: invite.id, eventId: event.id });
+
+    let result: CameraJoinState | undefined;
+    try {
+      // 主催者が設定した表示名を優先する
+      result = await admitCamera(event, {
+        participantName: invite.participantName || participantName || undefined,
+        deviceInfo,
+      }, invite.id);
+      return result;
+    } finally {
+      // 参加できなかった（上限・参加禁止など）場合は使用回数を戻す
+      if (!result?.success) {
+        await CameraInvites.release(invite);
+      }
+    }
   } catch (error) {
-    console.error('Failed to join camera:', error);
+    console.error('Failed to join camera with invite:', error);
     return {
       success: false,
       message: 'カメラの参加に失敗しました。もう一度お試しください。',
@@ -198,7 +405,17 @@ export async function getEventByParticipationCode(
   participationCode: string
 ): Promise<{ success: boolean; event?: unknown; message?: string }> {
   try {
-    const event = await EventService.getByParticipationCode(participationCode.toUpperCase());
+    const clientKey = getCodeGuardClientKey(await headers());
+    const guard = await CodeGuard.check(clientKey);
+    if (!guard.allowed) {
+      return {
+        success: false,
+        message: getTooManyAttemptsMessage(guard.retryAfterMs),
+      };
+    }
+
+    // Unknown codes count towards the same delays as failed joins
+    const { event } = await CodeGuard.findEvent(clientKey, participationCode);
     
     if (!event) {
       return {
@@ -1,8 +1,48 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { EventService } from '@/lib/database';
+import { cookies } from 'next/headers';
+import { SessionService } from '@/lib/auth';
+import { BroadcastLifecycle } from '@/lib/broadcast-lifecycle';
+import { CameraAdmission } from '@/lib/camera-admission';
+import { CameraInvites } from '@/lib/camera-invites';
+import { CameraModeration } from '@/lib/camera-moderation';
+import { getCameraPreview } from '@/lib/camera-preview';
+import {
+  CameraInviteService,
+  EventLogService,
+  EventMemberService,
+  EventSecretService,
+  EventService,
+  OrganizerInvitationService,
+} from '@/lib/database';
+import { ORGANIZER_INVITATION_ERROR_MESSAGES, hasEventRole } from '@/lib/event-roles';
+import { EventMembers, OrganizerInvitations } from '@/lib/organizer-accounts';
+import { getSessionEventRole, getSessionOrganizer, getSessionOrganizerId } from '@/lib/organizer-session';
+import { hashSecret } from '@/lib/secret-hash';
 import { createYouTubeLiveStream } from '@/lib/youtube';
+import { resolveYouTubeClient } from '@/lib/youtube-oauth';
+import {
+  admissionModeSchema,
+  cameraInviteSchema,
+  eventPinSchema,
+  eventRoleSchema,
+  organizerInvitationSchema,
+  switchingPolicyNameSchema,
+  viewerPassphraseSchema,
+} from '@/lib/validation';
+import { ViewerAccess, toPublicEvent } from '@/lib/viewer-access';
+import { WebSocketEventHandler } from '@/lib/websocket';
+import type {
+  AdmissionMode,
+  BroadcastState,
+  CameraInviteClient,
+  EventMemberClient,
+  EventRole,
+  OrganizerInvitationClient,
+  PublicEventClient,
+  SwitchingPolicyName,
+} from '@/types';
 
 // Form validation schema
 import { z } from 'zod';
@@ -24,11 +64,38 @@ export type EventCreationState = {
   eventId?: string;
 };
 
+// 操作には主催者アカウントでのログインと、イベントでのロールが必要です
+// 権限が足りない場合はアクションの結果として返すエラー、足りていればnull
+async function checkEventRole(
+  eventId: string,
+  minimumRole: EventRole
+): Promise<{ success: false; message: string } | null> {
+  const role = await getSessionEventRole(eventId);
+  if (hasEventRole(role, minimumRole)) {
+    return null;
+  }
+
+  return {
+    success: false,
+    message: role
+      ? 'この操作を行う権限がありません。イベントのオーナーに依頼してください'
+      : 'このイベントの主催者としてログインしてください',
+  };
+}
+
 export async function createEventAction(
   prevState: EventCreationState,
   formData: FormData
 ): Promise<EventCreationState> {
   try {
+    const organizer = await getSessionOrganizer();
+    if (!organizer) {
+      return {
+        success: false,
+        message: 'イベントを作成するにはログインしてください',
+      };
+    }
+
     // Extract form data
     const rawData = {
       title: formData.get('title') as string,
@@ -54,16 +121,23 @@ export async function createEventAction(
       title,
       description: description || undefined,
       scheduledAt,
+      organizerId: organizer.id,
     });
 
-    // Create YouTube Live stream
+    // The creator owns the event
+    await EventMemberService.upsert(event.id, organizer.id, 'owner');
+
+    // Create YouTube Live stream on the organizer's own channel when connected
     try {
-      const youtubeStream = await createYouTubeLiveStream({
-        title: event.title,
-        description: event.description,
-        scheduledStartTime: event.scheduledAt,
-        privacy: 'unlisted', // Default to unlisted for privacy
-      });
+      const youtubeStream = await createYouTubeLiveStream(
+        {
+          title: event.title,
+          description: event.description,
+          scheduledStartTime: event.scheduledAt,
+          privacy: 'unlisted', // Default to unlisted for privacy
+        },
+        await resolveYouTubeClient(event.organizerId)
+      );
 
       // Update event with YouTube stream information
       await EventService.update(event.id, {
@@ -93,10 +167,19 @@ export async function createEventAction(
   }
 }
 
-export async function getEventById(eventId: string) {
+// 視聴ページ・待機画面用（参加コードとストリームキーは含めない。
+// 視聴パスフレーズ付きイベントのYouTube URLは視聴セッションがある場合のみ）
+export async function getEventById(eventId: string): Promise<PublicEventClient | null> {
   try {
     const event = await EventService.getById(eventId);
-    return event;
+    if (!event) return null;
+
+    const cookieStore = await cookies();
+    const viewerAccess = await ViewerAccess.check(
+      eventId,
+      cookieStore.get(SessionService.getViewerCookieName(eventId))?.value
+    );
+    return toPublicEvent(event, viewerAccess);
   } catch (error) {
     console.error('Failed to get event:', error);
     return null;
@@ -105,6 +188,9 @@ export async function getEventById(eventId: string) {
 
 export async function deleteEventAction(eventId: string): Promise<{ success: boolean; message: string }> {
   try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
     await EventService.delete(eventId);
     revalidatePath('/events');
     
@@ -119,4 +205,756 @@ export async function deleteEventAction(eventId: string): Promise<{ success: boo
       message: 'イベントの削除に失敗しました',
     };
   }
-}
\ No newline at end of file
+}
+
+const switchingPolicyUpdateSchema = z.object({
+  switchingPolicy: switchingPolicyNameSchema,
+  switchingDwellSeconds: z.number().int().min(5, '表示時間は5秒以上で指定してください').max(3600, '表示時間は3600秒以内で指定してください'),
+  minOnAirSeconds: z.number().int().min(0, '最低表示時間は0秒以上で指定してください').max(600, '最低表示時間は600秒以内で指定してください'),
+  switchCooldownSeconds: z.number().int().min(0, 'クールダウンは0秒以上で指定してください').max(600, 'クールダウンは600秒以内で指定してください'),
+});
+
+export async function updateSwitchingPolicyAction(
+  eventId: string,
+  settings: {
+    switchingPolicy: SwitchingPolicyName;
+    switchingDwellSeconds: number;
+    minOnAirSeconds: number;
+    switchCooldownSeconds: number;
+  }
+): Promise<{ success: boolean; message: string }> {
+  const validationResult = switchingPolicyUpdateSchema.safeParse(settings);
+
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0]?.message ?? '入力内容に誤りがあります',
+    };
+  }
+
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    await EventService.update(eventId, validationResult.data);
+
+    // Start or stop rotation timers for the new policy
+    await WebSocketEventHandler.refreshSwitchingPolicy(eventId);
+
+    revalidatePath(`/events/${eventId}/dashboard`);
+
+    return {
+      success: true,
+      message: '切り替えポリシーを更新しました',
+    };
+  } catch (error) {
+    console.error('Failed to update switching policy:', error);
+    return {
+      success: false,
+      message: '切り替えポリシーの更新に失敗しました',
+    };
+  }
+}
+
+const cameraAdmissionUpdateSchema = z.object({
+  maxCameras: z.number().int().min(1, 'カメラ台数は1台以上で指定してください').max(10, 'カメラ台数は10台以内で指定してください'),
+  admissionMode: admissionModeSchema,
+});
+
+export async function updateCameraAdmissionAction(
+  eventId: string,
+  settings: {
+    maxCameras: number;
+    admissionMode: AdmissionMode;
+  }
+): Promise<{ success: boolean; message: string }> {
+  const validationResult = cameraAdmissionUpdateSchema.safeParse(settings);
+
+  if (!validationResult.success) {
+    return {
+      success: false,
+      message: validationResult.error.issues[0]?.message ?? '入力内容に誤りがあります',
+    };
+  }
+
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    await EventService.update(eventId, validationResult.data);
+
+    // 枠が増えた場合は順番待ちのカメラを参加させる
+    await CameraAdmission.admitWaiting(eventId);
+
+    revalidatePath(`/events/${eventId}/dashboard`);
+
+    return {
+      success: true,
+      message: 'カメラの参加設定を更新しました',
+    };
+  } catch (error) {
+    console.error('Failed to update camera admission:', error);
+    return {
+      success: false,
+      message: 'カメラの参加設定の更新に失敗しました',
+    };
+  }
+}
+
+// 順番待ちのカメラを主催者が順番を飛ばして参加させます
+export async function admitCameraAction(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const result = await CameraAdmission.admit(eventId, cameraConnectionId);
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.error === 'full'
+          ? 'カメラの台数が上限に達しています。上限を増やすか、接続中のカメラが抜けるのを待ってください'
+          : 'このカメラは既に参加済みか、順番待ちから外れています',
+      };
+    }
+
+    return {
+      success: true,
+      message: `${result.camera.participantName || result.camera.participantId} を参加させました`,
+    };
+  } catch (error) {
+    console.error('Failed to admit camera:', error);
+    return {
+      success: false,
+      message: 'カメラの参加許可に失敗しました',
+    };
+  }
+}
+
+// 承認待ちのカメラを許可します（空きがなければ順番待ちの最後尾に入ります）
+export async function approveCameraAction(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const result = await CameraAdmission.approve(eventId, cameraConnectionId);
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: 'このカメラは既に承認・拒否済みか、参加をやめています',
+      };
+    }
+
+    const name = result.camera.participantName || result.camera.participantId;
+    return {
+      success: true,
+      message: result.position === null
+        ? `${name} の参加を承認しました`
+        : `${name} の参加を承認しました。空きがないため順番待ち（${result.position}番目）です`,
+    };
+  } catch (error) {
+    console.error('Failed to approve camera:', error);
+    return {
+      success: false,
+      message: 'カメラの承認に失敗しました',
+    };
+  }
+}
+
+// 承認待ちのカメラの参加を拒否します
+export async function rejectCameraAction(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const camera = await CameraAdmission.reject(eventId, cameraConnectionId);
+
+    if (!camera) {
+      return {
+        success: false,
+        message: 'このカメラは既に承認・拒否済みか、参加をやめています',
+      };
+    }
+
+    return {
+      success: true,
+      message: `${camera.participantName || camera.participantId} の参加を拒否しました`,
+    };
+  } catch (error) {
+    console.error('Failed to reject camera:', error);
+    return {
+      success: false,
+      message: 'カメラの拒否に失敗しました',
+    };
+  }
+}
+
+// 参加コードを新しいものに置き換えます（QRが流出した場合など）
+// 古いコードで発行されたカメラ用トークンは使えなくなります
+export async function rotateParticipationCodeAction(
+  eventId: string
+): Promise<{ success: boolean; message: string; participationCode?: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      return { success: false, message: 'イベントが見つかりません' };
+    }
+    if (event.status === 'ended') {
+      return { success: false, message: '終了したイベントの参加コードは変更できません' };
+    }
+
+    const rotated = await EventService.rotateParticipationCode(
+      eventId,
+      event.participationCodeVersion ?? 1
+    );
+    if (!rotated) {
+      return {
+        success: false,
+        message: '参加コードは既に変更されています。画面を更新してください',
+      };
+    }
+
+    await EventLogService.create({
+      eventId,
+      logType: 'participation_code_rotated',
+      message: 'Participation code rotated by the organizer',
+      metadata: { version: rotated.participationCodeVersion },
+    }).catch((error) => {
+      console.error('Failed to log participation code rotation:', error);
+    });
+
+    // 古いコードで参加中・待機中のカメラは配信から外す
+    const removed = await CameraModeration.removeRotatedCodeCameras(rotated).catch((error) => {
+      console.error('Failed to remove cameras joined with the old participation code:', error);
+      return [];
+    });
+
+    revalidatePath(`/events/${eventId}/dashboard`);
+
+    return {
+      success: true,
+      message: removed.length > 0
+        ? `参加コードを変更しました。以前のコードで参加していたカメラ${removed.length}台を切断しました`
+        : '参加コードを変更しました。以前のQRコードとコードでは参加できません',
+      participationCode: rotated.participationCode,
+    };
+  } catch (error) {
+    console.error('Failed to rotate participation code:', error);
+    return {
+      success: false,
+      message: '参加コードの変更に失敗しました',
+    };
+  }
+}
+
+// カメラ参加用のPINを設定（nullで解除）。以後、参加コードに加えてPINが必要になる
+export async function setCameraPinAction(
+  eventId: string,
+  pin: string | null
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    if (pin !== null && !eventPinSchema.safeParse(pin).success) {
+      return { success: false, message: 'PINは4〜8桁の数字で入力してください' };
+    }
+
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      return { success: false, message: 'イベントが見つかりません' };
+    }
+
+    await EventSecretService.setCameraPinHash(eventId, pin === null ? null : await hashSecret(pin));
+
+    await EventLogService.create({
+      eventId,
+      logType: pin === null ? 'camera_pin_cleared' : 'camera_pin_set',
+      message: pin === null ? 'Camera PIN removed by the organizer' : 'Camera PIN set by the organizer',
+    }).catch((error) => {
+      console.error('Failed to log camera PIN change:', error);
+    });
+
+    return {
+      success: true,
+      message: pin === null
+        ? 'PINを解除しました。参加コードだけで参加できます'
+        : 'PINを設定しました。新しく参加するカメラは参加コードとPINが必要です',
+    };
+  } catch (error) {
+    console.error('Failed to set camera PIN:', error);
+    return {
+      success: false,
+      message: 'PINの設定に失敗しました',
+    };
+  }
+}
+
+// 視聴ページのパスフレーズを設定（nullで解除）。変更すると発行済みの視聴セッションは無効になる
+export async function setViewerPassphraseAction(
+  eventId: string,
+  passphrase: string | null
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    if (passphrase !== null && !viewerPassphraseSchema.safeParse(passphrase).success) {
+      return { success: false, message: 'パスフレーズは6〜128文字で入力してください' };
+    }
+
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      return { success: false, message: 'イベントが見つかりません' };
+    }
+
+    await EventSecretService.setViewerPassphraseHash(
+      eventId,
+      passphrase === null ? null : await hashSecret(passphrase)
+    );
+
+    await EventLogService.create({
+      eventId,
+      logType: passphrase === null ? 'viewer_passphrase_cleared' : 'viewer_passphrase_set',
+      message: passphrase === null
+        ? 'Viewer passphrase removed by the organizer'
+        : 'Viewer passphrase set by the organizer',
+    }).catch((error) => {
+      console.error('Failed to log viewer passphrase change:', error);
+    });
+
+    revalidatePath(`/watch/${eventId}`);
+
+    return {
+      success: true,
+      message: passphrase === null
+        ? 'パスフレーズを解除しました。視聴ページは誰でも見られます'
+        : 'パスフレーズを設定しました。視聴者はパスフレーズを入力すると配信を見られます',
+    };
+  } catch (error) {
+    console.error('Failed to set viewer passphrase:', error);
+    return {
+      success: false,
+      message: 'パスフレーズの設定に失敗しました',
+    };
+  }
+}
+
+export type CameraInviteActionResult = {
+  success: boolean;
+  message: string;
+  invite?: CameraInviteClient;
+  token?: string;
+};
+
+// カメラ担当者ごとの招待リンクを発行。リンクには使用回数の上限と有効期限がある
+export async function createCameraInviteAction(
+  eventId: string,
+  options: { participantName?: string; maxUses: number; expiresInHours: number }
+): Promise<CameraInviteActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const validation = cameraInviteSchema.safeParse(options);
+    if (!validation.success) {
+      return { success: false, message: '招待リンクの設定に誤りがあります' };
+    }
+
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      return { success: false, message: 'イベントが見つかりません' };
+    }
+    if (event.status === 'ended') {
+      return { success: false, message: '終了したイベントの招待リンクは発行できません' };
+    }
+
+    const { invite, token } = await CameraInvites.create(eventId, validation.data);
+
+    await EventLogService.create({
+      eventId,
+      logType: 'camera_invite_created',
+      message: 'Camera invite link created by the organizer',
+      metadata: { inviteId: invite.id, maxUses: invite.maxUses },
+    }).catch((error) => {
+      console.error('Failed to log camera invite creation:', error);
+    });
+
+    return { success: true, message: '招待リンクを発行しました', invite, token };
+  } catch (error) {
+    console.error('Failed to create camera invite:', error);
+    return { success: false, message: '招待リンクの発行に失敗しました' };
+  }
+}
+
+// 発行済みの招待リンクをもう一度取得（コピー用）
+export async function getCameraInviteLinkAction(
+  eventId: string,
+  inviteId: string
+): Promise<CameraInviteActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const invite = await CameraInviteService.getById(inviteId);
+    if (!invite || invite.eventId !== eventId) {
+      return { success: false, message: '招待リンクが見つかりません' };
+    }
+
+    return { success: true, message: '', invite, token: await CameraInvites.getToken(invite) };
+  } catch (error) {
+    console.error('Failed to get camera invite link:', error);
+    return { success: false, message: '招待リンクの取得に失敗しました' };
+  }
+}
+
+export async function listCameraInvitesAction(
+  eventId: string
+): Promise<{ success: boolean; invites?: CameraInviteClient[] }> {
+  try {
+    const denied = await checkEventRole(eventId, 'monitor');
+    if (denied) return denied;
+
+    return { success: true, invites: await CameraInviteService.getByEventId(eventId) };
+  } catch (error) {
+    console.error('Failed to list camera invites:', error);
+    return { success: false };
+  }
+}
+
+// 招待リンクを無効にする。既に参加したカメラはそのまま（退出させるにはキックする）
+export async function revokeCameraInviteAction(
+  eventId: string,
+  inviteId: string
+): Promise<CameraInviteActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const invite = await CameraInviteService.revoke(inviteId, eventId);
+    if (!invite) {
+      return { success: false, message: '招待リンクは既に無効です' };
+    }
+
+    await EventLogService.create({
+      eventId,
+      logType: 'camera_invite_revoked',
+      message: 'Camera invite link revoked by the organizer',
+      metadata: { inviteId },
+    }).catch((error) => {
+      console.error('Failed to log camera invite revocation:', error);
+    });
+
+    return { success: true, message: '招待リンクを無効にしました', invite };
+  } catch (error) {
+    console.error('Failed to revoke camera invite:', error);
+    return { success: false, message: '招待リンクの無効化に失敗しました' };
+  }
+}
+
+// 承認待ちのカメラから届いた最新のプレビュー画像（data URL）。まだ届いていなければnull
+export async function getCameraPreviewAction(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<string | null> {
+  try {
+    if (!hasEventRole(await getSessionEventRole(eventId), 'monitor')) return null;
+
+    const image = await getCameraPreview(eventId, cameraConnectionId);
+    if (!image) return null;
+
+    const base64 = Buffer.from(await image.arrayBuffer()).toString('base64');
+    return `data:${image.type || 'image/jpeg'};base64,${base64}`;
+  } catch (error) {
+    console.error('Failed to load camera preview:', error);
+    return null;
+  }
+}
+
+export type BroadcastActionResult = {
+  success: boolean;
+  message: string;
+  broadcastState?: BroadcastState;
+};
+
+// 配信開始: 最初のカメラが配信を始めるとYouTube配信とegressが自動で開始されます
+export async function goLiveAction(eventId: string): Promise<BroadcastActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const broadcastState = await BroadcastLifecycle.goLive(eventId);
+    revalidatePath(`/events/${eventId}/dashboard`);
+
+    return {
+      success: true,
+      message: broadcastState === 'live' ? '配信を開始しました' : 'カメラの配信開始を待っています',
+      broadcastState,
+    };
+  } catch (error) {
+    console.error('Failed to go live:', error);
+    return {
+      success: false,
+      message: '配信の開始に失敗しました',
+    };
+  }
+}
+
+// イベント終了: egressを停止しYouTube配信を完了します
+export async function endEventAction(eventId: string): Promise<BroadcastActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'operator');
+    if (denied) return denied;
+
+    const broadcastState = await BroadcastLifecycle.endEvent(eventId);
+    revalidatePath(`/events/${eventId}/dashboard`);
+    revalidatePath('/events');
+
+    return {
+      success: true,
+      message: broadcastState === 'ended' ? 'イベントを終了しました' : '配信の終了処理を再試行しています',
+      broadcastState,
+    };
+  } catch (error) {
+    console.error('Failed to end event:', error);
+    return {
+      success: false,
+      message: 'イベントの終了に失敗しました',
+    };
+  }
+}
+
+export type EventMembersActionResult = {
+  success: boolean;
+  message: string;
+  members?: EventMemberClient[];
+  invitations?: OrganizerInvitationClient[];
+  invitation?: OrganizerInvitationClient;
+  token?: string;
+};
+
+// 主催者メンバーと未承諾の招待の一覧
+export async function listEventMembersAction(eventId: string): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'monitor');
+    if (denied) return denied;
+
+    const [members, invitations] = await Promise.all([
+      EventMemberService.getByEventId(eventId),
+      OrganizerInvitationService.getByEventId(eventId),
+    ]);
+
+    return { success: true, message: '', members, invitations };
+  } catch (error) {
+    console.error('Failed to list event members:', error);
+    return { success: false, message: '主催者メンバーの取得に失敗しました' };
+  }
+}
+
+// 共同主催者を招待（オーナーのみ）。招待リンクは招待したメールアドレスのアカウントでだけ承諾できる
+export async function inviteOrganizerAction(
+  eventId: string,
+  options: { email: string; role: 'operator' | 'monitor' }
+): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
+    const validation = organizerInvitationSchema.safeParse(options);
+    if (!validation.success) {
+      return { success: false, message: 'メールアドレスまたはロールに誤りがあります' };
+    }
+
+    const invitedBy = await getSessionOrganizerId();
+    if (!invitedBy) {
+      return { success: false, message: 'このイベントの主催者としてログインしてください' };
+    }
+
+    const { invitation, token } = await OrganizerInvitations.create(eventId, validation.data, invitedBy);
+
+    await EventLogService.create({
+      eventId,
+      logType: 'organizer_invited',
+      message: 'Co-organizer invited by the owner',
+      metadata: { invitationId: invitation.id, role: invitation.role },
+    }).catch((error) => {
+      console.error('Failed to log organizer invitation:', error);
+    });
+
+    return { success: true, message: '招待リンクを発行しました', invitation, token };
+  } catch (error) {
+    console.error('Failed to invite organizer:', error);
+    return { success: false, message: '招待の作成に失敗しました' };
+  }
+}
+
+// 発行済みの主催者招待リンクをもう一度取得（コピー用）
+export async function getOrganizerInvitationLinkAction(
+  eventId: string,
+  invitationId: string
+): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
+    const invitation = await OrganizerInvitationService.getById(invitationId);
+    if (!invitation || invitation.eventId !== eventId) {
+      return { success: false, message: '招待が見つかりません' };
+    }
+
+    return { success: true, message: '', invitation, token: await OrganizerInvitations.getToken(invitation) };
+  } catch (error) {
+    console.error('Failed to get organizer invitation link:', error);
+    return { success: false, message: '招待リンクの取得に失敗しました' };
+  }
+}
+
+export async function revokeOrganizerInvitationAction(
+  eventId: string,
+  invitationId: string
+): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
+    const invitation = await OrganizerInvitationService.revoke(invitationId, eventId);
+    if (!invitation) {
+      return { success: false, message: '招待は既に承諾されたか、取り消されています' };
+    }
+
+    await EventLogService.create({
+      eventId,
+      logType: 'organizer_invitation_revoked',
+      message: 'Co-organizer invitation revoked by the owner',
+      metadata: { invitationId },
+    }).catch((error) => {
+      console.error('Failed to log organizer invitation revocation:', error);
+    });
+
+    return { success: true, message: '招待を取り消しました', invitation };
+  } catch (error) {
+    console.error('Failed to revoke organizer invitation:', error);
+    return { success: false, message: '招待の取り消しに失敗しました' };
+  }
+}
+
+// メンバーのロールを変更（オーナーのみ）。最後のオーナーは降格できない
+export async function changeEventMemberRoleAction(
+  eventId: string,
+  organizerId: string,
+  role: EventRole
+): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
+    if (!eventRoleSchema.safeParse(role).success) {
+      return { success: false, message: 'ロールに誤りがあります' };
+    }
+
+    const result = await EventMembers.changeRole(eventId, organizerId, role);
+    if (result !== 'ok') {
+      return {
+        success: false,
+        message: result === 'last-owner'
+          ? 'オーナーが1人もいなくなるため変更できません。先に他のメンバーをオーナーにしてください'
+          : 'このメンバーは既にイベントから外れています',
+      };
+    }
+
+    await EventLogService.create({
+      eventId,
+      logType: 'event_member_role_changed',
+      message: 'Organizer role changed by the owner',
+      metadata: { organizerId, role },
+    }).catch((error) => {
+      console.error('Failed to log organizer role change:', error);
+    });
+
+    return { success: true, message: 'ロールを変更しました', members: await EventMemberService.getByEventId(eventId) };
+  } catch (error) {
+    console.error('Failed to change organizer role:', error);
+    return { success: false, message: 'ロールの変更に失敗しました' };
+  }
+}
+
+// メンバーをイベントから外す（オーナーのみ）。最後のオーナーは外せない
+export async function removeEventMemberAction(
+  eventId: string,
+  organizerId: string
+): Promise<EventMembersActionResult> {
+  try {
+    const denied = await checkEventRole(eventId, 'owner');
+    if (denied) return denied;
+
+    const result = await EventMembers.remove(eventId, organizerId);
+    if (result !== 'ok') {
+      return {
+        success: false,
+        message: result === 'last-owner'
+          ? 'オーナーが1人もいなくなるため外せません。先に他のメンバーをオーナーにしてください'
+          : 'このメンバーは既にイベントから外れています',
+      };
+    }
+
+    await EventLogService.create({
+      eventId,
+      logType: 'event_member_removed',
+      message: 'Organizer removed from the event by the owner',
+      metadata: { organizerId },
+    }).catch((error) => {
+      console.error('Failed to log organizer removal:', error);
+    });
+
+    return { success: true, message: 'メンバーを外しました', members: await EventMemberService.getByEventId(eventId) };
+  } catch (error) {
+    console.error('Failed to remove organizer:', error);
+    return { success: false, message: 'メンバーを外せませんでした' };
+  }
+}
+
+// 招待リンクを承諾して、ログイン中のアカウントをイベントの主催者に加える
+export async function acceptOrganizerInvitationAction(
+  token: string
+): Promise<{ success: boolean; message: string; eventId?: string }> {
+  try {
+    const organizer = await getSessionOrganizer();
+    if (!organizer) {
+      return { success: false, message: '招待を承諾するにはログインしてください' };
+    }
+
+    const result = await OrganizerInvitations.accept(token, organizer);
+    if (result.status !== 'ok') {
+      return { success: false, message: ORGANIZER_INVITATION_ERROR_MESSAGES[result.status] };
+    }
+
+    await EventLogService.create({
+      eventId: result.eventId,
+      logType: 'organizer_joined',
+      message: 'Co-organizer accepted an invitation',
+      metadata: { organizerId: organizer.id, role: result.role },
+    }).catch((error) => {
+      console.error('Failed to log organizer invitation acceptance:', error);
+    });
+
+    revalidatePath('/events');
+
+    return { success: true, message: 'イベントの主催者に加わりました', eventId: result.eventId };
+  } catch (error) {
+    console.error('Failed to accept organizer invitation:', error);
+    return { success: false, message: '招待の承諾に失敗しました' };
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/auth';
+import { getCodeGuardClientKey } from '@/lib/code-guard';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { OrganizerAccounts } from '@/lib/organizer-accounts';
+import { createOrganizerSessionResponse } from '@/lib/organizer-session';
+import { organizerLoginSchema } from '@/lib/validation';
+
+// POST /api/auth/login - Organizer sign-in with email and password
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.organizerLogin)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const bodyValidation = await validateRequestBody(organizerLoginSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const { email, password } = bodyValidation.data;
+
+  const result = await OrganizerAccounts.authenticate(
+    email,
+    password,
+    getCodeGuardClientKey(request.headers)
+  );
+
+  if (result.status === 'throttled') {
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many login attempts',
+        retryAfter,
+      },
+      { status: 429, headers: { ...securityHeaders(), 'Retry-After': retryAfter.toString() } }
+    );
+  }
+
+  // Same answer for unknown emails and wrong passwords
+  if (result.status === 'invalid-credentials') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid email or password',
+        ...(result.retryAfterMs > 0 ? { retryAfter: Math.ceil(result.retryAfterMs / 1000) } : {}),
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  return createOrganizerSessionResponse(result.organizer);
+});
+
+// DELETE /api/auth/login - Sign out
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  requestLogger(request);
+
+  const response = NextResponse.json(
+    {
+      success: true,
+      message: 'Logged out successfully',
+    },
+    { headers: securityHeaders() }
+  );
+
+  response.headers.set('Set-Cookie', SessionService.clearSessionCookie());
+
+  return response;
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { OrganizerAccounts } from '@/lib/organizer-accounts';
+import { createOrganizerSessionResponse } from '@/lib/organizer-session';
+import { organizerRegistrationSchema } from '@/lib/validation';
+
+// POST /api/auth/register - Create an organizer account and sign in
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.organizerLogin)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const bodyValidation = await validateRequestBody(organizerRegistrationSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const { email, password, displayName } = bodyValidation.data;
+
+  const result = await OrganizerAccounts.register(email, password, displayName);
+
+  if (result.status === 'email-taken') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'An account with this email already exists',
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  return createOrganizerSessionResponse(result.organizer, 201);
+});
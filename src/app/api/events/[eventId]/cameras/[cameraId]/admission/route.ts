@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraConnectionService, EventService } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isValidUUID } from '@/lib/validation';
+import { CameraReaper, HEARTBEAT_INTERVAL_SECONDS } from '@/lib/camera-reaper';
+import {
+  DEFAULT_ADMISSION_MODE,
+  PREVIEW_UPLOAD_INTERVAL_SECONDS,
+  WAITLIST_POLL_INTERVAL_SECONDS,
+  getWaitlistPosition,
+} from '@/lib/camera-capacity';
+
+// GET /api/events/[eventId]/cameras/[cameraId]/admission - Approval/waitlist status, or the LiveKit token once admitted
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; cameraId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.statusUpdate)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId, cameraId } = await params;
+
+  // Validate UUID formats
+  if (!isValidUUID(eventId) || !isValidUUID(cameraId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  // Only the joiner that queued can pick up the room token
+  const cameraAccess = await AuthService.hasCameraAccess(request, eventId);
+  if (!cameraAccess.hasAccess) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera access authentication required',
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  // Waiting joiners are dropped by the reaper once they stop polling
+  CameraReaper.ensureStarted();
+
+  const [event, cameras] = await Promise.all([
+    EventService.getById(eventId),
+    CameraConnectionService.getByEventId(eventId),
+  ]);
+  const camera = cameras.find(connection => connection.id === cameraId);
+
+  if (!event || !camera) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  if (cameraAccess.participantId !== camera.participantId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection belongs to another participant',
+      },
+      { status: 403, headers: securityHeaders() }
+    );
+  }
+
+  if (camera.status === 'inactive' || camera.status === 'error' || event.status === 'ended') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: camera.disconnectReason === 'rejected'
+          ? 'Camera was rejected by the organizer'
+          : camera.disconnectReason
+          ? 'Camera was removed by the organizer'
+          : 'Camera connection is no longer active',
+        data: { status: camera.status, reason: camera.disconnectReason ?? null },
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  if (camera.status === 'pending') {
+    // Polling keeps the request alive; pending cameras never get a LiveKit token
+    await CameraConnectionService.touch(cameraId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          admissionStatus: 'pending',
+          admissionMode: 'approval',
+          waitlistPosition: null,
+          pollIntervalSeconds: WAITLIST_POLL_INTERVAL_SECONDS,
+          previewIntervalSeconds: PREVIEW_UPLOAD_INTERVAL_SECONDS,
+        },
+      },
+      { headers: securityHeaders() }
+    );
+  }
+
+  if (camera.status === 'waiting') {
+    // Polling keeps the place in line
+    await CameraConnectionService.touch(cameraId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          admissionStatus: 'waiting',
+          admissionMode: event.admissionMode ?? DEFAULT_ADMISSION_MODE,
+          waitlistPosition: getWaitlistPosition(cameras, cameraId),
+          pollIntervalSeconds: WAITLIST_POLL_INTERVAL_SECONDS,
+        },
+      },
+      { headers: securityHeaders() }
+    );
+  }
+
+  let roomToken: string;
+  try {
+    roomToken = await AuthService.generateLiveKitToken({
+      identity: camera.participantId,
+      roomName: event.livekitRoomName,
+      role: 'camera',
+      participantName: camera.participantName,
+      cameraConnectionId: camera.id,
+    });
+  } catch (error) {
+    console.error('Failed to generate LiveKit token:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to generate access token',
+      },
+      { status: 500, headers: securityHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        admissionStatus: 'admitted',
+        eventId,
+        roomToken,
+        roomName: event.livekitRoomName,
+        cameraConnectionId: camera.id,
+        heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
+      },
+    },
+    { headers: securityHeaders() }
+  );
+});
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraConnectionService } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { cameraHeartbeatSchema, isValidUUID } from '@/lib/validation';
+import {
+  CameraReaper,
+  HEARTBEAT_INTERVAL_SECONDS,
+  getHeartbeatTimeoutSeconds
+} from '@/lib/camera-reaper';
+
+// POST /api/events/[eventId]/cameras/[cameraId]/heartbeat - Camera liveness ping
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; cameraId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.statusUpdate)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId, cameraId } = await params;
+
+  // Validate UUID formats
+  if (!isValidUUID(eventId) || !isValidUUID(cameraId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  // Only the camera itself may keep its connection alive
+  const cameraAccess = await AuthService.hasCameraAccess(request, eventId);
+  if (!cameraAccess.hasAccess) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera access authentication required',
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  const bodyValidation = await validateRequestBody(cameraHeartbeatSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const { streamQuality } = bodyValidation.data;
+
+  // Reap cameras that stopped pinging while this process is serving cameras
+  CameraReaper.ensureStarted();
+
+  const camera = await CameraConnectionService.getById(cameraId);
+  if (!camera) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  if (camera.eventId !== eventId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera does not belong to this event',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  if (cameraAccess.participantId !== camera.participantId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection belongs to another participant',
+      },
+      { status: 403, headers: securityHeaders() }
+    );
+  }
+
+  // A reaped camera must report its status again before it counts as live
+  if (camera.status === 'inactive' || camera.status === 'error') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection is no longer active',
+        data: { status: camera.status, reason: camera.disconnectReason ?? null },
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  const updatedCamera = await CameraConnectionService.touch(cameraId, streamQuality);
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        status: updatedCamera.status,
+        lastActiveAt: updatedCamera.lastActiveAt,
+        heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
+        heartbeatTimeoutSeconds: getHeartbeatTimeoutSeconds(),
+      },
+    },
+    { headers: securityHeaders() }
+  );
+});
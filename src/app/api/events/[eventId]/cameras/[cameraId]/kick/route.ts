@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraConnectionService, EventService } from '@/lib/database';
+import { requireEventAccess } from '@/lib/auth';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isValidUUID, kickCameraSchema } from '@/lib/validation';
+import { CameraModeration } from '@/lib/camera-moderation';
+
+// POST /api/events/[eventId]/cameras/[cameraId]/kick - Remove a camera operator, optionally banning them from rejoining
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; cameraId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId, cameraId } = await params;
+
+  const authResult = await requireEventAccess(eventId, ['organizer'])(request);
+  if (authResult instanceof Response) return authResult;
+
+  // Validate UUID formats
+  if (!isValidUUID(eventId) || !isValidUUID(cameraId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const bodyValidation = await validateRequestBody(kickCameraSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const { ban, reason } = bodyValidation.data;
+
+  const [event, camera] = await Promise.all([
+    EventService.getById(eventId),
+    CameraConnectionService.getById(cameraId),
+  ]);
+
+  if (!event) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Event not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  if (!camera || camera.eventId !== eventId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection not found for this event',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  // A camera that already left can still be banned, but not kicked again
+  if ((camera.status === 'inactive' || camera.status === 'error') && !ban) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera is not connected',
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  const result = await CameraModeration.kick(event, camera, { ban, reason });
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        cameraConnectionId: result.camera.id,
+        status: result.camera.status,
+        disconnectReason: result.camera.disconnectReason,
+        banned: result.ban !== null,
+        deviceBanned: Boolean(result.ban?.deviceFingerprint),
+        removedFromRoom: result.removedFromRoom,
+      },
+      message: result.ban ? 'Camera removed and banned from the event' : 'Camera removed from the event',
+    },
+    { headers: securityHeaders() }
+  );
+});
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CameraConnectionService } from '@/lib/database';
+import { AuthService } from '@/lib/auth';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isValidUUID } from '@/lib/validation';
+import {
+  MAX_PREVIEW_IMAGE_BYTES,
+  uploadCameraPreview,
+  validatePreviewImage,
+} from '@/lib/camera-preview';
+
+// POST /api/events/[eventId]/cameras/[cameraId]/preview - Preview snapshot of a camera awaiting approval (multipart field "image")
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; cameraId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.statusUpdate)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId, cameraId } = await params;
+
+  // Validate UUID formats
+  if (!isValidUUID(eventId) || !isValidUUID(cameraId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const cameraAccess = await AuthService.hasCameraAccess(request, eventId);
+  if (!cameraAccess.hasAccess) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera access authentication required',
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  const camera = await CameraConnectionService.getById(cameraId);
+  if (!camera || camera.eventId !== eventId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  if (cameraAccess.participantId !== camera.participantId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection belongs to another participant',
+      },
+      { status: 403, headers: securityHeaders() }
+    );
+  }
+
+  // Previews exist only for the organizer's decision
+  if (camera.status !== 'pending') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera is not awaiting approval',
+        data: { status: camera.status },
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const image = formData?.get('image');
+
+  if (!(image instanceof Blob)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Multipart field "image" is required',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const validationError = validatePreviewImage(image);
+  if (validationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: validationError,
+      },
+      {
+        status: image.size === 0 ? 400 : image.size > MAX_PREVIEW_IMAGE_BYTES ? 413 : 415,
+        headers: securityHeaders(),
+      }
+    );
+  }
+
+  await uploadCameraPreview(eventId, cameraId, image);
+  // Uploading counts as a sign of life like polling does
+  await CameraConnectionService.touch(cameraId);
+
+  return NextResponse.json(
+    {
+      success: true,
+      message: 'Preview uploaded successfully',
+    },
+    { headers: securityHeaders() }
+  );
+});
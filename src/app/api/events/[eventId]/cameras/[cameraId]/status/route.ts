@@ -15,6 +15,8 @@ import {
   createCameraStartedStreamingEvent, 
   createCameraDisconnectedEvent 
 } from '@/lib/websocket';
+import { CameraAdmission } from '@/lib/camera-admission';
+import { removeCameraPreview } from '@/lib/camera-preview';
 
 export const PUT = withErrorHandling(async (
   request: NextRequest,
@@ -77,6 +79,29 @@ export const PUT = withErrorHandling(async (
 
   const previousStatus = currentCamera.status;
 
+  // Cameras the organizer removed (or rejected) cannot report themselves back in
+  if (currentCamera.disconnectReason) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera was removed by the organizer',
+        data: { status: currentCamera.status, reason: currentCamera.disconnectReason },
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  // A waiting or pending joiner has no slot yet; it can only leave the line
+  if ((previousStatus === 'waiting' || previousStatus === 'pending') && status !== 'inactive') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera is waiting to be admitted',
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
   // Update camera connection status
   const updatedCamera = await CameraConnectionService.updateStatus(
     cameraId,
@@ -124,6 +149,15 @@ export const PUT = withErrorHandling(async (
     WebSocketEventHandler.handleCameraDisconnected(disconnectedEvent).catch(error => {
       console.error('Failed to handle camera disconnected event:', error);
     });
+
+  } else if ((status === 'inactive' || status === 'error') && previousStatus === 'connecting') {
+    // A camera that never started streaming still frees its slot
+    CameraAdmission.admitWaiting(eventId).catch(error => {
+      console.error('Failed to admit waiting cameras:', error);
+    });
+  } else if (status === 'inactive' && previousStatus === 'pending') {
+    // Nobody needs the preview of a joiner who gave up
+    void removeCameraPreview(eventId, cameraId);
   }
 
   // Log the status change
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EventService, CameraConnectionService, EventLogService } from '@/lib/database';
-import { generateAccessToken } from '@/lib/livekit';
 import { AuthService } from '@/lib/auth';
 import { 
   rateLimit, 
@@ -13,6 +12,14 @@ import {
 import { joinEventSchema } from '@/lib/validation';
 import { isValidUUID } from '@/lib/validation';
 import { WebSocketEventHandler, createCameraJoinedEvent } from '@/lib/websocket';
+import { CameraReaper, HEARTBEAT_INTERVAL_SECONDS } from '@/lib/camera-reaper';
+import { CameraAdmission } from '@/lib/camera-admission';
+import { CameraModeration } from '@/lib/camera-moderation';
+import {
+  DEFAULT_ADMISSION_MODE,
+  PREVIEW_UPLOAD_INTERVAL_SECONDS,
+  WAITLIST_POLL_INTERVAL_SECONDS,
+} from '@/lib/camera-capacity';
 
 // POST /api/events/[eventId]/join - Join event as camera operator
 export const POST = withErrorHandling(async (
@@ -54,11 +61,13 @@ export const POST = withErrorHandling(async (
   const bodyValidation = await validateRequestBody(joinEventSchema)(request);
   if (bodyValidation instanceof NextResponse) return bodyValidation;
   
-  const { participantId, participantName, deviceInfo } = bodyValidation.data;
+  const { participantId, participantName, deviceInfo: sentDeviceInfo } = bodyValidation.data;
 
   // Use authenticated participant info if available
   const authenticatedParticipantId = cameraAccess.participantId || participantId;
   const authenticatedParticipantName = cameraAccess.participantName || participantName;
+  // The device id comes from the signed token, never from the body
+  const deviceInfo = { ...sentDeviceInfo, deviceId: cameraAccess.deviceId };
 
   // Get event information
   const event = await EventService.getById(eventId);
@@ -83,6 +92,27 @@ export const POST = withErrorHandling(async (
     );
   }
 
+  // Participants and devices the organizer banned stay out
+  const ban = await CameraModeration.findBan(eventId, {
+    participantId: authenticatedParticipantId,
+    deviceId: cameraAccess.deviceId,
+  });
+  if (ban) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'This camera has been banned from the event by the organizer',
+      },
+      { status: 403, headers: securityHeaders() }
+    );
+  }
+
+  // Drop cameras that stopped sending heartbeats so they don't block rejoining or the camera cap
+  CameraReaper.ensureStarted();
+  await CameraReaper.reapStaleConnections().catch(error => {
+    console.error('Failed to reap stale camera connections:', error);
+  });
+
   // Check if participant is already connected
   const existingCameras = await CameraConnectionService.getByEventId(eventId);
   const existingConnection = existingCameras.find(
@@ -102,42 +132,76 @@ export const POST = withErrorHandling(async (
     );
   }
 
-  // Check camera limit (max 10 cameras per event)
-  const activeCameras = existingCameras.filter(camera => camera.status === 'active');
-  if (activeCameras.length >= 10) {
+  // Take a camera slot, or a place in line when the event is full / needs approval
+  const admission = await CameraAdmission.requestSlot(event, {
+    participantId: authenticatedParticipantId,
+    participantName: authenticatedParticipantName,
+    deviceInfo: deviceInfo || {},
+    codeVersion: cameraAccess.codeVersion,
+  });
+
+  if (admission.status === 'full') {
     return NextResponse.json(
       {
         success: false,
-        error: 'Maximum number of cameras reached for this event',
+        error: `Maximum number of cameras (${admission.maxCameras}) reached for this event`,
       },
       { status: 429, headers: securityHeaders() }
     );
   }
 
-  // Create camera connection record
-  const cameraConnection = await CameraConnectionService.create({
-    eventId,
-    participantId: authenticatedParticipantId,
-    participantName: authenticatedParticipantName,
-    deviceInfo: deviceInfo || {},
-  });
+  if (admission.status === 'pending') {
+    // No LiveKit token (and so no publishing) until the organizer approves;
+    // upload preview snapshots and poll the admission endpoint meanwhile
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          eventId,
+          cameraConnectionId: admission.camera.id,
+          admissionStatus: 'pending',
+          admissionMode: 'approval',
+          waitlistPosition: null,
+          pollIntervalSeconds: WAITLIST_POLL_INTERVAL_SECONDS,
+          previewIntervalSeconds: PREVIEW_UPLOAD_INTERVAL_SECONDS,
+        },
+        message: 'Waiting for the organizer to approve this camera',
+      },
+      { status: 202, headers: securityHeaders() }
+    );
+  }
+
+  if (admission.status === 'waiting') {
+    // No LiveKit token yet: poll the admission endpoint until a slot is granted
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          eventId,
+          cameraConnectionId: admission.camera.id,
+          admissionStatus: 'waiting',
+          admissionMode: event.admissionMode ?? DEFAULT_ADMISSION_MODE,
+          waitlistPosition: admission.position,
+          pollIntervalSeconds: WAITLIST_POLL_INTERVAL_SECONDS,
+        },
+        message: 'Event is full; added to the waitlist',
+      },
+      { status: 202, headers: securityHeaders() }
+    );
+  }
+
+  const cameraConnection = admission.camera;
 
   // Generate LiveKit access token
   let roomToken: string;
   try {
-    roomToken = await generateAccessToken(
-      event.livekitRoomName,
-      authenticatedParticipantId,
-      {
-        canPublish: true,
-        canSubscribe: true,
-        canPublishData: true,
-        metadata: JSON.stringify({
-          participantName: authenticatedParticipantName || authenticatedParticipantId,
-          cameraConnectionId: cameraConnection.id,
-        }),
-      }
-    );
+    roomToken = await AuthService.generateLiveKitToken({
+      identity: authenticatedParticipantId,
+      roomName: event.livekitRoomName,
+      role: 'camera',
+      participantName: authenticatedParticipantName,
+      cameraConnectionId: cameraConnection.id,
+    });
   } catch (error) {
     console.error('Failed to generate LiveKit token:', error);
     
@@ -193,6 +257,8 @@ export const POST = withErrorHandling(async (
         roomToken,
         roomName: event.livekitRoomName,
         cameraConnectionId: cameraConnection.id,
+        admissionStatus: 'admitted',
+        heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
         event: {
           title: event.title,
           description: event.description,
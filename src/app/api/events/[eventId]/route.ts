@@ -5,7 +5,7 @@ import {
   CameraConnectionService,
   StreamStatusService,
 } from "@/lib/database";
-import { requireEventAccess } from "@/lib/auth";
+import { SessionService, requireEventAccess } from "@/lib/auth";
 import {
   rateLimit,
   validateRequestBody,
@@ -16,7 +16,11 @@ import {
 } from "@/lib/middleware";
 import { updateEventSchema } from "@/lib/validation";
 import { isValidUUID } from "@/lib/validation";
-import type { EventClient } from "@/types";
+import { WebSocketEventHandler } from "@/lib/websocket";
+import { BroadcastLifecycle } from "@/lib/broadcast-lifecycle";
+import { CameraAdmission } from "@/lib/camera-admission";
+import { ViewerAccess, toPublicEvent } from "@/lib/viewer-access";
+import type { EventClient, PublicEventClient } from "@/types";
 
 // イベントアクセスログの型定義
 interface EventAccessLog {
@@ -87,15 +91,21 @@ export const GET = withErrorHandling(
     const includeCameras = searchParams.get("include_cameras") === "true";
     const includeStatus = searchParams.get("include_status") === "true";
 
+    // The YouTube broadcast needs the viewer session of a passphrase-protected event
+    const viewerAccess = await ViewerAccess.check(
+      eventId,
+      request.cookies.get(SessionService.getViewerCookieName(eventId))?.value
+    );
+
     const responseData: {
-      event: typeof event;
+      event: PublicEventClient;
       cameras?: Awaited<
         ReturnType<typeof CameraConnectionService.getByEventId>
       >;
       streamStatus?: Awaited<
         ReturnType<typeof StreamStatusService.getByEventId>
       >;
-    } = { event };
+    } = { event: toPublicEvent(event, viewerAccess) };
 
     if (includeCameras) {
       responseData.cameras = await CameraConnectionService.getByEventId(
@@ -151,7 +161,7 @@ export const PUT = withErrorHandling(
     const { eventId } = await context.params;
 
     // Require event-specific authentication for updates
-    const authResult = await requireEventAccess(eventId, ['admin', 'organizer'])(request);
+    const authResult = await requireEventAccess(eventId, ['organizer'])(request);
     if (authResult instanceof Response) return authResult;
 
     // Validate UUID format
@@ -193,6 +203,27 @@ export const PUT = withErrorHandling(
 
     const updatedEvent = await EventService.update(eventId, updateData);
 
+    // Switching settings changed - restart or stop rotation timers
+    if (
+      updateData.switchingPolicy !== undefined ||
+      updateData.switchingDwellSeconds !== undefined
+    ) {
+      await WebSocketEventHandler.refreshSwitchingPolicy(eventId);
+    }
+
+    // More slots (or no more approval) can let waiting cameras in
+    if (
+      updateData.maxCameras !== undefined ||
+      updateData.admissionMode !== undefined
+    ) {
+      await CameraAdmission.admitWaiting(eventId);
+    }
+
+    // Going live / ending the event drives egress and the YouTube broadcast
+    if (updateData.status && updateData.status !== existingEvent.status) {
+      await BroadcastLifecycle.onEventStatusChanged(eventId, updateData.status);
+    }
+
     return NextResponse.json(
       {
         success: true,
@@ -218,8 +249,8 @@ export const DELETE = withErrorHandling(
 
     const { eventId } = await context.params;
 
-    // Require event-specific authentication for deletion
-    const authResult = await requireEventAccess(eventId, ['admin', 'organizer'])(request);
+    // Only owners may delete the event
+    const authResult = await requireEventAccess(eventId, ['organizer'], 'owner')(request);
     if (authResult instanceof Response) return authResult;
 
     // Validate UUID format
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventService } from '@/lib/database';
+import { requireEventAccess } from '@/lib/auth';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isValidUUID } from '@/lib/validation';
+import {
+  MAX_STANDBY_IMAGE_BYTES,
+  removeStandbyImage,
+  uploadStandbyImage,
+  validateStandbyImage,
+} from '@/lib/standby-slate';
+import { WebSocketEventHandler } from '@/lib/websocket';
+
+type RouteContext = { params: Promise<{ eventId: string }> };
+
+// Shared checks for both methods; returns the error response or null
+async function authorize(request: NextRequest, eventId: string): Promise<NextResponse | null> {
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const authResult = await requireEventAccess(eventId, ['organizer'])(request);
+  if (authResult instanceof Response) return authResult;
+
+  if (!isValidUUID(eventId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid event ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const event = await EventService.getById(eventId);
+  if (!event) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Event not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  return null;
+}
+
+// POST /api/events/[eventId]/standby-slate - Upload the standby image (multipart field "image")
+export const POST = withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+  const { eventId } = await params;
+
+  const errorResponse = await authorize(request, eventId);
+  if (errorResponse) return errorResponse;
+
+  const formData = await request.formData().catch(() => null);
+  const image = formData?.get('image');
+
+  if (!(image instanceof Blob)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Multipart field "image" is required',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const validationError = validateStandbyImage(image);
+  if (validationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: validationError,
+      },
+      {
+        status: image.size === 0 ? 400 : image.size > MAX_STANDBY_IMAGE_BYTES ? 413 : 415,
+        headers: securityHeaders(),
+      }
+    );
+  }
+
+  const event = await uploadStandbyImage(eventId, image);
+
+  // Show the new image right away if the slate is on air
+  await WebSocketEventHandler.refreshStandbySlate(eventId);
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: { standbyImageUrl: event.standbyImageUrl ?? null },
+      message: 'Standby image uploaded successfully',
+    },
+    { headers: securityHeaders() }
+  );
+});
+
+// DELETE /api/events/[eventId]/standby-slate - Go back to the generated title card
+export const DELETE = withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+  const { eventId } = await params;
+
+  const errorResponse = await authorize(request, eventId);
+  if (errorResponse) return errorResponse;
+
+  await removeStandbyImage(eventId);
+  await WebSocketEventHandler.refreshStandbySlate(eventId);
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: { standbyImageUrl: null },
+      message: 'Standby image removed successfully',
+    },
+    { headers: securityHeaders() }
+  );
+});
@@ -10,9 +10,9 @@ import {
   withErrorHandling,
   requestLogger,
   securityHeaders,
-  requireAuth,
   RATE_LIMITS,
 } from "@/lib/middleware";
+import { requireEventAccess } from "@/lib/auth";
 import { updateStreamStatusSchema } from "@/lib/validation";
 import { isValidUUID } from "@/lib/validation";
 
@@ -80,14 +80,6 @@ export const GET = withErrorHandling(
         eventId,
         isLive: activeCameras.length > 0,
         activeCameraCount: activeCameras.length,
-        currentActiveCamera:
-          activeCameras.length > 0
-            ? activeCameras.sort(
-                (a, b) =>
-                  new Date(b.joinedAt).getTime() -
-                  new Date(a.joinedAt).getTime()
-              )[0]?.id
-            : undefined,
       });
     }
 
@@ -121,12 +113,12 @@ export const PUT = withErrorHandling(
     const rateLimitResult = await rateLimit(RATE_LIMITS.statusUpdate)(request);
     if (rateLimitResult) return rateLimitResult;
 
-    // Require authentication for status updates
-    const authResult = requireAuth(request);
-    if (authResult) return authResult;
-
     const { eventId } = await context.params;
 
+    // Require an operator of the event for status updates
+    const authResult = await requireEventAccess(eventId, ["organizer"])(request);
+    if (authResult instanceof Response) return authResult;
+
     // Validate UUID format
     if (!isValidUUID(eventId)) {
       return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SSEHandler } from '@/lib/websocket';
 import { EventService } from '@/lib/database';
+import { getSessionEventRole } from '@/lib/organizer-session';
 
 // GET /api/events/[eventId]/stream - Server-Sent Events for real-time updates
 export async function GET(
@@ -19,8 +20,21 @@ export async function GET(
       );
     }
 
-    // Create SSE stream
-    const stream = SSEHandler.createEventStream(eventId);
+    // EventSource sends Last-Event-ID on automatic reconnects; clients that
+    // reconnect manually can pass it as a query parameter instead
+    const lastEventId =
+      request.headers.get('last-event-id') ??
+      request.nextUrl.searchParams.get('lastEventId');
+
+    // Alerts such as code-guess spikes go only to the event's organizers
+    const organizerRole = await getSessionEventRole(eventId);
+
+    // Create SSE stream (unsubscribed when the client disconnects)
+    const stream = SSEHandler.createEventStream(eventId, {
+      signal: request.signal,
+      lastEventId,
+      includeOrganizerEvents: organizerRole !== null,
+    });
 
     // Return SSE response
     return new NextResponse(stream, {
@@ -29,7 +43,7 @@ export async function GET(
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control',
+        'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID',
       },
     });
 
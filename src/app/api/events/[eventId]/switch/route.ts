@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventService, CameraConnectionService } from '@/lib/database';
+import { requireEventAccess } from '@/lib/auth';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { manualSwitchSchema, isValidUUID } from '@/lib/validation';
+import { WebSocketEventHandler } from '@/lib/websocket';
+
+// POST /api/events/[eventId]/switch - Put a specific camera on air (organizer "take")
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId } = await params;
+
+  const authResult = await requireEventAccess(eventId, ['organizer'])(request);
+  if (authResult instanceof Response) return authResult;
+
+  if (!isValidUUID(eventId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid event ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const bodyValidation = await validateRequestBody(manualSwitchSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const { cameraConnectionId, lockoutSeconds } = bodyValidation.data;
+
+  const [event, camera] = await Promise.all([
+    EventService.getById(eventId),
+    CameraConnectionService.getById(cameraConnectionId),
+  ]);
+
+  if (!event) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Event not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  if (!camera || camera.eventId !== eventId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera connection not found for this event',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  // Only a streaming camera can be put on air
+  if (camera.status !== 'active') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Camera is not streaming',
+      },
+      { status: 409, headers: securityHeaders() }
+    );
+  }
+
+  const result = await WebSocketEventHandler.handleManualSwitch(eventId, cameraConnectionId, {
+    lockoutSeconds,
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.error || 'Failed to switch camera',
+      },
+      { status: 502, headers: securityHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        fromCamera: result.fromCamera ?? null,
+        toCamera: result.toCamera,
+        autoSwitchLockedUntil: result.autoSwitchLockedUntil ?? null,
+      },
+      message: 'Camera switched successfully',
+    },
+    { headers: securityHeaders() }
+  );
+});
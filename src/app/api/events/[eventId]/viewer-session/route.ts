@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/auth';
+import { EventService } from '@/lib/database';
+import {
+  rateLimit,
+  validateRequestBody,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isValidUUID, viewerSessionSchema } from '@/lib/validation';
+import { getCodeGuardClientKey } from '@/lib/code-guard';
+import { ViewerAccess } from '@/lib/viewer-access';
+
+// POST /api/events/[eventId]/viewer-session - Exchange the viewer passphrase for a viewer session cookie
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.joinEvent)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { eventId } = await params;
+
+  // Validate UUID format
+  if (!isValidUUID(eventId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid event ID format',
+      },
+      { status: 400, headers: securityHeaders() }
+    );
+  }
+
+  const bodyValidation = await validateRequestBody(viewerSessionSchema)(request);
+  if (bodyValidation instanceof NextResponse) return bodyValidation;
+
+  const event = await EventService.getById(eventId);
+  if (!event) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Event not found',
+      },
+      { status: 404, headers: securityHeaders() }
+    );
+  }
+
+  const result = await ViewerAccess.exchange(
+    eventId,
+    bodyValidation.data.passphrase,
+    getCodeGuardClientKey(request.headers)
+  );
+
+  if (result.status === 'throttled') {
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many passphrase attempts',
+        retryAfter,
+      },
+      { status: 429, headers: { ...securityHeaders(), 'Retry-After': retryAfter.toString() } }
+    );
+  }
+
+  if (result.status === 'wrong-passphrase') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid passphrase',
+        ...(result.retryAfterMs > 0 ? { retryAfter: Math.ceil(result.retryAfterMs / 1000) } : {}),
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  // The watch page is public; nothing to exchange
+  if (result.status === 'not-required') {
+    return NextResponse.json(
+      {
+        success: true,
+        data: { passphraseRequired: false },
+      },
+      { headers: securityHeaders() }
+    );
+  }
+
+  const response = NextResponse.json(
+    {
+      success: true,
+      data: { passphraseRequired: true },
+    },
+    { headers: securityHeaders() }
+  );
+  response.headers.set('Set-Cookie', SessionService.createViewerSessionCookie(eventId, result.token));
+
+  return response;
+});
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { EventService } from '@/lib/database';
+import { EventMemberService, EventSecretService, EventService } from '@/lib/database';
 import { createYouTubeLiveStream } from '@/lib/youtube';
-import { AuthService } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth';
+import { resolveYouTubeClient } from '@/lib/youtube-oauth';
 import { 
   rateLimit, 
   validateRequestBody, 
@@ -12,6 +13,7 @@ import {
   RATE_LIMITS 
 } from '@/lib/middleware';
 import { createEventSchema, listEventsQuerySchema } from '@/lib/validation';
+import { toPublicEvent } from '@/lib/viewer-access';
 
 // GET /api/events - List events
 export const GET = withErrorHandling(async (request: NextRequest) => {
@@ -32,11 +34,18 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     offset,
     status,
   });
+  // Passphrase-protected broadcasts are only linked from their watch page
+  const passphraseEventIds = await EventSecretService.getEventIdsWithViewerPassphrase(
+    events.map((event) => event.id)
+  );
 
   return NextResponse.json(
     {
       success: true,
-      data: events,
+      data: events.map((event) => {
+        const required = passphraseEventIds.has(event.id);
+        return toPublicEvent(event, { required, granted: !required });
+      }),
       pagination: {
         limit,
         offset,
@@ -47,7 +56,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   );
 });
 
-// POST /api/events - Create new event (requires admin authentication)
+// POST /api/events - Create new event (requires an organizer account, who becomes its owner)
 export const POST = withErrorHandling(async (request: NextRequest) => {
   // Apply middleware
   requestLogger(request);
@@ -55,17 +64,11 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const rateLimitResult = await rateLimit(RATE_LIMITS.createEvent)(request);
   if (rateLimitResult) return rateLimitResult;
 
-  // Check admin authentication
-  const hasAdminAccess = await AuthService.hasAdminAccess(request);
-  if (!hasAdminAccess) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Admin authentication required to create events',
-      },
-      { status: 401 }
-    );
-  }
+  // Check organizer authentication
+  const authResult = await requireAuth(['organizer'])(request);
+  if (authResult instanceof NextResponse) return authResult;
+
+  const organizerId = authResult.payload.sub;
 
   // Validate request body
   const bodyValidation = await validateRequestBody(createEventSchema)(request);
@@ -73,25 +76,28 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   
   const { title, description, scheduledAt } = bodyValidation.data;
 
-  // Create event
+  // Create event. The creator's YouTube channel hosts the broadcast
   const event = await EventService.create({
     title,
     description,
     scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+    organizerId,
   });
 
-  // Generate organizer token for the event creator
-  const organizerId = `organizer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const organizerToken = await AuthService.generateOrganizerToken(organizerId, event.id);
+  // The creator owns the event
+  await EventMemberService.upsert(event.id, organizerId, 'owner');
 
   // Create YouTube Live stream
   try {
-    const youtubeStream = await createYouTubeLiveStream({
-      title: event.title,
-      description: event.description,
-      scheduledStartTime: event.scheduledAt,
-      privacy: 'unlisted',
-    });
+    const youtubeStream = await createYouTubeLiveStream(
+      {
+        title: event.title,
+        description: event.description,
+        scheduledStartTime: event.scheduledAt,
+        privacy: 'unlisted',
+      },
+      await resolveYouTubeClient(event.organizerId)
+    );
 
     // Update event with YouTube stream information
     const updatedEvent = await EventService.update(event.id, {
@@ -107,7 +113,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
           event: updatedEvent,
           organizer: {
             id: organizerId,
-            token: organizerToken,
+            role: 'owner',
           },
         },
         message: 'Event created successfully with YouTube integration',
@@ -128,7 +134,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
           event,
           organizer: {
             id: organizerId,
-            token: organizerToken,
+            role: 'owner',
           },
         },
         warning: 'Event created but YouTube integration failed',
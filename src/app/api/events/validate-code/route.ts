@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/lib/auth';
 import { participationCodeSchema } from '@/lib/validation';
 import { rateLimit, RATE_LIMITS, withErrorHandling, requestLogger } from '@/lib/middleware';
+import { CodeGuard, getCodeGuardClientKey } from '@/lib/code-guard';
+import {
+  CAMERA_DEVICE_COOKIE,
+  CAMERA_DEVICE_COOKIE_OPTIONS,
+  resolveCameraDeviceId,
+} from '@/lib/camera-moderation';
 
 // POST /api/events/validate-code - Validate participation code and generate camera token
 export const POST = withErrorHandling(async (request: NextRequest) => {
@@ -11,6 +17,21 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const rateLimitResult = await rateLimit(RATE_LIMITS.joinEvent)(request);
   if (rateLimitResult) return rateLimitResult;
 
+  // Progressive delay after wrong guesses, and a global limit while guesses spike
+  const clientKey = getCodeGuardClientKey(request.headers);
+  const guard = await CodeGuard.check(clientKey);
+  if (!guard.allowed) {
+    const retryAfter = Math.ceil(guard.retryAfterMs / 1000);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many participation code attempts',
+        retryAfter,
+      },
+      { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+    );
+  }
+
   const body = await request.json();
 
   // Validate request body
@@ -26,40 +47,53 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     );
   }
 
-  const { code: participationCode } = validation.data;
+  const { code: participationCode, pin } = validation.data;
 
-  // Generate participant ID (could be from request or generated)
-  const participantId = body.participantId || `participant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Always issued here: bans match the participant ID in the signed token
+  const participantId = `participant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   const participantName = body.participantName;
 
-  // Validate participation code and generate token
-  const result = await AuthService.validateParticipationCodeAndGenerateToken(
-    participationCode,
-    participantId,
-    participantName
-  );
+  // Validate participation code (and the event's PIN, if it has one)
+  const verification = await CodeGuard.verifyCode(clientKey, participationCode, pin);
+
+  if (verification.status === 'pin-required' || verification.status === 'wrong-pin') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: verification.status === 'pin-required' ? 'PIN required' : 'Invalid PIN',
+        data: { pinRequired: true },
+        ...(verification.status === 'wrong-pin' && verification.retryAfterMs > 0
+          ? { retryAfter: Math.ceil(verification.retryAfterMs / 1000) }
+          : {}),
+      },
+      { status: 401 }
+    );
+  }
 
-  if (!result) {
+  if (verification.status !== 'ok') {
     return NextResponse.json(
       {
         success: false,
         error: 'Invalid participation code or event has ended',
+        ...(verification.status === 'not-found' && verification.retryAfterMs > 0
+          ? { retryAfter: Math.ceil(verification.retryAfterMs / 1000) }
+          : {}),
       },
       { status: 404 }
     );
   }
 
-  const { token, event } = result;
-
-  // Generate LiveKit token for streaming
-  const liveKitToken = await AuthService.generateLiveKitToken(
+  const { event } = verification;
+  const device = resolveCameraDeviceId(request.cookies.get(CAMERA_DEVICE_COOKIE)?.value);
+  const token = await AuthService.generateCameraToken(
     participantId,
     event.id,
-    participantName
+    participantName,
+    { codeVersion: event.participationCodeVersion, deviceId: device.deviceId }
   );
 
   // Return event information and tokens
-  return NextResponse.json({
+  const response = NextResponse.json({
     success: true,
     data: {
       event: {
@@ -75,8 +109,13 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       },
       tokens: {
         accessToken: token,
-        liveKitToken,
       },
     },
   });
+
+  if (device.issued) {
+    response.cookies.set(CAMERA_DEVICE_COOKIE, device.deviceId, CAMERA_DEVICE_COOKIE_OPTIONS);
+  }
+
+  return response;
 });
@@ -1,15 +1,28 @@
 import { NextResponse } from 'next/server';
+import { getYouTubeQuotaLedger } from '@/lib/youtube-quota';
 
 // GET /api/health - ヘルスチェックエンドポイント
 export async function GET() {
+  // 本日消費したYouTube APIクォータ（太平洋時間の0時にリセット）
+  const quota = await getYouTubeQuotaLedger().getUsage();
+
   return NextResponse.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    youtubeQuota: {
+      status: quota.cooldownUntil ? 'cooldown' : 'ok',
+      day: quota.day,
+      limit: quota.limit,
+      used: quota.used,
+      remaining: quota.remaining,
+      resetsAt: quota.resetsAt.toISOString(),
+      cooldownUntil: quota.cooldownUntil?.toISOString() ?? null,
+    },
   });
 }
 
 // HEAD /api/health - 軽量なヘルスチェック（接続テスト用）
 export async function HEAD() {
   return new NextResponse(null, { status: 200 });
-}
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import {
+  OAUTH_STATE_COOKIE,
+  YOUTUBE_CALLBACK_PATH,
+  connectYouTubeChannel,
+  getYouTubeRedirectUri,
+  sanitizeReturnTo,
+  verifyOAuthState,
+} from '@/lib/youtube-oauth';
+
+// Send the organizer back to the page that started the flow
+function redirectWithResult(
+  request: NextRequest,
+  returnTo: string,
+  result: 'connected' | 'error',
+  reason?: string
+): NextResponse {
+  const url = new URL(returnTo, request.nextUrl.origin);
+  url.searchParams.set('youtube', result);
+  if (reason) url.searchParams.set('reason', reason);
+
+  const response = NextResponse.redirect(url);
+  response.cookies.set(OAUTH_STATE_COOKIE, '', { path: YOUTUBE_CALLBACK_PATH, maxAge: 0 });
+  return response;
+}
+
+// GET /api/integrations/youtube/callback - Google redirects here after consent
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const { searchParams } = request.nextUrl;
+  const stateParam = searchParams.get('state');
+  const nonce = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+
+  const state = stateParam ? await verifyOAuthState(stateParam, nonce) : null;
+  if (!state) {
+    return redirectWithResult(request, sanitizeReturnTo(null), 'error', 'invalid_state');
+  }
+
+  // The organizer declined consent (or Google reported another error)
+  const oauthError = searchParams.get('error');
+  const code = searchParams.get('code');
+  if (oauthError || !code) {
+    return redirectWithResult(request, state.returnTo, 'error', oauthError ?? 'missing_code');
+  }
+
+  try {
+    await connectYouTubeChannel({
+      organizerId: state.organizerId,
+      code,
+      redirectUri: getYouTubeRedirectUri(request.nextUrl.origin),
+    });
+  } catch (error) {
+    console.error('Failed to connect YouTube channel:', error);
+    return redirectWithResult(request, state.returnTo, 'error', 'connect_failed');
+  }
+
+  return redirectWithResult(request, state.returnTo, 'connected');
+});
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { isTokenEncryptionConfigured } from '@/lib/token-encryption';
+import { YouTubeConfigurationError } from '@/lib/youtube';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+  YOUTUBE_CALLBACK_PATH,
+  buildYouTubeAuthorizationUrl,
+  createOAuthState,
+  getOrganizerIdFromRequest,
+  getYouTubeOAuthConfig,
+  getYouTubeRedirectUri,
+} from '@/lib/youtube-oauth';
+
+// GET /api/integrations/youtube/connect - Start connecting the organizer's YouTube channel
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const organizerId = await getOrganizerIdFromRequest(request);
+  if (!organizerId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Organizer authentication required',
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  let config;
+  try {
+    config = getYouTubeOAuthConfig();
+  } catch (error) {
+    if (!(error instanceof YouTubeConfigurationError)) throw error;
+    config = null;
+  }
+
+  // Refresh tokens are only stored encrypted
+  if (!config || !isTokenEncryptionConfigured()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'YouTube integration is not configured',
+      },
+      { status: 503, headers: securityHeaders() }
+    );
+  }
+
+  const returnTo = request.nextUrl.searchParams.get('returnTo');
+  const { state, nonce } = await createOAuthState(organizerId, returnTo ?? '');
+
+  const response = NextResponse.redirect(
+    buildYouTubeAuthorizationUrl({
+      clientId: config.clientId,
+      redirectUri: getYouTubeRedirectUri(request.nextUrl.origin),
+      state,
+    })
+  );
+
+  response.cookies.set(OAUTH_STATE_COOKIE, nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax: the cookie must survive the top-level redirect back from Google
+    sameSite: 'lax',
+    path: YOUTUBE_CALLBACK_PATH,
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  });
+
+  return response;
+});
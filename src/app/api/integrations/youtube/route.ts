@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { YouTubeConnectionService } from '@/lib/database';
+import {
+  rateLimit,
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+  RATE_LIMITS
+} from '@/lib/middleware';
+import { disconnectYouTubeChannel, getOrganizerIdFromRequest } from '@/lib/youtube-oauth';
+
+function unauthorized(): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Organizer authentication required',
+    },
+    { status: 401, headers: securityHeaders() }
+  );
+}
+
+// GET /api/integrations/youtube - The organizer's connected YouTube channel
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const organizerId = await getOrganizerIdFromRequest(request);
+  if (!organizerId) return unauthorized();
+
+  const connection = await YouTubeConnectionService.getByOrganizerId(organizerId);
+
+  // The refresh token never leaves the server
+  return NextResponse.json(
+    {
+      success: true,
+      data: connection
+        ? {
+            connected: true,
+            channelId: connection.channelId,
+            channelTitle: connection.channelTitle,
+            connectedAt: connection.updatedAt,
+          }
+        : { connected: false },
+    },
+    { headers: securityHeaders() }
+  );
+});
+
+// DELETE /api/integrations/youtube - Disconnect the organizer's YouTube channel
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  // Apply middleware
+  requestLogger(request);
+
+  const rateLimitResult = await rateLimit(RATE_LIMITS.default)(request);
+  if (rateLimitResult) return rateLimitResult;
+
+  const organizerId = await getOrganizerIdFromRequest(request);
+  if (!organizerId) return unauthorized();
+
+  await disconnectYouTubeChannel(organizerId);
+
+  return NextResponse.json(
+    {
+      success: true,
+      message: 'YouTube channel disconnected',
+    },
+    { headers: securityHeaders() }
+  );
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookReceiver } from 'livekit-server-sdk';
+import {
+  withErrorHandling,
+  requestLogger,
+  securityHeaders,
+} from '@/lib/middleware';
+import { LiveKitWebhookHandler } from '@/lib/livekit-webhook';
+
+// POST /api/livekit/webhook - Participant and track events from the LiveKit server
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  // Apply middleware. Not rate limited: every request comes from the LiveKit
+  // server and is authenticated by its signature.
+  requestLogger(request);
+
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'LiveKit webhook is not configured',
+      },
+      { status: 503, headers: securityHeaders() }
+    );
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const body = await request.text();
+  const authorization = request.headers.get('authorization') ?? undefined;
+
+  let event;
+  try {
+    event = await new WebhookReceiver(apiKey, apiSecret).receive(body, authorization);
+  } catch (error) {
+    console.warn('Rejected LiveKit webhook:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook signature',
+      },
+      { status: 401, headers: securityHeaders() }
+    );
+  }
+
+  const result = await LiveKitWebhookHandler.handle(event);
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: result,
+    },
+    { headers: securityHeaders() }
+  );
+});
@@ -0,0 +1,22 @@
+import { notFound } from 'next/navigation';
+import { StandbySlate } from '@/components/stream/StandbySlate';
+import { getEventById } from '@/app/actions/events';
+
+// LiveKitのWebエグレスが描画してYouTubeへ送る待機画面
+export const dynamic = 'force-dynamic'; // アップロードされた画像を常に反映
+
+interface StandbyPageProps {
+  params: Promise<{ eventId: string }>;
+}
+
+export default async function StandbyPage({ params }: StandbyPageProps) {
+  const { eventId } = await params;
+
+  const event = await getEventById(eventId);
+
+  if (!event) {
+    notFound();
+  }
+
+  return <StandbySlate title={event.title} imageUrl={event.standbyImageUrl} />;
+}
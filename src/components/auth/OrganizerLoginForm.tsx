@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent, ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Shield } from 'lucide-react';
+
+interface OrganizerLoginFormProps {
+  onSuccess?: () => void;
+  // ログイン後に移動するページ（サーバー側もセッションCookieで再描画する）
+  redirectTo?: string;
+  // 招待されたメールアドレスなど、あらかじめ入力しておく値
+  defaultEmail?: string;
+}
+
+// APIのエラーを画面の文言に置き換える
+const ERROR_MESSAGES: Record<string, string> = {
+  'Invalid email or password': 'メールアドレスまたはパスワードが正しくありません',
+  'Too many login attempts': 'ログインの試行回数が多すぎます。しばらく待ってからお試しください',
+  'An account with this email already exists': 'このメールアドレスは既に登録されています。ログインしてください',
+};
+
+export function OrganizerLoginForm({ onSuccess, redirectTo, defaultEmail = '' }: OrganizerLoginFormProps) {
+  const router = useRouter();
+  const { loginAsOrganizer, registerOrganizer, isLoading } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState(defaultEmail);
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLocalError(null);
+
+    if (!email.trim() || !password) {
+      setLocalError('メールアドレスとパスワードを入力してください');
+      return;
+    }
+    if (isRegister && password.length < 8) {
+      setLocalError('パスワードは8文字以上で入力してください');
+      return;
+    }
+
+    try {
+      if (isRegister) {
+        await registerOrganizer(email.trim(), password, displayName.trim() || undefined);
+      } else {
+        await loginAsOrganizer(email.trim(), password);
+      }
+      onSuccess?.();
+      if (redirectTo) {
+        router.replace(redirectTo);
+        router.refresh();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      setLocalError(ERROR_MESSAGES[message] ?? (isRegister ? '登録に失敗しました' : 'ログインに失敗しました'));
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(isRegister ? 'login' : 'register');
+    setLocalError(null);
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-2">
+          <Shield className="h-8 w-8 text-blue-600" />
+        </div>
+        <CardTitle>{isRegister ? '主催者アカウントの作成' : '主催者ログイン'}</CardTitle>
+        <CardDescription>
+          {isRegister
+            ? 'イベントを作成・管理するためのアカウントを作成します'
+            : 'イベントを管理するには主催者アカウントでログインしてください'
+          }
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="organizer-email">メールアドレス</Label>
+            <Input
+              id="organizer-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="organizer@example.com"
+              disabled={isLoading}
+              autoComplete="email"
+            />
+          </div>
+
+          {isRegister && (
+            <div className="space-y-2">
+              <Label htmlFor="organizer-display-name">表示名（任意）</Label>
+              <Input
+                id="organizer-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="例: 運動会実行委員 田中"
+                maxLength={100}
+                disabled={isLoading}
+                autoComplete="name"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="organizer-password">パスワード</Label>
+            <Input
+              id="organizer-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={isRegister ? '8文字以上' : 'パスワードを入力'}
+              disabled={isLoading}
+              autoComplete={isRegister ? 'new-password' : 'current-password'}
+            />
+          </div>
+
+          {localError && (
+            <Alert variant="destructive">
+              <AlertDescription>{localError}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !email.trim() || !password}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isRegister ? '作成中...' : '認証中...'}
+              </>
+            ) : (
+              isRegister ? 'アカウントを作成' : 'ログイン'
+            )}
+          </Button>
+        </form>
+
+        <div className="mt-4 text-sm text-gray-600 text-center">
+          <button type="button" onClick={toggleMode} className="underline" disabled={isLoading}>
+            {isRegister ? 'アカウントをお持ちの方はこちら（ログイン）' : 'はじめての方はこちら（アカウント作成）'}
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Protected organizer route wrapper
+interface OrganizerRouteProps {
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export function OrganizerRoute({ children, fallback }: OrganizerRouteProps) {
+  const { user, isLoading, hasPermission } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user || !hasPermission('organizer')) {
+    return fallback || <OrganizerLoginForm />;
+  }
+
+  return <>{children}</>;
+}
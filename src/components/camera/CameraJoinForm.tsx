@@ -4,6 +4,7 @@ import {
   useActionState,
   useOptimistic,
   startTransition,
+  useCallback,
   useEffect,
   useState,
 } from "react";
@@ -13,7 +14,14 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import type { NavigatorWithConnection } from '@/lib/type-guards';
 import { useFocusManagement } from '@/hooks/useFocusManagement';
-import { joinCameraAction, type CameraJoinState } from "@/app/actions/camera";
+import {
+  joinCameraAction,
+  joinCameraWithInviteAction,
+  type CameraJoinState,
+} from "@/app/actions/camera";
+import { WAITLIST_POLL_INTERVAL_SECONDS } from "@/lib/camera-capacity";
+import type { AdmissionMode } from "@/types";
+import { PendingCameraPreview } from "./PendingCameraPreview";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { InputField } from "@/components/ui/input-field";
@@ -26,7 +34,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Camera, User, QrCode, Smartphone } from "lucide-react";
+import { Loader2, Camera, User, QrCode, Smartphone, Hourglass, KeyRound, Link2 } from "lucide-react";
 
 // Form validation schema
 const cameraJoinFormSchema = z.object({
@@ -39,12 +47,39 @@ const cameraJoinFormSchema = z.object({
     .string()
     .max(100, "参加者名は100文字以内で入力してください")
     .optional(),
+  // 主催者がPINを設定したイベントのみ（空欄可）
+  pin: z
+    .string()
+    .regex(/^(\d{4,8})?$/, "PINは4〜8桁の数字で入力してください")
+    .optional(),
+});
+
+// 招待リンクで参加する場合、参加コードとPINは不要
+const cameraInviteFormSchema = cameraJoinFormSchema.extend({
+  participationCode: z.string(),
 });
 
 type CameraJoinFormData = z.infer<typeof cameraJoinFormSchema>;
 
+// 参加が認められたカメラのルーム情報
+interface CameraRoomSession {
+  eventId: string;
+  roomToken: string;
+  roomName?: string;
+  cameraConnectionId?: string;
+  authToken?: string;
+}
+
+// 主催者が発行した招待リンク
+interface CameraInviteLink {
+  token: string;
+  // 主催者が設定した表示名
+  participantName?: string;
+}
+
 interface CameraJoinFormProps {
   initialParticipationCode?: string;
+  invite?: CameraInviteLink;
 }
 
 const initialState: CameraJoinState = {
@@ -54,10 +89,11 @@ const initialState: CameraJoinState = {
 
 export function CameraJoinForm({
   initialParticipationCode,
+  invite,
 }: CameraJoinFormProps) {
   const router = useRouter();
   const [state, formAction, isPending] = useActionState(
-    joinCameraAction,
+    invite ? joinCameraWithInviteAction : joinCameraAction,
     initialState
   );
 
@@ -87,10 +123,11 @@ export function CameraJoinForm({
     formState: { errors },
     setValue,
   } = useForm<CameraJoinFormData>({
-    resolver: zodResolver(cameraJoinFormSchema),
+    resolver: zodResolver(invite ? cameraInviteFormSchema : cameraJoinFormSchema),
     defaultValues: {
       participationCode: initialParticipationCode?.toUpperCase() || "",
-      participantName: "",
+      participantName: invite?.participantName ?? "",
+      pin: "",
     },
   });
 
@@ -184,13 +221,20 @@ export function CameraJoinForm({
       });
 
       const formData = new FormData();
-      formData.append(
-        "participationCode",
-        data.participationCode.toUpperCase()
-      );
+      if (invite) {
+        formData.append("inviteToken", invite.token);
+      } else {
+        formData.append(
+          "participationCode",
+          data.participationCode.toUpperCase()
+        );
+      }
       if (data.participantName) {
         formData.append("participantName", data.participantName);
       }
+      if (data.pin) {
+        formData.append("pin", data.pin);
+      }
 
       // Add device information
       const deviceInfo = getDeviceInfo();
@@ -213,61 +257,145 @@ export function CameraJoinForm({
     }
   }, [state.errors?.participationCode, participationCodeFocus])
 
+  // Store the room session and move to the camera interface
+  const enterCameraRoom = useCallback((session: CameraRoomSession) => {
+    console.log('Storing session data:', {
+      eventId: session.eventId,
+      roomToken: session.roomToken ? 'present' : 'missing',
+      roomName: session.roomName || 'empty',
+      cameraConnectionId: session.cameraConnectionId || 'missing',
+      authToken: session.authToken ? 'present' : 'missing'
+    });
+
+    // Store authentication tokens in localStorage for persistent auth
+    if (session.authToken) {
+      localStorage.setItem("harecame-token", session.authToken);
+
+      // Store user auth data
+      const authUser = {
+        id: session.cameraConnectionId || `camera-${Date.now()}`,
+        type: 'camera',
+        eventId: session.eventId,
+        participantName: document.querySelector<HTMLInputElement>('#participantName')?.value,
+        token: session.authToken,
+        expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(), // 8 hours
+      };
+      localStorage.setItem("harecame-auth", JSON.stringify(authUser));
+    }
+
+    // Store room information in sessionStorage for the camera interface
+    sessionStorage.setItem("harecame_room_token", session.roomToken);
+    sessionStorage.setItem("harecame_room_name", session.roomName || "");
+    sessionStorage.setItem("harecame_event_id", session.eventId);
+
+    // Store camera connection ID
+    if (session.cameraConnectionId) {
+      sessionStorage.setItem("harecame_camera_connection_id", session.cameraConnectionId);
+    }
+
+    // Store participant name if provided
+    const participantName = document.querySelector<HTMLInputElement>('#participantName')?.value;
+    if (participantName) {
+      sessionStorage.setItem("harecame_participant_name", participantName);
+    }
+
+    console.log('Session storage set, redirecting to:', `/camera/${session.eventId}`);
+
+    // Redirect to camera interface
+    router.push(`/camera/${session.eventId}`);
+  }, [router]);
+
   // Handle successful join
   useEffect(() => {
     if (state.success && state.eventId && state.roomToken) {
-      console.log('Storing session data:', {
+      enterCameraRoom({
         eventId: state.eventId,
-        roomToken: state.roomToken ? 'present' : 'missing',
-        roomName: state.roomName || 'empty',
-        cameraConnectionId: state.cameraConnectionId || 'missing',
-        authToken: state.authToken ? 'present' : 'missing',
-        liveKitToken: state.liveKitToken ? 'present' : 'missing'
+        roomToken: state.roomToken,
+        roomName: state.roomName,
+        cameraConnectionId: state.cameraConnectionId,
+        authToken: state.authToken,
       });
+    }
+  }, [state.success, state.eventId, state.roomToken, state.roomName, state.cameraConnectionId, state.authToken, enterCameraRoom]);
 
-      // Store authentication tokens in localStorage for persistent auth
-      if (state.authToken) {
-        localStorage.setItem("harecame-token", state.authToken);
-
-        // Store user auth data
-        const authUser = {
-          id: state.cameraConnectionId || `camera-${Date.now()}`,
-          type: 'camera',
-          eventId: state.eventId,
-          participantName: document.querySelector<HTMLInputElement>('#participantName')?.value,
-          token: state.authToken,
-          expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(), // 8 hours
-        };
-        localStorage.setItem("harecame-auth", JSON.stringify(authUser));
-      }
-
-      // Store room information in sessionStorage for the camera interface
-      sessionStorage.setItem("harecame_room_token", state.roomToken);
-      sessionStorage.setItem("harecame_room_name", state.roomName || "");
-      sessionStorage.setItem("harecame_event_id", state.eventId);
-
-      // Store LiveKit token if available
-      if (state.liveKitToken) {
-        sessionStorage.setItem("harecame_livekit_token", state.liveKitToken);
-      }
+  // 承認待ち・順番待ち: 主催者が承認する・枠が空くまで定期的に確認する
+  const [waiting, setWaiting] = useState<{
+    status: 'pending' | 'waiting';
+    position: number | null;
+    mode: AdmissionMode;
+  } | null>(null);
+  const [waitError, setWaitError] = useState<string | null>(null);
 
-      // Store camera connection ID
-      if (state.cameraConnectionId) {
-        sessionStorage.setItem("harecame_camera_connection_id", state.cameraConnectionId);
-      }
+  useEffect(() => {
+    const { eventId, cameraConnectionId, authToken } = state;
+    const admissionStatus = state.admissionStatus;
+    if (
+      !state.success ||
+      (admissionStatus !== 'waiting' && admissionStatus !== 'pending') ||
+      !eventId || !cameraConnectionId || !authToken
+    ) {
+      return;
+    }
 
-      // Store participant name if provided
-      const participantName = document.querySelector<HTMLInputElement>('#participantName')?.value;
-      if (participantName) {
-        sessionStorage.setItem("harecame_participant_name", participantName);
+    setWaiting({
+      status: admissionStatus,
+      position: state.waitlistPosition ?? null,
+      mode: state.admissionMode ?? 'waitlist',
+    });
+    setWaitError(null);
+
+    let stopped = false;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(
+          `/api/events/${eventId}/cameras/${cameraConnectionId}/admission`,
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        const result = await response.json();
+        if (stopped) return;
+
+        if (!response.ok || !result.success) {
+          // 順番待ちから外れた（イベント終了・タイムアウトなど）
+          if (response.status === 409 || response.status === 404) {
+            clearInterval(timer);
+            setWaiting(null);
+            setWaitError(
+              result.data?.reason === 'rejected'
+                ? '主催者により参加が承認されませんでした。'
+                : '順番待ちが終了しました。もう一度参加してください。'
+            );
+          }
+          // 主催者が参加コードを再発行すると、古いコードのトークンは使えなくなる
+          if (response.status === 401) {
+            clearInterval(timer);
+            setWaiting(null);
+            setWaitError('参加コードが変更されました。主催者から新しいQRコードまたはコードを受け取って参加し直してください。');
+          }
+          return;
+        }
+
+        if (result.data.admissionStatus === 'admitted') {
+          clearInterval(timer);
+          enterCameraRoom({ ...result.data, authToken });
+          return;
+        }
+
+        setWaiting({
+          status: result.data.admissionStatus,
+          position: result.data.waitlistPosition ?? null,
+          mode: result.data.admissionMode,
+        });
+      } catch (error) {
+        // 一時的な通信エラーは次の確認で再試行する
+        console.warn('Failed to check camera admission:', error);
       }
+    }, WAITLIST_POLL_INTERVAL_SECONDS * 1000);
 
-      console.log('Session storage set, redirecting to:', `/camera/${state.eventId}`);
-
-      // Redirect to camera interface
-      router.push(`/camera/${state.eventId}`);
-    }
-  }, [state.success, state.eventId, state.roomToken, state.roomName, state.cameraConnectionId, state.authToken, state.liveKitToken, router]);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [state, enterCameraRoom]);
 
   return (
     <Card className="w-full max-w-md mx-auto">
@@ -277,52 +405,64 @@ export function CameraJoinForm({
           カメラで参加
         </CardTitle>
         <CardDescription className="text-sm sm:text-base">
-          参加コードを入力してライブ配信に参加しましょう
+          {invite
+            ? "招待リンクからライブ配信に参加しましょう"
+            : "参加コードを入力してライブ配信に参加しましょう"}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          {/* Participation Code */}
-          <div className="space-y-2">
-            <Label
-              htmlFor="participationCode"
-              className="flex items-center gap-2"
-            >
-              <QrCode className="h-4 w-4" />
-              参加コード *
-            </Label>
-            {/* React 19: ref as propパターンでフォーカス管理を統合 */}
-            <Input
-              id="participationCode"
-              placeholder="例: SPRING"
-              {...register("participationCode", {
-                setValueAs: (value) => value.toUpperCase()
-              })}
-              ref={participationCodeFocus.ref}
-              className={`text-center font-mono text-lg sm:text-xl min-h-[48px] touch-manipulation ${
-                errors.participationCode ? "border-red-500" : ""
-              }`}
-              disabled={isPending}
-              style={{ textTransform: "uppercase" }}
-              onChange={(e) => {
-                e.target.value = e.target.value.toUpperCase();
-                register("participationCode").onChange(e);
-              }}
-              autoComplete="off"
-              autoCapitalize="characters"
-              spellCheck={false}
-            />
-            {errors.participationCode && (
-              <p className="text-sm text-red-500">
-                {errors.participationCode.message}
-              </p>
-            )}
-            {state.errors?.participationCode && (
-              <p className="text-sm text-red-500">
-                {state.errors.participationCode[0]}
-              </p>
-            )}
-          </div>
+          {/* 招待リンク: 参加コードの代わり */}
+          {invite ? (
+            <Alert className="border-blue-200 bg-blue-50">
+              <Link2 className="h-4 w-4 text-blue-700" />
+              <AlertDescription className="text-blue-700">
+                主催者の招待リンクで参加します。参加コードの入力は不要です。
+              </AlertDescription>
+            </Alert>
+          ) : (
+            /* Participation Code */
+            <div className="space-y-2">
+              <Label
+                htmlFor="participationCode"
+                className="flex items-center gap-2"
+              >
+                <QrCode className="h-4 w-4" />
+                参加コード *
+              </Label>
+              {/* React 19: ref as propパターンでフォーカス管理を統合 */}
+              <Input
+                id="participationCode"
+                placeholder="例: SPRING"
+                {...register("participationCode", {
+                  setValueAs: (value) => value.toUpperCase()
+                })}
+                ref={participationCodeFocus.ref}
+                className={`text-center font-mono text-lg sm:text-xl min-h-[48px] touch-manipulation ${
+                  errors.participationCode ? "border-red-500" : ""
+                }`}
+                disabled={isPending}
+                style={{ textTransform: "uppercase" }}
+                onChange={(e) => {
+                  e.target.value = e.target.value.toUpperCase();
+                  register("participationCode").onChange(e);
+                }}
+                autoComplete="off"
+                autoCapitalize="characters"
+                spellCheck={false}
+              />
+              {errors.participationCode && (
+                <p className="text-sm text-red-500">
+                  {errors.participationCode.message}
+                </p>
+              )}
+              {state.errors?.participationCode && (
+                <p className="text-sm text-red-500">
+                  {state.errors.participationCode[0]}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* React 19: ref as propパターンを使用したInputFieldコンポーネント */}
           <InputField
@@ -337,14 +477,41 @@ export function CameraJoinForm({
             {...register("participantName")}
             className="min-h-[48px] touch-manipulation"
             disabled={isPending}
+            readOnly={Boolean(invite?.participantName)}
             autoComplete="name"
             error={
               errors.participantName?.message ||
               state.errors?.participantName?.[0]
             }
-            helperText="表示名として使用されます（空欄の場合は自動生成）"
+            helperText={
+              invite?.participantName
+                ? "主催者が設定した表示名で参加します"
+                : "表示名として使用されます（空欄の場合は自動生成）"
+            }
           />
 
+          {/* PIN: 主催者が設定したイベントで、参加コードの確認後に表示 */}
+          {(state.pinRequired || state.errors?.pin) && (
+            <InputField
+              label={
+                <span className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  PIN *
+                </span>
+              }
+              id="pin"
+              type="password"
+              inputMode="numeric"
+              placeholder="4〜8桁の数字"
+              {...register("pin")}
+              className="text-center font-mono text-lg min-h-[48px] touch-manipulation"
+              disabled={isPending}
+              autoComplete="off"
+              error={errors.pin?.message || state.errors?.pin?.[0]}
+              helperText="イベント主催者から受け取ったPINを入力してください"
+            />
+          )}
+
           {/* Device Info Display */}
           {isClient && (
             <div className="p-3 bg-muted rounded-md">
@@ -362,8 +529,37 @@ export function CameraJoinForm({
             </div>
           )}
 
+          {/* 承認待ち・順番待ち */}
+          {waiting && (
+            <Alert className="border-blue-200 bg-blue-50">
+              <Hourglass className="h-4 w-4 text-blue-700" />
+              <AlertDescription className="text-blue-700">
+                {waiting.status === 'pending'
+                  ? '主催者の承認を待っています。'
+                  : waiting.mode === 'approval'
+                  ? `承認されました。カメラの台数が上限に達しているため順番待ちです${waiting.position ? `（${waiting.position}番目）` : ''}。`
+                  : `カメラの台数が上限に達しているため順番待ちです${waiting.position ? `（${waiting.position}番目）` : ''}。`}
+                参加が認められると自動的に配信画面へ移動します。このページを開いたままお待ちください。
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {waiting?.status === 'pending' && state.eventId && state.cameraConnectionId && state.authToken && (
+            <PendingCameraPreview
+              eventId={state.eventId}
+              cameraConnectionId={state.cameraConnectionId}
+              authToken={state.authToken}
+            />
+          )}
+
+          {waitError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-700">{waitError}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Status Message */}
-          {optimisticState.message && (
+          {optimisticState.message && !waiting && !waitError && (
             <Alert
               className={
                 optimisticState.success
@@ -390,7 +586,7 @@ export function CameraJoinForm({
           {/* Submit Button - タッチ最適化 */}
           <Button
             type="submit"
-            disabled={isPending}
+            disabled={isPending || waiting !== null}
             className="w-full min-h-[48px] touch-manipulation text-base sm:text-sm"
           >
             {isPending ? (
@@ -408,7 +604,11 @@ export function CameraJoinForm({
 
           {/* Help Text */}
           <div className="text-center text-sm text-muted-foreground">
-            <p>参加コードはイベント主催者から受け取ってください</p>
+            <p>
+              {invite
+                ? "招待リンクは本人専用です。他の人には共有しないでください"
+                : "参加コードはイベント主催者から受け取ってください"}
+            </p>
           </div>
         </form>
       </CardContent>
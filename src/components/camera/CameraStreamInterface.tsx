@@ -18,6 +18,7 @@ import {
   LocalAudioTrack,
   ConnectionState,
   ConnectionQuality,
+  DisconnectReason,
   Track,
 } from "livekit-client";
 import { useDeviceOrientation } from "@/hooks/useDeviceOrientation";
@@ -50,10 +51,19 @@ import {
   WifiOff,
   AlertCircle,
   Loader2,
+  UserX,
 } from "lucide-react";
 
 const ERROR_VIDEO_TRACK_NOT_FOUND = "Video track not found";
 const ERROR_AUDIO_TRACK_NOT_FOUND = "Audio track not found";
+// Matches HEARTBEAT_INTERVAL_SECONDS on the server
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// 参加時に保存したカメラトークン（heartbeat・状態報告は本人確認が必要）
+const getCameraAuthHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem("harecame-token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
 
 interface CameraStreamInterfaceProps {
   roomToken: string;
@@ -108,6 +118,8 @@ export function CameraStreamInterface({
   const [isInitializingMedia, setIsInitializingMedia] = useState(false);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const [isDisconnected, setIsDisconnected] = useState(false);
+  // 主催者によって配信から外された場合の理由（参加禁止を含む）
+  const [removedBy, setRemovedBy] = useState<"kicked" | "banned" | "code-rotated" | null>(null);
   // プレビュー用ミラー表示のON/OFF
   const [isMirrorPreview, setIsMirrorPreview] = useState(true);
 
@@ -257,6 +269,7 @@ export function CameraStreamInterface({
             method: "PUT",
             headers: {
               "Content-Type": "application/json",
+              ...getCameraAuthHeaders(),
             },
             body: JSON.stringify({
               status,
@@ -614,9 +627,42 @@ export function CameraStreamInterface({
       setConnectionQuality(quality);
     };
 
-    const handleDisconnected = () => {
-      console.log("Room disconnected event received");
+    // 外された後もheartbeatは409と外された理由（kicked / banned）を返す
+    const fetchRemovalReason = async () => {
+      if (!cameraConnectionId) return;
+      try {
+        const response = await fetch(
+          `/api/events/${eventId}/cameras/${cameraConnectionId}/heartbeat`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...getCameraAuthHeaders() },
+            body: JSON.stringify({}),
+          }
+        );
+        // 参加コードが変更されるとトークンが使えなくなり401になる
+        if (response.status === 401) {
+          setRemovedBy("code-rotated");
+          return;
+        }
+        const result = await response.json().catch(() => null);
+        if (result?.data?.reason === "banned") {
+          setRemovedBy("banned");
+        }
+      } catch (error) {
+        console.error("Failed to fetch removal reason:", error);
+      }
+    };
+
+    const handleDisconnected = (reason?: DisconnectReason) => {
+      console.log("Room disconnected event received:", reason);
       setIsConnected(false);
+
+      if (reason === DisconnectReason.PARTICIPANT_REMOVED) {
+        // 参加禁止かどうかはサーバーに記録された理由で判断する
+        setRemovedBy((current) => current ?? "kicked");
+        void fetchRemovalReason();
+        return;
+      }
       setError("配信から切断されました");
     };
 
@@ -644,7 +690,7 @@ export function CameraStreamInterface({
         room.off(RoomEvent.Disconnected, handleDisconnected);
       }
     };
-  }, [room]);
+  }, [room, eventId, cameraConnectionId]);
 
   // Update stream stats periodically
   useEffect(() => {
@@ -655,6 +701,59 @@ export function CameraStreamInterface({
     return () => clearInterval(interval);
   }, [isConnected, updateStreamStats]);
 
+  // Send heartbeats so the server can detect cameras that silently drop off
+  const updateCameraStatusRef = useRef(updateCameraStatus);
+  updateCameraStatusRef.current = updateCameraStatus;
+
+  useEffect(() => {
+    if (!isConnected || !cameraConnectionId) return;
+
+    const sendHeartbeat = async () => {
+      try {
+        const response = await fetch(
+          `/api/events/${eventId}/cameras/${cameraConnectionId}/heartbeat`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...getCameraAuthHeaders(),
+            },
+            body: JSON.stringify({}),
+          }
+        );
+
+        // The participation code was rotated - this token no longer works
+        if (response.status === 401) {
+          setRemovedBy("code-rotated");
+          await room.disconnect();
+          return;
+        }
+
+        if (response.status === 409) {
+          const result = await response.json().catch(() => null);
+          const reason = result?.data?.reason;
+
+          // Removed by the organizer - do not report back in
+          if (reason === "kicked" || reason === "banned") {
+            setRemovedBy(reason);
+            await room.disconnect();
+            return;
+          }
+
+          // Marked inactive after missed heartbeats while still streaming - report back in
+          await updateCameraStatusRef.current("active");
+        }
+      } catch (error) {
+        console.error("Failed to send camera heartbeat:", error);
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, cameraConnectionId, eventId, room]);
+
   // Initialize media on component mount
   useEffect(() => {
     let isMounted = true;
@@ -1000,6 +1099,20 @@ export function CameraStreamInterface({
         </Card>
       )}
 
+      {/* Removed by the organizer */}
+      {removedBy && (
+        <Alert className="border-red-200 bg-red-50">
+          <UserX className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-700">
+            {removedBy === "banned"
+              ? "主催者によって配信から外されました。このイベントには再度参加できません。"
+              : removedBy === "code-rotated"
+                ? "参加コードが変更されたため配信から外されました。新しい参加コードで参加し直してください。"
+                : "主催者によって配信から外されました。もう一度参加する場合は主催者に確認してください。"}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Error Display */}
       {error && (
         <Alert className="border-red-200 bg-red-50">
@@ -1109,7 +1222,7 @@ export function CameraStreamInterface({
             ) : !isConnected ? (
               <Button
                 onClick={connectToRoom}
-                disabled={isConnecting}
+                disabled={isConnecting || removedBy !== null}
                 size="lg"
                 className="flex-1 max-w-xs min-h-[48px] touch-manipulation"
               >
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { PREVIEW_UPLOAD_INTERVAL_SECONDS } from "@/lib/camera-capacity";
+
+interface PendingCameraPreviewProps {
+  eventId: string;
+  cameraConnectionId: string;
+  authToken: string;
+}
+
+// 送信するプレビュー画像の幅（主催者が確認できれば十分な解像度）
+const SNAPSHOT_WIDTH = 480;
+
+/**
+ * 主催者の承認待ちの間、カメラ映像を表示し、定期的に静止画を主催者へ送る
+ * 承認されるまでLiveKitには配信できないため、確認用の映像は静止画のみ
+ */
+export function PendingCameraPreview({
+  eventId,
+  cameraConnectionId,
+  authToken,
+}: PendingCameraPreviewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const uploadSnapshot = () => {
+      const video = videoRef.current;
+      if (!video || video.videoWidth === 0) return;
+
+      const canvas = document.createElement("canvas");
+      canvas.width = SNAPSHOT_WIDTH;
+      canvas.height = Math.round((video.videoHeight / video.videoWidth) * SNAPSHOT_WIDTH);
+      canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob(async (blob) => {
+        if (!blob || stopped) return;
+
+        const formData = new FormData();
+        formData.append("image", blob, "preview.jpg");
+        try {
+          await fetch(`/api/events/${eventId}/cameras/${cameraConnectionId}/preview`, {
+            method: "POST",
+            headers: { Authorization: `Bearer ${authToken}` },
+            body: formData,
+          });
+        } catch (error) {
+          // 一時的な通信エラーは次の送信で再試行する
+          console.warn("Failed to upload camera preview:", error);
+        }
+      }, "image/jpeg", 0.7);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play().catch(() => undefined);
+
+        uploadSnapshot();
+        timer = setInterval(uploadSnapshot, PREVIEW_UPLOAD_INTERVAL_SECONDS * 1000);
+      } catch (error) {
+        console.error("Failed to start camera preview:", error);
+        setCameraError("カメラを起動できませんでした。主催者はプレビューなしで判断します。");
+      }
+    };
+
+    void start();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      // 配信画面で改めてカメラを開くため、ここで解放する
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [eventId, cameraConnectionId, authToken]);
+
+  return (
+    <div className="space-y-2">
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        className="w-full aspect-video rounded-md bg-black object-cover"
+        aria-label="主催者に送られるプレビュー"
+      />
+      <p className="text-xs text-muted-foreground">
+        {cameraError ?? "この映像の静止画が主催者に送られます（配信はされません）"}
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { CameraStreamInterface } from '../CameraStreamInterface';
 
 // LiveKit client のモック
@@ -22,6 +22,10 @@ jest.mock('livekit-client', () => ({
     ConnectionQualityChanged: 'connectionQualityChanged',
     Disconnected: 'disconnected',
   },
+  DisconnectReason: {
+    CLIENT_INITIATED: 1,
+    PARTICIPANT_REMOVED: 4,
+  },
   LocalVideoTrack: jest.fn().mockImplementation(() => ({
     sid: 'video-track-sid',
     sender: null,
@@ -243,6 +247,29 @@ describe('CameraStreamInterface React Hooks Optimization', () => {
     });
   });
 
+  describe('Removal by the organizer', () => {
+    it('should explain the removal instead of a generic disconnect when the organizer removes the camera', async () => {
+      const { Room } = require('livekit-client');
+      Room.mockImplementation(() => mockRoom);
+
+      render(<CameraStreamInterface {...defaultProps} />);
+
+      const disconnectedHandler = mockRoom.on.mock.calls.find(
+        ([eventName]) => eventName === 'disconnected'
+      )?.[1];
+      expect(disconnectedHandler).toBeDefined();
+
+      act(() => {
+        disconnectedHandler(4);
+      });
+
+      expect(
+        await screen.findByText(/主催者によって配信から外されました/)
+      ).toBeInTheDocument();
+      expect(screen.queryByText('配信から切断されました')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Memory Leak Prevention', () => {
     it('should clean up event listeners on unmount', async () => {
       const mockRoom = {
@@ -0,0 +1,337 @@
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertCircle,
+  CameraOff,
+  CheckCircle,
+  Loader2,
+  Save,
+  UserCheck,
+  UserX,
+  Users,
+} from 'lucide-react';
+import {
+  admitCameraAction,
+  approveCameraAction,
+  getCameraPreviewAction,
+  rejectCameraAction,
+  updateCameraAdmissionAction,
+} from '@/app/actions/events';
+import {
+  ADMISSION_MODES,
+  DEFAULT_ADMISSION_MODE,
+  DEFAULT_MAX_CAMERAS,
+  MAX_CAMERAS_LIMIT,
+  PREVIEW_UPLOAD_INTERVAL_SECONDS,
+  getPendingCameras,
+  getWaitlist,
+  isHoldingSlot,
+} from '@/lib/camera-capacity';
+import type { AdmissionMode, CameraConnectionClient } from '@/types';
+
+interface CameraAdmissionCardProps {
+  eventId: string;
+  cameras: CameraConnectionClient[];
+  maxCameras?: number;
+  admissionMode?: AdmissionMode;
+}
+
+const ADMISSION_MODE_LABELS: Record<AdmissionMode, { label: string; description: string }> = {
+  open: {
+    label: '先着順',
+    description: '上限に達したら新しいカメラの参加を断る',
+  },
+  waitlist: {
+    label: '順番待ち',
+    description: '上限を超えた参加者は順番待ちになり、空きが出ると自動で参加する',
+  },
+  approval: {
+    label: '主催者の承認制',
+    description: '参加者の映像と名前を確認し、主催者が承認したカメラだけが配信できる。上限を超えた分は順番待ちになる',
+  },
+};
+
+// 承認待ちのカメラ: 定期的に届くプレビュー画像を表示して承認・拒否する
+function PendingCameraRow({
+  eventId,
+  camera,
+  disabled,
+  busy,
+  onDecide,
+}: {
+  eventId: string;
+  camera: CameraConnectionClient;
+  disabled: boolean;
+  busy: 'approve' | 'reject' | null;
+  onDecide: (camera: CameraConnectionClient, decision: 'approve' | 'reject') => void;
+}) {
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const image = await getCameraPreviewAction(eventId, camera.id);
+      if (!cancelled && image) setPreview(image);
+    };
+
+    void load();
+    const timer = setInterval(() => void load(), PREVIEW_UPLOAD_INTERVAL_SECONDS * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [eventId, camera.id]);
+
+  return (
+    <div className="flex gap-3 p-3 rounded-lg bg-muted">
+      <div className="w-32 aspect-video shrink-0 rounded bg-black flex items-center justify-center overflow-hidden">
+        {preview ? (
+          // data URLのためnext/imageは使わない
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={preview}
+            alt={`${camera.participantName || camera.participantId} のプレビュー`}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <CameraOff className="h-5 w-5 text-white/60" aria-label="プレビュー待ち" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0 space-y-2">
+        <div>
+          <div className="font-medium truncate">
+            {camera.participantName || camera.participantId}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {camera.deviceInfo?.platform || 'Unknown'} •{' '}
+            {new Date(camera.joinedAt).toLocaleTimeString('ja-JP')} から承認待ち
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={disabled}
+            onClick={() => onDecide(camera, 'approve')}
+          >
+            {busy === 'approve' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserCheck className="h-4 w-4 mr-2" />
+            )}
+            承認
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onDecide(camera, 'reject')}
+          >
+            {busy === 'reject' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserX className="h-4 w-4 mr-2" />
+            )}
+            拒否
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// カメラの台数上限と、上限を超えた参加者の扱い
+export function CameraAdmissionCard({
+  eventId,
+  cameras,
+  maxCameras = DEFAULT_MAX_CAMERAS,
+  admissionMode = DEFAULT_ADMISSION_MODE,
+}: CameraAdmissionCardProps) {
+  const [limit, setLimit] = useState(maxCameras);
+  const [mode, setMode] = useState<AdmissionMode>(admissionMode);
+  const [saved, setSaved] = useState({ limit: maxCameras, mode: admissionMode });
+  const [message, setMessage] = useState<{ success: boolean; message: string } | null>(null);
+  const [admittingId, setAdmittingId] = useState<string | null>(null);
+  const [deciding, setDeciding] = useState<{ id: string; decision: 'approve' | 'reject' } | null>(null);
+  const [isSaving, startSaving] = useTransition();
+
+  const pendingCameras = useMemo(() => getPendingCameras(cameras), [cameras]);
+  const waitlist = useMemo(() => getWaitlist(cameras), [cameras]);
+  const usedSlots = useMemo(() => cameras.filter(isHoldingSlot).length, [cameras]);
+  const isDirty = limit !== saved.limit || mode !== saved.mode;
+
+  const handleSave = () => {
+    startSaving(async () => {
+      const result = await updateCameraAdmissionAction(eventId, {
+        maxCameras: limit,
+        admissionMode: mode,
+      });
+      setMessage(result);
+      if (result.success) {
+        setSaved({ limit, mode });
+      }
+    });
+  };
+
+  const handleAdmit = async (camera: CameraConnectionClient) => {
+    setAdmittingId(camera.id);
+    try {
+      // 参加後の状態はSSE（camera-admitted）で反映される
+      setMessage(await admitCameraAction(eventId, camera.id));
+    } finally {
+      setAdmittingId(null);
+    }
+  };
+
+  const handleDecide = async (camera: CameraConnectionClient, decision: 'approve' | 'reject') => {
+    setDeciding({ id: camera.id, decision });
+    try {
+      // 結果はSSE（camera-admitted / camera-waitlisted / camera-rejected）で反映される
+      const action = decision === 'approve' ? approveCameraAction : rejectCameraAction;
+      setMessage(await action(eventId, camera.id));
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Users className="h-5 w-5" aria-hidden="true" />
+          カメラの参加枠
+          <Badge variant="secondary">
+            {usedSlots} / {saved.limit}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          同時に接続できるカメラの台数と、上限を超えた参加者の扱い
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="max-cameras">カメラ台数の上限</Label>
+            <Input
+              id="max-cameras"
+              type="number"
+              min={1}
+              max={MAX_CAMERAS_LIMIT}
+              value={limit}
+              onChange={(e) => setLimit(Number(e.target.value))}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="admission-mode">参加方式</Label>
+            <select
+              id="admission-mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as AdmissionMode)}
+              disabled={isSaving}
+              className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+            >
+              {ADMISSION_MODES.map((name) => (
+                <option key={name} value={name}>
+                  {ADMISSION_MODE_LABELS[name].label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {ADMISSION_MODE_LABELS[mode].description}
+        </p>
+
+        <Button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="w-full"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          設定を保存
+        </Button>
+
+        {message && (
+          <Alert variant={message.success ? 'default' : 'destructive'}>
+            {message.success ? (
+              <CheckCircle className="h-4 w-4" />
+            ) : (
+              <AlertCircle className="h-4 w-4" />
+            )}
+            <AlertDescription>{message.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* 承認待ちの参加者（承認制をやめた後も、残っている分はここで判断する） */}
+        {(saved.mode === 'approval' || pendingCameras.length > 0) && (
+          <div className="pt-4 border-t space-y-3">
+            <h3 className="text-sm font-medium">承認待ち ({pendingCameras.length})</h3>
+            {pendingCameras.length === 0 ? (
+              <p className="text-sm text-muted-foreground">承認待ちの参加者はいません</p>
+            ) : (
+              pendingCameras.map((camera) => (
+                <PendingCameraRow
+                  key={camera.id}
+                  eventId={eventId}
+                  camera={camera}
+                  disabled={deciding !== null}
+                  busy={deciding?.id === camera.id ? deciding.decision : null}
+                  onDecide={(target, decision) => void handleDecide(target, decision)}
+                />
+              ))
+            )}
+          </div>
+        )}
+
+        {/* 順番待ちの参加者 */}
+        <div className="pt-4 border-t space-y-3">
+          <h3 className="text-sm font-medium">順番待ち ({waitlist.length})</h3>
+          {waitlist.length === 0 ? (
+            <p className="text-sm text-muted-foreground">順番待ちの参加者はいません</p>
+          ) : (
+            waitlist.map((camera, index) => (
+              <div
+                key={camera.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted"
+              >
+                <div>
+                  <div className="font-medium">
+                    {index + 1}. {camera.participantName || camera.participantId}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {camera.deviceInfo?.platform || 'Unknown'} •{' '}
+                    {new Date(camera.joinedAt).toLocaleTimeString('ja-JP')} から待機
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={admittingId !== null || usedSlots >= saved.limit}
+                  onClick={() => void handleAdmit(camera)}
+                >
+                  {admittingId === camera.id ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <UserCheck className="h-4 w-4 mr-2" />
+                  )}
+                  参加を許可
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
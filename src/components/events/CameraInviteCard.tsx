@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Ban, Copy, Link2, Loader2, Plus, RefreshCw } from 'lucide-react';
+import type { CameraInviteClient } from '@/types';
+import { getCameraInviteStatus, getCameraInviteUrl, type CameraInviteStatus } from '@/lib/camera-invite-status';
+import { useClipboardHandler } from '@/lib/event-handlers';
+import {
+  createCameraInviteAction,
+  getCameraInviteLinkAction,
+  listCameraInvitesAction,
+  revokeCameraInviteAction,
+} from '@/app/actions/events';
+
+interface CameraInviteCardProps {
+  eventId: string;
+  initialInvites: CameraInviteClient[];
+  // 終了したイベントでは発行できない
+  disabled?: boolean;
+}
+
+const MAX_USES_OPTIONS = [1, 2, 3, 5, 10];
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1時間' },
+  { hours: 6, label: '6時間' },
+  { hours: 24, label: '24時間' },
+  { hours: 72, label: '3日' },
+  { hours: 168, label: '7日' },
+];
+
+const STATUS_BADGES: Record<CameraInviteStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  active: { label: '有効', variant: 'default' },
+  'used-up': { label: '使用済み', variant: 'secondary' },
+  expired: { label: '期限切れ', variant: 'outline' },
+  revoked: { label: '無効', variant: 'destructive' },
+};
+
+const formatDateTime = (value: Date) =>
+  new Date(value).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// カメラ担当者ごとの招待リンク
+// ポスターのQRコードと違い、使用回数と有効期限があり、個別に無効にできる
+export function CameraInviteCard({ eventId, initialInvites, disabled = false }: CameraInviteCardProps) {
+  const [invites, setInvites] = useState(initialInvites);
+  const [participantName, setParticipantName] = useState('');
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  // 直前に発行・コピーしたリンク
+  const [latestLink, setLatestLink] = useState<{ inviteId: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const copyToClipboard = useClipboardHandler();
+
+  const replaceInvite = (invite: CameraInviteClient) => {
+    setInvites((current) => current.map((item) => (item.id === invite.id ? invite : item)));
+  };
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      setError(null);
+      const result = await createCameraInviteAction(eventId, {
+        participantName: participantName.trim() || undefined,
+        maxUses,
+        expiresInHours,
+      });
+      if (!result.success || !result.invite || !result.token) {
+        setError(result.message);
+        return;
+      }
+
+      const { invite, token } = result;
+      const url = getCameraInviteUrl(window.location.origin, token);
+      setInvites((current) => [invite, ...current]);
+      setLatestLink({ inviteId: invite.id, url });
+      setParticipantName('');
+      await copyToClipboard(url);
+    });
+  };
+
+  const handleCopy = (inviteId: string) => {
+    startTransition(async () => {
+      setError(null);
+      const result = await getCameraInviteLinkAction(eventId, inviteId);
+      if (!result.success || !result.token) {
+        setError(result.message);
+        return;
+      }
+
+      const url = getCameraInviteUrl(window.location.origin, result.token);
+      setLatestLink({ inviteId, url });
+      await copyToClipboard(url);
+    });
+  };
+
+  const handleRevoke = (invite: CameraInviteClient) => {
+    const name = invite.participantName ?? '名前なし';
+    if (!window.confirm(`「${name}」の招待リンクを無効にしますか？このリンクではもう参加できなくなります。`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      setError(null);
+      const result = await revokeCameraInviteAction(eventId, invite.id);
+      if (!result.success || !result.invite) {
+        setError(result.message);
+        return;
+      }
+
+      replaceInvite(result.invite);
+      if (latestLink?.inviteId === invite.id) {
+        setLatestLink(null);
+      }
+    });
+  };
+
+  // 使用状況を最新にする
+  const handleRefresh = () => {
+    startTransition(async () => {
+      const result = await listCameraInvitesAction(eventId);
+      if (result.success && result.invites) {
+        setInvites(result.invites);
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Link2 className="h-5 w-5" aria-hidden="true" />
+          カメラ招待リンク
+        </CardTitle>
+        <CardDescription>
+          カメラ担当者ごとに専用のリンクを発行できます。リンクを開くと参加コードを入力せずに参加でき、決めた回数・期限を過ぎると使えなくなります
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="invite-participant-name">表示名（任意）</Label>
+            <Input
+              id="invite-participant-name"
+              placeholder="例: 田中太郎"
+              maxLength={100}
+              value={participantName}
+              onChange={(e) => setParticipantName(e.target.value)}
+              disabled={disabled || isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-max-uses">使用回数</Label>
+            <select
+              id="invite-max-uses"
+              value={maxUses}
+              onChange={(e) => setMaxUses(Number(e.target.value))}
+              disabled={disabled || isPending}
+              className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+            >
+              {MAX_USES_OPTIONS.map((uses) => (
+                <option key={uses} value={uses}>
+                  {uses}回
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-expiry">有効期限</Label>
+            <select
+              id="invite-expiry"
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              disabled={disabled || isPending}
+              className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <Button onClick={handleCreate} disabled={disabled || isPending} className="w-full">
+          {isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          招待リンクを発行
+        </Button>
+
+        {latestLink && (
+          <Alert>
+            <Copy className="h-4 w-4" />
+            <AlertDescription>
+              <p>リンクをコピーしました。カメラ担当者に直接送ってください</p>
+              <p className="mt-1 break-all font-mono text-xs">{latestLink.url}</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">発行済みのリンク（{invites.length}件）</h4>
+          <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={isPending}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            更新
+          </Button>
+        </div>
+
+        {invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">まだ招待リンクはありません</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {invites.map((invite) => {
+              const status = getCameraInviteStatus(invite);
+              const badge = STATUS_BADGES[status];
+
+              return (
+                <li key={invite.id} className="flex flex-wrap items-center gap-2 p-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">
+                        {invite.participantName ?? '名前なし'}
+                      </span>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {invite.useCount}/{invite.maxUses}回使用
+                      {' ・ '}期限 {formatDateTime(invite.expiresAt)}
+                      {invite.lastRedeemedAt && ` ・ 最終使用 ${formatDateTime(invite.lastRedeemedAt)}`}
+                    </p>
+                  </div>
+                  {status === 'active' && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCopy(invite.id)}
+                        disabled={isPending}
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        コピー
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(invite)}
+                        disabled={isPending}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        無効にする
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
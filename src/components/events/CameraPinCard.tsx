@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, CheckCircle, KeyRound, Loader2, Save, Trash2 } from 'lucide-react';
+import { setCameraPinAction } from '@/app/actions/events';
+
+interface CameraPinCardProps {
+  eventId: string;
+  pinEnabled: boolean;
+  // 終了したイベントでは変更できない
+  disabled?: boolean;
+}
+
+// 参加コードに加えてカメラ参加者に求めるPIN（任意）
+// 設定済みのPINはハッシュで保存されるため表示できない
+export function CameraPinCard({ eventId, pinEnabled, disabled = false }: CameraPinCardProps) {
+  const [enabled, setEnabled] = useState(pinEnabled);
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<{ success: boolean; message: string } | null>(null);
+  const [isSaving, startSaving] = useTransition();
+
+  const handleSave = (nextPin: string | null) => {
+    startSaving(async () => {
+      const result = await setCameraPinAction(eventId, nextPin);
+      setMessage(result);
+      if (result.success) {
+        setEnabled(nextPin !== null);
+        setPin('');
+      }
+    });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('PINを解除しますか？参加コードだけでカメラ参加できるようになります。')) {
+      return;
+    }
+    handleSave(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <KeyRound className="h-5 w-5" aria-hidden="true" />
+          カメラ参加用PIN
+          <Badge variant={enabled ? 'default' : 'secondary'}>
+            {enabled ? '設定済み' : '未設定'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          参加コードが知られてしまっても、PINを知らない人はカメラで参加できなくなります。PINはQRコードには含まれないため、参加者に別途伝えてください
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="camera-pin">{enabled ? '新しいPIN' : 'PIN'}</Label>
+          <Input
+            id="camera-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            placeholder="4〜8桁の数字"
+            maxLength={8}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            disabled={disabled || isSaving}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => handleSave(pin)}
+            disabled={disabled || isSaving || pin.length < 4}
+            className="flex-1"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {enabled ? 'PINを変更' : 'PINを設定'}
+          </Button>
+          {enabled && (
+            <Button variant="outline" onClick={handleClear} disabled={disabled || isSaving}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              解除
+            </Button>
+          )}
+        </div>
+
+        {message && (
+          <Alert variant={message.success ? 'default' : 'destructive'}>
+            {message.success ? (
+              <CheckCircle className="h-4 w-4" />
+            ) : (
+              <AlertCircle className="h-4 w-4" />
+            )}
+            <AlertDescription>{message.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   Video,
   VideoOff,
@@ -18,24 +19,46 @@ import {
   SignalMedium,
   SignalLow,
   Clock,
-  Settings
+  Settings,
+  Radio,
+  AlertCircle,
+  Ban,
+  UserX
 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useEventStream, applyCameraStreamAction, type EventStreamAction } from '@/hooks/useEventStream';
 import type { CameraConnectionClient } from '@/types';
 
 interface CameraStatusGridProps {
   eventId: string;
   initialCameras?: CameraConnectionClient[];
+  activeCameraId?: string;
   onCameraSelect?: (camera: CameraConnectionClient) => void;
 }
 
+// 手動切り替え後に自動切り替えを停止する秒数の選択肢
+const LOCKOUT_OPTIONS = [
+  { seconds: 0, label: '停止しない' },
+  { seconds: 30, label: '30秒' },
+  { seconds: 60, label: '1分' },
+  { seconds: 300, label: '5分' },
+];
+
 export function CameraStatusGrid({
   eventId,
   initialCameras = [],
+  activeCameraId,
   onCameraSelect
 }: CameraStatusGridProps) {
   const [cameras, setCameras] = useState<CameraConnectionClient[]>(initialCameras);
   const [selectedCamera, setSelectedCamera] = useState<string | null>(null);
   const [, setIsLoading] = useState(false);
+  const [onAirCameraId, setOnAirCameraId] = useState<string | undefined>(activeCameraId);
+  const [takingCameraId, setTakingCameraId] = useState<string | null>(null);
+  const [takeError, setTakeError] = useState<string | null>(null);
+  const [kickingCameraId, setKickingCameraId] = useState<string | null>(null);
+  const [lockoutSeconds, setLockoutSeconds] = useState(0);
+  const { getAuthHeader } = useAuth();
 
   // Refresh camera data
   const refreshCameras = useCallback(async () => {
@@ -53,12 +76,35 @@ export function CameraStatusGrid({
     }
   }, [eventId]);
 
-  // Auto-refresh every 15 seconds
-  useEffect(() => {
-    const interval = setInterval(refreshCameras, 15000);
-    return () => clearInterval(interval);
+  // Apply real-time camera and switch events; polls every 15 seconds only without SSE
+  const handleStreamAction = useCallback((action: EventStreamAction) => {
+    if (action.type === 'STREAM_SWITCHED') {
+      setOnAirCameraId(action.payload.toCamera);
+      return;
+    }
+    setCameras(prev => applyCameraStreamAction(prev, action));
+  }, []);
+
+  // Re-fetch cameras and the on-air camera when events may have been missed
+  const resyncCameras = useCallback(async () => {
+    await refreshCameras();
+    try {
+      const response = await fetch(`/api/events/${eventId}/status`);
+      if (response.ok) {
+        const data = await response.json();
+        setOnAirCameraId(data.data?.currentActiveCamera ?? undefined);
+      }
+    } catch (error) {
+      console.error('Failed to refresh on-air camera:', error);
+    }
   }, [eventId, refreshCameras]);
 
+  useEventStream(eventId, {
+    dispatch: handleStreamAction,
+    resync: resyncCameras,
+    pollIntervalMs: 15000,
+  });
+
   // Initial data fetch
   useEffect(() => {
     refreshCameras();
@@ -67,6 +113,8 @@ export function CameraStatusGrid({
   const getStatusColor = (status: CameraConnectionClient['status']) => {
     switch (status) {
       case 'active': return 'bg-green-500';
+      case 'pending': return 'bg-purple-500';
+      case 'waiting': return 'bg-blue-500';
       case 'connecting': return 'bg-yellow-500';
       case 'inactive': return 'bg-gray-500';
       case 'error': return 'bg-red-500';
@@ -77,6 +125,8 @@ export function CameraStatusGrid({
   const getStatusText = (status: CameraConnectionClient['status']) => {
     switch (status) {
       case 'active': return 'アクティブ';
+      case 'pending': return '承認待ち';
+      case 'waiting': return '順番待ち';
       case 'connecting': return '接続中';
       case 'inactive': return '非アクティブ';
       case 'error': return 'エラー';
@@ -125,6 +175,78 @@ export function CameraStatusGrid({
     onCameraSelect?.(camera);
   };
 
+  // 指定したカメラを配信に切り替える（テイク）
+  const handleTake = async (camera: CameraConnectionClient) => {
+    setTakingCameraId(camera.id);
+    setTakeError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/switch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeader(),
+        },
+        body: JSON.stringify({ cameraConnectionId: camera.id, lockoutSeconds }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to switch camera');
+      }
+
+      setOnAirCameraId(camera.id);
+    } catch (error) {
+      console.error('Failed to take camera:', error);
+      setTakeError(
+        `${camera.participantName || camera.participantId} への切り替えに失敗しました: ${
+          error instanceof Error ? error.message : '不明なエラー'
+        }`
+      );
+    } finally {
+      setTakingCameraId(null);
+    }
+  };
+
+  // カメラを配信から外す（ban指定時は同じ参加者・端末の再参加も禁止する）
+  const handleKick = async (camera: CameraConnectionClient, ban: boolean) => {
+    const name = camera.participantName || camera.participantId;
+    const confirmMessage = ban
+      ? `${name} を配信から外し、このイベントへの再参加を禁止しますか？\n\n` +
+        '禁止されるのはこの参加者と、参加に使った端末のブラウザです。別の端末・別のブラウザやプライベートブラウズ、Cookieの削除後は再び参加できます。確実に締め出すには参加コードを再発行してください。'
+      : `${name} を配信から外しますか？`;
+    if (!window.confirm(confirmMessage)) return;
+
+    setKickingCameraId(camera.id);
+    setTakeError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/cameras/${camera.id}/kick`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeader(),
+        },
+        body: JSON.stringify({ ban }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to remove camera');
+      }
+      // 切断後の状態はSSE（camera-disconnected）で反映される
+    } catch (error) {
+      console.error('Failed to remove camera:', error);
+      setTakeError(
+        `${name} を外せませんでした: ${
+          error instanceof Error ? error.message : '不明なエラー'
+        }`
+      );
+    } finally {
+      setKickingCameraId(null);
+    }
+  };
+
   // React 19: 計算結果のキャッシュ最適化 - useMemoで高価な計算をキャッシュ
   const camerasByStatus = useMemo(() => {
     const active = cameras.filter(camera => camera.status === 'active');
@@ -169,6 +291,31 @@ export function CameraStatusGrid({
               <div className="text-sm text-muted-foreground">エラー</div>
             </div>
           </div>
+
+          <div className="flex items-center justify-between gap-4 mt-6 pt-4 border-t">
+            <label htmlFor="take-lockout" className="text-sm text-muted-foreground">
+              手動切り替え後の自動切り替え停止
+            </label>
+            <select
+              id="take-lockout"
+              value={lockoutSeconds}
+              onChange={(e) => setLockoutSeconds(Number(e.target.value))}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+            >
+              {LOCKOUT_OPTIONS.map((option) => (
+                <option key={option.seconds} value={option.seconds}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {takeError && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{takeError}</AlertDescription>
+            </Alert>
+          )}
         </CardContent>
       </Card>
 
@@ -281,6 +428,29 @@ export function CameraStatusGrid({
                     </span>
                   </div>
                 )}
+
+                {/* Take */}
+                {camera.status === 'active' && (
+                  onAirCameraId === camera.id ? (
+                    <Badge className="w-full justify-center bg-red-600">
+                      <Radio className="h-3 w-3 mr-1" />
+                      配信中
+                    </Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      disabled={takingCameraId !== null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void handleTake(camera);
+                      }}
+                    >
+                      <Radio className="h-4 w-4 mr-2" />
+                      {takingCameraId === camera.id ? '切り替え中...' : 'テイク'}
+                    </Button>
+                  )
+                )}
               </CardContent>
             </Card>
           ))}
@@ -333,12 +503,35 @@ export function CameraStatusGrid({
                   </div>
 
                   <div className="flex gap-2">
-                    <Button variant="outline" size="sm">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={camera.status !== 'active' || onAirCameraId === camera.id || takingCameraId !== null}
+                      onClick={() => void handleTake(camera)}
+                    >
                       カメラを優先表示
                     </Button>
-                    <Button variant="outline" size="sm" className="text-red-600">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      disabled={camera.status === 'inactive' || camera.status === 'error' || kickingCameraId !== null}
+                      onClick={() => void handleKick(camera, false)}
+                    >
+                      <UserX className="h-4 w-4 mr-2" />
                       接続を切断
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      disabled={kickingCameraId !== null}
+                      title="この参加者と端末のブラウザの再参加を禁止します（別の端末・ブラウザからは参加できます）"
+                      onClick={() => void handleKick(camera, true)}
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      切断して参加禁止
+                    </Button>
                   </div>
                 </div>
               );
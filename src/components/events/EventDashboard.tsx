@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useCallback, useRef, startTransition, useReducer, useMemo, useDeferredValue } from "react";
+import { useEffect, useCallback, useRef, startTransition, useReducer, useMemo, useDeferredValue, useState, useTransition } from "react";
 import {
   Card,
   CardContent,
@@ -23,21 +23,41 @@ import {
   ExternalLink,
   Copy,
   RefreshCw,
+  ShieldAlert,
 } from "lucide-react";
 import type {
+  BroadcastState,
   EventClient,
   CameraConnectionClient,
   StreamStatusClient,
 } from "@/types";
-import type { YouTubeStreamStats } from "@/lib/youtube";
+import { goLiveAction, endEventAction } from "@/app/actions/events";
 import { StreamManagementPanel } from "./StreamManagementPanel";
 import { StreamNotifications } from "./StreamNotifications";
+import { StandbySlateCard } from "./StandbySlateCard";
+import { CameraAdmissionCard } from "./CameraAdmissionCard";
 import { useLoadingState } from "@/hooks/useLoadingState";
 import { useEventDashboardApi } from "@/hooks/useEventDashboardApi";
+import {
+  useEventStream,
+  applyCameraStreamAction,
+  type EventStreamAction,
+} from "@/hooks/useEventStream";
 import {
   useClipboardHandler
 } from "@/lib/event-handlers";
 
+// YouTube配信の進行状況の表示名
+const BROADCAST_STATE_LABELS: Record<BroadcastState, string> = {
+  idle: "未開始",
+  "waiting-for-camera": "カメラ待ち",
+  starting: "配信開始中",
+  live: "配信中",
+  ending: "終了処理中",
+  ended: "配信終了",
+  failed: "配信エラー",
+};
+
 interface EventDashboardProps {
   event: EventClient;
   initialCameras?: CameraConnectionClient[];
@@ -48,28 +68,41 @@ interface EventDashboardProps {
 interface DashboardState {
   cameras: CameraConnectionClient[];
   streamStatus: StreamStatusClient | null;
-  youtubeStats: YouTubeStreamStats | null;
+  // 配信の経過時間（stream-health-updatedで届く）
+  streamDuration: string | null;
   lastUpdated: Date | null;
   error: string | null;
   activeCamera: CameraConnectionClient | null;
+  // 参加コード・PINの誤入力が急増した際の警告（閉じるまで表示）
+  codeGuessAlert: Extract<EventStreamAction, { type: 'CODE_GUESS_SPIKE' }>['payload'] | null;
 }
 
 type DashboardAction =
-  | { type: 'UPDATE_DATA'; payload: { cameras: CameraConnectionClient[]; streamStatus: StreamStatusClient | null; youtubeStats: YouTubeStreamStats | null } }
+  | { type: 'UPDATE_DATA'; payload: { cameras: CameraConnectionClient[]; streamStatus: StreamStatusClient | null } }
   | { type: 'SET_ERROR'; payload: string }
   | { type: 'CLEAR_ERROR' }
-  | { type: 'SET_ACTIVE_CAMERA'; payload: CameraConnectionClient | null };
+  | { type: 'SET_ACTIVE_CAMERA'; payload: CameraConnectionClient | null }
+  | { type: 'DISMISS_CODE_GUESS_ALERT' }
+  | EventStreamAction;
 
 function dashboardReducer(state: DashboardState, action: DashboardAction): DashboardState {
   switch (action.type) {
     case 'UPDATE_DATA': {
-      const { cameras, streamStatus, youtubeStats } = action.payload;
+      const { cameras, streamStatus } = action.payload;
 
       // activeCameraの計算をreducer内で実行
       const activeCameras = cameras.filter((camera) => camera.status === "active");
       let newActiveCamera: CameraConnectionClient | null = null;
 
-      if (activeCameras.length > 0) {
+      // 配信中のカメラが分かる場合はそれを優先する
+      const onAirCamera = activeCameras.find(
+        (camera) => camera.id === streamStatus?.currentActiveCamera
+      );
+
+      if (onAirCamera) {
+        newActiveCamera =
+          state.activeCamera?.id === onAirCamera.id ? state.activeCamera : onAirCamera;
+      } else if (activeCameras.length > 0) {
         const mostRecent = activeCameras.reduce((latest, current) => {
           return new Date(current.joinedAt) > new Date(latest.joinedAt) ? current : latest;
         });
@@ -86,7 +119,6 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
         ...state,
         cameras,
         streamStatus,
-        youtubeStats,
         lastUpdated: new Date(),
         error: null, // データ更新成功時はエラーをクリア
         activeCamera: newActiveCamera,
@@ -107,6 +139,79 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
         ...state,
         activeCamera: action.payload,
       };
+    case 'CAMERA_JOINED':
+    case 'CAMERA_STREAMING':
+    case 'CAMERA_DISCONNECTED':
+    case 'CAMERA_WAITLISTED':
+    case 'CAMERA_ADMITTED':
+    case 'CAMERA_PENDING':
+    case 'CAMERA_REJECTED': {
+      const cameras = applyCameraStreamAction(state.cameras, action);
+      const activeCameraCount = cameras.filter((camera) => camera.status === "active").length;
+
+      // 配信中のカメラが切断された場合は切り替えイベントが届くまで未選択にする
+      const activeCamera =
+        action.type === 'CAMERA_DISCONNECTED' &&
+        state.activeCamera?.id === action.payload.cameraConnectionId
+          ? null
+          : state.activeCamera;
+
+      return {
+        ...state,
+        cameras,
+        streamStatus: state.streamStatus
+          ? { ...state.streamStatus, activeCameraCount }
+          : state.streamStatus,
+        activeCamera,
+        lastUpdated: new Date(),
+      };
+    }
+    case 'STREAM_SWITCHED': {
+      const { toCamera, at } = action.payload;
+
+      return {
+        ...state,
+        streamStatus: state.streamStatus
+          ? { ...state.streamStatus, currentActiveCamera: toCamera, lastSwitchAt: at }
+          : state.streamStatus,
+        activeCamera: state.cameras.find((camera) => camera.id === toCamera) ?? state.activeCamera,
+        lastUpdated: new Date(),
+      };
+    }
+    case 'BROADCAST_STATE_CHANGED': {
+      const { to, error } = action.payload;
+
+      return {
+        ...state,
+        streamStatus: state.streamStatus
+          ? { ...state.streamStatus, broadcastState: to, broadcastError: error }
+          : state.streamStatus,
+        lastUpdated: new Date(),
+      };
+    }
+    case 'STREAM_HEALTH_UPDATED': {
+      const { viewerCount, streamHealth, duration } = action.payload;
+
+      // 視聴者数と配信状態はサーバー側のポーラーからSSEで届く
+      return {
+        ...state,
+        streamStatus: state.streamStatus
+          ? { ...state.streamStatus, youtubeViewerCount: viewerCount, streamHealth }
+          : state.streamStatus,
+        streamDuration: duration ?? state.streamDuration,
+        lastUpdated: new Date(),
+      };
+    }
+    case 'CODE_GUESS_SPIKE':
+      return {
+        ...state,
+        codeGuessAlert: action.payload,
+      };
+    case 'DISMISS_CODE_GUESS_ALERT':
+      return {
+        ...state,
+        codeGuessAlert: null,
+      };
     default:
       return state;
   }
@@ -121,14 +226,20 @@ export function EventDashboard({
   const [dashboardState, dispatch] = useReducer(dashboardReducer, {
     cameras: initialCameras,
     streamStatus: initialStreamStatus || null,
-    youtubeStats: null,
+    streamDuration: null,
     lastUpdated: null,
     error: null,
     activeCamera: null,
+    codeGuessAlert: null,
   });
 
   // 分割代入で個別の状態にアクセス
-  const { cameras, streamStatus, youtubeStats, lastUpdated, error, activeCamera } = dashboardState;
+  const { cameras, streamStatus, streamDuration, lastUpdated, error, activeCamera, codeGuessAlert } = dashboardState;
+
+  // 配信開始・終了でイベントの状態が変わるため手元で保持する
+  const [eventStatus, setEventStatus] = useState(event.status);
+  const [broadcastMessage, setBroadcastMessage] = useState<string | null>(null);
+  const [isChangingBroadcast, startChangingBroadcast] = useTransition();
 
   // カスタムフックを使用してローディング状態を管理
   const { isLoading, withLoadingProtection } = useLoadingState(false);
@@ -143,15 +254,12 @@ export function EventDashboard({
 
   // データ更新の共通処理
   const updateDashboardData = useCallback(
-    async (eventId: string, youtubeVideoId?: string) => {
+    async (eventId: string) => {
       if (!isMountedRef.current) return;
 
       try {
         dispatch({ type: 'CLEAR_ERROR' });
-        const result = await fetchEventData({
-          eventId,
-          youtubeVideoId,
-        });
+        const result = await fetchEventData({ eventId });
 
         if (isMountedRef.current) {
           // React 19: 計算チェーン最適化 - 関連する状態を一括更新
@@ -162,7 +270,6 @@ export function EventDashboard({
               payload: {
                 cameras: result.cameras,
                 streamStatus: result.streamStatus,
-                youtubeStats: result.youtubeStats,
               },
             });
 
@@ -191,14 +298,24 @@ export function EventDashboard({
     const currentEvent = eventRef.current;
 
     await withLoadingProtection(async () => {
-      await updateDashboardData(currentEvent.id, currentEvent.youtubeVideoId);
+      await updateDashboardData(currentEvent.id);
     });
   }, [withLoadingProtection, updateDashboardData]);
 
-  // Auto-refresh setup and initial data fetch
+  // カメラ・切り替えの更新はSSEで受信し、接続できない場合のみポーリングする
+  const resyncDashboardData = useCallback(async () => {
+    const currentEvent = eventRef.current;
+    await updateDashboardData(currentEvent.id);
+  }, [updateDashboardData]);
+
+  const { connectionState } = useEventStream(event.id, {
+    dispatch,
+    resync: resyncDashboardData,
+  });
+
+  // Initial data fetch
   useEffect(() => {
     isMountedRef.current = true;
-    let intervalId: NodeJS.Timeout;
 
     const currentEvent = eventRef.current;
     console.log('Setting up dashboard for event:', currentEvent.id);
@@ -206,7 +323,7 @@ export function EventDashboard({
     // 初回データ取得
     const initializeData = async () => {
       try {
-        await updateDashboardData(currentEvent.id, currentEvent.youtubeVideoId);
+        await updateDashboardData(currentEvent.id);
       } catch (error) {
         console.error('Failed to initialize dashboard data:', error);
       }
@@ -215,28 +332,9 @@ export function EventDashboard({
     // 初回データ取得を実行
     initializeData();
 
-    // 30秒間隔での自動更新
-    const setupInterval = () => {
-      intervalId = setInterval(async () => {
-        if (isMountedRef.current) {
-          try {
-            console.log('Auto-refresh triggered');
-            await updateDashboardData(currentEvent.id, currentEvent.youtubeVideoId);
-          } catch (error) {
-            console.error('Auto-refresh failed:', error);
-          }
-        }
-      }, 30000);
-    };
-
-    setupInterval();
-
     return () => {
       console.log('Cleaning up dashboard');
       isMountedRef.current = false;
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
       cleanup();
     };
   }, [updateDashboardData, cleanup]);
@@ -269,6 +367,26 @@ export function EventDashboard({
     }
   );
 
+  const handleBroadcastAction = (action: "go-live" | "end") => {
+    startChangingBroadcast(async () => {
+      const result =
+        action === "go-live" ? await goLiveAction(event.id) : await endEventAction(event.id);
+      setBroadcastMessage(result.message);
+
+      if (result.success) {
+        setEventStatus(action === "go-live" ? "live" : "ended");
+        if (result.broadcastState) {
+          dispatch({
+            type: 'BROADCAST_STATE_CHANGED',
+            payload: { to: result.broadcastState, at: new Date() },
+          });
+        }
+      }
+    });
+  };
+
+  const broadcastState = streamStatus?.broadcastState;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "live":
@@ -307,6 +425,28 @@ export function EventDashboard({
         </Alert>
       )}
 
+      {/* 参加コードの総当たりが疑われる場合の警告 */}
+      {codeGuessAlert && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <span className="flex-1">
+              {codeGuessAlert.scope === 'event'
+                ? `このイベントで${Math.round(codeGuessAlert.windowSeconds / 60)}分間に${codeGuessAlert.failures}回以上、誤ったPINが入力されました。`
+                : `参加コードの誤入力が急増しています（${Math.round(codeGuessAlert.windowSeconds / 60)}分間に${codeGuessAlert.failures}回以上）。`}
+              参加コードが漏れている可能性があります。「参加QR」タブで参加コードを再発行するか、PINを設定してください。
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => dispatch({ type: 'DISMISS_CODE_GUESS_ALERT' })}
+            >
+              閉じる
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stream Notifications */}
       <StreamNotifications cameras={cameras} />
 
@@ -322,14 +462,47 @@ export function EventDashboard({
         </div>
         <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
           <Badge
-            className={`${getStatusColor(event.status)} text-xs sm:text-sm`}
+            className={`${getStatusColor(eventStatus)} text-xs sm:text-sm`}
           >
-            {event.status === "live"
+            {eventStatus === "live"
               ? "ライブ中"
-              : event.status === "scheduled"
+              : eventStatus === "scheduled"
               ? "予定"
               : "終了"}
           </Badge>
+          {broadcastState && broadcastState !== "idle" && (
+            <Badge
+              variant={broadcastState === "failed" ? "destructive" : "outline"}
+              className="text-xs sm:text-sm"
+              title={streamStatus?.broadcastError}
+            >
+              YouTube: {BROADCAST_STATE_LABELS[broadcastState]}
+            </Badge>
+          )}
+          {(eventStatus === "scheduled" ||
+            (eventStatus === "live" && broadcastState === "failed")) && (
+            <Button
+              size="sm"
+              onClick={() => handleBroadcastAction("go-live")}
+              disabled={isChangingBroadcast}
+              className="min-h-[36px] touch-manipulation"
+            >
+              <Play className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+              {eventStatus === "live" ? "配信を再試行" : "配信開始"}
+            </Button>
+          )}
+          {eventStatus === "live" && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => handleBroadcastAction("end")}
+              disabled={isChangingBroadcast}
+              className="min-h-[36px] touch-manipulation"
+            >
+              <Square className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+              イベント終了
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -355,6 +528,12 @@ export function EventDashboard({
         </div>
       </div>
 
+      {broadcastMessage && (
+        <p className="text-sm text-muted-foreground" role="status">
+          {broadcastMessage}
+        </p>
+      )}
+
       {/* Status Overview */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -377,9 +556,7 @@ export function EventDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {youtubeStats?.viewerCount ||
-                streamStatus?.youtubeViewerCount ||
-                0}
+              {streamStatus?.youtubeViewerCount || 0}
             </div>
             <p className="text-xs text-muted-foreground">現在の視聴者</p>
           </CardContent>
@@ -423,7 +600,7 @@ export function EventDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {youtubeStats?.duration || "00:00:00"}
+              {streamDuration || "00:00:00"}
             </div>
             <p className="text-xs text-muted-foreground">経過時間</p>
           </CardContent>
@@ -527,8 +704,21 @@ export function EventDashboard({
         streamStatus={streamStatus}
         activeCamera={activeCamera}
         onActiveCameraChange={(camera) => dispatch({ type: 'SET_ACTIVE_CAMERA', payload: camera })}
+        switchingPolicy={event.switchingPolicy}
+        switchingDwellSeconds={event.switchingDwellSeconds}
+        minOnAirSeconds={event.minOnAirSeconds}
+        switchCooldownSeconds={event.switchCooldownSeconds}
       />
 
+      <CameraAdmissionCard
+        eventId={event.id}
+        cameras={cameras}
+        maxCameras={event.maxCameras}
+        admissionMode={event.admissionMode}
+      />
+
+      <StandbySlateCard eventId={event.id} initialImageUrl={event.standbyImageUrl} />
+
       {/* Stream Controls - モバイル最適化 */}
       <Card>
         <CardHeader>
@@ -574,6 +764,13 @@ export function EventDashboard({
       {lastUpdated && (
         <div className="text-center text-sm text-muted-foreground">
           最終更新: {lastUpdated.toLocaleTimeString("ja-JP")}
+          {connectionState === "open"
+            ? "（リアルタイム）"
+            : connectionState === "polling"
+            ? "（30秒ごとに更新）"
+            : connectionState === "reconnecting"
+            ? "（再接続中...）"
+            : "（接続中...）"}
         </div>
       )}
     </div>
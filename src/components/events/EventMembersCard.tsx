@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Ban, Copy, Loader2, RefreshCw, UserMinus, UserPlus, Users } from 'lucide-react';
+import type { EventMemberClient, EventRole, OrganizerInvitationClient } from '@/types';
+import {
+  EVENT_ROLES,
+  EVENT_ROLE_LABELS,
+  getOrganizerInvitationStatus,
+  getOrganizerInvitationUrl,
+  hasEventRole,
+} from '@/lib/event-roles';
+import { useClipboardHandler } from '@/lib/event-handlers';
+import {
+  changeEventMemberRoleAction,
+  getOrganizerInvitationLinkAction,
+  inviteOrganizerAction,
+  listEventMembersAction,
+  removeEventMemberAction,
+  revokeOrganizerInvitationAction,
+} from '@/app/actions/events';
+
+interface EventMembersCardProps {
+  eventId: string;
+  // ログイン中の主催者とそのロール（オーナーだけがメンバーを管理できる）
+  currentOrganizerId?: string;
+  role: EventRole;
+  initialMembers: EventMemberClient[];
+  initialInvitations: OrganizerInvitationClient[];
+}
+
+const INVITABLE_ROLES = ['operator', 'monitor'] as const;
+
+const formatDateTime = (value: Date) =>
+  new Date(value).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// イベントの主催者メンバーと共同主催者の招待
+export function EventMembersCard({
+  eventId,
+  currentOrganizerId,
+  role,
+  initialMembers,
+  initialInvitations,
+}: EventMembersCardProps) {
+  const [members, setMembers] = useState(initialMembers);
+  const [invitations, setInvitations] = useState(initialInvitations);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<(typeof INVITABLE_ROLES)[number]>('operator');
+  // 直前に発行・コピーした招待リンク
+  const [latestLink, setLatestLink] = useState<{ invitationId: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const copyToClipboard = useClipboardHandler();
+
+  const canManage = hasEventRole(role, 'owner');
+  // 承諾済み・取り消し済みの招待は一覧に出さない
+  const pendingInvitations = invitations.filter(
+    (invitation) => getOrganizerInvitationStatus(invitation) === 'pending'
+  );
+
+  const handleInvite = () => {
+    startTransition(async () => {
+      setError(null);
+      const result = await inviteOrganizerAction(eventId, { email: email.trim(), role: inviteRole });
+      if (!result.success || !result.invitation || !result.token) {
+        setError(result.message);
+        return;
+      }
+
+      const { invitation, token } = result;
+      const url = getOrganizerInvitationUrl(window.location.origin, token);
+      setInvitations((current) => [invitation, ...current]);
+      setLatestLink({ invitationId: invitation.id, url });
+      setEmail('');
+      await copyToClipboard(url);
+    });
+  };
+
+  const handleCopy = (invitationId: string) => {
+    startTransition(async () => {
+      setError(null);
+      const result = await getOrganizerInvitationLinkAction(eventId, invitationId);
+      if (!result.success || !result.token) {
+        setError(result.message);
+        return;
+      }
+
+      const url = getOrganizerInvitationUrl(window.location.origin, result.token);
+      setLatestLink({ invitationId, url });
+      await copyToClipboard(url);
+    });
+  };
+
+  const handleRevoke = (invitation: OrganizerInvitationClient) => {
+    if (!window.confirm(`${invitation.email} への招待を取り消しますか？`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      setError(null);
+      const result = await revokeOrganizerInvitationAction(eventId, invitation.id);
+      if (!result.success || !result.invitation) {
+        setError(result.message);
+        return;
+      }
+
+      const revoked = result.invitation;
+      setInvitations((current) => current.map((item) => (item.id === revoked.id ? revoked : item)));
+      if (latestLink?.invitationId === invitation.id) {
+        setLatestLink(null);
+      }
+    });
+  };
+
+  const handleRoleChange = (member: EventMemberClient, newRole: EventRole) => {
+    startTransition(async () => {
+      setError(null);
+      const result = await changeEventMemberRoleAction(eventId, member.organizerId, newRole);
+      if (!result.success || !result.members) {
+        setError(result.message);
+        return;
+      }
+
+      setMembers(result.members);
+    });
+  };
+
+  const handleRemove = (member: EventMemberClient) => {
+    const name = member.displayName || member.email || 'このメンバー';
+    if (!window.confirm(`${name} をイベントの主催者から外しますか？`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      setError(null);
+      const result = await removeEventMemberAction(eventId, member.organizerId);
+      if (!result.success || !result.members) {
+        setError(result.message);
+        return;
+      }
+
+      setMembers(result.members);
+    });
+  };
+
+  // 招待の承諾状況を最新にする
+  const handleRefresh = () => {
+    startTransition(async () => {
+      const result = await listEventMembersAction(eventId);
+      if (result.success && result.members && result.invitations) {
+        setMembers(result.members);
+        setInvitations(result.invitations);
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Users className="h-5 w-5" aria-hidden="true" />
+          主催者メンバー
+        </CardTitle>
+        <CardDescription>
+          オーナーはイベントと主催者を管理でき、オペレーターは配信を操作でき、モニターはダッシュボードの閲覧だけができます
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="organizer-invite-email">招待するメールアドレス</Label>
+                <Input
+                  id="organizer-invite-email"
+                  type="email"
+                  placeholder="co-organizer@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isPending}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="organizer-invite-role">ロール</Label>
+                <select
+                  id="organizer-invite-role"
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as (typeof INVITABLE_ROLES)[number])}
+                  disabled={isPending}
+                  className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+                >
+                  {INVITABLE_ROLES.map((item) => (
+                    <option key={item} value={item}>
+                      {EVENT_ROLE_LABELS[item]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <Button onClick={handleInvite} disabled={isPending || !email.trim()} className="w-full">
+              {isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="h-4 w-4 mr-2" />
+              )}
+              招待リンクを発行
+            </Button>
+
+            {latestLink && (
+              <Alert>
+                <Copy className="h-4 w-4" />
+                <AlertDescription>
+                  <p>リンクをコピーしました。招待した方に直接送ってください（7日間有効、招待したメールアドレスのアカウントでのみ使えます）</p>
+                  <p className="mt-1 break-all font-mono text-xs">{latestLink.url}</p>
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">メンバー（{members.length}人）</h4>
+          <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={isPending}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            更新
+          </Button>
+        </div>
+
+        <ul className="divide-y rounded-md border">
+          {members.map((member) => (
+            <li key={member.organizerId} className="flex flex-wrap items-center gap-2 p-3">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">
+                    {member.displayName || member.email || '名前なし'}
+                  </span>
+                  {member.organizerId === currentOrganizerId && <Badge variant="outline">あなた</Badge>}
+                </div>
+                {member.displayName && member.email && (
+                  <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                )}
+              </div>
+              {canManage ? (
+                <div className="flex gap-2">
+                  <select
+                    aria-label="ロール"
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as EventRole)}
+                    disabled={isPending}
+                    className="h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs"
+                  >
+                    {EVENT_ROLES.map((item) => (
+                      <option key={item} value={item}>
+                        {EVENT_ROLE_LABELS[item]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemove(member)}
+                    disabled={isPending}
+                  >
+                    <UserMinus className="h-4 w-4 mr-1" />
+                    外す
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="secondary">{EVENT_ROLE_LABELS[member.role]}</Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {canManage && pendingInvitations.length > 0 && (
+          <>
+            <h4 className="text-sm font-medium">承諾待ちの招待（{pendingInvitations.length}件）</h4>
+            <ul className="divide-y rounded-md border">
+              {pendingInvitations.map((invitation) => (
+                <li key={invitation.id} className="flex flex-wrap items-center gap-2 p-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{invitation.email}</span>
+                      <Badge variant="secondary">{EVENT_ROLE_LABELS[invitation.role]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      期限 {formatDateTime(invitation.expiresAt)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCopy(invitation.id)}
+                      disabled={isPending}
+                    >
+                      <Copy className="h-4 w-4 mr-1" />
+                      コピー
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={isPending}
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      取り消す
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,15 @@
 'use client';
 
-import { useState, useMemo, useEffect, useRef } from 'react';
+import { useState, useMemo, useEffect, useRef, useTransition } from 'react';
 import Image from 'next/image';
 import QRCode from 'qrcode';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { QrCode, Download, Copy, ExternalLink } from 'lucide-react';
+import { QrCode, Download, Copy, ExternalLink, RefreshCw } from 'lucide-react';
 import type { EventClient } from '@/types';
 import { useClipboardHandler } from '@/lib/event-handlers';
+import { rotateParticipationCodeAction } from '@/app/actions/events';
 
 interface QRCodeGeneratorProps {
   event: EventClient;
@@ -17,15 +18,21 @@ interface QRCodeGeneratorProps {
 export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
+  // 再発行した参加コード（ページの再検証が届くまではこちらを表示する）
+  const [rotatedCode, setRotatedCode] = useState<string | null>(null);
+  const [rotateMessage, setRotateMessage] = useState<{ success: boolean; message: string } | null>(null);
+  const [isRotating, startRotating] = useTransition();
   const copyToClipboard = useClipboardHandler();
 
+  const participationCode = rotatedCode ?? event.participationCode;
+
   // React 19: 計算結果のキャッシュ最適化 - useMemoで高価な計算をキャッシュ
   const cameraJoinUrl = useMemo(() => {
     if (typeof window === 'undefined') return '';
 
     const baseUrl = window.location.origin;
-    return `${baseUrl}/camera/join?code=${event.participationCode}`;
-  }, [event.participationCode]);
+    return `${baseUrl}/camera/join?code=${participationCode}`;
+  }, [participationCode]);
 
   // React 19: Ref cleanup 最適化パターン
   const cleanupRef = useRef<(() => void) | null>(null);
@@ -82,13 +89,28 @@ export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
     if (!qrCodeDataUrl) return;
 
     const link = document.createElement('a');
-    link.download = `harecame-qr-${event.participationCode}.png`;
+    link.download = `harecame-qr-${participationCode}.png`;
     link.href = qrCodeDataUrl;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  // 参加コードを再発行する（古いQRコード・コードと、それで参加待ちのカメラは使えなくなる）
+  const rotateCode = () => {
+    if (!window.confirm('参加コードを再発行しますか？以前のQRコードとコードでは参加できなくなります。')) {
+      return;
+    }
+
+    startRotating(async () => {
+      const result = await rotateParticipationCodeAction(event.id);
+      setRotateMessage(result);
+      if (result.success && result.participationCode) {
+        setRotatedCode(result.participationCode);
+      }
+    });
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -114,7 +136,7 @@ export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
             <div className="p-4 bg-white rounded-lg border">
               <Image
                 src={qrCodeDataUrl}
-                alt={`${event.title}イベントの参加用QRコード - 参加コード: ${event.participationCode}`}
+                alt={`${event.title}イベントの参加用QRコード - 参加コード: ${participationCode}`}
                 width={256}
                 height={256}
                 className="w-64 h-64"
@@ -134,7 +156,7 @@ export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
           <h3 className="font-semibold">{event.title}</h3>
           <div className="flex items-center justify-center gap-2">
             <Badge variant="outline" className="font-mono">
-              {event.participationCode}
+              {participationCode}
             </Badge>
             <Badge variant={event.status === 'live' ? 'default' : 'secondary'}>
               {event.status === 'live' ? 'ライブ中' :
@@ -187,7 +209,7 @@ export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
           </Button>
           <Button
             variant="outline"
-            onClick={() => copyToClipboard(event.participationCode)}
+            onClick={() => copyToClipboard(participationCode)}
             className="flex-1"
           >
             <Copy className="h-4 w-4 mr-2" />
@@ -195,6 +217,22 @@ export function QRCodeGenerator({ event }: QRCodeGeneratorProps) {
           </Button>
         </div>
 
+        {/* Code Rotation */}
+        <div className="space-y-2">
+          <Button
+            variant="outline"
+            onClick={rotateCode}
+            disabled={isRotating || event.status === 'ended'}
+            className="w-full text-red-600"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRotating ? 'animate-spin' : ''}`} />
+            参加コードを再発行
+          </Button>
+          <p className={`text-xs ${rotateMessage && !rotateMessage.success ? 'text-red-600' : 'text-muted-foreground'}`}>
+            {rotateMessage?.message ?? 'QRコードがSNSなどで流出した場合に使用します。接続中のカメラはそのまま配信を続けます'}
+          </p>
+        </div>
+
         {/* Instructions */}
         <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
           <h4 className="font-medium text-blue-900 mb-2">参加方法</h4>
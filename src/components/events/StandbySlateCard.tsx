@@ -0,0 +1,105 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ExternalLink, ImageIcon, Loader2 } from 'lucide-react';
+
+interface StandbySlateCardProps {
+  eventId: string;
+  initialImageUrl?: string;
+}
+
+// 配信中のカメラがない間にYouTubeへ送る待機画面の設定
+export function StandbySlateCard({ eventId, initialImageUrl }: StandbySlateCardProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(initialImageUrl ?? null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSlate = async (init: RequestInit) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/events/${eventId}/standby-slate`, init);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setMessage(result.error || '待機画面の更新に失敗しました');
+        return;
+      }
+      setImageUrl(result.data.standbyImageUrl);
+      setMessage('待機画面を更新しました');
+    } catch (error) {
+      console.error('Failed to update standby slate:', error);
+      setMessage('待機画面の更新に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('image', file);
+    updateSlate({ method: 'POST', body: formData });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <ImageIcon className="h-5 w-5" aria-hidden="true" />
+          待機画面
+        </CardTitle>
+        <CardDescription>
+          配信中のカメラがないときにYouTubeへ表示されます
+          {imageUrl ? '（アップロードした画像）' : '（イベント名と「まもなく再開します」）'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          className="hidden"
+          onChange={handleFileChange}
+          aria-label="待機画面の画像"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSaving}
+        >
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          画像をアップロード
+        </Button>
+        {imageUrl && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateSlate({ method: 'DELETE' })}
+            disabled={isSaving}
+          >
+            画像を削除
+          </Button>
+        )}
+        <Button asChild variant="link" size="sm">
+          <a href={`/standby/${eventId}`} target="_blank" rel="noopener noreferrer">
+            プレビュー
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </a>
+        </Button>
+        {message && (
+          <p className="text-sm text-muted-foreground" role="status">
+            {message}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, useTransition } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Video,
   VideoOff,
@@ -19,9 +21,18 @@ import {
   Tablet,
   ArrowRight,
   Clock,
-  RefreshCw
+  RefreshCw,
+  Save
 } from 'lucide-react';
-import type { CameraConnectionClient, StreamStatusClient } from '@/types';
+import { updateSwitchingPolicyAction } from '@/app/actions/events';
+import {
+  DEFAULT_MIN_ON_AIR_SECONDS,
+  DEFAULT_SWITCH_COOLDOWN_SECONDS,
+  DEFAULT_SWITCHING_DWELL_SECONDS,
+  DEFAULT_SWITCHING_POLICY,
+  SWITCHING_POLICY_NAMES
+} from '@/lib/switching-policies';
+import type { CameraConnectionClient, StreamStatusClient, SwitchingPolicyName } from '@/types';
 
 interface StreamManagementPanelProps {
   eventId: string;
@@ -29,8 +40,31 @@ interface StreamManagementPanelProps {
   streamStatus: StreamStatusClient | null;
   activeCamera: CameraConnectionClient | null;
   onActiveCameraChange: (camera: CameraConnectionClient | null) => void;
+  switchingPolicy?: SwitchingPolicyName;
+  switchingDwellSeconds?: number;
+  minOnAirSeconds?: number;
+  switchCooldownSeconds?: number;
 }
 
+const SWITCHING_POLICY_LABELS: Record<SwitchingPolicyName, { label: string; description: string }> = {
+  'last-in-wins': {
+    label: '新しいカメラを優先',
+    description: '新しいカメラが配信を始めたら自動的に切り替える',
+  },
+  'manual-only': {
+    label: '手動のみ',
+    description: '配信中のカメラが切断されたとき以外は自動で切り替えない',
+  },
+  'round-robin': {
+    label: 'ローテーション',
+    description: '接続中のカメラを一定時間ごとに順番に切り替える',
+  },
+  'best-quality': {
+    label: '品質優先',
+    description: '解像度・ビットレートが最も高いカメラを配信する',
+  },
+};
+
 interface StreamSwitchEvent {
   id: string;
   timestamp: Date;
@@ -40,15 +74,17 @@ interface StreamSwitchEvent {
 }
 
 export function StreamManagementPanel({
-  eventId: _eventId,
+  eventId,
   cameras,
   streamStatus: _streamStatus,
   activeCamera,
-  onActiveCameraChange
+  onActiveCameraChange,
+  switchingPolicy = DEFAULT_SWITCHING_POLICY,
+  switchingDwellSeconds = DEFAULT_SWITCHING_DWELL_SECONDS,
+  minOnAirSeconds = DEFAULT_MIN_ON_AIR_SECONDS,
+  switchCooldownSeconds = DEFAULT_SWITCH_COOLDOWN_SECONDS
 }: StreamManagementPanelProps) {
-  // eventId と streamStatus は将来の機能拡張のために保持
-  // 現在は未使用だが、ストリーム状態の詳細管理で使用予定
-  void _eventId; // 未使用パラメータを明示的に処理
+  // streamStatus は将来の機能拡張のために保持
   void _streamStatus; // 未使用パラメータを明示的に処理
   void onActiveCameraChange; // 将来の手動カメラ切り替え機能用
   // React 19: 状態の上位移動 - activeCamera状態は親から受け取る
@@ -56,6 +92,41 @@ export function StreamManagementPanel({
   const [isStandby, setIsStandby] = useState(false);
   const [lastSwitchTime, setLastSwitchTime] = useState<Date | null>(null);
 
+  // 切り替えポリシー設定
+  const [policy, setPolicy] = useState<SwitchingPolicyName>(switchingPolicy);
+  const [dwellSeconds, setDwellSeconds] = useState(switchingDwellSeconds);
+  const [minOnAir, setMinOnAir] = useState(minOnAirSeconds);
+  const [cooldown, setCooldown] = useState(switchCooldownSeconds);
+  const [policyMessage, setPolicyMessage] = useState<{ success: boolean; message: string } | null>(null);
+  const [savedPolicy, setSavedPolicy] = useState({
+    policy: switchingPolicy,
+    dwellSeconds: switchingDwellSeconds,
+    minOnAir: minOnAirSeconds,
+    cooldown: switchCooldownSeconds,
+  });
+  const [isSavingPolicy, startSavingPolicy] = useTransition();
+
+  const isPolicyDirty =
+    policy !== savedPolicy.policy ||
+    dwellSeconds !== savedPolicy.dwellSeconds ||
+    minOnAir !== savedPolicy.minOnAir ||
+    cooldown !== savedPolicy.cooldown;
+
+  const handleSavePolicy = () => {
+    startSavingPolicy(async () => {
+      const result = await updateSwitchingPolicyAction(eventId, {
+        switchingPolicy: policy,
+        switchingDwellSeconds: dwellSeconds,
+        minOnAirSeconds: minOnAir,
+        switchCooldownSeconds: cooldown,
+      });
+      setPolicyMessage(result);
+      if (result.success) {
+        setSavedPolicy({ policy, dwellSeconds, minOnAir, cooldown });
+      }
+    });
+  };
+
   // React 19: 計算結果のキャッシュ最適化 - useMemoで高価な計算をキャッシュ
   const activeCameras = useMemo(() =>
     cameras.filter(camera => camera.status === 'active'),
@@ -341,31 +412,98 @@ export function StreamManagementPanel({
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <h4 className="font-medium">自動切り替え</h4>
-                <p className="text-sm text-muted-foreground">
-                  新しいカメラが接続されたときに自動的に切り替える
-                </p>
-              </div>
-              <Badge variant="outline" className="bg-green-50 text-green-700">
-                <CheckCircle className="h-3 w-3 mr-1" />
-                有効
-              </Badge>
+            <div className="space-y-2">
+              <Label htmlFor="switching-policy">自動切り替えポリシー</Label>
+              <select
+                id="switching-policy"
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as SwitchingPolicyName)}
+                disabled={isSavingPolicy}
+                className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              >
+                {SWITCHING_POLICY_NAMES.map((name) => (
+                  <option key={name} value={name}>
+                    {SWITCHING_POLICY_LABELS[name].label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-sm text-muted-foreground">
+                {SWITCHING_POLICY_LABELS[policy].description}
+              </p>
             </div>
 
-            <div className="flex items-center justify-between">
-              <div>
-                <h4 className="font-medium">品質優先切り替え</h4>
+            {policy === 'round-robin' && (
+              <div className="space-y-2">
+                <Label htmlFor="switching-dwell-seconds">表示時間（秒）</Label>
+                <Input
+                  id="switching-dwell-seconds"
+                  type="number"
+                  min={5}
+                  max={3600}
+                  value={dwellSeconds}
+                  onChange={(e) => setDwellSeconds(Number(e.target.value))}
+                  disabled={isSavingPolicy}
+                />
                 <p className="text-sm text-muted-foreground">
-                  より高品質なストリームが利用可能になったときに切り替える
+                  各カメラを配信し続ける時間
                 </p>
               </div>
-              <Badge variant="outline" className="bg-green-50 text-green-700">
-                <CheckCircle className="h-3 w-3 mr-1" />
-                有効
-              </Badge>
+            )}
+
+            {/* 連続切り替えの抑制 */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min-on-air-seconds">最低表示時間（秒）</Label>
+                <Input
+                  id="min-on-air-seconds"
+                  type="number"
+                  min={0}
+                  max={600}
+                  value={minOnAir}
+                  onChange={(e) => setMinOnAir(Number(e.target.value))}
+                  disabled={isSavingPolicy}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="switch-cooldown-seconds">クールダウン（秒）</Label>
+                <Input
+                  id="switch-cooldown-seconds"
+                  type="number"
+                  min={0}
+                  max={600}
+                  value={cooldown}
+                  onChange={(e) => setCooldown(Number(e.target.value))}
+                  disabled={isSavingPolicy}
+                />
+              </div>
             </div>
+            <p className="text-sm text-muted-foreground">
+              この間に発生した自動切り替えは待機させ、期間終了後に最新のものだけを反映します（切断時の切り替えは即時）
+            </p>
+
+            {policyMessage && (
+              <Alert variant={policyMessage.success ? 'default' : 'destructive'}>
+                {policyMessage.success ? (
+                  <CheckCircle className="h-4 w-4" />
+                ) : (
+                  <AlertCircle className="h-4 w-4" />
+                )}
+                <AlertDescription>{policyMessage.message}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button
+              onClick={handleSavePolicy}
+              disabled={!isPolicyDirty || isSavingPolicy}
+              className="w-full"
+            >
+              {isSavingPolicy ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              設定を保存
+            </Button>
 
             <div className="pt-4 border-t">
               <Button
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, CheckCircle, Loader2, Lock, Save, Trash2 } from 'lucide-react';
+import { setViewerPassphraseAction } from '@/app/actions/events';
+
+interface ViewerPassphraseCardProps {
+  eventId: string;
+  passphraseEnabled: boolean;
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+// 視聴ページを限定公開にするパスフレーズ（任意）
+// 設定済みのパスフレーズはハッシュで保存されるため表示できない
+export function ViewerPassphraseCard({ eventId, passphraseEnabled }: ViewerPassphraseCardProps) {
+  const [enabled, setEnabled] = useState(passphraseEnabled);
+  const [passphrase, setPassphrase] = useState('');
+  const [message, setMessage] = useState<{ success: boolean; message: string } | null>(null);
+  const [isSaving, startSaving] = useTransition();
+
+  const handleSave = (nextPassphrase: string | null) => {
+    startSaving(async () => {
+      const result = await setViewerPassphraseAction(eventId, nextPassphrase);
+      setMessage(result);
+      if (result.success) {
+        setEnabled(nextPassphrase !== null);
+        setPassphrase('');
+      }
+    });
+  };
+
+  const handleChange = () => {
+    // 変更すると、以前のパスフレーズで視聴中の人も再入力が必要になる
+    if (enabled && !window.confirm('パスフレーズを変更しますか？視聴中の人も新しいパスフレーズの入力が必要になります。')) {
+      return;
+    }
+    handleSave(passphrase);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('パスフレーズを解除しますか？視聴ページのURLを知っている人は誰でも配信を見られるようになります。')) {
+      return;
+    }
+    handleSave(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Lock className="h-5 w-5" aria-hidden="true" />
+          視聴パスフレーズ
+          <Badge variant={enabled ? 'default' : 'secondary'}>
+            {enabled ? '限定公開' : '公開'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          設定すると、視聴ページでパスフレーズを入力した人だけが配信を見られます
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="viewer-passphrase-setting">
+            {enabled ? '新しいパスフレーズ' : 'パスフレーズ'}
+          </Label>
+          <Input
+            id="viewer-passphrase-setting"
+            type="password"
+            autoComplete="new-password"
+            placeholder={`${MIN_PASSPHRASE_LENGTH}文字以上`}
+            maxLength={128}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleChange}
+            disabled={isSaving || passphrase.length < MIN_PASSPHRASE_LENGTH}
+            className="flex-1"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {enabled ? 'パスフレーズを変更' : 'パスフレーズを設定'}
+          </Button>
+          {enabled && (
+            <Button variant="outline" onClick={handleClear} disabled={isSaving}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              解除
+            </Button>
+          )}
+        </div>
+
+        {message && (
+          <Alert variant={message.success ? 'default' : 'destructive'}>
+            {message.success ? (
+              <CheckCircle className="h-4 w-4" />
+            ) : (
+              <AlertCircle className="h-4 w-4" />
+            )}
+            <AlertDescription>{message.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Youtube } from 'lucide-react';
+
+type ConnectionState =
+  | { status: 'loading' }
+  | { status: 'unauthenticated' }
+  | { status: 'disconnected' }
+  | { status: 'connected'; channelTitle?: string };
+
+// 主催者のYouTubeチャンネル連携（配信は連携したチャンネルに作成されます）
+export function YouTubeConnectionCard({ returnTo = '/events/create' }: { returnTo?: string }) {
+  const [connection, setConnection] = useState<ConnectionState>({ status: 'loading' });
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const fetchConnection = useCallback(async () => {
+    try {
+      const response = await fetch('/api/integrations/youtube');
+      if (response.status === 401) {
+        setConnection({ status: 'unauthenticated' });
+        return;
+      }
+
+      const { data } = await response.json();
+      setConnection(
+        data?.connected
+          ? { status: 'connected', channelTitle: data.channelTitle }
+          : { status: 'disconnected' }
+      );
+    } catch (error) {
+      console.error('Failed to fetch YouTube connection:', error);
+      setConnection({ status: 'disconnected' });
+    }
+  }, []);
+
+  useEffect(() => {
+    // Result of the OAuth callback redirect
+    const result = new URLSearchParams(window.location.search).get('youtube');
+    if (result === 'connected') {
+      setResultMessage('YouTubeチャンネルを連携しました');
+    } else if (result === 'error') {
+      setResultMessage('YouTubeチャンネルの連携に失敗しました');
+    }
+
+    fetchConnection();
+  }, [fetchConnection]);
+
+  const handleDisconnect = async () => {
+    await fetch('/api/integrations/youtube', { method: 'DELETE' });
+    setResultMessage(null);
+    fetchConnection();
+  };
+
+  // Only signed-in organizers can connect a channel
+  if (connection.status === 'unauthenticated') {
+    return null;
+  }
+
+  const connectUrl = `/api/integrations/youtube/connect?returnTo=${encodeURIComponent(returnTo)}`;
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Youtube className="h-5 w-5" aria-hidden="true" />
+          YouTubeチャンネル
+        </CardTitle>
+        <CardDescription>
+          {connection.status === 'connected'
+            ? `「${connection.channelTitle ?? 'YouTubeチャンネル'}」に配信を作成します`
+            : 'チャンネルを連携すると、あなたのチャンネルで配信されます'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        {connection.status === 'loading' && (
+          <Loader2 className="h-4 w-4 animate-spin" aria-label="読み込み中" />
+        )}
+        {connection.status === 'disconnected' && (
+          <Button asChild>
+            <a href={connectUrl}>YouTubeチャンネルを連携</a>
+          </Button>
+        )}
+        {connection.status === 'connected' && (
+          <>
+            <Button asChild variant="outline">
+              <a href={connectUrl}>別のチャンネルを連携</a>
+            </Button>
+            <Button variant="ghost" onClick={handleDisconnect}>
+              連携を解除
+            </Button>
+          </>
+        )}
+        {resultMessage && (
+          <p className="text-sm text-muted-foreground" role="status">
+            {resultMessage}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
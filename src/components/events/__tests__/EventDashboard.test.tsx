@@ -22,12 +22,9 @@ const mockEvent: EventClient = {
 const mockFetch = jest.fn();
 global.fetch = mockFetch;
 
-// YouTube APIのモック
-jest.mock('@/lib/youtube', () => ({
-  getYouTubeStreamStats: jest.fn().mockResolvedValue({
-    viewerCount: 100,
-    duration: '01:30:00',
-  }),
+// Server Actionのモック
+jest.mock('@/app/actions/events', () => ({
+  updateSwitchingPolicyAction: jest.fn().mockResolvedValue({ success: true, message: '' }),
 }));
 
 describe('EventDashboard', () => {
@@ -145,6 +142,7 @@ describe('EventDashboard', () => {
     await waitFor(() => {
       expect(screen.getByText('1')).toBeInTheDocument(); // アクティブカメラ数
       expect(screen.getByText('全2台中')).toBeInTheDocument(); // 総カメラ数
+      expect(screen.getByText('150')).toBeInTheDocument(); // stream_statusの視聴者数
     });
   });
 
@@ -7,6 +7,11 @@ jest.mock('qrcode', () => ({
   toDataURL: jest.fn(),
 }));
 
+// Server Action のモック
+jest.mock('@/app/actions/events', () => ({
+  rotateParticipationCodeAction: jest.fn(),
+}));
+
 // モック関数への参照を取得
 import QRCode from 'qrcode';
 const mockToDataURL = QRCode.toDataURL as jest.MockedFunction<typeof QRCode.toDataURL>;
@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { QRCodeGenerator } from '../QRCodeGenerator';
 import type { EventClient } from '@/types';
 
@@ -7,8 +7,14 @@ jest.mock('qrcode', () => ({
   toDataURL: jest.fn(),
 }));
 
+// Server Action のモック
+jest.mock('@/app/actions/events', () => ({
+  rotateParticipationCodeAction: jest.fn(),
+}));
+
 // モック関数への参照を取得
 import QRCode from 'qrcode';
+import { rotateParticipationCodeAction } from '@/app/actions/events';
 import { createMockLocation, createMockQRCodeToDataURL, type MockWindow } from '@/lib/type-guards';
 
 const mockToDataURL = createMockQRCodeToDataURL();
@@ -304,4 +310,28 @@ describe('QRCodeGenerator', () => {
       expect(image).toHaveAttribute('class', 'w-64 h-64');
     });
   });
+
+  describe('参加コードの再発行', () => {
+    test('再発行した参加コードでQRコードを作り直すことをテスト', async () => {
+      jest.spyOn(window, 'confirm').mockReturnValue(true);
+      (rotateParticipationCodeAction as jest.Mock).mockResolvedValue({
+        success: true,
+        message: '参加コードを変更しました。以前のQRコードとコードでは参加できません',
+        participationCode: 'NEW234',
+      });
+
+      render(<QRCodeGenerator event={mockEvent} />);
+      fireEvent.click(screen.getByRole('button', { name: /参加コードを再発行/ }));
+
+      await waitFor(() => {
+        expect(screen.getByText('NEW234')).toBeInTheDocument();
+      });
+      expect(rotateParticipationCodeAction).toHaveBeenCalledWith(mockEvent.id);
+      expect(mockToDataURL).toHaveBeenLastCalledWith(
+        expect.stringContaining('/camera/join?code=NEW234'),
+        expect.any(Object)
+      );
+      expect(screen.queryByText(mockEvent.participationCode)).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,32 @@
+import Image from 'next/image';
+import { STANDBY_SLATE_MESSAGE } from '@/lib/standby-slate';
+
+interface StandbySlateProps {
+  title: string;
+  imageUrl?: string;
+}
+
+// 配信中のカメラがない間にYouTubeへ送る待機画面（16:9の全画面）
+export function StandbySlate({ title, imageUrl }: StandbySlateProps) {
+  if (imageUrl) {
+    return (
+      <div className="relative h-screen w-screen overflow-hidden bg-black">
+        <Image
+          src={imageUrl}
+          alt={`${title} - ${STANDBY_SLATE_MESSAGE}`}
+          fill
+          priority
+          unoptimized
+          className="object-contain"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen w-screen flex-col items-center justify-center gap-8 overflow-hidden bg-gradient-to-br from-blue-700 to-blue-950 px-16 text-center text-white">
+      <h1 className="text-6xl font-bold leading-tight break-words">{title}</h1>
+      <p className="text-4xl font-medium text-blue-100">{STANDBY_SLATE_MESSAGE}</p>
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { ViewerChat } from "./ViewerChat";
 import { analyticsService } from "@/lib/analytics";
-import { Eye, Users, Wifi, WifiOff } from "lucide-react";
+import { useEventStream } from "@/hooks/useEventStream";
+import type { ViewerAccessState } from "@/lib/viewer-access";
+import { Eye, Lock, Users, Wifi, WifiOff } from "lucide-react";
 
 interface StreamViewerProps {
   eventId: string;
   streamUrl: string;
   eventTitle: string;
+  // パスフレーズ付きイベントでは視聴セッションがある場合のみ配信を表示する（省略時は公開）
+  viewerAccess?: ViewerAccessState;
 }
 
 interface StreamStatus {
@@ -26,7 +30,10 @@ export function StreamViewer({
   eventId,
   streamUrl,
   eventTitle,
+  viewerAccess = { required: false, granted: true },
 }: StreamViewerProps) {
+  const isLocked = viewerAccess.required && !viewerAccess.granted;
+
   const [streamStatus, setStreamStatus] = useState<StreamStatus>({
     isLive: false,
     activeCameraCount: 0,
@@ -53,7 +60,8 @@ export function StreamViewer({
     return null;
   };
 
-  const videoId = extractVideoId(streamUrl);
+  // 視聴セッションがなければ埋め込みURLを組み立てない
+  const videoId = isLocked ? null : extractVideoId(streamUrl);
 
   // 視聴開始時の分析追跡
   useEffect(() => {
@@ -70,46 +78,52 @@ export function StreamViewer({
     };
   }, [eventId]);
 
-  // ストリーム状態を定期的に取得
-  useEffect(() => {
-    const fetchStreamStatus = async () => {
-      try {
-        const response = await fetch(`/api/events/${eventId}/status`);
-        if (!response.ok) {
-          if (response.status === 404) {
-            setError("イベントが見つかりません。URLを確認してください。");
-          } else {
-            setError("ストリーム情報の取得に失敗しました。");
-          }
-          return;
-        }
-
-        const data = await response.json();
-        if (data.success && data.streamStatus) {
-          setStreamStatus(data.streamStatus);
-          setError(null); // エラーをクリア
+  // ストリーム状態を取得
+  const fetchStreamStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/status`);
+      if (!response.ok) {
+        if (response.status === 404) {
+          setError("イベントが見つかりません。URLを確認してください。");
         } else {
-          setError("ストリーム情報の形式が正しくありません。");
+          setError("ストリーム情報の取得に失敗しました。");
         }
-      } catch (err) {
-        console.error("Failed to fetch stream status:", err);
-        if (err instanceof TypeError && err.message.includes("fetch")) {
-          setError(
-            "ネットワーク接続に問題があります。インターネット接続を確認してください。"
-          );
-        } else {
-          setError("ストリーム情報の取得中にエラーが発生しました。");
-        }
-      } finally {
-        setIsLoading(false);
+        return;
       }
-    };
 
+      const data = await response.json();
+      if (data.success && data.data) {
+        setStreamStatus(data.data);
+        setError(null); // エラーをクリア
+      } else {
+        setError("ストリーム情報の形式が正しくありません。");
+      }
+    } catch (err) {
+      console.error("Failed to fetch stream status:", err);
+      if (err instanceof TypeError && err.message.includes("fetch")) {
+        setError(
+          "ネットワーク接続に問題があります。インターネット接続を確認してください。"
+        );
+      } else {
+        setError("ストリーム情報の取得中にエラーが発生しました。");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (isLocked) return;
     fetchStreamStatus();
-    const interval = setInterval(fetchStreamStatus, 10000); // 10秒ごとに更新
+  }, [fetchStreamStatus, isLocked]);
 
-    return () => clearInterval(interval);
-  }, [eventId]);
+  // カメラの接続・切り替えイベントを受信したら再取得（SSEが使えない場合は10秒ごとにポーリング）
+  useEventStream(eventId, {
+    dispatch: fetchStreamStatus,
+    resync: fetchStreamStatus,
+    pollIntervalMs: 10000,
+    enabled: !isLocked,
+  });
 
   const getStatusColor = (health: string) => {
     switch (health) {
@@ -134,6 +148,21 @@ export function StreamViewer({
     );
   };
 
+  if (isLocked) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              この配信を視聴するにはパスフレーズが必要です。
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (isLoading) {
     return (
       <Card>
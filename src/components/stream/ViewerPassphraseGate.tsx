@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Lock } from "lucide-react";
+
+interface ViewerPassphraseGateProps {
+  eventId: string;
+}
+
+/**
+ * パスフレーズ付きイベントの視聴ページで、配信の代わりに表示する入力画面
+ * 正しいパスフレーズを入力すると視聴セッションのCookieが発行され、ページを再読み込みして配信を表示する
+ */
+export function ViewerPassphraseGate({ eventId }: ViewerPassphraseGateProps) {
+  const router = useRouter();
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/viewer-session`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passphrase }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        // Cookieを付けてサーバー側で再描画する
+        router.refresh();
+        return;
+      }
+
+      if (response.status === 429) {
+        setError(`試行回数が多すぎます。${data.retryAfter ?? 60}秒後にもう一度お試しください。`);
+      } else if (response.status === 401) {
+        setError("パスフレーズが正しくありません。");
+      } else {
+        setError("確認に失敗しました。もう一度お試しください。");
+      }
+    } catch (err) {
+      console.error("Failed to submit viewer passphrase:", err);
+      setError("ネットワーク接続に問題があります。インターネット接続を確認してください。");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" aria-hidden="true" />
+          パスフレーズが必要です
+        </CardTitle>
+        <CardDescription>
+          この配信は限定公開です。イベント主催者から受け取ったパスフレーズを入力してください
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="viewer-passphrase">パスフレーズ</Label>
+            <Input
+              id="viewer-passphrase"
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || passphrase.length === 0}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            視聴する
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
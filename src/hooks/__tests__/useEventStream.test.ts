@@ -0,0 +1,241 @@
+import { renderHook, act } from '@testing-library/react';
+import { useEventStream, applyCameraStreamAction, getReconnectDelay } from '../useEventStream';
+import type { CameraConnectionClient } from '@/types';
+
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(payload: Record<string, unknown>, lastEventId = '') {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(payload), lastEventId }));
+  }
+
+  static latest(): MockEventSource {
+    return MockEventSource.instances[MockEventSource.instances.length - 1]!;
+  }
+}
+
+const EVENT_ID = 'event-1';
+
+const createCamera = (id: string, status: CameraConnectionClient['status']): CameraConnectionClient => ({
+  id,
+  eventId: EVENT_ID,
+  participantId: `participant-${id}`,
+  deviceInfo: {},
+  streamQuality: {},
+  status,
+  joinedAt: new Date('2026-01-01T10:00:00Z'),
+  lastActiveAt: new Date('2026-01-01T10:00:00Z'),
+});
+
+describe('useEventStream', () => {
+  const originalEventSource = global.EventSource;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockEventSource.instances = [];
+    global.EventSource = MockEventSource as unknown as typeof EventSource;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    global.EventSource = originalEventSource;
+  });
+
+  it('should dispatch actions for stream events', () => {
+    const dispatch = jest.fn();
+    const resync = jest.fn();
+    const { result } = renderHook(() => useEventStream(EVENT_ID, { dispatch, resync }));
+
+    act(() => {
+      MockEventSource.latest().onopen?.();
+      MockEventSource.latest().emit({ type: 'connected', eventId: EVENT_ID, timestamp: 0 });
+      MockEventSource.latest().emit(
+        {
+          type: 'stream-switched',
+          eventId: EVENT_ID,
+          timestamp: 1767261600000,
+          data: { fromCamera: 'camera-a', toCamera: 'camera-b', reason: 'manual' },
+        },
+        '42'
+      );
+    });
+
+    expect(result.current.connectionState).toBe('open');
+    expect(MockEventSource.latest().url).toBe(`/api/events/${EVENT_ID}/stream`);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(dispatch).toHaveBeenCalledWith({
+      type: 'STREAM_SWITCHED',
+      payload: { fromCamera: 'camera-a', toCamera: 'camera-b', at: new Date(1767261600000) },
+    });
+    expect(resync).not.toHaveBeenCalled();
+  });
+
+  it('should resync when the server cannot replay missed events', () => {
+    const resync = jest.fn();
+    renderHook(() => useEventStream(EVENT_ID, { dispatch: jest.fn(), resync }));
+
+    act(() => {
+      MockEventSource.latest().emit({ type: 'resync', eventId: EVENT_ID, lastEventId: '1', timestamp: 0 });
+    });
+
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect with backoff from the last received event id', () => {
+    renderHook(() => useEventStream(EVENT_ID, { dispatch: jest.fn(), resync: jest.fn() }));
+
+    const first = MockEventSource.latest();
+    act(() => {
+      first.onopen?.();
+      first.emit({ type: 'camera-disconnected', eventId: EVENT_ID, cameraConnectionId: 'camera-a', timestamp: 0 }, '42');
+      first.onerror?.();
+    });
+
+    expect(first.closed).toBe(true);
+    expect(MockEventSource.instances).toHaveLength(1);
+
+    act(() => {
+      jest.advanceTimersByTime(getReconnectDelay(0));
+    });
+
+    expect(MockEventSource.instances).toHaveLength(2);
+    expect(MockEventSource.latest().url).toBe(`/api/events/${EVENT_ID}/stream?lastEventId=42`);
+  });
+
+  it('should fall back to polling after repeated connection failures', () => {
+    const resync = jest.fn();
+    const { result } = renderHook(() =>
+      useEventStream(EVENT_ID, { dispatch: jest.fn(), resync, pollIntervalMs: 10000 })
+    );
+
+    act(() => {
+      MockEventSource.latest().onerror?.();
+      jest.advanceTimersByTime(getReconnectDelay(0));
+      MockEventSource.latest().onerror?.();
+      jest.advanceTimersByTime(getReconnectDelay(1));
+      MockEventSource.latest().onerror?.();
+    });
+
+    expect(result.current.connectionState).toBe('polling');
+
+    act(() => {
+      jest.advanceTimersByTime(10000);
+    });
+    expect(resync).toHaveBeenCalledTimes(1);
+
+    // Reconnect attempts continue while polling; a successful one stops polling
+    expect(MockEventSource.instances).toHaveLength(4);
+    act(() => {
+      MockEventSource.latest().onopen?.();
+    });
+    expect(result.current.connectionState).toBe('open');
+    resync.mockClear();
+
+    act(() => {
+      jest.advanceTimersByTime(30000);
+    });
+    expect(resync).not.toHaveBeenCalled();
+  });
+
+  it('should poll when EventSource is not available', () => {
+    // @ts-expect-error - simulate a browser without EventSource
+    delete global.EventSource;
+    const resync = jest.fn();
+    const { result } = renderHook(() =>
+      useEventStream(EVENT_ID, { dispatch: jest.fn(), resync, pollIntervalMs: 5000 })
+    );
+
+    expect(result.current.connectionState).toBe('polling');
+
+    act(() => {
+      jest.advanceTimersByTime(15000);
+    });
+    expect(resync).toHaveBeenCalledTimes(3);
+  });
+
+  it('should close the connection on unmount', () => {
+    const { unmount } = renderHook(() => useEventStream(EVENT_ID, { dispatch: jest.fn(), resync: jest.fn() }));
+
+    unmount();
+    expect(MockEventSource.latest().closed).toBe(true);
+  });
+});
+
+describe('applyCameraStreamAction', () => {
+  it('should mark a streaming camera active and a disconnected camera inactive', () => {
+    const cameras = [createCamera('camera-a', 'active'), createCamera('camera-b', 'connecting')];
+    const at = new Date('2026-01-01T10:05:00Z');
+
+    const streaming = applyCameraStreamAction(cameras, {
+      type: 'CAMERA_STREAMING',
+      payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-b', participantId: 'participant-camera-b', streamQuality: { resolution: '1280x720' }, at },
+    });
+    const disconnected = applyCameraStreamAction(streaming, {
+      type: 'CAMERA_DISCONNECTED',
+      payload: { cameraConnectionId: 'camera-a', at },
+    });
+
+    expect(disconnected.map(camera => camera.status)).toEqual(['inactive', 'active']);
+    expect(disconnected[0]!.disconnectedAt).toEqual(at);
+    expect(disconnected[1]!.streamQuality).toEqual({ resolution: '1280x720' });
+  });
+
+  it('should add cameras that join after the initial fetch', () => {
+    const at = new Date('2026-01-01T10:05:00Z');
+    const cameras = applyCameraStreamAction([], {
+      type: 'CAMERA_JOINED',
+      payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-c', participantId: 'participant-c', participantName: 'Goal line', deviceInfo: {}, at },
+    });
+
+    expect(cameras).toEqual([
+      expect.objectContaining({ id: 'camera-c', participantName: 'Goal line', status: 'connecting', joinedAt: at }),
+    ]);
+  });
+
+  it('should list waitlisted cameras and move them on when admitted', () => {
+    const at = new Date('2026-01-01T10:05:00Z');
+    const waiting = applyCameraStreamAction([createCamera('camera-a', 'active')], {
+      type: 'CAMERA_WAITLISTED',
+      payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-d', participantId: 'participant-d', deviceInfo: {}, position: 1, at },
+    });
+    expect(waiting.map(camera => camera.status)).toEqual(['active', 'waiting']);
+
+    const admitted = applyCameraStreamAction(waiting, {
+      type: 'CAMERA_ADMITTED',
+      payload: { cameraConnectionId: 'camera-d', at },
+    });
+    expect(admitted[1]).toMatchObject({ id: 'camera-d', status: 'connecting', joinedAt: at });
+  });
+
+  it('should track cameras awaiting approval until the organizer decides', () => {
+    const at = new Date('2026-01-01T10:05:00Z');
+    const approvedAt = new Date('2026-01-01T10:06:00Z');
+    const pending = [
+      { type: 'CAMERA_PENDING' as const, payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-e', participantId: 'participant-e', deviceInfo: {}, at } },
+      { type: 'CAMERA_PENDING' as const, payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-f', participantId: 'participant-f', deviceInfo: {}, at } },
+    ].reduce(applyCameraStreamAction, [] as CameraConnectionClient[]);
+    expect(pending.map(camera => camera.status)).toEqual(['pending', 'pending']);
+
+    // Approved while full: to the back of the waitlist
+    const decided = [
+      { type: 'CAMERA_WAITLISTED' as const, payload: { eventId: EVENT_ID, cameraConnectionId: 'camera-e', participantId: 'participant-e', deviceInfo: {}, position: 1, at: approvedAt } },
+      { type: 'CAMERA_REJECTED' as const, payload: { cameraConnectionId: 'camera-f', at: approvedAt } },
+    ].reduce(applyCameraStreamAction, pending);
+
+    expect(decided[0]).toMatchObject({ status: 'waiting', joinedAt: approvedAt });
+    expect(decided[1]).toMatchObject({ status: 'inactive', disconnectReason: 'rejected' });
+  });
+});
@@ -4,9 +4,11 @@ import type { ReactNode } from 'react';
 // Authentication types
 export interface AuthUser {
   id: string;
-  type: 'admin' | 'organizer' | 'camera' | 'viewer';
+  type: 'organizer' | 'camera' | 'viewer';
   eventId?: string;
   participantName?: string;
+  email?: string; // Organizer accounts
+  displayName?: string;
   token: string;
   expiresAt: string;
 }
@@ -153,18 +155,21 @@ export function useAuth() {
     authStore.getServerSnapshot
   );
 
-  // Admin login
-  const loginAsAdmin = useCallback(async (adminKey: string, eventId?: string) => {
+  // Organizer sign-in (or sign-up) with email and password
+  const signInOrganizer = useCallback(async (
+    path: '/api/auth/login' | '/api/auth/register',
+    body: { email: string; password: string; displayName?: string }
+  ) => {
     authStore.setLoading(true);
     authStore.setError(null);
 
     try {
-      const response = await fetch('/api/auth/admin', {
+      const response = await fetch(path, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ adminKey, eventId }),
+        body: JSON.stringify(body),
       });
 
       const data = await response.json();
@@ -176,7 +181,8 @@ export function useAuth() {
       const user: AuthUser = {
         id: data.data.user.id,
         type: data.data.user.type,
-        eventId: data.data.user.eventId,
+        email: data.data.user.email,
+        displayName: data.data.user.displayName,
         token: data.data.token,
         expiresAt: data.data.expiresAt,
       };
@@ -190,11 +196,23 @@ export function useAuth() {
     }
   }, []);
 
+  const loginAsOrganizer = useCallback(
+    (email: string, password: string) => signInOrganizer('/api/auth/login', { email, password }),
+    [signInOrganizer]
+  );
+
+  const registerOrganizer = useCallback(
+    (email: string, password: string, displayName?: string) =>
+      signInOrganizer('/api/auth/register', { email, password, displayName }),
+    [signInOrganizer]
+  );
+
   // Camera operator authentication via participation code
   const authenticateCamera = useCallback(async (
     participationCode: string,
     participantId?: string,
-    participantName?: string
+    participantName?: string,
+    pin?: string
   ) => {
     authStore.setLoading(true);
     authStore.setError(null);
@@ -209,6 +227,7 @@ export function useAuth() {
           code: participationCode,
           participantId,
           participantName,
+          pin,
         }),
       });
 
@@ -232,7 +251,6 @@ export function useAuth() {
       return {
         user,
         event: data.data.event,
-        liveKitToken: data.data.tokens.liveKitToken,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Authentication failed';
@@ -244,9 +262,9 @@ export function useAuth() {
   // Logout
   const logout = useCallback(async () => {
     try {
-      // Call logout API if user is admin
-      if (authState.user?.type === 'admin') {
-        await fetch('/api/auth/admin', {
+      // Clear the session cookie of organizers
+      if (authState.user?.type === 'organizer') {
+        await fetch('/api/auth/login', {
           method: 'DELETE',
           headers: {
             'Authorization': `Bearer ${authState.user.token}`,
@@ -269,14 +287,12 @@ export function useAuth() {
 
     const requiredTypes = Array.isArray(requiredType) ? requiredType : [requiredType];
 
-    // Admin has all permissions
-    if (authState.user.type === 'admin') return true;
-
     // Check if user type is in required types
     if (!requiredTypes.includes(authState.user.type)) return false;
 
-    // Check event-specific permissions
-    if (eventId && authState.user.eventId !== eventId) return false;
+    // Check event-specific permissions (organizer accounts reach events
+    // through their membership, which only the server knows)
+    if (eventId && authState.user.type !== 'organizer' && authState.user.eventId !== eventId) return false;
 
     return true;
   }, [authState.user]);
@@ -302,7 +318,8 @@ export function useAuth() {
 
   return {
     ...authState,
-    loginAsAdmin,
+    loginAsOrganizer,
+    registerOrganizer,
     authenticateCamera,
     logout,
     hasPermission,
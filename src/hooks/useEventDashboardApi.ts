@@ -1,17 +1,14 @@
 import { useCallback, useRef } from "react";
-import { getYouTubeStreamStats, type YouTubeStreamStats } from "@/lib/youtube";
 import type { CameraConnectionClient, StreamStatusClient } from "@/types";
 
 interface FetchDataOptions {
   eventId: string;
-  youtubeVideoId?: string;
   signal?: AbortSignal;
 }
 
 interface FetchDataResult {
   cameras: CameraConnectionClient[];
   streamStatus: StreamStatusClient | null;
-  youtubeStats: YouTubeStreamStats | null;
 }
 
 /**
@@ -31,14 +28,13 @@ export function useEventDashboardApi() {
   // データを取得する
   const fetchEventData = useCallback(
     async (options: FetchDataOptions): Promise<FetchDataResult> => {
-      const { eventId, youtubeVideoId, signal } = options;
+      const { eventId, signal } = options;
 
       console.log("Fetching event data for:", eventId);
 
       const result: FetchDataResult = {
         cameras: [],
         streamStatus: null,
-        youtubeStats: null,
       };
 
       try {
@@ -64,7 +60,7 @@ export function useEventDashboardApi() {
           );
         }
 
-        // ストリーム状態を取得
+        // ストリーム状態を取得（視聴者数はサーバー側のポーラーが書き込み、SSEでも届く）
         const statusResponse = await fetch(`/api/events/${eventId}/status`, {
           signal,
         });
@@ -82,19 +78,6 @@ export function useEventDashboardApi() {
           );
         }
 
-        // YouTube統計を取得（動画IDがある場合のみ）
-        if (youtubeVideoId) {
-          try {
-            console.log("Fetching YouTube stats for:", youtubeVideoId);
-            const stats = await getYouTubeStreamStats(youtubeVideoId);
-            result.youtubeStats = stats;
-            console.log("YouTube stats updated:", stats);
-          } catch (youtubeError) {
-            console.warn("Failed to fetch YouTube stats:", youtubeError);
-            // YouTube統計の取得失敗は致命的エラーとしない
-          }
-        }
-
         console.log("Event data fetch completed successfully");
         return result;
       } catch (error) {
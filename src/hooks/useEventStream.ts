@@ -0,0 +1,497 @@
+import { useEffect, useRef, useState } from "react";
+import type { BroadcastState, CameraConnectionClient, StreamStatusClient } from "@/types";
+
+// SSEで受信するイベントをダッシュボードのreducerアクションに変換したもの
+export type EventStreamAction =
+  | {
+      type: "CAMERA_JOINED";
+      payload: {
+        eventId: string;
+        cameraConnectionId: string;
+        participantId: string;
+        participantName?: string;
+        deviceInfo: CameraConnectionClient["deviceInfo"];
+        at: Date;
+      };
+    }
+  | {
+      type: "CAMERA_STREAMING";
+      payload: {
+        eventId: string;
+        cameraConnectionId: string;
+        participantId: string;
+        streamQuality: CameraConnectionClient["streamQuality"];
+        at: Date;
+      };
+    }
+  | {
+      type: "CAMERA_DISCONNECTED";
+      payload: { cameraConnectionId: string; at: Date };
+    }
+  | {
+      type: "CAMERA_WAITLISTED";
+      payload: {
+        eventId: string;
+        cameraConnectionId: string;
+        participantId: string;
+        participantName?: string;
+        deviceInfo: CameraConnectionClient["deviceInfo"];
+        position: number;
+        at: Date;
+      };
+    }
+  | {
+      type: "CAMERA_ADMITTED";
+      payload: { cameraConnectionId: string; at: Date };
+    }
+  | {
+      type: "CAMERA_PENDING";
+      payload: {
+        eventId: string;
+        cameraConnectionId: string;
+        participantId: string;
+        participantName?: string;
+        deviceInfo: CameraConnectionClient["deviceInfo"];
+        at: Date;
+      };
+    }
+  | {
+      type: "CAMERA_REJECTED";
+      payload: { cameraConnectionId: string; at: Date };
+    }
+  | {
+      type: "STREAM_SWITCHED";
+      payload: { fromCamera?: string; toCamera: string; at: Date };
+    }
+  | {
+      type: "BROADCAST_STATE_CHANGED";
+      payload: { from?: BroadcastState; to: BroadcastState; error?: string; at: Date };
+    }
+  | {
+      type: "STREAM_HEALTH_UPDATED";
+      payload: {
+        viewerCount: number;
+        streamHealth: StreamStatusClient["streamHealth"];
+        duration?: string;
+        issues: string[];
+        at: Date;
+      };
+    }
+  | {
+      // Wrong PINs for this event, or wrong participation codes across all events
+      type: "CODE_GUESS_SPIKE";
+      payload: { scope: "event" | "global"; failures: number; windowSeconds: number; at: Date };
+    };
+
+export type EventStreamConnectionState =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "polling";
+
+interface UseEventStreamOptions {
+  // Receives every camera/switch event as it arrives
+  dispatch: (action: EventStreamAction) => void;
+  // Re-fetch full state: when the server cannot replay a gap, and on each poll
+  resync: () => void | Promise<void>;
+  pollIntervalMs?: number;
+  enabled?: boolean;
+}
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Consecutive failed connection attempts before falling back to polling
+const FAILURES_BEFORE_POLLING = 3;
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(
+    INITIAL_RECONNECT_DELAY_MS * 2 ** attempt,
+    MAX_RECONNECT_DELAY_MS
+  );
+}
+
+// Convert an SSE payload into a reducer action (null for control messages and unknown types)
+export function toEventStreamAction(
+  message: Record<string, unknown>
+): EventStreamAction | null {
+  const data = (message.data ?? {}) as Record<string, unknown>;
+  const at = new Date(
+    typeof message.timestamp === "number" ? message.timestamp : Date.now()
+  );
+  const cameraConnectionId = message.cameraConnectionId as string | undefined;
+
+  switch (message.type) {
+    case "camera-joined":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_JOINED",
+        payload: {
+          eventId: message.eventId as string,
+          cameraConnectionId,
+          participantId: message.participantId as string,
+          participantName: data.participantName as string | undefined,
+          deviceInfo: (data.deviceInfo ?? {}) as CameraConnectionClient["deviceInfo"],
+          at,
+        },
+      };
+    case "camera-started-streaming":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_STREAMING",
+        payload: {
+          eventId: message.eventId as string,
+          cameraConnectionId,
+          participantId: message.participantId as string,
+          streamQuality: (data.streamQuality ?? {}) as CameraConnectionClient["streamQuality"],
+          at,
+        },
+      };
+    case "camera-disconnected":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_DISCONNECTED",
+        payload: { cameraConnectionId, at },
+      };
+    case "camera-waitlisted":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_WAITLISTED",
+        payload: {
+          eventId: message.eventId as string,
+          cameraConnectionId,
+          participantId: message.participantId as string,
+          participantName: data.participantName as string | undefined,
+          deviceInfo: (data.deviceInfo ?? {}) as CameraConnectionClient["deviceInfo"],
+          position: typeof data.position === "number" ? data.position : 0,
+          at,
+        },
+      };
+    case "camera-admitted":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_ADMITTED",
+        payload: { cameraConnectionId, at },
+      };
+    case "camera-pending":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_PENDING",
+        payload: {
+          eventId: message.eventId as string,
+          cameraConnectionId,
+          participantId: message.participantId as string,
+          participantName: data.participantName as string | undefined,
+          deviceInfo: (data.deviceInfo ?? {}) as CameraConnectionClient["deviceInfo"],
+          at,
+        },
+      };
+    case "camera-rejected":
+      if (!cameraConnectionId) return null;
+      return {
+        type: "CAMERA_REJECTED",
+        payload: { cameraConnectionId, at },
+      };
+    case "stream-switched":
+      if (typeof data.toCamera !== "string") return null;
+      return {
+        type: "STREAM_SWITCHED",
+        payload: {
+          fromCamera: data.fromCamera as string | undefined,
+          toCamera: data.toCamera,
+          at,
+        },
+      };
+    case "broadcast-state-changed":
+      if (typeof data.to !== "string") return null;
+      return {
+        type: "BROADCAST_STATE_CHANGED",
+        payload: {
+          from: data.from as BroadcastState | undefined,
+          to: data.to as BroadcastState,
+          error: data.error as string | undefined,
+          at,
+        },
+      };
+    case "stream-health-updated":
+      if (typeof data.viewerCount !== "number" || typeof data.streamHealth !== "string") {
+        return null;
+      }
+      return {
+        type: "STREAM_HEALTH_UPDATED",
+        payload: {
+          viewerCount: data.viewerCount,
+          streamHealth: data.streamHealth as StreamStatusClient["streamHealth"],
+          duration: data.duration as string | undefined,
+          issues: Array.isArray(data.issues) ? (data.issues as string[]) : [],
+          at,
+        },
+      };
+    case "code-guess-spike":
+      if (typeof data.failures !== "number" || typeof data.windowSeconds !== "number") {
+        return null;
+      }
+      return {
+        type: "CODE_GUESS_SPIKE",
+        payload: {
+          scope: data.scope === "event" ? "event" : "global",
+          failures: data.failures,
+          windowSeconds: data.windowSeconds,
+          at,
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+// Apply a stream action to a camera list (shared by the dashboard reducer and the camera grid)
+export function applyCameraStreamAction(
+  cameras: CameraConnectionClient[],
+  action: EventStreamAction
+): CameraConnectionClient[] {
+  switch (action.type) {
+    case "CAMERA_JOINED": {
+      const { cameraConnectionId, eventId, participantId, participantName, deviceInfo, at } =
+        action.payload;
+      const existing = cameras.find((camera) => camera.id === cameraConnectionId);
+      if (existing) {
+        return cameras.map((camera) =>
+          camera.id === cameraConnectionId
+            ? { ...camera, participantName: participantName ?? camera.participantName, deviceInfo, lastActiveAt: at }
+            : camera
+        );
+      }
+      return [
+        ...cameras,
+        {
+          id: cameraConnectionId,
+          eventId,
+          participantId,
+          participantName,
+          deviceInfo,
+          streamQuality: {},
+          status: "connecting",
+          joinedAt: at,
+          lastActiveAt: at,
+        },
+      ];
+    }
+    case "CAMERA_STREAMING": {
+      const { cameraConnectionId, eventId, participantId, streamQuality, at } =
+        action.payload;
+      if (!cameras.some((camera) => camera.id === cameraConnectionId)) {
+        return [
+          ...cameras,
+          {
+            id: cameraConnectionId,
+            eventId,
+            participantId,
+            deviceInfo: {},
+            streamQuality,
+            status: "active",
+            joinedAt: at,
+            lastActiveAt: at,
+          },
+        ];
+      }
+      return cameras.map((camera) =>
+        camera.id === cameraConnectionId
+          ? { ...camera, streamQuality, status: "active", lastActiveAt: at, disconnectedAt: undefined }
+          : camera
+      );
+    }
+    case "CAMERA_DISCONNECTED": {
+      const { cameraConnectionId, at } = action.payload;
+      return cameras.map((camera) =>
+        camera.id === cameraConnectionId
+          ? { ...camera, status: "inactive", disconnectedAt: at }
+          : camera
+      );
+    }
+    case "CAMERA_WAITLISTED":
+    case "CAMERA_PENDING": {
+      const { cameraConnectionId, eventId, participantId, participantName, deviceInfo, at } =
+        action.payload;
+      const status = action.type === "CAMERA_PENDING" ? "pending" : "waiting";
+      if (cameras.some((camera) => camera.id === cameraConnectionId)) {
+        // 承認されたカメラは承認待ちから順番待ちの最後尾に移る
+        return cameras.map((camera) =>
+          camera.id === cameraConnectionId && camera.status === "pending" && status === "waiting"
+            ? { ...camera, status, joinedAt: at, lastActiveAt: at }
+            : camera
+        );
+      }
+      return [
+        ...cameras,
+        {
+          id: cameraConnectionId,
+          eventId,
+          participantId,
+          participantName,
+          deviceInfo,
+          streamQuality: {},
+          status,
+          joinedAt: at,
+          lastActiveAt: at,
+        },
+      ];
+    }
+    case "CAMERA_ADMITTED": {
+      const { cameraConnectionId, at } = action.payload;
+      return cameras.map((camera) =>
+        camera.id === cameraConnectionId &&
+        (camera.status === "waiting" || camera.status === "pending")
+          ? { ...camera, status: "connecting", joinedAt: at, lastActiveAt: at }
+          : camera
+      );
+    }
+    case "CAMERA_REJECTED": {
+      const { cameraConnectionId, at } = action.payload;
+      return cameras.map((camera) =>
+        camera.id === cameraConnectionId
+          ? { ...camera, status: "inactive", disconnectedAt: at, disconnectReason: "rejected" }
+          : camera
+      );
+    }
+    default:
+      return cameras;
+  }
+}
+
+/**
+ * イベントのSSEストリームを購読し、受信したイベントをreducerアクションとして配信するフック
+ * 接続が切れた場合は指数バックオフで再接続し、EventSourceが使えない・接続できない場合のみポーリングする
+ */
+export function useEventStream(
+  eventId: string,
+  {
+    dispatch,
+    resync,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    enabled = true,
+  }: UseEventStreamOptions
+) {
+  const [connectionState, setConnectionState] =
+    useState<EventStreamConnectionState>("connecting");
+
+  // 最新のコールバックを保持し、再レンダリングで再接続しないようにする
+  const dispatchRef = useRef(dispatch);
+  const resyncRef = useRef(resync);
+  dispatchRef.current = dispatch;
+  resyncRef.current = resync;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let failures = 0;
+    let hasConnected = false;
+    let lastEventId: string | null = null;
+    let closed = false;
+
+    const runResync = () => {
+      Promise.resolve(resyncRef.current()).catch((error) => {
+        console.error("Event stream resync failed:", error);
+      });
+    };
+
+    const startPolling = () => {
+      setConnectionState("polling");
+      if (pollTimer) return;
+      console.warn("Event stream unavailable, falling back to polling");
+      pollTimer = setInterval(runResync, pollIntervalMs);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(message.data);
+      } catch {
+        console.warn("Ignoring malformed event stream message");
+        return;
+      }
+
+      if (message.lastEventId) {
+        lastEventId = message.lastEventId;
+      }
+
+      if (payload.type === "resync") {
+        runResync();
+        return;
+      }
+
+      const action = toEventStreamAction(payload);
+      if (action) {
+        dispatchRef.current(action);
+      }
+    };
+
+    const connect = () => {
+      if (closed) return;
+
+      // Resume from the last seen id so the server can replay what we missed
+      const url = lastEventId
+        ? `/api/events/${eventId}/stream?lastEventId=${encodeURIComponent(lastEventId)}`
+        : `/api/events/${eventId}/stream`;
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        const wasPolling = pollTimer !== null;
+        const isReconnect = hasConnected || wasPolling;
+        failures = 0;
+        hasConnected = true;
+        stopPolling();
+        setConnectionState("open");
+
+        // Without an id the server cannot replay the gap, so fetch it instead
+        if (isReconnect && !lastEventId) {
+          runResync();
+        }
+      };
+
+      source.onmessage = handleMessage;
+
+      // Handle reconnects ourselves so retries back off and carry lastEventId
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (closed) return;
+
+        failures++;
+        if (failures >= FAILURES_BEFORE_POLLING) {
+          startPolling();
+        } else {
+          setConnectionState("reconnecting");
+        }
+
+        reconnectTimer = setTimeout(connect, getReconnectDelay(failures - 1));
+      };
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      setConnectionState("connecting");
+      connect();
+    }
+
+    return () => {
+      closed = true;
+      source?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopPolling();
+    };
+  }, [eventId, enabled, pollIntervalMs]);
+
+  return { connectionState };
+}
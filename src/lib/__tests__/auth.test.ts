@@ -2,10 +2,25 @@
 jest.mock('../database', () => ({
   EventService: {
     getByParticipationCode: jest.fn(),
+    getById: jest.fn(),
+  },
+  EventMemberService: {
+    getRole: jest.fn(),
+  },
+  CameraInviteService: {
+    getById: jest.fn(),
   },
 }));
 
-import type { MockAuthService, TestEnvironment, JWTPayload } from '@/lib/type-guards';
+import type { MockAuthService, TestEnvironment } from '@/lib/type-guards';
+
+// Mock LiveKit server SDK
+jest.mock('livekit-server-sdk', () => ({
+  AccessToken: jest.fn().mockImplementation(() => ({
+    addGrant: jest.fn(),
+    toJwt: jest.fn().mockResolvedValue('mock-livekit-token'),
+  })),
+}));
 
 // Mock jose library
 jest.mock('jose', () => ({
@@ -16,8 +31,9 @@ jest.mock('jose', () => ({
   jwtVerify: jest.fn(),
 }));
 
-import { AuthService } from '../auth';
-import { EventService } from '../database';
+import { jwtVerify } from 'jose';
+import { AuthService, requireEventAccess } from '../auth';
+import { CameraInviteService, EventMemberService, EventService } from '../database';
 
 // JWT Security Validator tests
 describe('JWT Security Validation', () => {
@@ -744,7 +760,7 @@ describe('JWT Security Validation', () => {
 
         // セキュリティ検証が通った後、トークン生成が正常に動作することを確認
         expect(async () => {
-          await authService!.generateAdminToken('admin-123', 'event-456');
+          await authService!.generateOrganizerToken('organizer-123');
         }).not.toThrow();
       });
 
@@ -790,12 +806,9 @@ describe('AuthService', () => {
     jwtVerify.mockReset();
   });
 
-  describe('generateAdminToken', () => {
-    it('should generate admin token successfully', async () => {
-      const userId = 'admin-123';
-      const eventId = 'event-456';
-
-      const token = await AuthService.generateAdminToken(userId, eventId);
+  describe('generateOrganizerToken', () => {
+    it('should generate organizer token successfully', async () => {
+      const token = await AuthService.generateOrganizerToken('organizer-123');
 
       expect(token).toBe('mock-jwt-token');
     });
@@ -966,445 +979,319 @@ describe('AuthService', () => {
     });
   });
 
-  // LiveKit実装のテスト追加
-  describe('LiveKit Token Generation', () => {
-    const originalEnv = process.env;
+  describe('hasCameraAccess', () => {
+    const cameraRequest = {
+      headers: {
+        get: jest.fn().mockReturnValue('Bearer camera-token'),
+      },
+    } as any;
 
     beforeEach(() => {
-      jest.resetModules();
-      process.env = { ...originalEnv };
-      jest.clearAllMocks();
-      // Clear console spies
-      jest.restoreAllMocks();
+      // The instance auth.ts was loaded with (other tests reset the module registry)
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'participant-1', type: 'camera', eventId: 'event-123', codeVersion: 1 },
+      });
     });
 
-    afterAll(() => {
-      process.env = originalEnv;
-    });
+    it('should accept camera tokens issued for the current participation code', async () => {
+      (EventService.getById as jest.Mock).mockResolvedValue({ id: 'event-123', participationCodeVersion: 1 });
 
-    describe('generateLiveKitToken', () => {
-      it('should generate mock LiveKit token with warning in development', async () => {
-        (process.env as any).NODE_ENV = 'development';
-        process.env.JWT_SECRET = 'test-secret-key';
+      const access = await AuthService.hasCameraAccess(cameraRequest, 'event-123');
 
-        const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      expect(access).toEqual({
+        hasAccess: true,
+        participantId: 'participant-1',
+        participantName: undefined,
+        codeVersion: 1,
+      });
+    });
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+    it('should reject camera tokens issued before the participation code was rotated', async () => {
+      (EventService.getById as jest.Mock).mockResolvedValue({ id: 'event-123', participationCodeVersion: 2 });
 
-        const token = await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
+      const access = await AuthService.hasCameraAccess(cameraRequest, 'event-123');
 
-        expect(token).toBe('mock-jwt-token');
-        expect(consoleSpy).toHaveBeenCalledWith(
-          expect.stringContaining('⚠️  LiveKit token generation is using mock implementation')
-        );
-        expect(consoleSpy).toHaveBeenCalledWith(
-          expect.stringContaining('This is a placeholder that generates a JWT token using the application secret')
-        );
-        expect(consoleSpy).toHaveBeenCalledWith(
-          expect.stringContaining('For actual LiveKit integration, implement proper token generation using @livekit/server-sdk')
-        );
+      expect(access).toEqual({ hasAccess: false });
+    });
 
-        consoleSpy.mockRestore();
+    it('should keep invite-joined camera tokens across code rotations until the invite is revoked', async () => {
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'participant-1', type: 'camera', eventId: 'event-123', inviteId: 'invite-1' },
       });
+      (EventService.getById as jest.Mock).mockResolvedValue({ id: 'event-123', participationCodeVersion: 2 });
+      (CameraInviteService.getById as jest.Mock).mockResolvedValue({ id: 'invite-1', eventId: 'event-123' });
 
-      it('should generate mock LiveKit token with critical error in production', async () => {
-        (process.env as any).NODE_ENV = 'production';
-        process.env.JWT_SECRET = 'production-secret-key';
-
-        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const access = await AuthService.hasCameraAccess(cameraRequest, 'event-123');
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+      // No code version, so the connection it joins with is never removed by a rotation
+      expect(access).toEqual({
+        hasAccess: true,
+        participantId: 'participant-1',
+        participantName: undefined,
+        codeVersion: undefined,
+      });
+      expect(CameraInviteService.getById).toHaveBeenCalledWith('invite-1');
 
-        const token = await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
+      (CameraInviteService.getById as jest.Mock).mockResolvedValue({
+        id: 'invite-1',
+        eventId: 'event-123',
+        revokedAt: '2026-10-18T00:00:00Z',
+      });
+      expect(await AuthService.hasCameraAccess(cameraRequest, 'event-123')).toEqual({ hasAccess: false });
+    });
+  });
 
-        expect(token).toBe('mock-jwt-token');
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('🚨 CRITICAL: LiveKit token generation is using MOCK IMPLEMENTATION in production!')
-        );
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('This will NOT work with actual LiveKit servers')
-        );
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('Please implement proper LiveKit token generation using @livekit/server-sdk before deploying to production')
-        );
+  describe('requireEventAccess', () => {
+    const EVENT_ID = '7f1c2a4e-3b5d-4c6e-8f90-1a2b3c4d5e6f';
+    const organizerRequest = {
+      headers: {
+        get: jest.fn().mockReturnValue('Bearer organizer-token'),
+      },
+    } as any;
 
-        consoleErrorSpy.mockRestore();
+    beforeEach(() => {
+      // Organizer session tokens name the account, not an event
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'organizer-1', type: 'organizer' },
       });
+    });
 
-      it('should generate token with correct mock payload structure', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        // SignJWTのモックを詳細に設定してペイロードを確認
-        const mockSign = jest.fn().mockResolvedValue('mock-livekit-token');
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation((payload: JWTPayload) => {
-          // ペイロードの構造を検証
-          expect(payload).toMatchObject({
-            sub: 'participant-123',
-            room: 'event-event-456',
-            name: 'Test User',
-            permissions: {
-              canPublish: true,
-              canSubscribe: true,
-              canPublishData: true,
-            },
-            mockImplementation: true,
-            warning: 'This token is generated by mock implementation and will not work with LiveKit servers'
-          });
-          expect(payload.iat).toBeGreaterThan(0);
-          expect(payload.exp).toBeGreaterThan(payload.iat);
+    it('should grant organizers the role of their membership', async () => {
+      (EventMemberService.getRole as jest.Mock).mockResolvedValue('operator');
 
-          return {
-            setProtectedHeader: mockSetProtectedHeader,
-            sign: mockSign,
-          };
-        });
+      const result = await requireEventAccess(EVENT_ID)(organizerRequest);
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+      expect(result).toEqual({ payload: { sub: 'organizer-1', type: 'organizer' }, role: 'operator' });
+      expect(EventMemberService.getRole).toHaveBeenCalledWith(EVENT_ID, 'organizer-1');
+    });
 
-        const token = await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
+    it('should deny organizers who are not members of the event', async () => {
+      (EventMemberService.getRole as jest.Mock).mockResolvedValue(null);
 
-        expect(token).toBe('mock-livekit-token');
-        expect(mockSetProtectedHeader).toHaveBeenCalledWith({ alg: 'HS256' });
-        expect(mockSign).toHaveBeenCalled();
-      });
+      const result = await requireEventAccess(EVENT_ID)(organizerRequest);
 
-      it('should handle missing participant name gracefully', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const mockSign = jest.fn().mockResolvedValue('mock-livekit-token');
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation((payload: JWTPayload) => {
-          expect(payload.name).toBe('participant-789'); // participantIdがnameとして使用される
-          return {
-            setProtectedHeader: mockSetProtectedHeader,
-            sign: mockSign,
-          };
-        });
+      expect(result).toBeInstanceOf(Response);
+      expect((result as Response).status).toBe(403);
+    });
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+    it('should deny members below the required role', async () => {
+      (EventMemberService.getRole as jest.Mock).mockResolvedValue('monitor');
+      expect(await requireEventAccess(EVENT_ID)(organizerRequest)).toBeInstanceOf(Response);
 
-        const token = await authService!.generateLiveKitToken(
-          'participant-789',
-          'event-456'
-          // participantNameを省略
-        );
+      (EventMemberService.getRole as jest.Mock).mockResolvedValue('operator');
+      expect(await requireEventAccess(EVENT_ID, ['organizer'], 'owner')(organizerRequest)).toBeInstanceOf(Response);
+      expect(await requireEventAccess(EVENT_ID, ['organizer'], 'monitor')(organizerRequest)).toHaveProperty('role', 'operator');
+    });
 
-        expect(token).toBe('mock-livekit-token');
+    it('should not accept admin tokens issued before they were removed', async () => {
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'admin-1', type: 'admin', eventId: EVENT_ID },
       });
 
-      it('should generate room name with event prefix', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const mockSign = jest.fn().mockResolvedValue('mock-livekit-token');
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation((payload: JWTPayload) => {
-          expect(payload.room).toBe('event-special-event-123');
-          return {
-            setProtectedHeader: mockSetProtectedHeader,
-            sign: mockSign,
-          };
-        });
+      const result = await requireEventAccess(EVENT_ID)(organizerRequest);
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+      expect(result).toBeInstanceOf(Response);
+      expect((result as Response).status).toBe(403);
+      expect(EventMemberService.getRole).not.toHaveBeenCalled();
+    });
 
-        await authService!.generateLiveKitToken(
-          'participant-123',
-          'special-event-123',
-          'Test User'
-        );
+    it('should not trust an event ID carried by an organizer token', async () => {
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'organizer-1', type: 'organizer', eventId: EVENT_ID },
       });
+      (EventMemberService.getRole as jest.Mock).mockResolvedValue(null);
 
-      it('should set appropriate token expiration time', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
+      const result = await requireEventAccess(EVENT_ID)(organizerRequest);
 
-        const beforeTime = Math.floor(Date.now() / 1000);
+      expect(result).toBeInstanceOf(Response);
+      expect((result as Response).status).toBe(403);
+    });
 
-        const mockSign = jest.fn().mockResolvedValue('mock-livekit-token');
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation((payload: JWTPayload) => {
-          const afterTime = Math.floor(Date.now() / 1000);
+    it('should reject camera tokens issued before the participation code was rotated', async () => {
+      (jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'participant-1', type: 'camera', eventId: EVENT_ID, codeVersion: 1 },
+      });
+      (EventService.getById as jest.Mock).mockResolvedValue({ id: EVENT_ID, participationCodeVersion: 1 });
+      expect(await requireEventAccess(EVENT_ID, ['camera'])(organizerRequest)).toHaveProperty('payload.sub', 'participant-1');
 
-          expect(payload.iat).toBeGreaterThanOrEqual(beforeTime);
-          expect(payload.iat).toBeLessThanOrEqual(afterTime);
-          expect(payload.exp).toBe(payload.iat + (2 * 60 * 60)); // 2時間後
+      (EventService.getById as jest.Mock).mockResolvedValue({ id: EVENT_ID, participationCodeVersion: 2 });
+      const result = await requireEventAccess(EVENT_ID, ['camera'])(organizerRequest);
 
-          return {
-            setProtectedHeader: mockSetProtectedHeader,
-            sign: mockSign,
-          };
-        });
+      expect(result).toBeInstanceOf(Response);
+      expect((result as Response).status).toBe(401);
+    });
+  });
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+  // LiveKitトークン生成のテスト
+  describe('LiveKit Token Generation', () => {
+    const originalEnv = process.env;
 
-        await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
+    beforeEach(() => {
+      jest.resetModules();
+      process.env = { ...originalEnv };
+      jest.clearAllMocks();
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    // モジュールを分離してロードし、AccessTokenのモックを取得する
+    const loadAuthService = () => {
+      let authService: MockAuthService | undefined;
+      let accessTokenMock: jest.Mock | undefined;
+      jest.isolateModules(() => {
+        authService = require('../auth').AuthService;
+        accessTokenMock = require('livekit-server-sdk').AccessToken;
       });
+      return { authService: authService!, accessTokenMock: accessTokenMock! };
+    };
 
-      it('should include mock implementation warning in token payload', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const mockSign = jest.fn().mockResolvedValue('mock-livekit-token');
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation((payload: JWTPayload) => {
-          expect(payload.mockImplementation).toBe(true);
-          expect(payload.warning).toContain('mock implementation');
-          expect(payload.warning).toContain('will not work with LiveKit servers');
-
-          return {
-            setProtectedHeader: mockSetProtectedHeader,
-            sign: mockSign,
-          };
-        });
+    const getIssuedToken = (accessTokenMock: jest.Mock) => ({
+      options: accessTokenMock.mock.calls[0][2],
+      grant: accessTokenMock.mock.results[0]!.value.addGrant.mock.calls[0][0],
+    });
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+    describe('generateLiveKitToken', () => {
+      it('should sign tokens with LiveKit API credentials', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
+
+        const token = await authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
+          participantName: 'Test User',
+          cameraConnectionId: 'camera-connection-1',
         });
 
-        await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
+        expect(token).toBe('mock-livekit-token');
+        expect(accessTokenMock).toHaveBeenCalledWith(
+          'test-api-key',
+          'test-api-secret',
+          expect.objectContaining({ identity: 'participant-123', name: 'Test User' })
         );
       });
 
-      it('should handle token generation errors gracefully', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const mockSign = jest.fn().mockRejectedValue(new Error('Token generation failed'));
-        const mockSetProtectedHeader = jest.fn().mockReturnThis();
-        const { SignJWT } = require('jose');
-        SignJWT.mockImplementation(() => ({
-          setProtectedHeader: mockSetProtectedHeader,
-          sign: mockSign,
-        }));
+      it('should grant publish-only access to camera operators', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+        await authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
         });
 
-        await expect(authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        )).rejects.toThrow('Token generation failed');
+        const { grant } = getIssuedToken(accessTokenMock);
+        expect(grant).toEqual({
+          room: 'event_room_abc',
+          roomJoin: true,
+          canPublish: true,
+          canSubscribe: false,
+          canPublishData: true,
+        });
       });
-    });
 
-    describe('LiveKit Implementation Status', () => {
-      it('should indicate mock implementation status through console warnings', async () => {
-        (process.env as any).NODE_ENV = 'development';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      it('should grant subscribe-only access to organizer monitors', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+        await authService.generateLiveKitToken({
+          identity: 'organizer-1',
+          roomName: 'event_room_abc',
+          role: 'monitor',
         });
 
-        await authService!.generateLiveKitToken('test', 'event', 'user');
-
-        // 実装状況の確認機能をテスト
-        expect(consoleSpy).toHaveBeenCalledWith(
-          expect.stringContaining('mock implementation')
-        );
-        expect(consoleSpy).toHaveBeenCalledWith(
-          expect.stringContaining('@livekit/server-sdk')
-        );
-
-        consoleSpy.mockRestore();
+        const { grant } = getIssuedToken(accessTokenMock);
+        expect(grant.canPublish).toBe(false);
+        expect(grant.canSubscribe).toBe(true);
+        expect(grant.hidden).toBeUndefined();
       });
 
-      it('should provide clear guidance for production implementation', async () => {
-        (process.env as any).NODE_ENV = 'production';
-        process.env.JWT_SECRET = 'production-secret-key';
-
-        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      it('should issue hidden recorder grants for the egress identity', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+        await authService.generateLiveKitToken({
+          identity: 'egress',
+          roomName: 'event_room_abc',
+          role: 'recorder',
         });
 
-        await authService!.generateLiveKitToken('test', 'event', 'user');
-
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('implement proper LiveKit token generation')
-        );
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('@livekit/server-sdk')
-        );
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-          expect.stringContaining('before deploying to production')
-        );
-
-        consoleErrorSpy.mockRestore();
+        const { grant } = getIssuedToken(accessTokenMock);
+        expect(grant).toMatchObject({
+          canPublish: false,
+          canSubscribe: true,
+          hidden: true,
+          recorder: true,
+        });
       });
 
-      it('should differentiate warning levels between environments', async () => {
-        const environments = ['development', 'test', 'production'];
-
-        for (const env of environments) {
-          (process.env as any).NODE_ENV = env;
-          process.env.JWT_SECRET = `${env}-secret-key`;
-
-          const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
-          const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-
-          let authService: MockAuthService | undefined;
-          jest.isolateModules(() => {
-            const auth = require('../auth');
-            authService = auth.AuthService;
-          });
-
-          await authService!.generateLiveKitToken('test', 'event', 'user');
+      it('should carry the camera connection ID in participant metadata', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-          if (env === 'production') {
-            expect(consoleErrorSpy).toHaveBeenCalled();
-            expect(consoleWarnSpy).not.toHaveBeenCalled();
-          } else {
-            expect(consoleWarnSpy).toHaveBeenCalled();
-            expect(consoleErrorSpy).not.toHaveBeenCalled();
-          }
+        await authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
+          participantName: 'Test User',
+          cameraConnectionId: 'camera-connection-1',
+        });
 
-          consoleWarnSpy.mockRestore();
-          consoleErrorSpy.mockRestore();
-        }
+        const { options } = getIssuedToken(accessTokenMock);
+        expect(JSON.parse(options.metadata)).toEqual({
+          role: 'camera',
+          participantName: 'Test User',
+          cameraConnectionId: 'camera-connection-1',
+        });
       });
-    });
 
-    describe('LiveKit Token Integration', () => {
-      it('should integrate with existing authentication flow', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
+      it('should fall back to the identity when participant name is missing', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+        await authService.generateLiveKitToken({
+          identity: 'participant-789',
+          roomName: 'event_room_abc',
+          role: 'camera',
         });
 
-        // 通常のカメラトークン生成
-        const cameraToken = await authService!.generateCameraToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
-
-        // LiveKitトークン生成
-        const liveKitToken = await authService!.generateLiveKitToken(
-          'participant-123',
-          'event-456',
-          'Test User'
-        );
-
-        expect(cameraToken).toBe('mock-jwt-token');
-        expect(liveKitToken).toBe('mock-jwt-token');
+        const { options } = getIssuedToken(accessTokenMock);
+        expect(options.name).toBe('participant-789');
       });
 
-      it('should handle concurrent LiveKit token generation', async () => {
-        (process.env as any).NODE_ENV = 'test';
-        process.env.JWT_SECRET = 'test-secret-key';
+      it('should use role-specific token lifetimes', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
 
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
+        await authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
         });
 
-        const tokenPromises = Array.from({ length: 5 }, (_, i) =>
-          authService!.generateLiveKitToken(
-            `participant-${i}`,
-            'event-456',
-            `User ${i}`
-          )
-        );
-
-        const tokens = await Promise.all(tokenPromises);
-
-        tokens.forEach(token => {
-          expect(token).toBe('mock-jwt-token');
-        });
+        const { options } = getIssuedToken(accessTokenMock);
+        expect(options.ttl).toBe('8h');
       });
 
-      it('should maintain consistent behavior across multiple calls', async () => {
-        (process.env as any).NODE_ENV = 'development';
-        process.env.JWT_SECRET = 'test-secret-key';
-
-        const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
-
-        let authService: MockAuthService | undefined;
-        jest.isolateModules(() => {
-          const auth = require('../auth');
-          authService = auth.AuthService;
-        });
+      it('should throw when LiveKit credentials are missing', async () => {
+        delete process.env.LIVEKIT_API_KEY;
+        const { authService } = loadAuthService();
 
-        // 複数回呼び出し
-        await authService!.generateLiveKitToken('user1', 'event1', 'User 1');
-        await authService!.generateLiveKitToken('user2', 'event2', 'User 2');
-        await authService!.generateLiveKitToken('user3', 'event3', 'User 3');
+        await expect(authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
+        })).rejects.toThrow('Missing LiveKit API credentials');
+      });
 
-        // 各呼び出しで警告が出力されることを確認
-        expect(consoleSpy).toHaveBeenCalledTimes(3);
+      it('should propagate token signing errors', async () => {
+        const { authService, accessTokenMock } = loadAuthService();
+        accessTokenMock.mockImplementationOnce(() => ({
+          addGrant: jest.fn(),
+          toJwt: jest.fn().mockRejectedValue(new Error('Token generation failed')),
+        }));
 
-        consoleSpy.mockRestore();
+        await expect(authService.generateLiveKitToken({
+          identity: 'participant-123',
+          roomName: 'event_room_abc',
+          role: 'camera',
+        })).rejects.toThrow('Token generation failed');
       });
     });
   });
@@ -1412,12 +1299,12 @@ describe('AuthService', () => {
 
 describe('Authentication Middleware', () => {
   describe('requireAuth', () => {
-    it('should allow access with valid admin token', async () => {
+    it('should allow access with valid organizer token', async () => {
       const { jwtVerify } = require('jose');
       jwtVerify.mockResolvedValue({
         payload: {
-          sub: 'admin-123',
-          type: 'admin',
+          sub: 'organizer-123',
+          type: 'organizer',
           iat: Math.floor(Date.now() / 1000),
           exp: Math.floor(Date.now() / 1000) + 3600,
           iss: 'harecame-app',
@@ -1427,16 +1314,16 @@ describe('Authentication Middleware', () => {
 
       const mockRequest = {
         headers: {
-          get: jest.fn().mockReturnValue('Bearer valid-admin-token'),
+          get: jest.fn().mockReturnValue('Bearer valid-organizer-token'),
         },
       } as any;
 
       const { requireAuth } = require('../auth');
-      const middleware = requireAuth(['admin']);
+      const middleware = requireAuth(['organizer']);
       const result = await middleware(mockRequest);
 
       expect(result).toHaveProperty('payload');
-      expect(result.payload.type).toBe('admin');
+      expect(result.payload.type).toBe('organizer');
     });
 
     it('should deny access without token', async () => {
@@ -1447,7 +1334,7 @@ describe('Authentication Middleware', () => {
       } as any;
 
       const { requireAuth } = require('../auth');
-      const middleware = requireAuth(['admin']);
+      const middleware = requireAuth(['organizer']);
       const result = await middleware(mockRequest);
 
       expect(result).toBeInstanceOf(Response);
@@ -1476,7 +1363,7 @@ describe('Authentication Middleware', () => {
       } as any;
 
       const { requireAuth } = require('../auth');
-      const middleware = requireAuth(['admin']);
+      const middleware = requireAuth(['organizer']);
       const result = await middleware(mockRequest);
 
       expect(result).toBeInstanceOf(Response);
@@ -1837,7 +1724,7 @@ describe('Security Configuration Requirements Validation', () => {
       }).not.toThrow();
 
       expect(authService).toBeDefined();
-      expect(typeof authService!.generateAdminToken).toBe('function');
+      expect(typeof authService!.generateOrganizerToken).toBe('function');
     });
 
     it('should prevent authentication system initialization with invalid security config', () => {
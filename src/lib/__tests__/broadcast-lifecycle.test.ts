@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the YouTube broadcast lifecycle coordinator
+jest.mock('../database', () => ({
+  EventService: {
+    getById: jest.fn(),
+    update: jest.fn(),
+  },
+  CameraConnectionService: {
+    getByEventId: jest.fn(),
+  },
+  StreamStatusService: {
+    getByEventId: jest.fn(),
+    upsert: jest.fn(),
+    getPendingBroadcasts: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../switcher', () => ({
+  StreamSwitcher: {
+    switchTo: jest.fn(),
+    ensureEgress: jest.fn(),
+    stopEgress: jest.fn(),
+  },
+}));
+
+jest.mock('../youtube-oauth', () => ({
+  getYouTubeClientForEvent: jest.fn(),
+}));
+
+jest.mock('../event-bus', () => ({
+  getEventBus: () => ({ publish: jest.fn() }),
+}));
+
+import {
+  BroadcastLifecycle,
+  MAX_BROADCAST_ATTEMPTS,
+  getBroadcastRetryDelaySeconds,
+} from '../broadcast-lifecycle';
+import {
+  CameraConnectionService,
+  EventLogService,
+  EventService,
+  StreamStatusService,
+} from '../database';
+import { StreamSwitcher } from '../switcher';
+import { getYouTubeClientForEvent } from '../youtube-oauth';
+import { MockYouTubeClient, YouTubeQuotaExceededError, type BroadcastTransition } from '../youtube';
+import type { CameraConnectionClient, EventClient, StreamStatusClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockStreamStatusService = StreamStatusService as jest.Mocked<typeof StreamStatusService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+const mockSwitcher = StreamSwitcher as jest.Mocked<typeof StreamSwitcher>;
+
+const EVENT_ID = 'event-1';
+const NOW = new Date('2026-01-01T10:00:00Z');
+
+// YouTube refuses to go live until it receives video
+class FlakyYouTubeClient extends MockYouTubeClient {
+  failuresLeft = 0;
+  transitions: BroadcastTransition[] = [];
+
+  override async transitionBroadcast(broadcastId: string, status: BroadcastTransition) {
+    if (status === 'live' && this.failuresLeft > 0) {
+      this.failuresLeft -= 1;
+      throw new Error('Stream is inactive');
+    }
+    this.transitions.push(status);
+    return super.transitionBroadcast(broadcastId, status);
+  }
+}
+
+const camera: CameraConnectionClient = {
+  id: 'camera-a',
+  eventId: EVENT_ID,
+  participantId: 'participant-a',
+  deviceInfo: {},
+  streamQuality: {},
+  status: 'active',
+  joinedAt: NOW,
+  lastActiveAt: NOW,
+};
+
+describe('BroadcastLifecycle', () => {
+  let event: EventClient;
+  let status: StreamStatusClient;
+  let cameras: CameraConnectionClient[];
+  let youtube: FlakyYouTubeClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    event = {
+      id: EVENT_ID,
+      title: 'Sports Day',
+      status: 'scheduled',
+      participationCode: 'ABC123',
+      youtubeVideoId: 'broadcast-1',
+      livekitRoomName: 'event_room_1',
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    status = {
+      id: 'status-1',
+      eventId: EVENT_ID,
+      isLive: false,
+      activeCameraCount: 0,
+      youtubeViewerCount: 0,
+      streamHealth: 'unknown',
+      updatedAt: NOW,
+    };
+    cameras = [];
+    youtube = new FlakyYouTubeClient();
+
+    // In-memory stream_status row (keys passed as undefined clear the column)
+    mockStreamStatusService.getByEventId.mockImplementation(async () => ({ ...status }));
+    mockStreamStatusService.upsert.mockImplementation(async (data) => {
+      status = { ...status, ...data } as StreamStatusClient;
+      return status;
+    });
+    mockEventService.getById.mockImplementation(async () => ({ ...event }));
+    mockEventService.update.mockImplementation(async (_id, data) => {
+      event = { ...event, ...data } as EventClient;
+      return event;
+    });
+    mockCameraService.getByEventId.mockImplementation(async () => cameras);
+    mockSwitcher.switchTo.mockImplementation(async () => {
+      status.currentActiveCamera = camera.id;
+      return { success: true, switched: true };
+    });
+    (getYouTubeClientForEvent as jest.Mock).mockResolvedValue(youtube);
+  });
+
+  afterEach(() => {
+    BroadcastLifecycle.stop();
+  });
+
+  it('should wait for a camera after Go live, then start egress and the broadcast', async () => {
+    expect(await BroadcastLifecycle.goLive(EVENT_ID)).toBe('waiting-for-camera');
+    expect(event.status).toBe('live');
+    expect(mockSwitcher.ensureEgress).not.toHaveBeenCalled();
+
+    cameras = [camera];
+    await BroadcastLifecycle.onCameraActive(EVENT_ID);
+
+    expect(mockSwitcher.switchTo).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: EVENT_ID, cameraConnectionId: 'camera-a' })
+    );
+    expect(mockSwitcher.ensureEgress).toHaveBeenCalledWith(EVENT_ID);
+    expect(youtube.transitions).toEqual(['testing', 'live']);
+    expect(status.broadcastState).toBe('live');
+  });
+
+  it('should persist failed steps and retry them with backoff', async () => {
+    cameras = [camera];
+    youtube.failuresLeft = 1;
+
+    await BroadcastLifecycle.goLive(EVENT_ID);
+
+    expect(status.broadcastState).toBe('starting');
+    expect(status.broadcastAttempts).toBe(1);
+    expect(status.broadcastError).toBe('Stream is inactive');
+    expect(status.broadcastRetryAt).toBeInstanceOf(Date);
+    expect(mockEventLogService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ logType: 'broadcast_retry_scheduled' })
+    );
+
+    // Not retried before the backoff has elapsed
+    const retryAt = status.broadcastRetryAt!;
+    expect(await BroadcastLifecycle.advance(EVENT_ID, new Date(retryAt.getTime() - 1000))).toBe('starting');
+
+    expect(await BroadcastLifecycle.advance(EVENT_ID, retryAt)).toBe('live');
+    expect(status.broadcastAttempts).toBe(0);
+    expect(status.broadcastRetryAt).toBeUndefined();
+    expect(status.broadcastError).toBeUndefined();
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    cameras = [camera];
+    youtube.failuresLeft = Infinity;
+    status.broadcastState = 'starting';
+    status.broadcastAttempts = MAX_BROADCAST_ATTEMPTS - 1;
+
+    expect(await BroadcastLifecycle.advance(EVENT_ID, NOW)).toBe('failed');
+    expect(status.broadcastError).toBe('Stream is inactive');
+  });
+
+  it('should wait for the quota reset without using up attempts', async () => {
+    const quotaResetAt = new Date('2026-01-02T08:00:00Z');
+    cameras = [camera];
+    status.broadcastState = 'starting';
+    status.broadcastAttempts = MAX_BROADCAST_ATTEMPTS - 1;
+    jest.spyOn(youtube, 'getBroadcastStatus').mockRejectedValueOnce(new YouTubeQuotaExceededError(quotaResetAt));
+
+    expect(await BroadcastLifecycle.advance(EVENT_ID, NOW)).toBe('starting');
+    expect(status.broadcastAttempts).toBe(MAX_BROADCAST_ATTEMPTS - 1);
+    expect(status.broadcastRetryAt).toEqual(quotaResetAt);
+  });
+
+  it('should stop egress and complete the broadcast on End event', async () => {
+    event.status = 'live';
+    status.broadcastState = 'live';
+    await youtube.transitionBroadcast('broadcast-1', 'live');
+
+    expect(await BroadcastLifecycle.endEvent(EVENT_ID)).toBe('ended');
+    expect(event.status).toBe('ended');
+    expect(mockSwitcher.stopEgress).toHaveBeenCalledWith(EVENT_ID);
+    expect(youtube.transitions.at(-1)).toBe('complete');
+  });
+
+  it('should resume steps persisted before a restart', async () => {
+    status.broadcastState = 'ending';
+    mockStreamStatusService.getPendingBroadcasts.mockResolvedValue([{ ...status }]);
+
+    expect(await BroadcastLifecycle.resumePending(NOW)).toBe(1);
+    expect(mockSwitcher.stopEgress).toHaveBeenCalledWith(EVENT_ID);
+    expect(status.broadcastState).toBe('ended');
+  });
+
+  it('should back off exponentially up to a minute', () => {
+    expect(getBroadcastRetryDelaySeconds(1)).toBe(5);
+    expect(getBroadcastRetryDelaySeconds(2)).toBe(10);
+    expect(getBroadcastRetryDelaySeconds(10)).toBe(60);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for per-event camera capacity, the waitlist and admission
+jest.mock('../database', () => ({
+  EventService: {
+    getById: jest.fn(),
+  },
+  CameraConnectionService: {
+    getById: jest.fn(),
+    getByEventId: jest.fn(),
+    create: jest.fn(),
+    createInSlot: jest.fn(),
+    claimSlot: jest.fn(),
+    approveIfPending: jest.fn(),
+    rejectIfPending: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+const mockPublish = jest.fn();
+jest.mock('../event-bus', () => ({
+  getEventBus: () => ({ publish: mockPublish }),
+}));
+
+jest.mock('../camera-preview', () => ({
+  removeCameraPreview: jest.fn(),
+}));
+
+import { CameraAdmission } from '../camera-admission';
+import { getWaitlistPosition } from '../camera-capacity';
+import { removeCameraPreview } from '../camera-preview';
+import { CameraConnectionService, EventLogService, EventService } from '../database';
+import type { CameraConnectionClient, EventClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+
+const EVENT_ID = 'event-1';
+
+describe('CameraAdmission', () => {
+  let event: EventClient;
+  // camera_connections rows kept in memory
+  let cameras: CameraConnectionClient[];
+  let nextId: number;
+  let clock: number;
+
+  const addCamera = (status: CameraConnectionClient['status']): CameraConnectionClient => {
+    const camera: CameraConnectionClient = {
+      id: `camera-${nextId++}`,
+      eventId: EVENT_ID,
+      participantId: `participant-${nextId}`,
+      deviceInfo: {},
+      streamQuality: {},
+      status,
+      joinedAt: new Date(clock++),
+      lastActiveAt: new Date(clock),
+    };
+    cameras.push(camera);
+    return camera;
+  };
+
+  const join = (participantId: string) =>
+    CameraAdmission.requestSlot(event, { participantId, deviceInfo: {} });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cameras = [];
+    nextId = 1;
+    clock = new Date('2026-01-01T10:00:00Z').getTime();
+    event = {
+      id: EVENT_ID,
+      title: 'Sports Day',
+      status: 'live',
+      participationCode: 'ABC123',
+      livekitRoomName: 'event_room_1',
+      maxCameras: 2,
+      admissionMode: 'waitlist',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    mockEventService.getById.mockImplementation(async () => event);
+    mockCameraService.getByEventId.mockImplementation(async () => cameras.map((camera) => ({ ...camera })));
+    mockCameraService.create.mockImplementation(async (data) => {
+      const camera = addCamera(data.status);
+      camera.participantId = data.participantId;
+      camera.participantName = data.participantName;
+      return { ...camera };
+    });
+    // In-memory stand-ins for the request_camera_slot / claim_camera_slot database functions
+    const hasFreeSlot = () =>
+      cameras.filter((c) => c.status === 'connecting' || c.status === 'active').length < (event.maxCameras ?? 4);
+    mockCameraService.createInSlot.mockImplementation(async (data, { queue }) => {
+      const admit = hasFreeSlot() && !cameras.some((c) => c.status === 'waiting');
+      if (!admit && !queue) return null;
+      const camera = addCamera(admit ? 'connecting' : 'waiting');
+      camera.participantId = data.participantId;
+      camera.participantName = data.participantName;
+      return { ...camera };
+    });
+    mockCameraService.claimSlot.mockImplementation(async (id, fromStatus, { inOrder }) => {
+      const camera = cameras.find((c) => c.id === id && c.status === fromStatus);
+      if (!camera || !hasFreeSlot()) return null;
+      const waitingAhead = cameras.some(
+        (c) => c.status === 'waiting' && c.id !== id && (fromStatus !== 'waiting' || c.joinedAt < camera.joinedAt)
+      );
+      if (inOrder && waitingAhead) return null;
+      camera.status = 'connecting';
+      camera.joinedAt = new Date(clock++);
+      return { ...camera };
+    });
+    mockCameraService.getById.mockImplementation(async (id) => {
+      const camera = cameras.find((c) => c.id === id);
+      return camera ? { ...camera } : null;
+    });
+    mockCameraService.approveIfPending.mockImplementation(async (id) => {
+      const camera = cameras.find((c) => c.id === id && c.status === 'pending');
+      if (!camera) return null;
+      camera.status = 'waiting';
+      camera.joinedAt = new Date(clock++);
+      return { ...camera };
+    });
+    mockCameraService.rejectIfPending.mockImplementation(async (id) => {
+      const camera = cameras.find((c) => c.id === id && c.status === 'pending');
+      if (!camera) return null;
+      camera.status = 'inactive';
+      camera.disconnectReason = 'rejected';
+      return { ...camera };
+    });
+    mockEventLogService.create.mockResolvedValue({} as never);
+  });
+
+  it('should admit joiners while slots are free, counting only admitted cameras', async () => {
+    addCamera('active');
+    addCamera('inactive');
+    addCamera('error');
+
+    const decision = await join('participant-new');
+
+    expect(decision).toMatchObject({ status: 'admitted', camera: { status: 'connecting' } });
+    expect(mockCameraService.createInSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: EVENT_ID, participantId: 'participant-new' }),
+      { queue: true }
+    );
+  });
+
+  it('should refuse joiners beyond capacity in open mode', async () => {
+    event.admissionMode = 'open';
+    addCamera('active');
+    addCamera('connecting');
+
+    expect(await join('participant-new')).toEqual({ status: 'full', maxCameras: 2 });
+    expect(mockCameraService.createInSlot).toHaveBeenCalledWith(expect.anything(), { queue: false });
+    expect(cameras).toHaveLength(2);
+  });
+
+  it('should queue joiners beyond capacity with their place in line', async () => {
+    addCamera('active');
+    addCamera('active');
+
+    const first = await join('participant-a');
+    const second = await join('participant-b');
+
+    expect(first).toMatchObject({ status: 'waiting', position: 1 });
+    expect(second).toMatchObject({ status: 'waiting', position: 2 });
+    expect(mockPublish).toHaveBeenCalledWith(
+      EVENT_ID,
+      expect.objectContaining({ type: 'camera-waitlisted', data: expect.objectContaining({ position: 1 }) })
+    );
+  });
+
+  it('should give the last slot to only one of two simultaneous joiners', async () => {
+    addCamera('active');
+
+    const decisions = await Promise.all([join('participant-a'), join('participant-b')]);
+
+    expect(decisions.map((d) => d.status).sort()).toEqual(['admitted', 'waiting']);
+  });
+
+  it('should admit waiting joiners in arrival order when a slot frees up', async () => {
+    const leaving = addCamera('active');
+    addCamera('active');
+    const first = addCamera('waiting');
+    const second = addCamera('waiting');
+
+    // Nothing free yet
+    expect(await CameraAdmission.admitWaiting(EVENT_ID)).toEqual([]);
+
+    leaving.status = 'inactive';
+    const admitted = await CameraAdmission.admitWaiting(EVENT_ID);
+
+    expect(admitted.map((camera) => camera.id)).toEqual([first.id]);
+    expect(getWaitlistPosition(cameras, second.id)).toBe(1);
+    expect(mockPublish).toHaveBeenCalledWith(
+      EVENT_ID,
+      expect.objectContaining({ type: 'camera-admitted', cameraConnectionId: first.id })
+    );
+  });
+
+  it('should not let a new joiner skip the line', async () => {
+    addCamera('active');
+    addCamera('waiting');
+
+    // A slot is free, but someone is already waiting for it
+    expect(await join('participant-new')).toMatchObject({ status: 'waiting', position: 2 });
+  });
+
+  it('should hold every joiner as pending in approval mode, even with free slots', async () => {
+    event.admissionMode = 'approval';
+
+    const decision = await join('participant-a');
+
+    expect(decision).toMatchObject({ status: 'pending', camera: { status: 'pending' } });
+    expect(mockPublish).toHaveBeenCalledWith(
+      EVENT_ID,
+      expect.objectContaining({ type: 'camera-pending' })
+    );
+
+    // Pending joiners are not on the waitlist, so free slots do not admit them
+    expect(await CameraAdmission.admitWaiting(EVENT_ID)).toEqual([]);
+  });
+
+  it('should give approved joiners a slot, or a place at the back of the line when full', async () => {
+    event.admissionMode = 'approval';
+    addCamera('active');
+    const first = (await join('participant-a')) as { camera: CameraConnectionClient };
+    const second = (await join('participant-b')) as { camera: CameraConnectionClient };
+
+    expect(await CameraAdmission.approve(EVENT_ID, first.camera.id)).toMatchObject({
+      success: true,
+      camera: { status: 'connecting' },
+      position: null,
+    });
+    expect(await CameraAdmission.approve(EVENT_ID, second.camera.id)).toMatchObject({
+      success: true,
+      camera: { status: 'waiting' },
+      position: 1,
+    });
+    expect(removeCameraPreview).toHaveBeenCalledWith(EVENT_ID, first.camera.id);
+
+    // Already decided
+    expect(await CameraAdmission.approve(EVENT_ID, first.camera.id)).toEqual({ success: false, error: 'not-pending' });
+
+    // Approved joiners on the waitlist move up like everyone else
+    cameras[0]!.status = 'inactive';
+    const admitted = await CameraAdmission.admitWaiting(EVENT_ID);
+    expect(admitted.map((camera) => camera.id)).toEqual([second.camera.id]);
+  });
+
+  it('should reject pending joiners without admitting them', async () => {
+    event.admissionMode = 'approval';
+    const decision = (await join('participant-a')) as { camera: CameraConnectionClient };
+
+    const rejected = await CameraAdmission.reject(EVENT_ID, decision.camera.id);
+
+    expect(rejected).toMatchObject({ status: 'inactive', disconnectReason: 'rejected' });
+    expect(removeCameraPreview).toHaveBeenCalledWith(EVENT_ID, decision.camera.id);
+    expect(mockPublish).toHaveBeenCalledWith(
+      EVENT_ID,
+      expect.objectContaining({ type: 'camera-rejected', cameraConnectionId: decision.camera.id })
+    );
+    expect(await CameraAdmission.approve(EVENT_ID, decision.camera.id)).toEqual({ success: false, error: 'not-pending' });
+  });
+
+  it('should let the organizer admit a waiting joiner ahead of the line', async () => {
+    addCamera('active');
+    addCamera('waiting');
+    const later = addCamera('waiting');
+
+    const result = await CameraAdmission.admit(EVENT_ID, later.id);
+    expect(result).toMatchObject({ success: true, camera: { id: later.id, status: 'connecting' } });
+
+    // Already admitted
+    expect(await CameraAdmission.admit(EVENT_ID, later.id)).toEqual({ success: false, error: 'not-waiting' });
+  });
+
+  it('should not let the organizer admit beyond capacity', async () => {
+    addCamera('active');
+    addCamera('active');
+    const waiting = addCamera('waiting');
+
+    expect(await CameraAdmission.admit(EVENT_ID, waiting.id)).toEqual({ success: false, error: 'full' });
+    expect(mockCameraService.claimSlot).not.toHaveBeenCalled();
+  });
+
+  it('should report full when the database finds the slot taken since the scan', async () => {
+    addCamera('active');
+    const waiting = addCamera('waiting');
+    // Another server admitted a camera between the scan and the claim
+    mockCameraService.claimSlot.mockImplementationOnce(async () => {
+      addCamera('connecting');
+      return null;
+    });
+
+    expect(await CameraAdmission.admit(EVENT_ID, waiting.id)).toEqual({ success: false, error: 'full' });
+    expect(getWaitlistPosition(cameras, waiting.id)).toBe(1);
+  });
+
+  it('should not admit waiting joiners past one still ahead in line', async () => {
+    addCamera('active');
+    const first = addCamera('waiting');
+    const second = addCamera('waiting');
+
+    // A stale scan that missed the first joiner must not let the second overtake it
+    mockCameraService.getByEventId.mockResolvedValueOnce(
+      cameras.filter((camera) => camera.id !== first.id).map((camera) => ({ ...camera }))
+    );
+
+    expect(await CameraAdmission.admitWaiting(EVENT_ID)).toEqual([]);
+    expect(mockCameraService.claimSlot).toHaveBeenCalledWith(second.id, 'waiting', { inOrder: true });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for per-person camera invite links
+jest.mock('../database', () => ({
+  CameraInviteService: {
+    getById: jest.fn(),
+    takeUse: jest.fn(),
+  },
+  EventService: {
+    getById: jest.fn(),
+  },
+}));
+
+jest.mock('../auth', () => ({
+  AuthService: {
+    verifyToken: jest.fn(),
+  },
+}));
+
+import { AuthService } from '../auth';
+import { CameraInviteService, EventService } from '../database';
+import { getCameraInviteStatus } from '../camera-invite-status';
+import { CameraInvites } from '../camera-invites';
+import type { CameraInviteClient, EventClient } from '@/types';
+
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockCameraInviteService = CameraInviteService as jest.Mocked<typeof CameraInviteService>;
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+
+const NOW = new Date('2026-10-18T09:00:00Z');
+
+const createInvite = (overrides: Partial<CameraInviteClient> = {}): CameraInviteClient => ({
+  id: 'invite-1',
+  eventId: 'event-1',
+  participantName: '田中',
+  maxUses: 1,
+  useCount: 0,
+  expiresAt: new Date('2026-10-19T09:00:00Z'),
+  createdAt: NOW,
+  ...overrides,
+});
+
+const event = { id: 'event-1', status: 'live' } as EventClient;
+
+const invitePayload = {
+  sub: 'invite-1',
+  type: 'camera-invite' as const,
+  eventId: 'event-1',
+  iat: 0,
+  exp: 0,
+  iss: 'harecame',
+  aud: 'harecame-app',
+};
+
+describe('getCameraInviteStatus', () => {
+  it('should report why an invite can no longer be used', () => {
+    expect(getCameraInviteStatus(createInvite(), NOW)).toBe('active');
+    expect(getCameraInviteStatus(createInvite({ useCount: 1 }), NOW)).toBe('used-up');
+    expect(getCameraInviteStatus(createInvite({ expiresAt: NOW }), NOW)).toBe('expired');
+    expect(getCameraInviteStatus(createInvite({ useCount: 1, revokedAt: NOW }), NOW)).toBe('revoked');
+  });
+});
+
+describe('CameraInvites.redeem', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.verifyToken.mockResolvedValue(invitePayload);
+    mockCameraInviteService.getById.mockResolvedValue(createInvite());
+    mockEventService.getById.mockResolvedValue(event);
+  });
+
+  it('should take one use of an active invite', async () => {
+    const redeemed = createInvite({ useCount: 1 });
+    mockCameraInviteService.takeUse.mockResolvedValue(redeemed);
+
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'ok', invite: redeemed, event });
+    expect(mockCameraInviteService.takeUse).toHaveBeenCalledWith('invite-1', 0);
+  });
+
+  it('should only accept invite tokens naming an invite of their event', async () => {
+    mockAuthService.verifyToken.mockResolvedValue({ ...invitePayload, type: 'camera' });
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'invalid' });
+
+    mockAuthService.verifyToken.mockResolvedValue({ ...invitePayload, eventId: 'event-2' });
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'invalid' });
+
+    mockAuthService.verifyToken.mockResolvedValue(null);
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'invalid' });
+
+    expect(mockCameraInviteService.takeUse).not.toHaveBeenCalled();
+  });
+
+  it('should refuse revoked invites and ended events', async () => {
+    mockCameraInviteService.getById.mockResolvedValue(createInvite({ revokedAt: NOW }));
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'revoked' });
+
+    mockCameraInviteService.getById.mockResolvedValue(createInvite());
+    mockEventService.getById.mockResolvedValue({ ...event, status: 'ended' });
+    expect(await CameraInvites.redeem('token')).toMatchObject({ status: 'ended' });
+
+    expect(mockCameraInviteService.takeUse).not.toHaveBeenCalled();
+  });
+
+  it('should let only one of two racing redemptions use a single-use invite', async () => {
+    // Another redemption took the last use between our read and update
+    mockCameraInviteService.getById
+      .mockResolvedValueOnce(createInvite())
+      .mockResolvedValueOnce(createInvite({ useCount: 1 }));
+    mockCameraInviteService.takeUse.mockResolvedValue(null);
+
+    expect(await CameraInvites.redeem('token')).toEqual({ status: 'used-up' });
+    expect(mockCameraInviteService.takeUse).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for removing and banning camera operators
+jest.mock('livekit-server-sdk', () => ({
+  RoomServiceClient: jest.fn(),
+}));
+
+jest.mock('../database', () => ({
+  CameraConnectionService: {
+    markRemoved: jest.fn(),
+    getJoinedBeforeCodeVersion: jest.fn(),
+  },
+  CameraBanService: {
+    create: jest.fn(),
+    findMatching: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../websocket', () => ({
+  WebSocketEventHandler: {
+    handleCameraDisconnected: jest.fn(),
+  },
+  createCameraDisconnectedEvent: (eventId: string, participantId: string, cameraConnectionId: string, reason: string, duration: number) => ({
+    type: 'camera-disconnected', eventId, participantId, cameraConnectionId, data: { reason, duration },
+  }),
+}));
+
+import {
+  CameraModeration,
+  getDeviceFingerprint,
+  resolveCameraDeviceId,
+  type RoomParticipantClient,
+} from '../camera-moderation';
+import { CameraBanService, CameraConnectionService, EventLogService } from '../database';
+import { WebSocketEventHandler } from '../websocket';
+import type { CameraBanClient, CameraConnectionClient, EventClient } from '@/types';
+
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockBanService = CameraBanService as jest.Mocked<typeof CameraBanService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+const mockHandler = WebSocketEventHandler as jest.Mocked<typeof WebSocketEventHandler>;
+
+const EVENT_ID = 'event-1';
+
+const event: EventClient = {
+  id: EVENT_ID,
+  title: 'Sports Day',
+  status: 'live',
+  participationCode: 'ABC123',
+  livekitRoomName: 'event_room_1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const camera = (status: CameraConnectionClient['status']): CameraConnectionClient => ({
+  id: 'camera-1',
+  eventId: EVENT_ID,
+  participantId: 'participant-1',
+  deviceInfo: { deviceId: 'device-1' },
+  streamQuality: {},
+  status,
+  joinedAt: new Date(Date.now() - 60_000),
+  lastActiveAt: new Date(),
+});
+
+const ban = (overrides: Partial<CameraBanClient>): CameraBanClient => ({
+  id: 'ban-1',
+  eventId: EVENT_ID,
+  participantId: 'participant-1',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('CameraModeration', () => {
+  let roomClient: jest.Mocked<RoomParticipantClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    roomClient = { removeParticipant: jest.fn().mockResolvedValue(undefined) };
+    mockCameraService.markRemoved.mockImplementation(async (id, reason) => ({
+      ...camera('inactive'),
+      id,
+      disconnectReason: reason,
+    }));
+    mockBanService.create.mockImplementation(async (data) => ban(data));
+    mockEventLogService.create.mockResolvedValue({} as never);
+  });
+
+  it('should remove a streaming camera from the room and fail over', async () => {
+    const result = await CameraModeration.kick(event, camera('active'), {}, roomClient);
+
+    expect(mockCameraService.markRemoved).toHaveBeenCalledWith('camera-1', 'kicked');
+    expect(mockHandler.handleCameraDisconnected).toHaveBeenCalledWith(
+      expect.objectContaining({ cameraConnectionId: 'camera-1', data: expect.objectContaining({ reason: 'kicked' }) })
+    );
+    expect(roomClient.removeParticipant).toHaveBeenCalledWith('event_room_1', 'participant-1');
+    expect(mockBanService.create).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ban: null, removedFromRoom: true, camera: { disconnectReason: 'kicked' } });
+  });
+
+  it('should ban the participant and the device fingerprint', async () => {
+    const result = await CameraModeration.kick(event, camera('active'), { ban: true, reason: 'Off-topic' }, roomClient);
+
+    expect(mockBanService.create).toHaveBeenCalledWith({
+      eventId: EVENT_ID,
+      participantId: 'participant-1',
+      deviceFingerprint: getDeviceFingerprint('device-1'),
+      cameraConnectionId: 'camera-1',
+      reason: 'Off-topic',
+    });
+    expect(result.camera.disconnectReason).toBe('banned');
+    expect(mockEventLogService.create).toHaveBeenCalledWith(expect.objectContaining({ logType: 'camera_banned' }));
+  });
+
+  it('should ban a camera that already left without failing over again', async () => {
+    roomClient.removeParticipant.mockRejectedValue(new Error('participant not found'));
+
+    const result = await CameraModeration.kick(event, camera('inactive'), { ban: true }, roomClient);
+
+    expect(mockHandler.handleCameraDisconnected).not.toHaveBeenCalled();
+    expect(result.removedFromRoom).toBe(false);
+    expect(result.ban).not.toBeNull();
+  });
+
+  it('should still mark the camera removed when LiveKit is not configured', async () => {
+    const result = await CameraModeration.kick(event, camera('connecting'), {}, null);
+
+    expect(mockCameraService.markRemoved).toHaveBeenCalled();
+    expect(result.removedFromRoom).toBe(false);
+  });
+
+  it('should remove cameras that joined with a rotated participation code', async () => {
+    mockCameraService.getJoinedBeforeCodeVersion.mockResolvedValue([
+      { ...camera('active'), codeVersion: 1 },
+      { ...camera('waiting'), id: 'camera-2', participantId: 'participant-2', codeVersion: 1 },
+    ]);
+
+    const removed = await CameraModeration.removeRotatedCodeCameras(
+      { ...event, participationCodeVersion: 2 },
+      roomClient
+    );
+
+    expect(mockCameraService.getJoinedBeforeCodeVersion).toHaveBeenCalledWith(EVENT_ID, 2);
+    expect(removed.map((c) => c.id)).toEqual(['camera-1', 'camera-2']);
+    expect(mockCameraService.markRemoved).toHaveBeenCalledWith('camera-2', 'code-rotated');
+    expect(mockHandler.handleCameraDisconnected).toHaveBeenCalledTimes(2);
+    expect(roomClient.removeParticipant).toHaveBeenCalledWith('event_room_1', 'participant-1');
+  });
+
+  it('should look bans up by participant id and device fingerprint', async () => {
+    mockBanService.findMatching.mockResolvedValue(ban({ participantId: 'participant-1' }));
+
+    expect(
+      await CameraModeration.findBan(EVENT_ID, { participantId: 'participant-1', deviceId: 'device-2' })
+    ).toMatchObject({ id: 'ban-1' });
+    expect(mockBanService.findMatching).toHaveBeenCalledWith(EVENT_ID, {
+      participantId: 'participant-1',
+      deviceFingerprint: getDeviceFingerprint('device-2'),
+    });
+
+    // Fresh joins have no participant id worth matching, only the device
+    mockBanService.findMatching.mockResolvedValue(null);
+    expect(await CameraModeration.findBan(EVENT_ID, { deviceId: null })).toBeNull();
+    expect(mockBanService.findMatching).toHaveBeenLastCalledWith(EVENT_ID, {
+      participantId: undefined,
+      deviceFingerprint: undefined,
+    });
+  });
+});
+
+describe('resolveCameraDeviceId', () => {
+  it('should keep a valid device cookie and issue a new id otherwise', () => {
+    const issued = resolveCameraDeviceId(undefined);
+    expect(issued.issued).toBe(true);
+
+    expect(resolveCameraDeviceId(issued.deviceId)).toEqual({ deviceId: issued.deviceId, issued: false });
+    expect(resolveCameraDeviceId('chosen-by-client').issued).toBe(true);
+  });
+});
@@ -0,0 +1,160 @@
+// Unit tests for heartbeat timeout reaping
+jest.mock('../database', () => ({
+  CameraConnectionService: {
+    getStale: jest.fn(),
+    markInactiveIfStale: jest.fn(),
+  },
+}));
+
+jest.mock('../websocket', () => ({
+  WebSocketEventHandler: {
+    handleCameraDisconnected: jest.fn(),
+  },
+  createCameraDisconnectedEvent: (
+    eventId: string,
+    participantId: string,
+    cameraConnectionId: string,
+    reason: string,
+    duration: number
+  ) => ({
+    type: 'camera-disconnected',
+    eventId,
+    participantId,
+    cameraConnectionId,
+    timestamp: Date.now(),
+    data: { reason, duration },
+  }),
+}));
+
+import {
+  CameraReaper,
+  DEFAULT_HEARTBEAT_TIMEOUT_SECONDS,
+  HEARTBEAT_INTERVAL_SECONDS,
+  getHeartbeatTimeoutSeconds,
+} from '../camera-reaper';
+import { CameraConnectionService } from '../database';
+import { WebSocketEventHandler } from '../websocket';
+import type { CameraConnectionClient } from '@/types';
+
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockHandleDisconnected = WebSocketEventHandler.handleCameraDisconnected as jest.MockedFunction<
+  typeof WebSocketEventHandler.handleCameraDisconnected
+>;
+
+const NOW = new Date('2026-01-01T10:00:00Z');
+
+const createCamera = (id: string): CameraConnectionClient => ({
+  id,
+  eventId: 'event-1',
+  participantId: `participant-${id}`,
+  deviceInfo: {},
+  streamQuality: {},
+  status: 'active',
+  joinedAt: new Date('2026-01-01T09:30:00Z'),
+  lastActiveAt: new Date('2026-01-01T09:58:00Z'),
+});
+
+describe('getHeartbeatTimeoutSeconds', () => {
+  const original = process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS;
+    } else {
+      process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS = original;
+    }
+  });
+
+  it('should use the default when unset or invalid', () => {
+    delete process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS;
+    expect(getHeartbeatTimeoutSeconds()).toBe(DEFAULT_HEARTBEAT_TIMEOUT_SECONDS);
+
+    process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS = 'soon';
+    expect(getHeartbeatTimeoutSeconds()).toBe(DEFAULT_HEARTBEAT_TIMEOUT_SECONDS);
+  });
+
+  it('should never be shorter than two heartbeat intervals', () => {
+    process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS = '5';
+    expect(getHeartbeatTimeoutSeconds()).toBe(HEARTBEAT_INTERVAL_SECONDS * 2);
+
+    process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS = '120';
+    expect(getHeartbeatTimeoutSeconds()).toBe(120);
+  });
+});
+
+describe('CameraReaper.reapStaleConnections', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS;
+  });
+
+  it('should mark timed-out cameras inactive and run the disconnection path', async () => {
+    mockCameraService.getStale.mockResolvedValue([createCamera('camera-a')]);
+    mockCameraService.markInactiveIfStale.mockImplementation(async id => ({
+      ...createCamera(id),
+      status: 'inactive',
+    }));
+
+    const reaped = await CameraReaper.reapStaleConnections(NOW);
+
+    const cutoff = new Date('2026-01-01T09:59:15Z');
+    expect(reaped).toBe(1);
+    expect(mockCameraService.getStale).toHaveBeenCalledWith(cutoff);
+    expect(mockCameraService.markInactiveIfStale).toHaveBeenCalledWith('camera-a', cutoff);
+    expect(mockHandleDisconnected).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'camera-disconnected',
+        eventId: 'event-1',
+        cameraConnectionId: 'camera-a',
+        data: { reason: 'heartbeat_timeout', duration: 1800 },
+      })
+    );
+  });
+
+  it('should skip cameras that sent a heartbeat after the scan', async () => {
+    mockCameraService.getStale.mockResolvedValue([createCamera('camera-a')]);
+    mockCameraService.markInactiveIfStale.mockResolvedValue(null);
+
+    expect(await CameraReaper.reapStaleConnections(NOW)).toBe(0);
+    expect(mockHandleDisconnected).not.toHaveBeenCalled();
+  });
+
+  it('should keep reaping other cameras when one fails', async () => {
+    mockCameraService.getStale.mockResolvedValue([createCamera('camera-a'), createCamera('camera-b')]);
+    mockCameraService.markInactiveIfStale
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockImplementationOnce(async id => ({ ...createCamera(id), status: 'inactive' }));
+
+    expect(await CameraReaper.reapStaleConnections(NOW)).toBe(1);
+    expect(mockHandleDisconnected).toHaveBeenCalledWith(
+      expect.objectContaining({ cameraConnectionId: 'camera-b' })
+    );
+  });
+});
+
+describe('CameraReaper.ensureStarted', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    CameraReaper.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should not start a sweep while the previous one is still running', async () => {
+    let finishSweep!: () => void;
+    const reap = jest.spyOn(CameraReaper, 'reapStaleConnections').mockImplementation(
+      () => new Promise<number>((resolve) => { finishSweep = () => resolve(0); })
+    );
+
+    CameraReaper.ensureStarted(1000);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(reap).toHaveBeenCalledTimes(1);
+
+    finishSweep();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(reap).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for participation code brute-force protection
+jest.mock('../database', () => ({
+  EventService: {
+    getByParticipationCode: jest.fn(),
+    list: jest.fn(),
+  },
+  EventSecretService: {
+    getCameraPinHash: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+const mockPublish = jest.fn();
+jest.mock('../event-bus', () => ({
+  getEventBus: () => ({ publish: mockPublish }),
+}));
+
+import {
+  CODE_GUESS_BACKOFF,
+  CODE_GUESS_LIMITS,
+  CodeGuard,
+  getCodeGuardClientKey,
+} from '../code-guard';
+import { EventLogService, EventSecretService, EventService } from '../database';
+import { MemoryRateLimitStore, setRateLimitStore } from '../rate-limit';
+import { hashSecret } from '../secret-hash';
+import type { EventClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockEventSecretService = EventSecretService as jest.Mocked<typeof EventSecretService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+
+const START = new Date('2026-01-01T10:00:00Z').getTime();
+
+describe('CodeGuard', () => {
+  let event: EventClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: START });
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    event = {
+      id: 'event-1',
+      title: 'Sports Day',
+      status: 'live',
+      participationCode: 'ABC234',
+      livekitRoomName: 'event_room_1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    mockEventService.getByParticipationCode.mockImplementation(async (code) =>
+      code === event.participationCode ? event : null
+    );
+    mockEventService.list.mockImplementation(async ({ status } = {}) =>
+      status === 'live' ? [event] : []
+    );
+    mockEventSecretService.getCameraPinHash.mockResolvedValue(null);
+    mockEventLogService.create.mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should key clients by the address the proxy saw', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Guesser/1' });
+    expect(getCodeGuardClientKey(headers)).toBe('203.0.113.7');
+    // Hops before the proxy's are whatever the client sent
+    expect(getCodeGuardClientKey(new Headers({ 'x-forwarded-for': '192.0.2.99, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getCodeGuardClientKey(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+  });
+
+  it('should delay a client more after each wrong code beyond the free ones', async () => {
+    for (let i = 0; i < CODE_GUESS_BACKOFF.freeFailures; i++) {
+      expect(await CodeGuard.verifyCode('client-1', 'ZZZZZZ')).toEqual({ status: 'not-found', retryAfterMs: 0 });
+    }
+
+    expect(await CodeGuard.verifyCode('client-1', 'ZZZZZZ')).toEqual({
+      status: 'not-found',
+      retryAfterMs: CODE_GUESS_BACKOFF.baseDelayMs,
+    });
+    expect(await CodeGuard.check('client-1')).toEqual({
+      allowed: false,
+      retryAfterMs: CODE_GUESS_BACKOFF.baseDelayMs,
+    });
+    expect(await CodeGuard.check('client-2')).toEqual({ allowed: true });
+
+    jest.advanceTimersByTime(CODE_GUESS_BACKOFF.baseDelayMs);
+    expect(await CodeGuard.check('client-1')).toEqual({ allowed: true });
+    expect(await CodeGuard.verifyCode('client-1', 'ZZZZZZ')).toMatchObject({
+      retryAfterMs: CODE_GUESS_BACKOFF.baseDelayMs * 2,
+    });
+
+    // A correct code clears the delay
+    jest.advanceTimersByTime(CODE_GUESS_BACKOFF.baseDelayMs * 2);
+    expect(await CodeGuard.verifyCode('client-1', 'abc234')).toEqual({ status: 'ok', event });
+    await CodeGuard.verifyCode('client-1', 'ZZZZZZ');
+    expect(await CodeGuard.check('client-1')).toEqual({ allowed: true });
+  });
+
+  it('should ask for the PIN of events that have one and count wrong PINs', async () => {
+    mockEventSecretService.getCameraPinHash.mockResolvedValue(await hashSecret('482913'));
+
+    expect(await CodeGuard.verifyCode('client-1', 'ABC234')).toEqual({ status: 'pin-required', event });
+    expect(await CodeGuard.verifyCode('client-1', 'ABC234', '000000')).toEqual({
+      status: 'wrong-pin',
+      event,
+      retryAfterMs: 0,
+    });
+    expect(await CodeGuard.verifyCode('client-1', 'ABC234', '482913')).toEqual({ status: 'ok', event });
+  });
+
+  it('should alert the organizer once when an event sees a spike of wrong PINs', async () => {
+    mockEventSecretService.getCameraPinHash.mockResolvedValue(await hashSecret('482913'));
+
+    // Spread over many addresses so no single client is slowed down
+    for (let i = 0; i <= CODE_GUESS_LIMITS.eventFailures.maxRequests + 2; i++) {
+      await CodeGuard.verifyCode(`client-${i}`, 'ABC234', '111111');
+    }
+
+    expect(mockPublish).toHaveBeenCalledTimes(1);
+    expect(mockPublish).toHaveBeenCalledWith(
+      'event-1',
+      expect.objectContaining({
+        type: 'code-guess-spike',
+        data: { scope: 'event', failures: 10, windowSeconds: 300 },
+      })
+    );
+    expect(mockEventLogService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: 'event-1', logType: 'code_guess_spike' })
+    );
+  });
+
+  it('should throttle every client and alert running events while wrong codes spike globally', async () => {
+    for (let i = 0; i <= CODE_GUESS_LIMITS.globalFailures.maxRequests; i++) {
+      await CodeGuard.verifyCode(`client-${i}`, 'ZZZZZZ');
+    }
+
+    expect(mockPublish).toHaveBeenCalledTimes(1);
+    expect(mockPublish).toHaveBeenCalledWith(
+      'event-1',
+      expect.objectContaining({ type: 'code-guess-spike', data: expect.objectContaining({ scope: 'global' }) })
+    );
+
+    // Fresh clients share the guarded allowance
+    const checks = [];
+    for (let i = 0; i <= CODE_GUESS_LIMITS.guardedAttempts.maxRequests; i++) {
+      checks.push(await CodeGuard.check(`new-client-${i}`));
+    }
+    expect(checks.filter((check) => check.allowed)).toHaveLength(CODE_GUESS_LIMITS.guardedAttempts.maxRequests);
+  });
+
+  it('should allow attempts when the rate-limit store is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setRateLimitStore({
+      get: async () => {
+        throw new Error('connection refused');
+      },
+      compareAndSet: async () => false,
+    });
+
+    expect(await CodeGuard.check('client-1')).toEqual({ allowed: true });
+    expect(await CodeGuard.verifyCode('client-1', 'ZZZZZZ')).toEqual({ status: 'not-found', retryAfterMs: 0 });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the SSE event bus and stream fan-out
+jest.mock('../database', () => ({}));
+jest.mock('../switcher', () => ({}));
+jest.mock('../broadcast-lifecycle', () => ({}));
+
+import { InMemoryEventBus, RingBuffer, setEventBus } from '../event-bus';
+import { SSEHandler, type WebSocketEvent } from '../websocket';
+
+const switchEvent = (eventId: string): WebSocketEvent => ({
+  type: 'stream-switched',
+  eventId,
+  timestamp: 1767261600000,
+  data: { fromCamera: 'camera-a', toCamera: 'camera-b', reason: 'manual' },
+});
+
+// Read SSE messages from a stream until `count` data payloads have arrived
+async function readMessages(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  count: number
+): Promise<Array<Record<string, unknown>>> {
+  const decoder = new TextDecoder();
+  const messages: Array<Record<string, unknown>> = [];
+  let buffer = '';
+
+  while (messages.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value);
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = chunk.split('\n').find(line => line.startsWith('data: '));
+      if (data) messages.push(JSON.parse(data.slice('data: '.length)));
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  return messages;
+}
+
+describe('InMemoryEventBus', () => {
+  it('should deliver events only to subscribers of the same event', async () => {
+    const bus = new InMemoryEventBus();
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+
+    bus.subscribe('event-a', listenerA);
+    bus.subscribe('event-b', listenerB);
+    await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(listenerA).toHaveBeenCalledWith(expect.objectContaining(switchEvent('event-a')));
+    expect(listenerB).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    const bus = new InMemoryEventBus();
+    const listener = jest.fn();
+
+    const unsubscribe = bus.subscribe('event-a', listener);
+    unsubscribe();
+    await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.subscriberCount('event-a')).toBe(0);
+  });
+
+  it('should keep notifying other listeners when one throws', async () => {
+    const bus = new InMemoryEventBus();
+    const listener = jest.fn();
+
+    bus.subscribe('event-a', () => {
+      throw new Error('listener failed');
+    });
+    bus.subscribe('event-a', listener);
+    await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(listener).toHaveBeenCalled();
+  });
+});
+
+describe('RingBuffer', () => {
+  it('should keep only the most recent items in insertion order', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(3);
+  });
+});
+
+describe('InMemoryEventBus replay', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(1767261600000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should assign monotonically increasing ids per event', async () => {
+    const bus = new InMemoryEventBus();
+
+    const first = await bus.publish('event-a', switchEvent('event-a'));
+    const second = await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(second.id).toBe(first.id + 1);
+  });
+
+  it('should replay events published after the given id', async () => {
+    const bus = new InMemoryEventBus();
+    const first = await bus.publish('event-a', switchEvent('event-a'));
+    const second = await bus.publish('event-a', switchEvent('event-a'));
+    const third = await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(await bus.replay('event-a', first.id)).toEqual([second, third]);
+    expect(await bus.replay('event-a', third.id)).toEqual([]);
+  });
+
+  it('should refuse to replay once missed events have left the buffer', async () => {
+    const bus = new InMemoryEventBus(2);
+    const first = await bus.publish('event-a', switchEvent('event-a'));
+    await bus.publish('event-a', switchEvent('event-a'));
+    await bus.publish('event-a', switchEvent('event-a'));
+    await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(await bus.replay('event-a', first.id)).toBeNull();
+  });
+
+  it('should refuse to replay ids it did not issue', async () => {
+    const bus = new InMemoryEventBus();
+    const first = await bus.publish('event-a', switchEvent('event-a'));
+
+    expect(await bus.replay('event-a', first.id - 10)).toBeNull();
+    expect(await bus.replay('event-b', first.id)).toBeNull();
+  });
+});
+
+describe('SSEHandler', () => {
+  let bus: InMemoryEventBus;
+
+  beforeEach(() => {
+    bus = new InMemoryEventBus();
+    setEventBus(bus);
+  });
+
+  afterAll(() => {
+    setEventBus(null);
+  });
+
+  it('should stream published events to connected clients', async () => {
+    const reader = SSEHandler.createEventStream('event-a').getReader();
+
+    await SSEHandler.sendEventToClients('event-a', switchEvent('event-a'));
+    const messages = await readMessages(reader, 2);
+
+    expect(messages[0]).toMatchObject({ type: 'connected', eventId: 'event-a' });
+    expect(messages[1]).toMatchObject(switchEvent('event-a'));
+
+    await reader.cancel();
+  });
+
+  it('should unsubscribe when the stream is cancelled', async () => {
+    const reader = SSEHandler.createEventStream('event-a').getReader();
+    expect(bus.subscriberCount('event-a')).toBe(1);
+
+    await reader.cancel();
+    expect(bus.subscriberCount('event-a')).toBe(0);
+  });
+
+  it('should unsubscribe and close when the request is aborted', async () => {
+    const abortController = new AbortController();
+    const reader = SSEHandler.createEventStream('event-a', {
+      signal: abortController.signal,
+    }).getReader();
+
+    abortController.abort();
+
+    expect(bus.subscriberCount('event-a')).toBe(0);
+    await readMessages(reader, 1);
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it('should write bus events with id lines', async () => {
+    const reader = SSEHandler.createEventStream('event-a').getReader();
+    const published = await bus.publish('event-a', switchEvent('event-a'));
+
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!text.includes(`id: ${published.id}\n`)) {
+      text += decoder.decode((await reader.read()).value);
+    }
+
+    expect(text).toContain(`id: ${published.id}\ndata: `);
+    await reader.cancel();
+  });
+
+  it('should replay missed events after Last-Event-ID before live events', async () => {
+    const seen = await bus.publish('event-a', switchEvent('event-a'));
+    const missed = await bus.publish('event-a', switchEvent('event-a'));
+
+    const reader = SSEHandler.createEventStream('event-a', {
+      lastEventId: String(seen.id),
+    }).getReader();
+    const live = await bus.publish('event-a', switchEvent('event-a'));
+
+    const messages = await readMessages(reader, 3);
+    expect(messages.map(message => message.type)).toEqual(['connected', 'stream-switched', 'stream-switched']);
+    expect(messages[1]).toMatchObject({ id: missed.id });
+    expect(messages[2]).toMatchObject({ id: live.id });
+
+    await reader.cancel();
+  });
+
+  it('should send code-guess alerts to organizer streams only', async () => {
+    const spike = { type: 'code-guess-spike' as const, eventId: 'event-a', timestamp: 1, data: { scope: 'event' } };
+    const viewer = SSEHandler.createEventStream('event-a').getReader();
+    const organizer = SSEHandler.createEventStream('event-a', { includeOrganizerEvents: true }).getReader();
+
+    await bus.publish('event-a', spike);
+    await bus.publish('event-a', switchEvent('event-a'));
+
+    expect((await readMessages(viewer, 2)).map(message => message.type)).toEqual(['connected', 'stream-switched']);
+    expect((await readMessages(organizer, 3)).map(message => message.type)).toEqual([
+      'connected',
+      'code-guess-spike',
+      'stream-switched',
+    ]);
+
+    await viewer.cancel();
+    await organizer.cancel();
+  });
+
+  it('should ask the client to resync when the gap cannot be replayed', async () => {
+    const reader = SSEHandler.createEventStream('event-a', {
+      lastEventId: '12345',
+    }).getReader();
+
+    const messages = await readMessages(reader, 2);
+    expect(messages[1]).toMatchObject({ type: 'resync', eventId: 'event-a', lastEventId: '12345' });
+
+    await reader.cancel();
+  });
+});
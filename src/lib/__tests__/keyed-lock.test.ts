@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the per-key task chain
+import { KeyedLock } from '../keyed-lock';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+};
+
+describe('KeyedLock', () => {
+  it('should run tasks for the same key one at a time', async () => {
+    const lock = new KeyedLock();
+    const first = deferred();
+    const order: string[] = [];
+
+    const a = lock.run('event-1', async () => {
+      order.push('a:start');
+      await first.promise;
+      order.push('a:end');
+    });
+    const b = lock.run('event-1', async () => {
+      order.push('b');
+    });
+    // Other keys do not wait
+    await lock.run('event-2', async () => {
+      order.push('other');
+    });
+
+    first.resolve();
+    await Promise.all([a, b]);
+
+    expect(order).toEqual(['a:start', 'other', 'a:end', 'b']);
+    expect(lock.size).toBe(0);
+  });
+
+  it('should keep going after a task fails', async () => {
+    const lock = new KeyedLock();
+
+    await expect(lock.run('event-1', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await lock.run('event-1', async () => 'next')).toBe('next');
+  });
+});
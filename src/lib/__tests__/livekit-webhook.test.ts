@@ -0,0 +1,173 @@
+// Unit tests for LiveKit webhook handling
+jest.mock('livekit-server-sdk', () => ({
+  TrackSource: { UNKNOWN: 0, CAMERA: 1, MICROPHONE: 2 },
+}));
+
+jest.mock('../database', () => ({
+  CameraConnectionService: {
+    getById: jest.fn(),
+  },
+  WebhookEventService: {
+    markProcessed: jest.fn(),
+    release: jest.fn(),
+  },
+}));
+
+jest.mock('../websocket', () => ({
+  WebSocketEventHandler: {
+    handleCameraJoined: jest.fn(),
+    handleCameraStartedStreaming: jest.fn(),
+    handleCameraDisconnected: jest.fn(),
+  },
+  createCameraJoinedEvent: (eventId: string, participantId: string, cameraConnectionId: string, data: unknown) => ({
+    type: 'camera-joined', eventId, participantId, cameraConnectionId, data,
+  }),
+  createCameraStartedStreamingEvent: (eventId: string, participantId: string, cameraConnectionId: string, streamQuality: unknown) => ({
+    type: 'camera-started-streaming', eventId, participantId, cameraConnectionId, data: { streamQuality },
+  }),
+  createCameraDisconnectedEvent: (eventId: string, participantId: string, cameraConnectionId: string, reason: string, duration: number) => ({
+    type: 'camera-disconnected', eventId, participantId, cameraConnectionId, data: { reason, duration },
+  }),
+}));
+
+jest.mock('../camera-moderation', () => ({
+  CameraModeration: {
+    removeFromRoom: jest.fn(),
+  },
+}));
+
+import type { WebhookEvent } from 'livekit-server-sdk';
+import { LiveKitWebhookHandler } from '../livekit-webhook';
+import { CameraModeration } from '../camera-moderation';
+import { CameraConnectionService, WebhookEventService } from '../database';
+import { WebSocketEventHandler } from '../websocket';
+import type { CameraConnectionClient } from '@/types';
+
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockWebhookEventService = WebhookEventService as jest.Mocked<typeof WebhookEventService>;
+const mockHandler = WebSocketEventHandler as jest.Mocked<typeof WebSocketEventHandler>;
+
+const CAMERA_ID = '6f1c2a4e-7b1d-4f3a-9c55-0d6f7e8a9b10';
+
+const camera = (status: CameraConnectionClient['status']): CameraConnectionClient => ({
+  id: CAMERA_ID,
+  eventId: 'event-1',
+  participantId: 'camera-001',
+  participantName: 'Goal line',
+  deviceInfo: {},
+  streamQuality: {},
+  status,
+  joinedAt: new Date(),
+  lastActiveAt: new Date(),
+});
+
+const webhook = (overrides: Record<string, unknown>): WebhookEvent =>
+  ({
+    id: 'EV_1',
+    event: 'participant_joined',
+    participant: {
+      identity: 'camera-001',
+      name: 'Goal line',
+      metadata: JSON.stringify({ role: 'camera', cameraConnectionId: CAMERA_ID }),
+    },
+    ...overrides,
+  }) as unknown as WebhookEvent;
+
+describe('LiveKitWebhookHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWebhookEventService.markProcessed.mockResolvedValue(true);
+    mockWebhookEventService.release.mockResolvedValue();
+    mockCameraService.getById.mockResolvedValue(camera('connecting'));
+  });
+
+  it('should map participant_joined to a camera joined event', async () => {
+    const result = await LiveKitWebhookHandler.handle(webhook({}));
+
+    expect(result).toEqual({ status: 'handled', cameraConnectionId: CAMERA_ID });
+    expect(mockWebhookEventService.markProcessed).toHaveBeenCalledWith('EV_1', 'participant_joined');
+    expect(mockHandler.handleCameraJoined).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'camera-joined', cameraConnectionId: CAMERA_ID })
+    );
+  });
+
+  it('should start streaming when the camera track is published', async () => {
+    await LiveKitWebhookHandler.handle(
+      webhook({
+        event: 'track_published',
+        track: { source: 1, width: 1280, height: 720, mimeType: 'video/H264' },
+      })
+    );
+
+    expect(mockHandler.handleCameraStartedStreaming).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { streamQuality: expect.objectContaining({ resolution: '1280x720', codec: 'H264' }) },
+      })
+    );
+  });
+
+  it('should ignore microphone tracks', async () => {
+    const result = await LiveKitWebhookHandler.handle(
+      webhook({ event: 'track_unpublished', track: { source: 2 } })
+    );
+
+    expect(result).toEqual({ status: 'ignored', reason: 'not a camera track' });
+    expect(mockHandler.handleCameraDisconnected).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect the camera when the participant leaves', async () => {
+    mockCameraService.getById.mockResolvedValue(camera('active'));
+
+    await LiveKitWebhookHandler.handle(webhook({ event: 'participant_left' }));
+
+    expect(mockHandler.handleCameraDisconnected).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ reason: 'participant_left' }) })
+    );
+  });
+
+  it('should skip deliveries that were already processed', async () => {
+    mockWebhookEventService.markProcessed.mockResolvedValue(false);
+
+    const result = await LiveKitWebhookHandler.handle(webhook({ event: 'participant_left' }));
+
+    expect(result).toEqual({ status: 'duplicate' });
+    expect(mockCameraService.getById).not.toHaveBeenCalled();
+  });
+
+  it('should ignore participants that are not cameras', async () => {
+    const result = await LiveKitWebhookHandler.handle(
+      webhook({ participant: { identity: 'monitor-1', metadata: JSON.stringify({ role: 'monitor' }) } })
+    );
+
+    expect(result).toEqual({ status: 'ignored', reason: 'participant is not a camera' });
+  });
+
+  it('should remove a kicked camera again when it rejoins with its old token', async () => {
+    mockCameraService.getById.mockResolvedValue({ ...camera('inactive'), disconnectReason: 'kicked' });
+
+    const result = await LiveKitWebhookHandler.handle(webhook({ room: { name: 'event_room_1' } }));
+
+    expect(result).toEqual({ status: 'ignored', reason: 'camera was kicked' });
+    expect(CameraModeration.removeFromRoom).toHaveBeenCalledWith('event_room_1', 'camera-001');
+    expect(mockHandler.handleCameraJoined).not.toHaveBeenCalled();
+  });
+
+  it('should release the webhook id when handling fails so retries are processed', async () => {
+    mockCameraService.getById.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(LiveKitWebhookHandler.handle(webhook({}))).rejects.toThrow('database unavailable');
+    expect(mockWebhookEventService.release).toHaveBeenCalledWith('EV_1');
+  });
+
+  it('should release the webhook id when the camera state update fails', async () => {
+    mockCameraService.getById.mockResolvedValue(camera('connecting'));
+    mockHandler.handleCameraJoined.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(LiveKitWebhookHandler.handle(webhook({}))).rejects.toThrow('database unavailable');
+    expect(mockWebhookEventService.release).toHaveBeenCalledWith('EV_1');
+
+    // LiveKit's retry is processed, not skipped as a duplicate
+    mockHandler.handleCameraJoined.mockResolvedValue();
+    expect(await LiveKitWebhookHandler.handle(webhook({}))).toEqual({ status: 'handled', cameraConnectionId: CAMERA_ID });
+  });
+});
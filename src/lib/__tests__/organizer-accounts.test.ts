@@ -0,0 +1,237 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for organizer accounts, event roles and co-organizer invitations
+jest.mock('../database', () => ({
+  OrganizerService: {
+    create: jest.fn(),
+    getByEmail: jest.fn(),
+  },
+  EventMemberService: {
+    getRole: jest.fn(),
+    getByEventId: jest.fn(),
+    upsert: jest.fn(),
+    remove: jest.fn(),
+  },
+  OrganizerInvitationService: {
+    getById: jest.fn(),
+    markAccepted: jest.fn(),
+  },
+}));
+
+jest.mock('../auth', () => ({
+  AuthService: {
+    verifyToken: jest.fn(),
+  },
+}));
+
+import { AuthService } from '../auth';
+import { EventMemberService, OrganizerInvitationService, OrganizerService } from '../database';
+import { hasEventRole } from '../event-roles';
+import {
+  EventMembers,
+  ORGANIZER_LOGIN_BACKOFF,
+  OrganizerAccounts,
+  OrganizerInvitations,
+} from '../organizer-accounts';
+import { MemoryRateLimitStore, setRateLimitStore } from '../rate-limit';
+import { hashSecret } from '../secret-hash';
+import type { EventMemberClient, OrganizerClient, OrganizerInvitationClient } from '@/types';
+
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockOrganizerService = OrganizerService as jest.Mocked<typeof OrganizerService>;
+const mockEventMemberService = EventMemberService as jest.Mocked<typeof EventMemberService>;
+const mockInvitationService = OrganizerInvitationService as jest.Mocked<typeof OrganizerInvitationService>;
+
+const NOW = new Date('2026-10-18T09:00:00Z');
+
+const createOrganizer = (overrides: Partial<OrganizerClient> = {}): OrganizerClient => ({
+  id: 'organizer-1',
+  email: 'tanaka@example.com',
+  passwordHash: '',
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const createMember = (organizerId: string, role: EventMemberClient['role']): EventMemberClient => ({
+  eventId: 'event-1',
+  organizerId,
+  role,
+  createdAt: NOW,
+});
+
+describe('hasEventRole', () => {
+  it('should let higher roles do what lower roles can', () => {
+    expect(hasEventRole('owner', 'operator')).toBe(true);
+    expect(hasEventRole('operator', 'operator')).toBe(true);
+    expect(hasEventRole('monitor', 'operator')).toBe(false);
+    expect(hasEventRole('operator', 'owner')).toBe(false);
+    expect(hasEventRole(null, 'monitor')).toBe(false);
+  });
+});
+
+describe('OrganizerAccounts', () => {
+  let organizer: OrganizerClient;
+
+  beforeAll(async () => {
+    organizer = createOrganizer({ passwordHash: await hashSecret('correct horse battery') });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    mockOrganizerService.getByEmail.mockImplementation(async (email) =>
+      email.toLowerCase() === organizer.email ? organizer : null
+    );
+  });
+
+  it('should store only a hash of the password', async () => {
+    mockOrganizerService.create.mockResolvedValue(organizer);
+
+    expect(await OrganizerAccounts.register('tanaka@example.com', 'correct horse battery')).toEqual({
+      status: 'ok',
+      organizer,
+    });
+    const created = mockOrganizerService.create.mock.calls[0]?.[0];
+    expect(created?.passwordHash).toMatch(/^scrypt\$/);
+    expect(created?.passwordHash).not.toContain('correct horse battery');
+
+    mockOrganizerService.create.mockResolvedValue(null);
+    expect(await OrganizerAccounts.register('tanaka@example.com', 'another password')).toEqual({
+      status: 'email-taken',
+    });
+  });
+
+  it('should sign in with the right password only', async () => {
+    expect(await OrganizerAccounts.authenticate('Tanaka@example.com', 'correct horse battery', 'client-1')).toEqual({
+      status: 'ok',
+      organizer,
+    });
+    expect(await OrganizerAccounts.authenticate('tanaka@example.com', 'wrong password', 'client-1')).toEqual({
+      status: 'invalid-credentials',
+      retryAfterMs: 0,
+    });
+    // Unknown emails get the same answer
+    expect(await OrganizerAccounts.authenticate('nobody@example.com', 'correct horse battery', 'client-1')).toEqual({
+      status: 'invalid-credentials',
+      retryAfterMs: 0,
+    });
+  });
+
+  it('should make a client wait after repeated wrong passwords', async () => {
+    for (let i = 0; i < ORGANIZER_LOGIN_BACKOFF.freeFailures; i++) {
+      await OrganizerAccounts.authenticate('tanaka@example.com', 'wrong password', 'client-1');
+    }
+
+    expect(await OrganizerAccounts.authenticate('tanaka@example.com', 'wrong password', 'client-1')).toEqual({
+      status: 'invalid-credentials',
+      retryAfterMs: ORGANIZER_LOGIN_BACKOFF.baseDelayMs,
+    });
+    expect(await OrganizerAccounts.authenticate('tanaka@example.com', 'correct horse battery', 'client-1')).toMatchObject({
+      status: 'throttled',
+    });
+    expect(await OrganizerAccounts.authenticate('tanaka@example.com', 'correct horse battery', 'client-2')).toMatchObject({
+      status: 'ok',
+    });
+  });
+});
+
+describe('EventMembers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should always keep an owner', async () => {
+    mockEventMemberService.getByEventId.mockResolvedValue([
+      createMember('organizer-1', 'owner'),
+      createMember('organizer-2', 'operator'),
+    ]);
+
+    expect(await EventMembers.changeRole('event-1', 'organizer-1', 'operator')).toBe('last-owner');
+    expect(await EventMembers.remove('event-1', 'organizer-1')).toBe('last-owner');
+    expect(mockEventMemberService.upsert).not.toHaveBeenCalled();
+    expect(mockEventMemberService.remove).not.toHaveBeenCalled();
+
+    // Once there is a second owner, the first may step down
+    expect(await EventMembers.changeRole('event-1', 'organizer-2', 'owner')).toBe('ok');
+    mockEventMemberService.getByEventId.mockResolvedValue([
+      createMember('organizer-1', 'owner'),
+      createMember('organizer-2', 'owner'),
+    ]);
+    expect(await EventMembers.remove('event-1', 'organizer-1')).toBe('ok');
+    expect(mockEventMemberService.remove).toHaveBeenCalledWith('event-1', 'organizer-1');
+  });
+});
+
+describe('OrganizerInvitations.accept', () => {
+  const invitation: OrganizerInvitationClient = {
+    id: 'invitation-1',
+    eventId: 'event-1',
+    email: 'suzuki@example.com',
+    role: 'operator',
+    invitedBy: 'organizer-1',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    createdAt: NOW,
+  };
+  const invitee = createOrganizer({ id: 'organizer-2', email: 'Suzuki@example.com' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.verifyToken.mockResolvedValue({
+      sub: 'invitation-1',
+      type: 'organizer-invite',
+      eventId: 'event-1',
+      iat: 0,
+      exp: 0,
+      iss: 'harecame',
+      aud: 'harecame-app',
+    });
+    mockInvitationService.getById.mockResolvedValue(invitation);
+    mockInvitationService.markAccepted.mockResolvedValue({ ...invitation, acceptedAt: NOW });
+    mockEventMemberService.getRole.mockResolvedValue(null);
+  });
+
+  it('should add the invited account with the invited role', async () => {
+    expect(await OrganizerInvitations.accept('token', invitee)).toEqual({
+      status: 'ok',
+      eventId: 'event-1',
+      role: 'operator',
+    });
+    expect(mockInvitationService.markAccepted).toHaveBeenCalledWith('invitation-1', 'organizer-2');
+    expect(mockEventMemberService.upsert).toHaveBeenCalledWith('event-1', 'organizer-2', 'operator');
+  });
+
+  it('should only accept the invitation for the invited email', async () => {
+    const other = createOrganizer({ id: 'organizer-3', email: 'sato@example.com' });
+
+    expect(await OrganizerInvitations.accept('token', other)).toEqual({ status: 'wrong-account' });
+    expect(mockEventMemberService.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should refuse used, revoked and expired invitations', async () => {
+    mockInvitationService.getById.mockResolvedValue({ ...invitation, revokedAt: NOW });
+    expect(await OrganizerInvitations.accept('token', invitee)).toEqual({ status: 'revoked' });
+
+    mockInvitationService.getById.mockResolvedValue({ ...invitation, expiresAt: NOW });
+    expect(await OrganizerInvitations.accept('token', invitee)).toEqual({ status: 'expired' });
+
+    // Accepted by someone else between our read and update
+    mockInvitationService.getById.mockResolvedValue(invitation);
+    mockInvitationService.markAccepted.mockResolvedValue(null);
+    expect(await OrganizerInvitations.accept('token', invitee)).toEqual({ status: 'used' });
+
+    expect(mockEventMemberService.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should not demote an existing member', async () => {
+    mockEventMemberService.getRole.mockResolvedValue('owner');
+
+    expect(await OrganizerInvitations.accept('token', invitee)).toEqual({
+      status: 'ok',
+      eventId: 'event-1',
+      role: 'owner',
+    });
+    expect(mockEventMemberService.upsert).not.toHaveBeenCalled();
+  });
+});
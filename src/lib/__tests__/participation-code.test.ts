@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for participation code generation
+import {
+  PARTICIPATION_CODE_ALPHABET,
+  PARTICIPATION_CODE_LENGTH,
+  generateParticipationCode,
+  isParticipationCodeCollision,
+} from '../participation-code';
+import { participationCodeSchema } from '../validation';
+
+describe('generateParticipationCode', () => {
+  it('should leave out characters that are easy to misread', () => {
+    for (const ambiguous of ['0', 'O', '1', 'I']) {
+      expect(PARTICIPATION_CODE_ALPHABET).not.toContain(ambiguous);
+    }
+  });
+
+  it('should generate codes from the alphabet that pass code validation', () => {
+    for (let i = 0; i < 200; i++) {
+      const code = generateParticipationCode();
+
+      expect(code).toHaveLength(PARTICIPATION_CODE_LENGTH);
+      expect([...code].every((char) => PARTICIPATION_CODE_ALPHABET.includes(char))).toBe(true);
+      expect(participationCodeSchema.safeParse({ code }).success).toBe(true);
+    }
+  });
+
+  it('should not repeat codes', () => {
+    const codes = new Set(Array.from({ length: 1000 }, () => generateParticipationCode()));
+
+    expect(codes.size).toBe(1000);
+  });
+});
+
+describe('isParticipationCodeCollision', () => {
+  it('should only match unique violations on the participation code', () => {
+    expect(
+      isParticipationCodeCollision({
+        code: '23505',
+        message: 'duplicate key value violates unique constraint "events_participation_code_key"',
+      })
+    ).toBe(true);
+    expect(
+      isParticipationCodeCollision({
+        code: '23505',
+        message: 'duplicate key value violates unique constraint "events_livekit_room_name_key"',
+      })
+    ).toBe(false);
+    expect(isParticipationCodeCollision({ code: '23503', message: 'participation_code' })).toBe(false);
+  });
+});
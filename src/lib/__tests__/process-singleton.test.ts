@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for per-process state shared between module copies
+import { processSingleton } from '../process-singleton';
+
+describe('processSingleton', () => {
+  it('should create the value once per key', () => {
+    const create = jest.fn(() => new Map<string, number>());
+
+    const first = processSingleton('test-map', create);
+    const second = processSingleton('test-map', create);
+
+    expect(second).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(processSingleton('test-other-map', () => new Map())).not.toBe(first);
+  });
+
+  it('should share values with separately loaded copies of a module', () => {
+    const value = processSingleton('test-shared', () => ({ count: 0 }));
+
+    // Stands in for a route handler bundled with its own copy of the module
+    let isolated: typeof processSingleton | undefined;
+    jest.isolateModules(() => {
+      isolated = require('../process-singleton').processSingleton;
+    });
+
+    expect(isolated).not.toBe(processSingleton);
+    expect(isolated!('test-shared', () => ({ count: 1 }))).toBe(value);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the rate-limit algorithms and stores on a fake clock
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn(),
+  NextResponse: {
+    json: jest.fn((data, init) => ({
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
+      json: async () => data,
+    })),
+  },
+}));
+
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RATE_LIMITS,
+  UpstashRedisRateLimitStore,
+  checkBackoff,
+  checkRateLimit,
+  getBackoffDelayMs,
+  getRouteRateLimit,
+  peekRateLimit,
+  recordBackoffFailure,
+  resetBackoff,
+  setRateLimitStore,
+  type BackoffRule,
+  type RateLimitRule,
+  type RateLimitStore,
+  type RateLimitTable,
+} from '../rate-limit';
+import { rateLimit } from '../middleware';
+
+const START = new Date('2026-01-01T10:00:00Z').getTime();
+
+// Manually advanced clock shared by the store and the checks
+function createClock() {
+  let now = START;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+async function hit(store: RateLimitStore, rule: RateLimitRule, now: number, times = 1) {
+  const decisions = [];
+  for (let i = 0; i < times; i++) {
+    decisions.push(await checkRateLimit('client-1', rule, { store, now }));
+  }
+  return decisions;
+}
+
+// rate_limits table kept in memory
+function createFakeTable(): RateLimitTable & { rows: Map<string, { state: unknown; version: number }> } {
+  const rows = new Map<string, { state: unknown; version: number }>();
+  return {
+    rows,
+    get: async (key) => rows.get(key) ?? null,
+    insert: async (key, state) => {
+      if (rows.has(key)) return false;
+      rows.set(key, { state, version: 0 });
+      return true;
+    },
+    updateIfVersion: async (key, version, state) => {
+      if (rows.get(key)?.version !== version) return false;
+      rows.set(key, { state, version: version + 1 });
+      return true;
+    },
+    deleteExpired: async () => {},
+  };
+}
+
+// Upstash REST endpoint backed by a Map; EVAL runs the compare-and-set the script describes
+function createFakeUpstash() {
+  const values = new Map<string, string>();
+  const fetch = jest.fn(async (_url: string, init?: RequestInit) => {
+    const [command, ...args] = JSON.parse(init!.body as string) as string[];
+    let result: unknown = null;
+
+    if (command === 'GET') {
+      result = values.get(args[0]!) ?? null;
+    } else if (command === 'EVAL') {
+      const [, , key, expected, value] = args;
+      const current = values.get(key!);
+      const currentVersion = current ? String(JSON.parse(current).version) : '';
+      result = currentVersion === expected ? (values.set(key!, value!), 1) : 0;
+    }
+
+    return { ok: true, status: 200, json: async () => ({ result }) } as Response;
+  });
+  return { fetch, values };
+}
+
+describe('sliding window', () => {
+  const rule: RateLimitRule = { name: 'test', windowMs: 60000, maxRequests: 3 };
+
+  it('should refuse requests over the limit until older ones slide out', async () => {
+    const clock = createClock();
+    const store = new MemoryRateLimitStore(clock.now);
+
+    const decisions = await hit(store, rule, clock.now(), 4);
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[2]!.remaining).toBe(0);
+    expect(decisions[3]!.retryAfterMs).toBeGreaterThan(0);
+
+    // Half-way into the next window half of the previous requests still count
+    clock.advance(90000);
+    const [afterSlide] = await hit(store, rule, clock.now());
+    expect(afterSlide!.allowed).toBe(true);
+
+    // 1.5 (previous) + 1 (current) + 1 would exceed 3
+    const [refused] = await hit(store, rule, clock.now());
+    expect(refused!.allowed).toBe(false);
+
+    // Waiting the advertised time is enough
+    clock.advance(refused!.retryAfterMs);
+    const [retried] = await hit(store, rule, clock.now());
+    expect(retried!.allowed).toBe(true);
+  });
+
+  it('should not count refused requests', async () => {
+    const clock = createClock();
+    const store = new MemoryRateLimitStore(clock.now);
+
+    await hit(store, rule, clock.now(), 10);
+    clock.advance(120000);
+
+    expect((await hit(store, rule, clock.now(), 3)).every((d) => d.allowed)).toBe(true);
+  });
+});
+
+describe('token bucket', () => {
+  const rule: RateLimitRule = { name: 'test', windowMs: 60000, maxRequests: 6, algorithm: 'token-bucket' };
+
+  it('should allow a burst and then refill evenly', async () => {
+    const clock = createClock();
+    const store = new MemoryRateLimitStore(clock.now);
+
+    const burst = await hit(store, rule, clock.now(), 7);
+    expect(burst.filter((d) => d.allowed)).toHaveLength(6);
+    // One token every 10 seconds
+    expect(burst[6]!.retryAfterMs).toBe(10000);
+
+    clock.advance(9999);
+    expect((await hit(store, rule, clock.now()))[0]!.allowed).toBe(false);
+
+    clock.advance(1);
+    expect((await hit(store, rule, clock.now()))[0]!.allowed).toBe(true);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('should keep separate counters per rule', async () => {
+    const store = new MemoryRateLimitStore();
+    const strict: RateLimitRule = { name: 'strict', windowMs: 60000, maxRequests: 1 };
+    const loose: RateLimitRule = { name: 'loose', windowMs: 60000, maxRequests: 100 };
+
+    await hit(store, strict, START);
+
+    expect((await hit(store, strict, START))[0]!.allowed).toBe(false);
+    expect((await hit(store, loose, START))[0]!.allowed).toBe(true);
+  });
+
+  it('should count concurrent requests through the Postgres store', async () => {
+    const table = createFakeTable();
+    const store = new PostgresRateLimitStore(table, () => START);
+    const rule: RateLimitRule = { name: 'test', windowMs: 60000, maxRequests: 10 };
+
+    // Both read the same version; the loser of the race retries on the new one
+    await Promise.all([hit(store, rule, START), hit(store, rule, START)]);
+
+    const row = table.rows.get('test:client-1');
+    expect(row?.version).toBe(1);
+    expect(row?.state).toMatchObject({ algorithm: 'sliding-window', count: 2 });
+  });
+
+  it('should store counters in Redis with compare-and-set', async () => {
+    const upstash = createFakeUpstash();
+    const store = new UpstashRedisRateLimitStore({
+      url: 'https://redis.example',
+      token: 'token',
+      fetch: upstash.fetch,
+      clock: () => START,
+    });
+    const rule: RateLimitRule = { name: 'test', windowMs: 60000, maxRequests: 2 };
+
+    const decisions = await hit(store, rule, START, 3);
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, false]);
+    expect(JSON.parse(upstash.values.get('harecame:ratelimit:test:client-1')!)).toMatchObject({
+      version: 1,
+      state: { count: 2 },
+    });
+    expect(upstash.fetch.mock.calls[0]![1]!.headers).toMatchObject({ Authorization: 'Bearer token' });
+  });
+});
+
+describe('peekRateLimit', () => {
+  it('should report the decision without counting the request', async () => {
+    const store = new MemoryRateLimitStore();
+    const rule: RateLimitRule = { name: 'test', windowMs: 60000, maxRequests: 2 };
+
+    await hit(store, rule, START);
+    expect((await peekRateLimit('client-1', rule, { store, now: START })).allowed).toBe(true);
+    expect((await peekRateLimit('client-1', rule, { store, now: START })).allowed).toBe(true);
+
+    await hit(store, rule, START);
+    expect((await peekRateLimit('client-1', rule, { store, now: START })).allowed).toBe(false);
+  });
+});
+
+describe('backoff', () => {
+  const rule: BackoffRule = {
+    name: 'guess',
+    freeFailures: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    resetAfterMs: 600000,
+  };
+
+  it('should double the delay after the free failures, up to the maximum', () => {
+    expect([1, 2, 3, 4, 5, 6, 7].map((failures) => getBackoffDelayMs(rule, failures))).toEqual([
+      0, 0, 1000, 2000, 4000, 8000, 8000,
+    ]);
+  });
+
+  it('should make the client wait after repeated failures', async () => {
+    const clock = createClock();
+    const store = new MemoryRateLimitStore(clock.now);
+    const options = () => ({ store, now: clock.now() });
+
+    await recordBackoffFailure('client-1', rule, options());
+    await recordBackoffFailure('client-1', rule, options());
+    expect((await checkBackoff('client-1', rule, options())).allowed).toBe(true);
+
+    const third = await recordBackoffFailure('client-1', rule, options());
+    expect(third).toEqual({ allowed: false, failures: 3, retryAfterMs: 1000 });
+    expect(await checkBackoff('client-1', rule, options())).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+    // Other clients are unaffected
+    expect((await checkBackoff('client-2', rule, options())).allowed).toBe(true);
+
+    clock.advance(1000);
+    expect((await checkBackoff('client-1', rule, options())).allowed).toBe(true);
+    expect((await recordBackoffFailure('client-1', rule, options())).retryAfterMs).toBe(2000);
+  });
+
+  it('should forget failures after a success or once they are old enough', async () => {
+    const clock = createClock();
+    const store = new MemoryRateLimitStore(clock.now);
+    const options = () => ({ store, now: clock.now() });
+
+    for (let i = 0; i < 3; i++) await recordBackoffFailure('client-1', rule, options());
+    await resetBackoff('client-1', rule, options());
+    expect(await checkBackoff('client-1', rule, options())).toEqual({ allowed: true, failures: 0, retryAfterMs: 0 });
+
+    for (let i = 0; i < 3; i++) await recordBackoffFailure('client-1', rule, options());
+    clock.advance(rule.resetAfterMs);
+    expect((await recordBackoffFailure('client-1', rule, options())).failures).toBe(1);
+  });
+});
+
+describe('getRouteRateLimit', () => {
+  it('should map brute-forceable routes to the shared rules', () => {
+    expect(getRouteRateLimit('/api/auth/login')).toBe(RATE_LIMITS.organizerLogin);
+    expect(getRouteRateLimit('/api/auth/register')).toBe(RATE_LIMITS.organizerLogin);
+    expect(getRouteRateLimit('/api/events/validate-code')).toBe(RATE_LIMITS.joinEvent);
+    expect(getRouteRateLimit('/api/events/abc/join')).toBe(RATE_LIMITS.joinEvent);
+    expect(getRouteRateLimit('/api/events/abc/status')).toBeNull();
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const request = {
+    headers: {
+      get: (name: string) => ({ 'x-forwarded-for': '192.168.1.1', 'user-agent': 'test-agent' })[name] ?? null,
+    },
+  } as never;
+
+  afterEach(() => {
+    setRateLimitStore(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should answer 429 with retry headers once the limit is reached', async () => {
+    jest.useFakeTimers({ now: START });
+    setRateLimitStore(new MemoryRateLimitStore());
+    const limiter = rateLimit({ name: 'login', windowMs: 60000, maxRequests: 1 });
+
+    expect(await limiter(request)).toBeNull();
+    const response = (await limiter(request)) as unknown as { status: number; headers: Map<string, string> };
+
+    expect(response.status).toBe(429);
+    // The request keeps counting (proportionally) until it has slid out of the next window
+    expect(response.headers.get('Retry-After')).toBe('120');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('1');
+
+    jest.advanceTimersByTime(120000);
+    expect(await limiter(request)).toBeNull();
+  });
+
+  it('should let requests through when the store is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setRateLimitStore({
+      get: async () => {
+        throw new Error('connection refused');
+      },
+      compareAndSet: async () => false,
+    });
+
+    expect(await rateLimit(RATE_LIMITS.default)(request)).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for hashing of event PINs and viewer passphrases
+import { hashSecret, verifySecret } from '../secret-hash';
+
+describe('secret hashing', () => {
+  it('should verify the secret it hashed and nothing else', async () => {
+    const stored = await hashSecret('482913');
+
+    expect(stored).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+    expect(stored).not.toContain('482913');
+    expect(await verifySecret('482913', stored)).toBe(true);
+    expect(await verifySecret('482914', stored)).toBe(false);
+  });
+
+  it('should salt each hash', async () => {
+    expect(await hashSecret('sports-day')).not.toBe(await hashSecret('sports-day'));
+  });
+
+  it('should reject values in an unknown format', async () => {
+    expect(await verifySecret('482913', '482913')).toBe(false);
+    expect(await verifySecret('482913', 'bcrypt$abc$def')).toBe(false);
+  });
+});
@@ -214,7 +214,7 @@ describe('Input Validation and Sanitization', () => {
 
 describe('Access Control Scenarios', () => {
   describe('Event Creation Access', () => {
-    it('should require admin authentication for event creation', () => {
+    it('should require organizer authentication for event creation', () => {
       // This would be tested in integration tests with actual API calls
       expect(true).toBe(true); // Placeholder
     });
@@ -247,7 +247,6 @@ describe('Access Control Scenarios', () => {
 
 describe('Security Best Practices', () => {
   it('should use secure token expiration times', () => {
-    // Admin tokens: 24 hours
     // Organizer tokens: 12 hours
     // Camera tokens: 8 hours
     // Viewer tokens: 4 hours
@@ -0,0 +1,260 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the viewer-count and stream-health poller
+jest.mock('../database', () => ({
+  EventService: {
+    list: jest.fn(),
+  },
+  CameraConnectionService: {
+    getById: jest.fn(),
+  },
+  StreamStatusService: {
+    getByEventId: jest.fn(),
+    upsert: jest.fn(),
+  },
+}));
+
+jest.mock('../youtube-oauth', () => ({
+  getYouTubeClientForEvent: jest.fn(),
+}));
+
+const mockPublish = jest.fn();
+jest.mock('../event-bus', () => ({
+  getEventBus: () => ({ publish: mockPublish }),
+}));
+
+import {
+  MAX_POLL_INTERVAL_SECONDS,
+  MIN_POLL_INTERVAL_SECONDS,
+  StreamHealthPoller,
+  combineStreamHealth,
+  getNextPollIntervalSeconds,
+  trackStatsToStreamHealth,
+  type TrackStats,
+  type TrackStatsProvider,
+} from '../stream-health';
+import { CameraConnectionService, EventService, StreamStatusService } from '../database';
+import { getYouTubeClientForEvent } from '../youtube-oauth';
+import { MockYouTubeClient, YouTubeQuotaExceededError, type YouTubeStreamHealth } from '../youtube';
+import { YouTubeQuotaLedger, setYouTubeQuotaLedger } from '../youtube-quota';
+import { MemoryRateLimitStore } from '../rate-limit';
+import type { EventClient, StreamStatusClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockStreamStatusService = StreamStatusService as jest.Mocked<typeof StreamStatusService>;
+
+const EVENT_ID = 'event-1';
+const NOW = new Date('2026-01-01T10:00:00Z');
+
+class FakeYouTubeClient extends MockYouTubeClient {
+  viewerCount = 42;
+  health: YouTubeStreamHealth = { status: 'good', issues: [] };
+  fail = false;
+
+  override async getStreamStats(videoId: string) {
+    if (this.fail) throw new Error('Backend error');
+    return { ...(await super.getStreamStats(videoId)), viewerCount: this.viewerCount };
+  }
+
+  override async getStreamHealth() {
+    return this.health;
+  }
+}
+
+class FakeTrackStatsProvider implements TrackStatsProvider {
+  stats: TrackStats = { published: true, muted: false, height: 720, bitrate: 2_000_000 };
+
+  async getVideoTrackStats() {
+    return this.stats;
+  }
+}
+
+describe('stream health mapping', () => {
+  it('should grade camera tracks by bitrate and resolution', () => {
+    expect(trackStatsToStreamHealth({ published: true, muted: false, height: 1080, bitrate: 3_000_000 })).toBe('excellent');
+    expect(trackStatsToStreamHealth({ published: true, muted: false, height: 480, bitrate: 800_000 })).toBe('good');
+    expect(trackStatsToStreamHealth({ published: true, muted: false, height: 180, bitrate: 150_000 })).toBe('poor');
+    expect(trackStatsToStreamHealth({ published: true, muted: true })).toBe('critical');
+    expect(trackStatsToStreamHealth({ published: false, muted: false })).toBe('critical');
+  });
+
+  it('should report the worst known signal', () => {
+    expect(combineStreamHealth('excellent', 'poor')).toBe('poor');
+    expect(combineStreamHealth('good', 'unknown')).toBe('good');
+    expect(combineStreamHealth('unknown', 'unknown')).toBe('unknown');
+  });
+});
+
+describe('getNextPollIntervalSeconds', () => {
+  // A full day's budget with the whole day ahead
+  const base = { failed: false, liveEventCount: 1, remainingUnits: 10000, secondsUntilReset: 86400 };
+
+  it('should poll quickly after a change and slow down while stable', () => {
+    expect(getNextPollIntervalSeconds({ ...base, changed: true })).toBe(20);
+    expect(getNextPollIntervalSeconds({ ...base, changed: false, previousSeconds: 30 })).toBe(45);
+    expect(getNextPollIntervalSeconds({ ...base, changed: false, previousSeconds: 100 })).toBe(MAX_POLL_INTERVAL_SECONDS);
+    expect(
+      getNextPollIntervalSeconds({ ...base, changed: true, secondsUntilReset: 3600 })
+    ).toBe(MIN_POLL_INTERVAL_SECONDS);
+  });
+
+  it('should spread polls so all live events fit in the remaining quota', () => {
+    // 10 events × 2 units per poll over 4000 spare units for the rest of the day → every 432s
+    expect(
+      getNextPollIntervalSeconds({ ...base, changed: true, liveEventCount: 10, remainingUnits: 5000 })
+    ).toBe(432);
+  });
+
+  it('should slow down as the budget runs low and wait for the reset once spent', () => {
+    expect(getNextPollIntervalSeconds({ ...base, changed: true, remainingUnits: 1100 })).toBe(1728);
+    expect(getNextPollIntervalSeconds({ ...base, changed: true, remainingUnits: 900 })).toBe(86400);
+  });
+
+  it('should back off after a failure', () => {
+    expect(
+      getNextPollIntervalSeconds({ ...base, changed: false, failed: true, secondsUntilReset: 3600 })
+    ).toBe(MAX_POLL_INTERVAL_SECONDS);
+  });
+});
+
+describe('StreamHealthPoller', () => {
+  let event: EventClient;
+  let status: StreamStatusClient;
+  let youtube: FakeYouTubeClient;
+  let trackStats: FakeTrackStatsProvider;
+  let ledger: YouTubeQuotaLedger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = new YouTubeQuotaLedger(10000, new MemoryRateLimitStore());
+    setYouTubeQuotaLedger(ledger);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    event = {
+      id: EVENT_ID,
+      title: 'Sports Day',
+      status: 'live',
+      participationCode: 'ABC123',
+      youtubeVideoId: 'broadcast-1',
+      livekitRoomName: 'event_room_1',
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    status = {
+      id: 'status-1',
+      eventId: EVENT_ID,
+      isLive: true,
+      activeCameraCount: 1,
+      currentActiveCamera: 'camera-a',
+      egressId: 'egress-1',
+      youtubeViewerCount: 0,
+      streamHealth: 'unknown',
+      updatedAt: NOW,
+    };
+    youtube = new FakeYouTubeClient();
+    trackStats = new FakeTrackStatsProvider();
+    StreamHealthPoller.setTrackStatsProvider(trackStats);
+
+    mockEventService.list.mockImplementation(async () => [event]);
+    mockStreamStatusService.getByEventId.mockImplementation(async () => ({ ...status }));
+    mockStreamStatusService.upsert.mockImplementation(async (data) => {
+      status = { ...status, ...data } as StreamStatusClient;
+      return status;
+    });
+    mockCameraService.getById.mockResolvedValue({
+      id: 'camera-a',
+      eventId: EVENT_ID,
+      participantId: 'participant-a',
+      deviceInfo: {},
+      streamQuality: {},
+      status: 'active',
+      joinedAt: NOW,
+      lastActiveAt: NOW,
+    });
+    (getYouTubeClientForEvent as jest.Mock).mockResolvedValue(youtube);
+  });
+
+  afterEach(() => {
+    StreamHealthPoller.stop();
+    StreamHealthPoller.setTrackStatsProvider(undefined);
+    setYouTubeQuotaLedger(undefined);
+    jest.restoreAllMocks();
+  });
+
+  it('should store viewers and health and publish them once', async () => {
+    trackStats.stats = { published: true, muted: false, height: 480, bitrate: 800_000 };
+
+    expect(await StreamHealthPoller.pollEvent(event)).toEqual({ changed: true, failed: false });
+    expect(status.youtubeViewerCount).toBe(42);
+    expect(status.streamHealth).toBe('good');
+    expect(mockPublish).toHaveBeenCalledWith(
+      EVENT_ID,
+      expect.objectContaining({
+        type: 'stream-health-updated',
+        data: expect.objectContaining({ viewerCount: 42, streamHealth: 'good' }),
+      })
+    );
+
+    // Nothing new: no write and no event
+    expect(await StreamHealthPoller.pollEvent(event)).toEqual({ changed: false, failed: false });
+    expect(mockStreamStatusService.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPublish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface YouTube ingestion problems', async () => {
+    youtube.health = { status: 'bad', issues: ['Video bitrate is too low'] };
+
+    await StreamHealthPoller.pollEvent(event);
+
+    expect(status.streamHealth).toBe('poor');
+    expect(mockPublish.mock.calls[0][1].data.issues).toEqual(['Video bitrate is too low']);
+  });
+
+  it('should keep the last known values when YouTube cannot be read', async () => {
+    status.youtubeViewerCount = 7;
+    status.streamHealth = 'good';
+    youtube.fail = true;
+
+    expect(await StreamHealthPoller.pollEvent(event)).toEqual({ changed: false, failed: true });
+    expect(mockStreamStatusService.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should only poll events that are due', async () => {
+    // 2026-01-01T10:00Z is 02:00 Pacific: 79200s of 9000 spare units left → every 18s
+    expect(await StreamHealthPoller.pollDue(NOW)).toBe(1);
+    expect(await StreamHealthPoller.pollDue(new Date(NOW.getTime() + 5000))).toBe(0);
+    expect(await StreamHealthPoller.pollDue(new Date(NOW.getTime() + 18000))).toBe(1);
+  });
+
+  it('should stop polling YouTube until the quota resets after quotaExceeded', async () => {
+    const retryAt = await ledger.enterCooldown(NOW);
+    jest.spyOn(youtube, 'getStreamStats').mockRejectedValue(new YouTubeQuotaExceededError(retryAt));
+
+    expect(await StreamHealthPoller.pollDue(NOW)).toBe(1);
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(await StreamHealthPoller.pollDue(new Date(retryAt.getTime() - 1000))).toBe(0);
+    expect(await StreamHealthPoller.pollDue(retryAt)).toBe(1);
+  });
+
+  it('should skip ticks while the previous poll is still running', async () => {
+    jest.useFakeTimers();
+    let finishPoll!: () => void;
+    const pollDue = jest.spyOn(StreamHealthPoller, 'pollDue').mockImplementation(
+      () => new Promise<number>((resolve) => { finishPoll = () => resolve(1); })
+    );
+
+    try {
+      StreamHealthPoller.ensureStarted(5000);
+      await jest.advanceTimersByTimeAsync(15000);
+      expect(pollDue).toHaveBeenCalledTimes(1);
+
+      finishPoll();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(pollDue).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,326 @@
+// Unit tests for the stream switcher using the fake egress client
+jest.mock('../database', () => ({
+  EventService: {
+    getById: jest.fn(),
+  },
+  CameraConnectionService: {
+    getById: jest.fn(),
+  },
+  StreamStatusService: {
+    getByEventId: jest.fn(),
+    upsert: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+// LiveKit SDK is not needed when the fake egress client is injected
+jest.mock('livekit-server-sdk', () => ({}));
+
+import { StreamSwitcher } from '../switcher';
+import { FakeEgressClient } from '../egress';
+import {
+  EventService,
+  CameraConnectionService,
+  StreamStatusService,
+  EventLogService,
+} from '../database';
+import type { CameraConnectionClient, EventClient, StreamStatusClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockStreamStatusService = StreamStatusService as jest.Mocked<typeof StreamStatusService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+
+const EVENT_ID = 'event-1';
+
+const event: EventClient = {
+  id: EVENT_ID,
+  title: 'Sports Day',
+  status: 'live',
+  participationCode: 'ABC123',
+  youtubeStreamKey: 'yt-key',
+  livekitRoomName: 'event_room_1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const createCamera = (id: string, participantId: string): CameraConnectionClient => ({
+  id,
+  eventId: EVENT_ID,
+  participantId,
+  deviceInfo: {},
+  streamQuality: {},
+  status: 'active',
+  joinedAt: new Date(),
+  lastActiveAt: new Date(),
+});
+
+const cameras: Record<string, CameraConnectionClient> = {
+  'camera-a': createCamera('camera-a', 'participant-a'),
+  'camera-b': createCamera('camera-b', 'participant-b'),
+};
+
+const createStatus = (overrides: Partial<StreamStatusClient> = {}): StreamStatusClient => ({
+  id: 'status-1',
+  eventId: EVENT_ID,
+  isLive: true,
+  activeCameraCount: 2,
+  youtubeViewerCount: 0,
+  streamHealth: 'unknown',
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('StreamSwitcher', () => {
+  let egress: FakeEgressClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    egress = new FakeEgressClient();
+    StreamSwitcher.setEgressClient(egress);
+
+    mockEventService.getById.mockResolvedValue(event);
+    mockCameraService.getById.mockImplementation(async (id: string) => cameras[id] ?? null);
+    mockStreamStatusService.upsert.mockResolvedValue(createStatus());
+  });
+
+  afterAll(() => {
+    StreamSwitcher.setEgressClient(null);
+  });
+
+  it('should start an RTMP egress for the selected camera', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(createStatus());
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-a',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.toCamera).toBe('camera-a');
+    expect(egress.calls).toEqual([
+      {
+        type: 'start',
+        egressId: result.egressId,
+        target: {
+          roomName: 'event_room_1',
+          participantIdentity: 'participant-a',
+          rtmpUrl: 'rtmp://a.rtmp.youtube.com/live2/yt-key',
+        },
+      },
+    ]);
+    expect(mockStreamStatusService.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: EVENT_ID, currentActiveCamera: 'camera-a' })
+    );
+    expect(mockStreamStatusService.upsert).toHaveBeenLastCalledWith({
+      eventId: EVENT_ID,
+      egressId: result.egressId,
+    });
+  });
+
+  it('should stop the previous egress before switching cameras', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-a', egressId: 'egress-old' })
+    );
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-b',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.fromCamera).toBe('camera-a');
+    expect(egress.calls.map(call => call.type)).toEqual(['stop', 'start']);
+    expect(egress.calls[0]).toEqual({ type: 'stop', egressId: 'egress-old' });
+  });
+
+  it('should not touch the egress when the camera is already on air', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-a', egressId: 'egress-1' })
+    );
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-a',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(true);
+    expect(egress.calls).toHaveLength(0);
+    expect(mockStreamStatusService.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should switch the egress to the standby slate when no camera is left', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-a', egressId: 'egress-1' })
+    );
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: undefined,
+      reason: 'camera-disconnected',
+    });
+
+    expect(result.success).toBe(true);
+    expect(egress.calls).toEqual([
+      { type: 'stop', egressId: 'egress-1' },
+      {
+        type: 'slate',
+        egressId: result.egressId,
+        target: {
+          url: 'http://localhost:3000/standby/event-1',
+          rtmpUrl: 'rtmp://a.rtmp.youtube.com/live2/yt-key',
+        },
+      },
+    ]);
+    expect(mockStreamStatusService.upsert).toHaveBeenLastCalledWith({
+      eventId: EVENT_ID,
+      egressId: result.egressId,
+    });
+  });
+
+  it('should switch back from the slate when a camera returns', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: undefined, egressId: 'slate-egress' })
+    );
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-b',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(true);
+    expect(egress.calls.map(call => call.type)).toEqual(['stop', 'start']);
+    expect(egress.calls[0]).toEqual({ type: 'stop', egressId: 'slate-egress' });
+  });
+
+  it('should bring the slate back when the returning camera fails to start', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: undefined, egressId: 'slate-egress' })
+    );
+    mockCameraService.getById.mockResolvedValue(null);
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-gone',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(false);
+    expect(egress.calls.map(call => call.type)).toEqual(['stop', 'slate']);
+    expect(mockStreamStatusService.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ currentActiveCamera: undefined, egressId: egress.calls[1]!.egressId })
+    );
+  });
+
+  it('should roll back stream status when starting the egress fails', async () => {
+    const lastSwitchAt = new Date('2026-01-01T00:00:00Z');
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: undefined, lastSwitchAt })
+    );
+    egress.failNext(new Error('egress unavailable'));
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-a',
+      reason: 'new-camera',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('egress unavailable');
+    expect(mockStreamStatusService.upsert).toHaveBeenLastCalledWith({
+      eventId: EVENT_ID,
+      currentActiveCamera: undefined,
+      lastSwitchAt,
+      egressId: undefined,
+    });
+    expect(mockEventLogService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        logType: 'stream_switch_failed',
+        metadata: expect.objectContaining({ reason: 'new-camera', error: 'egress unavailable' }),
+      })
+    );
+  });
+
+  it('should restore the previous camera egress when the new one fails to start', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-a', egressId: 'egress-old' })
+    );
+    // Switching to a camera that does not belong to the event fails after the stop
+    mockCameraService.getById.mockImplementation(async (id: string) =>
+      id === 'camera-x' ? { ...cameras['camera-a']!, id, eventId: 'other-event' } : cameras[id] ?? null
+    );
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-x',
+      reason: 'manual',
+    });
+
+    expect(result.success).toBe(false);
+    expect(egress.calls.map(call => call.type)).toEqual(['stop', 'start']);
+    const restored = egress.calls[1] as { type: 'start'; egressId: string };
+    expect(mockStreamStatusService.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        currentActiveCamera: 'camera-a',
+        egressId: restored.egressId,
+      })
+    );
+  });
+
+  it('should only track the on-air camera before the organizer goes live', async () => {
+    mockEventService.getById.mockResolvedValue({ ...event, status: 'scheduled' });
+    mockStreamStatusService.getByEventId.mockResolvedValue(createStatus());
+
+    const result = await StreamSwitcher.switchTo({
+      eventId: EVENT_ID,
+      cameraConnectionId: 'camera-a',
+      reason: 'new-camera',
+    });
+
+    expect(result).toMatchObject({ success: true, toCamera: 'camera-a', egressId: undefined });
+    expect(egress.calls).toEqual([]);
+  });
+
+  it('should start egress for the on-air camera when going live', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-b' })
+    );
+
+    const egressId = await StreamSwitcher.ensureEgress(EVENT_ID);
+
+    expect(egress.calls).toEqual([
+      expect.objectContaining({ type: 'start', egressId, target: expect.objectContaining({ participantIdentity: 'participant-b' }) }),
+    ]);
+    expect(mockStreamStatusService.upsert).toHaveBeenCalledWith({ eventId: EVENT_ID, egressId });
+  });
+
+  it('should restart the slate so a new standby image is shown', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: undefined, egressId: 'slate-egress' })
+    );
+
+    await StreamSwitcher.restartSlate(EVENT_ID);
+
+    expect(egress.calls.map(call => call.type)).toEqual(['stop', 'slate']);
+    expect(mockStreamStatusService.upsert).toHaveBeenCalledWith({
+      eventId: EVENT_ID,
+      egressId: egress.calls[1]!.egressId,
+    });
+  });
+
+  it('should leave a camera on air when the standby image changes', async () => {
+    mockStreamStatusService.getByEventId.mockResolvedValue(
+      createStatus({ currentActiveCamera: 'camera-a', egressId: 'egress-1' })
+    );
+
+    await StreamSwitcher.restartSlate(EVENT_ID);
+
+    expect(egress.calls).toEqual([]);
+  });
+});
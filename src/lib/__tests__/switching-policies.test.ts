@@ -0,0 +1,181 @@
+// Unit tests for automatic camera switching policies
+import {
+  checkSwitchWindow,
+  compareConnectionQuality,
+  getSwitchingPolicy,
+  type SwitchingContext,
+} from '../switching-policies';
+import type { CameraConnectionClient } from '@/types';
+
+const createCamera = (
+  id: string,
+  joinedAt: string,
+  streamQuality: CameraConnectionClient['streamQuality'] = {}
+): CameraConnectionClient => ({
+  id,
+  eventId: 'event-1',
+  participantId: `participant-${id}`,
+  deviceInfo: {},
+  streamQuality,
+  status: 'active',
+  joinedAt: new Date(joinedAt),
+  lastActiveAt: new Date(joinedAt),
+});
+
+const cameraA = createCamera('a', '2026-01-01T10:00:00Z', { resolution: '1280x720', bitrate: 2500 });
+const cameraB = createCamera('b', '2026-01-01T10:01:00Z', { resolution: '640x480', bitrate: 800 });
+const cameraC = createCamera('c', '2026-01-01T10:02:00Z', { resolution: '1080p', bitrate: 4000 });
+
+const createContext = (overrides: Partial<SwitchingContext> = {}): SwitchingContext => ({
+  activeCameras: [cameraA, cameraB, cameraC],
+  currentCameraId: 'a',
+  lastSwitchAt: new Date('2026-01-01T10:05:00Z'),
+  dwellSeconds: 30,
+  minOnAirSeconds: 0,
+  cooldownSeconds: 0,
+  now: new Date('2026-01-01T10:05:10Z'),
+  ...overrides,
+});
+
+describe('getSwitchingPolicy', () => {
+  it('should fall back to last-in-wins for unknown or unset policies', () => {
+    expect(getSwitchingPolicy(undefined).name).toBe('last-in-wins');
+    expect(getSwitchingPolicy('does-not-exist').name).toBe('last-in-wins');
+  });
+});
+
+describe('last-in-wins', () => {
+  const policy = getSwitchingPolicy('last-in-wins');
+
+  it('should switch to every camera that starts streaming', () => {
+    expect(policy.onCameraStarted(createContext(), 'b')).toEqual({ action: 'switch', cameraConnectionId: 'b' });
+  });
+
+  it('should fail over to the newest remaining camera', () => {
+    const context = createContext({ activeCameras: [cameraA, cameraB] });
+    expect(policy.onActiveCameraLost(context)).toEqual({ action: 'switch', cameraConnectionId: 'b' });
+  });
+
+  it('should go off air when no cameras remain', () => {
+    const context = createContext({ activeCameras: [] });
+    expect(policy.onActiveCameraLost(context)).toEqual({ action: 'switch', cameraConnectionId: undefined });
+  });
+});
+
+describe('manual-only', () => {
+  const policy = getSwitchingPolicy('manual-only');
+
+  it('should keep the current camera when another starts streaming', () => {
+    expect(policy.onCameraStarted(createContext(), 'c')).toEqual({ action: 'keep' });
+  });
+
+  it('should put the first camera on air when nothing is live', () => {
+    const context = createContext({ currentCameraId: undefined });
+    expect(policy.onCameraStarted(context, 'c')).toEqual({ action: 'switch', cameraConnectionId: 'c' });
+  });
+
+  it('should not rotate on ticks', () => {
+    expect(policy.onTick).toBeUndefined();
+  });
+});
+
+describe('round-robin', () => {
+  const policy = getSwitchingPolicy('round-robin');
+
+  it('should keep the current camera until the dwell time has passed', () => {
+    expect(policy.onTick?.(createContext())).toEqual({ action: 'keep' });
+  });
+
+  it('should rotate to the next camera in join order after the dwell time', () => {
+    const context = createContext({ now: new Date('2026-01-01T10:05:31Z') });
+    expect(policy.onTick?.(context)).toEqual({ action: 'switch', cameraConnectionId: 'b' });
+  });
+
+  it('should wrap around to the first camera', () => {
+    const context = createContext({ currentCameraId: 'c', now: new Date('2026-01-01T10:06:00Z') });
+    expect(policy.onTick?.(context)).toEqual({ action: 'switch', cameraConnectionId: 'a' });
+  });
+
+  it('should not interrupt the rotation when a new camera starts streaming', () => {
+    expect(policy.onCameraStarted(createContext(), 'c')).toEqual({ action: 'keep' });
+  });
+
+  it('should keep a single camera on air', () => {
+    const context = createContext({ activeCameras: [cameraA], now: new Date('2026-01-01T10:10:00Z') });
+    expect(policy.onTick?.(context)).toEqual({ action: 'keep' });
+  });
+});
+
+describe('best-quality', () => {
+  const policy = getSwitchingPolicy('best-quality');
+
+  it('should switch when a better camera starts streaming', () => {
+    expect(policy.onCameraStarted(createContext(), 'c')).toEqual({ action: 'switch', cameraConnectionId: 'c' });
+  });
+
+  it('should keep the current camera when the new one is worse', () => {
+    const context = createContext({ activeCameras: [cameraA, cameraB] });
+    expect(policy.onCameraStarted(context, 'b')).toEqual({ action: 'keep' });
+  });
+
+  it('should fail over to the best remaining camera', () => {
+    const context = createContext({ currentCameraId: 'c', activeCameras: [cameraA, cameraB] });
+    expect(policy.onActiveCameraLost(context)).toEqual({ action: 'switch', cameraConnectionId: 'a' });
+  });
+});
+
+describe('compareConnectionQuality', () => {
+  it('should rank resolution before bitrate', () => {
+    const highResLowBitrate = createCamera('x', '2026-01-01T10:00:00Z', { resolution: '720p', bitrate: 500 });
+    const lowResHighBitrate = createCamera('y', '2026-01-01T10:00:00Z', { resolution: '480p', bitrate: 5000 });
+
+    expect(compareConnectionQuality(highResLowBitrate, lowResHighBitrate)).toBeGreaterThan(0);
+  });
+
+  it('should treat missing quality reports as the lowest quality', () => {
+    const unknown = createCamera('z', '2026-01-01T10:00:00Z');
+    expect(compareConnectionQuality(unknown, cameraB)).toBeLessThan(0);
+  });
+});
+
+describe('checkSwitchWindow', () => {
+  const windows = { minOnAirSeconds: 20, cooldownSeconds: 5 };
+
+  it('should allow the first switch of an event', () => {
+    expect(checkSwitchWindow(createContext({ ...windows, lastSwitchAt: undefined }))).toEqual({ allowed: true });
+  });
+
+  it('should hold a streaming camera on air for the minimum on-air time', () => {
+    expect(checkSwitchWindow(createContext(windows))).toEqual({
+      allowed: false,
+      reason: 'min-on-air',
+      retryAt: new Date('2026-01-01T10:05:20Z'),
+    });
+  });
+
+  it('should only apply the cooldown when the on-air camera is gone', () => {
+    const context = createContext({
+      ...windows,
+      activeCameras: [cameraB, cameraC],
+      now: new Date('2026-01-01T10:05:02Z'),
+    });
+
+    expect(checkSwitchWindow(context)).toEqual({
+      allowed: false,
+      reason: 'cooldown',
+      retryAt: new Date('2026-01-01T10:05:05Z'),
+    });
+  });
+
+  it('should lock out automatic switching after a manual take', () => {
+    const lockedUntil = new Date('2026-01-01T10:06:00Z');
+    const context = createContext({ ...windows, autoSwitchLockedUntil: lockedUntil, now: new Date('2026-01-01T10:05:30Z') });
+
+    expect(checkSwitchWindow(context)).toEqual({ allowed: false, reason: 'manual-lockout', retryAt: lockedUntil });
+  });
+
+  it('should allow switching once both windows have passed', () => {
+    const context = createContext({ ...windows, now: new Date('2026-01-01T10:05:20Z') });
+    expect(checkSwitchWindow(context)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for passphrase-protected watch pages
+jest.mock('../database', () => ({
+  EventSecretService: {
+    getViewerPassphraseHash: jest.fn(),
+  },
+}));
+
+jest.mock('../auth', () => ({
+  AuthService: {
+    generateViewerToken: jest.fn(),
+    verifyToken: jest.fn(),
+  },
+}));
+
+import { AuthService } from '../auth';
+import { EventSecretService } from '../database';
+import { MemoryRateLimitStore, setRateLimitStore } from '../rate-limit';
+import { hashSecret } from '../secret-hash';
+import {
+  VIEWER_PASSPHRASE_BACKOFF,
+  ViewerAccess,
+  getViewerPassphraseVersion,
+  toPublicEvent,
+} from '../viewer-access';
+import type { EventClient } from '@/types';
+
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockEventSecretService = EventSecretService as jest.Mocked<typeof EventSecretService>;
+
+const EVENT_ID = 'event-1';
+
+describe('ViewerAccess', () => {
+  let passphraseHash: string;
+
+  beforeAll(async () => {
+    passphraseHash = await hashSecret('sports-day-2026');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    mockEventSecretService.getViewerPassphraseHash.mockResolvedValue(passphraseHash);
+    mockAuthService.generateViewerToken.mockResolvedValue('viewer-token');
+  });
+
+  it('should let everyone watch events without a passphrase', async () => {
+    mockEventSecretService.getViewerPassphraseHash.mockResolvedValue(null);
+
+    expect(await ViewerAccess.check(EVENT_ID)).toEqual({ required: false, granted: true });
+    expect(await ViewerAccess.exchange(EVENT_ID, 'anything', 'client-1')).toEqual({ status: 'not-required' });
+  });
+
+  it('should issue a viewer token for the right passphrase only', async () => {
+    expect(await ViewerAccess.exchange(EVENT_ID, 'wrong-guess', 'client-1')).toEqual({
+      status: 'wrong-passphrase',
+      retryAfterMs: 0,
+    });
+    expect(mockAuthService.generateViewerToken).not.toHaveBeenCalled();
+
+    expect(await ViewerAccess.exchange(EVENT_ID, 'sports-day-2026', 'client-1')).toEqual({
+      status: 'ok',
+      token: 'viewer-token',
+    });
+    expect(mockAuthService.generateViewerToken).toHaveBeenCalledWith(
+      expect.stringMatching(/^viewer-/),
+      EVENT_ID,
+      getViewerPassphraseVersion(passphraseHash)
+    );
+  });
+
+  it('should make a client wait after repeated wrong passphrases', async () => {
+    for (let i = 0; i < VIEWER_PASSPHRASE_BACKOFF.freeFailures; i++) {
+      await ViewerAccess.exchange(EVENT_ID, 'wrong-guess', 'client-1');
+    }
+
+    expect(await ViewerAccess.exchange(EVENT_ID, 'wrong-guess', 'client-1')).toEqual({
+      status: 'wrong-passphrase',
+      retryAfterMs: VIEWER_PASSPHRASE_BACKOFF.baseDelayMs,
+    });
+    // Even the right passphrase has to wait
+    expect(await ViewerAccess.exchange(EVENT_ID, 'sports-day-2026', 'client-1')).toMatchObject({
+      status: 'throttled',
+    });
+    expect(await ViewerAccess.exchange(EVENT_ID, 'sports-day-2026', 'client-2')).toMatchObject({ status: 'ok' });
+  });
+
+  it('should only accept viewer sessions issued for the current passphrase', async () => {
+    const session = {
+      sub: 'viewer-1',
+      type: 'viewer' as const,
+      eventId: EVENT_ID,
+      passphraseVersion: getViewerPassphraseVersion(passphraseHash),
+      iat: 0,
+      exp: 0,
+      iss: 'harecame',
+      aud: 'harecame-app',
+    };
+
+    expect(await ViewerAccess.check(EVENT_ID)).toEqual({ required: true, granted: false });
+
+    mockAuthService.verifyToken.mockResolvedValue(session);
+    expect(await ViewerAccess.check(EVENT_ID, 'token')).toEqual({ required: true, granted: true });
+
+    // Another event's session
+    mockAuthService.verifyToken.mockResolvedValue({ ...session, eventId: 'event-2' });
+    expect((await ViewerAccess.check(EVENT_ID, 'token')).granted).toBe(false);
+
+    // The organizer changed the passphrase
+    mockAuthService.verifyToken.mockResolvedValue(session);
+    mockEventSecretService.getViewerPassphraseHash.mockResolvedValue(await hashSecret('new-passphrase'));
+    expect((await ViewerAccess.check(EVENT_ID, 'token')).granted).toBe(false);
+  });
+});
+
+describe('toPublicEvent', () => {
+  it('should leave out the participation code, stream key and locked broadcasts', () => {
+    const event: EventClient = {
+      id: EVENT_ID,
+      title: 'Sports Day',
+      status: 'live',
+      participationCode: 'ABC123',
+      participationCodeVersion: 2,
+      youtubeStreamKey: 'stream-key',
+      youtubeStreamUrl: 'https://www.youtube.com/watch?v=video-1',
+      youtubeVideoId: 'video-1',
+      livekitRoomName: 'event_room_1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const publicEvent = toPublicEvent(event, { required: false, granted: true });
+
+    expect(publicEvent).not.toHaveProperty('participationCode');
+    expect(publicEvent).not.toHaveProperty('participationCodeVersion');
+    expect(publicEvent).not.toHaveProperty('youtubeStreamKey');
+    expect(publicEvent).toMatchObject({ id: EVENT_ID, title: 'Sports Day', youtubeStreamUrl: event.youtubeStreamUrl });
+
+    // Behind a passphrase the broadcast stays hidden until the viewer enters it
+    const lockedEvent = toPublicEvent(event, { required: true, granted: false });
+    expect(lockedEvent).not.toHaveProperty('youtubeStreamUrl');
+    expect(lockedEvent).not.toHaveProperty('youtubeVideoId');
+    expect(lockedEvent).toMatchObject({ id: EVENT_ID, title: 'Sports Day' });
+  });
+});
@@ -0,0 +1,238 @@
+// Unit tests for policy-driven switching in the WebSocket event handler
+jest.mock('../database', () => ({
+  EventService: {
+    getById: jest.fn(),
+  },
+  CameraConnectionService: {
+    getByEventId: jest.fn(),
+    updateStatus: jest.fn(),
+  },
+  StreamStatusService: {
+    getByEventId: jest.fn(),
+    upsert: jest.fn(),
+  },
+  EventLogService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../switcher', () => ({
+  StreamSwitcher: {
+    switchTo: jest.fn(),
+  },
+}));
+
+jest.mock('../broadcast-lifecycle', () => ({
+  BroadcastLifecycle: {
+    onCameraActive: jest.fn(),
+  },
+}));
+
+import { WebSocketEventHandler, type CameraStartedStreamingEvent } from '../websocket';
+import { StreamSwitcher } from '../switcher';
+import {
+  EventService,
+  CameraConnectionService,
+  StreamStatusService,
+  EventLogService,
+} from '../database';
+import type { CameraConnectionClient, EventClient, StreamStatusClient } from '@/types';
+
+const mockEventService = EventService as jest.Mocked<typeof EventService>;
+const mockCameraService = CameraConnectionService as jest.Mocked<typeof CameraConnectionService>;
+const mockStreamStatusService = StreamStatusService as jest.Mocked<typeof StreamStatusService>;
+const mockEventLogService = EventLogService as jest.Mocked<typeof EventLogService>;
+const mockSwitchTo = StreamSwitcher.switchTo as jest.MockedFunction<typeof StreamSwitcher.switchTo>;
+
+const EVENT_ID = 'event-1';
+
+const event: EventClient = {
+  id: EVENT_ID,
+  title: 'Sports Day',
+  status: 'live',
+  participationCode: 'ABC123',
+  livekitRoomName: 'event_room_1',
+  switchingPolicy: 'last-in-wins',
+  minOnAirSeconds: 10,
+  switchCooldownSeconds: 3,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const createCamera = (id: string): CameraConnectionClient => ({
+  id,
+  eventId: EVENT_ID,
+  participantId: `participant-${id}`,
+  deviceInfo: {},
+  streamQuality: {},
+  status: 'active',
+  joinedAt: new Date(),
+  lastActiveAt: new Date(),
+});
+
+const startedEvent = (cameraId: string): CameraStartedStreamingEvent => ({
+  type: 'camera-started-streaming',
+  eventId: EVENT_ID,
+  participantId: `participant-${cameraId}`,
+  cameraConnectionId: cameraId,
+  timestamp: Date.now(),
+  data: {
+    streamQuality: { resolution: '1280x720', frameRate: 30, bitrate: 2500, codec: 'h264' },
+  },
+});
+
+const suppressedLogs = () =>
+  mockEventLogService.create.mock.calls
+    .map(([log]) => log)
+    .filter(log => log.logType === 'stream_switch_suppressed');
+
+describe('WebSocketEventHandler switching', () => {
+  let status: StreamStatusClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+
+    status = {
+      id: 'status-1',
+      eventId: EVENT_ID,
+      isLive: false,
+      activeCameraCount: 0,
+      youtubeViewerCount: 0,
+      streamHealth: 'unknown',
+      updatedAt: new Date(),
+    };
+
+    mockEventService.getById.mockResolvedValue(event);
+    mockCameraService.getByEventId.mockResolvedValue([createCamera('camera-a'), createCamera('camera-b')]);
+    mockCameraService.updateStatus.mockImplementation(async (id: string) => createCamera(id));
+    mockStreamStatusService.getByEventId.mockImplementation(async () => ({ ...status }));
+    mockStreamStatusService.upsert.mockImplementation(async () => status);
+
+    // Behave like the real switcher: record the on-air camera and switch time
+    mockSwitchTo.mockImplementation(async ({ cameraConnectionId }) => {
+      const fromCamera = status.currentActiveCamera;
+      status = { ...status, currentActiveCamera: cameraConnectionId, lastSwitchAt: new Date() };
+      return { success: true, fromCamera, toCamera: cameraConnectionId };
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should switch only once when two cameras start at the same time', async () => {
+    await Promise.all([
+      WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a')),
+      WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-b')),
+    ]);
+
+    expect(mockSwitchTo).toHaveBeenCalledTimes(1);
+    expect(status.currentActiveCamera).toBe('camera-a');
+    expect(suppressedLogs()).toEqual([
+      expect.objectContaining({
+        cameraConnectionId: 'camera-b',
+        metadata: expect.objectContaining({ suppressedBy: 'min-on-air', action: 'queued' }),
+      }),
+    ]);
+  });
+
+  it('should apply the queued switch once the minimum on-air time has passed', async () => {
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a'));
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-b'));
+
+    await jest.advanceTimersByTimeAsync(9_000);
+    expect(status.currentActiveCamera).toBe('camera-a');
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(mockSwitchTo).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cameraConnectionId: 'camera-b', reason: 'new-camera' })
+    );
+    expect(status.currentActiveCamera).toBe('camera-b');
+  });
+
+  it('should drop a queued switch that is superseded by a newer request', async () => {
+    mockCameraService.getByEventId.mockResolvedValue(
+      ['camera-a', 'camera-b', 'camera-c'].map(createCamera)
+    );
+
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a'));
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-b'));
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-c'));
+
+    expect(suppressedLogs()).toContainEqual(
+      expect.objectContaining({
+        cameraConnectionId: 'camera-b',
+        metadata: expect.objectContaining({ suppressedBy: 'superseded', action: 'dropped' }),
+      })
+    );
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(mockSwitchTo).toHaveBeenCalledTimes(2);
+    expect(status.currentActiveCamera).toBe('camera-c');
+  });
+
+  it('should drop a queued switch when its camera stops streaming', async () => {
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a'));
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-b'));
+
+    mockCameraService.getByEventId.mockResolvedValue([createCamera('camera-a')]);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(mockSwitchTo).toHaveBeenCalledTimes(1);
+    expect(suppressedLogs()).toContainEqual(
+      expect.objectContaining({
+        cameraConnectionId: 'camera-b',
+        metadata: expect.objectContaining({ suppressedBy: 'camera-unavailable', action: 'dropped' }),
+      })
+    );
+  });
+
+  it('should put a camera on air immediately on a manual take', async () => {
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a'));
+
+    const result = await WebSocketEventHandler.handleManualSwitch(EVENT_ID, 'camera-b');
+
+    expect(result.success).toBe(true);
+    expect(mockSwitchTo).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cameraConnectionId: 'camera-b', reason: 'manual' })
+    );
+    expect(mockEventLogService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        logType: 'stream_switched',
+        metadata: expect.objectContaining({ toCamera: 'camera-b', reason: 'manual' }),
+      })
+    );
+  });
+
+  it('should hold automatic switches until the manual lockout ends', async () => {
+    mockStreamStatusService.upsert.mockImplementation(async (data) => {
+      status = { ...status, ...data };
+      return status;
+    });
+
+    await WebSocketEventHandler.handleManualSwitch(EVENT_ID, 'camera-a', { lockoutSeconds: 60 });
+    expect(status.autoSwitchLockedUntil).toEqual(new Date('2026-01-01T10:01:00Z'));
+
+    await WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-b'));
+    expect(suppressedLogs()).toEqual([
+      expect.objectContaining({
+        cameraConnectionId: 'camera-b',
+        metadata: expect.objectContaining({ suppressedBy: 'manual-lockout', action: 'queued' }),
+      }),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(status.currentActiveCamera).toBe('camera-b');
+  });
+
+  it('should reject when the camera state cannot be saved', async () => {
+    mockCameraService.updateStatus.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(
+      WebSocketEventHandler.handleCameraStartedStreaming(startedEvent('camera-a'))
+    ).rejects.toThrow('database unavailable');
+    expect(mockSwitchTo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the YouTube OAuth flow and per-organizer clients
+jest.mock('../database', () => ({
+  YouTubeConnectionService: {
+    getByOrganizerId: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('../auth', () => ({
+  AuthService: {
+    extractTokenFromRequest: jest.fn(),
+    verifyToken: jest.fn(),
+  },
+  JWTSecurityValidator: {
+    getEncodedSecret: () => new Uint8Array(32),
+  },
+  SessionService: {
+    extractSessionToken: jest.fn(),
+  },
+}));
+
+// jose is ESM-only; an unsigned stand-in is enough to exercise the state claims
+jest.mock('jose', () => ({
+  SignJWT: class {
+    private claims: Record<string, unknown>;
+    constructor(payload: Record<string, unknown>) {
+      this.claims = { ...payload };
+    }
+    setProtectedHeader() { return this; }
+    setSubject(sub: string) { this.claims.sub = sub; return this; }
+    setAudience(aud: string) { this.claims.aud = aud; return this; }
+    setIssuedAt() { return this; }
+    setExpirationTime() { return this; }
+    async sign() { return Buffer.from(JSON.stringify(this.claims)).toString('base64url'); }
+  },
+  jwtVerify: async (token: string, _secret: Uint8Array, options: { audience: string }) => {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString());
+    if (payload.aud !== options.audience) throw new Error('unexpected "aud" claim value');
+    return { payload };
+  },
+}));
+
+import { randomBytes } from 'crypto';
+import {
+  buildYouTubeAuthorizationUrl,
+  connectYouTubeChannel,
+  createOAuthState,
+  exchangeAuthorizationCode,
+  getYouTubeClientForOrganizer,
+  resolveYouTubeClient,
+  sanitizeReturnTo,
+  verifyOAuthState,
+} from '../youtube-oauth';
+import { decryptSecret } from '../token-encryption';
+import { GOOGLE_TOKEN_URL, MockYouTubeClient, setYouTubeClient, type FetchLike } from '../youtube';
+import { YouTubeConnectionService } from '../database';
+import type { YouTubeConnectionClient } from '@/types';
+
+const mockConnectionService = YouTubeConnectionService as jest.Mocked<typeof YouTubeConnectionService>;
+
+// jest.setup stubs Response without a body reader, so hand back the parts the client reads
+const jsonResponse = (status: number, body: unknown) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  }) as Response;
+
+// Fake Google token endpoint and YouTube API
+function createFakeGoogle() {
+  const tokenRequests: URLSearchParams[] = [];
+  const authorizations: string[] = [];
+  let issued = 0;
+
+  const fetch: FetchLike = async (input, init = {}) => {
+    if (input === GOOGLE_TOKEN_URL) {
+      const body = new URLSearchParams(init.body as string);
+      tokenRequests.push(body);
+
+      if (body.get('grant_type') === 'authorization_code') {
+        return body.get('code') === 'valid-code'
+          ? jsonResponse(200, {
+              access_token: 'access-from-code',
+              refresh_token: 'refresh-token-1',
+              expires_in: 3600,
+              scope: 'https://www.googleapis.com/auth/youtube',
+            })
+          : jsonResponse(400, { error: 'invalid_grant', error_description: 'Bad code' });
+      }
+      issued += 1;
+      return jsonResponse(200, { access_token: `refreshed-${issued}`, expires_in: 3600 });
+    }
+
+    authorizations.push((init.headers as Record<string, string>).Authorization ?? '');
+    if (input.includes('/channels')) {
+      return jsonResponse(200, { items: [{ id: 'UC123', snippet: { title: 'School Channel' } }] });
+    }
+    return jsonResponse(200, { items: [] });
+  };
+
+  return { fetch, tokenRequests, authorizations };
+}
+
+const storedConnection = (overrides: Partial<YouTubeConnectionClient> = {}): YouTubeConnectionClient => ({
+  id: 'connection-1',
+  organizerId: 'admin',
+  channelId: 'UC123',
+  channelTitle: 'School Channel',
+  encryptedRefreshToken: '',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('YouTube OAuth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = {
+      ...originalEnv,
+      YOUTUBE_CLIENT_ID: 'client-id',
+      YOUTUBE_CLIENT_SECRET: 'client-secret',
+      TOKEN_ENCRYPTION_KEY: randomBytes(32).toString('base64'),
+    };
+    delete process.env.YOUTUBE_MODE;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setYouTubeClient(null);
+    jest.useRealTimers();
+  });
+
+  it('should request offline access to the youtube scope', () => {
+    const url = new URL(
+      buildYouTubeAuthorizationUrl({
+        clientId: 'client-id',
+        redirectUri: 'https://harecame.example/api/integrations/youtube/callback',
+        state: 'state-1',
+      })
+    );
+
+    expect(url.searchParams.get('access_type')).toBe('offline');
+    expect(url.searchParams.get('prompt')).toBe('consent');
+    expect(url.searchParams.get('scope')).toBe('https://www.googleapis.com/auth/youtube');
+    expect(url.searchParams.get('state')).toBe('state-1');
+  });
+
+  it('should only accept the state together with the nonce cookie', async () => {
+    const { state, nonce } = await createOAuthState('admin', '/events/create');
+
+    expect(await verifyOAuthState(state, nonce)).toEqual({ organizerId: 'admin', returnTo: '/events/create' });
+    expect(await verifyOAuthState(state, 'other-nonce')).toBeNull();
+    expect(await verifyOAuthState(state, undefined)).toBeNull();
+  });
+
+  it('should only return to same-origin paths', () => {
+    expect(sanitizeReturnTo('/events/1/dashboard')).toBe('/events/1/dashboard');
+    expect(sanitizeReturnTo('https://evil.example')).toBe('/events/create');
+    expect(sanitizeReturnTo('//evil.example')).toBe('/events/create');
+  });
+
+  it('should reject authorization codes Google does not accept', async () => {
+    const google = createFakeGoogle();
+
+    await expect(
+      exchangeAuthorizationCode({ code: 'stale-code', redirectUri: 'https://harecame.example/cb', fetch: google.fetch })
+    ).rejects.toMatchObject({ status: 400, reason: 'invalid_grant' });
+  });
+
+  it('should store the refresh token encrypted against the organizer', async () => {
+    const google = createFakeGoogle();
+    mockConnectionService.upsert.mockImplementation(async data => storedConnection(data));
+
+    const connection = await connectYouTubeChannel({
+      organizerId: 'admin',
+      code: 'valid-code',
+      redirectUri: 'https://harecame.example/cb',
+      fetch: google.fetch,
+    });
+
+    const saved = mockConnectionService.upsert.mock.calls[0]![0];
+    expect(saved).toMatchObject({ organizerId: 'admin', channelId: 'UC123', channelTitle: 'School Channel' });
+    expect(saved.encryptedRefreshToken).not.toContain('refresh-token-1');
+    expect(decryptSecret(saved.encryptedRefreshToken)).toBe('refresh-token-1');
+    expect(connection.channelId).toBe('UC123');
+  });
+
+  it('should refresh the organizer access token automatically', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+    const google = createFakeGoogle();
+    mockConnectionService.upsert.mockImplementation(async data => storedConnection(data));
+
+    await connectYouTubeChannel({
+      organizerId: 'admin',
+      code: 'valid-code',
+      redirectUri: 'https://harecame.example/cb',
+      fetch: google.fetch,
+    });
+    mockConnectionService.getByOrganizerId.mockResolvedValue(
+      storedConnection(mockConnectionService.upsert.mock.calls[0]![0])
+    );
+
+    const client = await getYouTubeClientForOrganizer('admin');
+    await client!.getBroadcastStatus('broadcast-1').catch(() => undefined);
+
+    // The access token from the code exchange is reused until it expires
+    expect(google.authorizations.at(-1)).toBe('Bearer access-from-code');
+
+    jest.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+    await client!.getBroadcastStatus('broadcast-1').catch(() => undefined);
+
+    expect(google.authorizations.at(-1)).toBe('Bearer refreshed-1');
+    expect(google.tokenRequests.at(-1)?.get('refresh_token')).toBe('refresh-token-1');
+  });
+
+  it('should fall back to the app-wide client when the organizer has no channel', async () => {
+    const fallback = new MockYouTubeClient();
+    setYouTubeClient(fallback);
+    mockConnectionService.getByOrganizerId.mockResolvedValue(null);
+
+    expect(await resolveYouTubeClient('organizer-1')).toBe(fallback);
+    expect(await resolveYouTubeClient(undefined)).toBe(fallback);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the YouTube Data API quota ledger
+import {
+  YouTubeQuotaLedger,
+  getNextQuotaReset,
+  getQuotaDay,
+  getYouTubeQuotaCost,
+} from '../youtube-quota';
+import { MemoryRateLimitStore } from '../rate-limit';
+
+describe('YouTube quota day', () => {
+  it('should follow Pacific time', () => {
+    // 07:59Z is still the previous day in Los Angeles (UTC-8 in winter)
+    expect(getQuotaDay(new Date('2026-01-02T07:59:00Z'))).toBe('2026-01-01');
+    expect(getQuotaDay(new Date('2026-01-02T08:00:00Z'))).toBe('2026-01-02');
+  });
+
+  it('should reset at the next Pacific midnight', () => {
+    expect(getNextQuotaReset(new Date('2026-01-01T10:00:00Z'))).toEqual(new Date('2026-01-02T08:00:00Z'));
+    // Daylight saving time (UTC-7)
+    expect(getNextQuotaReset(new Date('2026-07-01T10:00:00.500Z'))).toEqual(new Date('2026-07-02T07:00:00Z'));
+  });
+});
+
+describe('getYouTubeQuotaCost', () => {
+  it('should charge reads 1 unit and writes 50 units', () => {
+    expect(getYouTubeQuotaCost('GET', '/videos')).toBe(1);
+    expect(getYouTubeQuotaCost('POST', '/liveBroadcasts/transition')).toBe(50);
+    expect(getYouTubeQuotaCost('POST', '/somethingNew')).toBe(50);
+  });
+});
+
+describe('YouTubeQuotaLedger', () => {
+  const NOW = new Date('2026-01-01T10:00:00Z');
+  const NEXT_DAY = new Date('2026-01-02T08:00:00Z');
+
+  it('should count units per day and per broadcast', async () => {
+    const ledger = new YouTubeQuotaLedger(100, new MemoryRateLimitStore());
+
+    await ledger.record(50, 'broadcast-1', NOW);
+    await ledger.record(1, 'broadcast-2', NOW);
+    await ledger.record(1, 'broadcast-1', NOW);
+
+    expect(await ledger.getUsage(NOW)).toMatchObject({ day: '2026-01-01', limit: 100, used: 52, remaining: 48 });
+    expect(await ledger.getBroadcastUsage('broadcast-1', NOW)).toBe(51);
+    expect(await ledger.getTopBroadcasts(1, NOW)).toEqual([{ broadcastId: 'broadcast-1', used: 51 }]);
+
+    // A new quota day starts from zero
+    expect(await ledger.getUsage(NEXT_DAY)).toMatchObject({ day: '2026-01-02', used: 0, remaining: 100 });
+    expect(await ledger.getBroadcastUsage('broadcast-1', NEXT_DAY)).toBe(0);
+  });
+
+  it('should cool down until the reset once the quota is exceeded', async () => {
+    const ledger = new YouTubeQuotaLedger(100, new MemoryRateLimitStore());
+
+    expect(await ledger.enterCooldown(NOW)).toEqual(NEXT_DAY);
+    expect(await ledger.getUsage(NOW)).toMatchObject({ remaining: 0, cooldownUntil: NEXT_DAY });
+    expect(await ledger.getCooldownUntil(new Date(NEXT_DAY.getTime() - 1))).toEqual(NEXT_DAY);
+    expect(await ledger.getCooldownUntil(NEXT_DAY)).toBeNull();
+  });
+
+  it('should share usage between ledgers on the same store', async () => {
+    // e.g. another instance, or this one after a restart
+    const store = new MemoryRateLimitStore();
+    await new YouTubeQuotaLedger(100, store).record(50, 'broadcast-1', NOW);
+    await new YouTubeQuotaLedger(100, store).enterCooldown(NOW);
+
+    const ledger = new YouTubeQuotaLedger(100, store);
+    expect(await ledger.getUsage(NOW)).toMatchObject({ used: 100, remaining: 0, cooldownUntil: NEXT_DAY });
+    expect(await ledger.getBroadcastUsage('broadcast-1', NOW)).toBe(50);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the YouTube Data API client against a fake API server
+import {
+  YouTubeApiError,
+  YouTubeClient,
+  YouTubeQuotaExceededError,
+  createRefreshTokenProvider,
+  formatDuration,
+  setYouTubeClient,
+  startYouTubeLiveStream,
+  type FetchLike,
+  type YouTubeApi,
+} from '../youtube';
+import { YouTubeQuotaLedger } from '../youtube-quota';
+import { MemoryRateLimitStore } from '../rate-limit';
+
+// jest.setup stubs Response without a body reader, so hand back the parts the client reads
+const jsonResponse = (status: number, body: unknown) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  }) as Response;
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+// Minimal in-memory YouTube API: enough of liveBroadcasts, liveStreams and videos
+function createFakeYouTubeServer() {
+  const requests: RecordedRequest[] = [];
+  const broadcasts = new Map<string, { lifeCycleStatus: string; boundStreamId?: string }>();
+  let nextId = 1;
+
+  const fetch: FetchLike = async (input, init = {}) => {
+    const url = new URL(input);
+    const request: RecordedRequest = {
+      method: init.method ?? 'GET',
+      path: url.pathname.replace('/youtube/v3', ''),
+      query: url.searchParams,
+      headers: (init.headers ?? {}) as Record<string, string>,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    requests.push(request);
+
+    const id = url.searchParams.get('id') ?? '';
+
+    switch (`${request.method} ${request.path}`) {
+      case 'POST /liveBroadcasts': {
+        const broadcastId = `broadcast-${nextId++}`;
+        broadcasts.set(broadcastId, { lifeCycleStatus: 'created' });
+        return jsonResponse(200, {
+          id: broadcastId,
+          snippet: { ...(request.body?.snippet as object), liveChatId: 'chat-1' },
+          status: { lifeCycleStatus: 'created' },
+        });
+      }
+      case 'POST /liveStreams':
+        return jsonResponse(200, {
+          id: `stream-${nextId++}`,
+          cdn: { ingestionInfo: { streamName: 'abcd-efgh-ijkl', ingestionAddress: 'rtmp://a.rtmp.youtube.com/live2' } },
+        });
+      case 'POST /liveBroadcasts/bind': {
+        const broadcast = broadcasts.get(id);
+        if (!broadcast) return jsonResponse(404, { error: { code: 404, message: 'Not found', errors: [{ reason: 'liveBroadcastNotFound' }] } });
+        broadcast.boundStreamId = url.searchParams.get('streamId') ?? undefined;
+        return jsonResponse(200, { id });
+      }
+      case 'POST /liveBroadcasts/transition': {
+        const broadcast = broadcasts.get(id)!;
+        const target = url.searchParams.get('broadcastStatus');
+        const allowed =
+          (target === 'testing' && broadcast.lifeCycleStatus === 'created') ||
+          (target === 'live' && broadcast.lifeCycleStatus === 'testing') ||
+          (target === 'complete' && broadcast.lifeCycleStatus === 'live');
+        if (!allowed) {
+          return jsonResponse(403, { error: { code: 403, message: 'Invalid transition', errors: [{ reason: 'invalidTransition' }] } });
+        }
+        broadcast.lifeCycleStatus = target!;
+        return jsonResponse(200, { id, status: { lifeCycleStatus: target } });
+      }
+      case 'GET /liveBroadcasts': {
+        const broadcast = broadcasts.get(id);
+        return jsonResponse(200, {
+          items: broadcast
+            ? [{ id, status: { lifeCycleStatus: broadcast.lifeCycleStatus }, contentDetails: { boundStreamId: broadcast.boundStreamId } }]
+            : [],
+        });
+      }
+      case 'GET /liveStreams':
+        return jsonResponse(200, {
+          items: [
+            {
+              id,
+              status: {
+                healthStatus: {
+                  status: 'bad',
+                  configurationIssues: [{ type: 'bitrateLow', severity: 'error', description: 'The bitrate is too low' }],
+                },
+              },
+            },
+          ],
+        });
+      case 'GET /videos':
+        return jsonResponse(200, {
+          items: [
+            {
+              id,
+              liveStreamingDetails: {
+                actualStartTime: '2026-01-01T10:00:00Z',
+                concurrentViewers: '42',
+              },
+            },
+          ],
+        });
+      default:
+        return jsonResponse(404, { error: { code: 404, message: 'Unknown endpoint' } });
+    }
+  };
+
+  return { fetch, requests, broadcasts };
+}
+
+describe('YouTubeClient', () => {
+  let server: ReturnType<typeof createFakeYouTubeServer>;
+  let client: YouTubeClient;
+  let ledger: YouTubeQuotaLedger;
+
+  beforeEach(() => {
+    server = createFakeYouTubeServer();
+    ledger = new YouTubeQuotaLedger(10000, new MemoryRateLimitStore());
+    client = new YouTubeClient({
+      fetch: server.fetch,
+      getAccessToken: async () => 'access-token',
+      apiKey: 'api-key',
+      quotaLedger: ledger,
+    });
+  });
+
+  afterEach(() => {
+    setYouTubeClient(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should create an unlisted broadcast and stream and bind them', async () => {
+    const stream = await client.createLiveStream({
+      title: 'Sports Day',
+      privacy: 'unlisted',
+      scheduledStartTime: new Date('2026-01-01T09:00:00Z'),
+    });
+
+    expect(server.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+      'POST /liveBroadcasts',
+      'POST /liveStreams',
+      'POST /liveBroadcasts/bind',
+    ]);
+    expect(server.requests[0]!.body).toMatchObject({
+      status: { privacyStatus: 'unlisted' },
+      snippet: { title: 'Sports Day', scheduledStartTime: '2026-01-01T09:00:00.000Z' },
+    });
+    expect(server.requests[0]!.headers.Authorization).toBe('Bearer access-token');
+    expect(server.broadcasts.get(stream.id)?.boundStreamId).toBe(stream.liveStreamId);
+    expect(stream).toMatchObject({
+      streamUrl: `https://www.youtube.com/watch?v=${stream.id}`,
+      streamKey: 'abcd-efgh-ijkl',
+      status: 'created',
+      chatId: 'chat-1',
+    });
+  });
+
+  it('should transition a broadcast testing → live → complete', async () => {
+    const { id } = await client.createLiveStream({ title: 'Sports Day', privacy: 'unlisted' });
+
+    expect(await client.transitionBroadcast(id, 'testing')).toBe('testing');
+    expect(await client.transitionBroadcast(id, 'live')).toBe('live');
+    expect(await client.transitionBroadcast(id, 'complete')).toBe('complete');
+    expect(await client.getBroadcastStatus(id)).toBe('complete');
+  });
+
+  it('should surface API errors with their reason', async () => {
+    const { id } = await client.createLiveStream({ title: 'Sports Day', privacy: 'unlisted' });
+
+    const error = await client.transitionBroadcast(id, 'complete').catch(e => e);
+    expect(error).toBeInstanceOf(YouTubeApiError);
+    expect(error).toMatchObject({ status: 403, reason: 'invalidTransition' });
+  });
+
+  it('should read concurrent viewers with the API key', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T11:30:05Z') });
+
+    const stats = await client.getStreamStats('video-1');
+
+    expect(stats).toEqual({ viewerCount: 42, isLive: true, duration: '01:30:05' });
+    const request = server.requests[0]!;
+    expect(request.query.get('key')).toBe('api-key');
+    expect(request.headers.Authorization).toBeUndefined();
+  });
+
+  it('should read ingestion health from the stream bound to the broadcast', async () => {
+    const { id, liveStreamId } = await client.createLiveStream({ title: 'Sports Day', privacy: 'unlisted' });
+
+    expect(await client.getStreamHealth(id)).toEqual({ status: 'bad', issues: ['The bitrate is too low'] });
+    await client.getStreamHealth(id);
+
+    // The bound stream is looked up once per broadcast
+    const lookups = server.requests.filter(request => request.path === '/liveBroadcasts' && request.method === 'GET');
+    expect(lookups).toHaveLength(1);
+    expect(server.requests.at(-1)?.query.get('id')).toBe(liveStreamId);
+  });
+
+  it('should charge each call to the quota ledger', async () => {
+    const { id } = await client.createLiveStream({ title: 'Sports Day', privacy: 'unlisted' });
+    await client.getStreamStats(id);
+
+    // Two inserts and a bind at 50 units each, one list call
+    expect(await ledger.getUsage()).toMatchObject({ used: 151, remaining: 9849 });
+    expect(await ledger.getBroadcastUsage(id)).toBe(51);
+  });
+
+  it('should pause calls until the daily reset after quotaExceeded', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(async () =>
+      jsonResponse(403, { error: { code: 403, message: 'Quota exceeded', errors: [{ reason: 'quotaExceeded' }] } })
+    );
+    client = new YouTubeClient({ fetch, getAccessToken: async () => 'access-token', quotaLedger: ledger });
+
+    const error = await client.getStreamStats('video-1').catch(e => e);
+    expect(error).toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(error.retryAt).toEqual((await ledger.getUsage()).cooldownUntil);
+    expect((await ledger.getUsage()).remaining).toBe(0);
+
+    // Refused locally without calling YouTube again
+    await expect(client.getStreamStats('video-1')).rejects.toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should go through testing before going live', async () => {
+    const { id } = await client.createLiveStream({ title: 'Sports Day', privacy: 'unlisted' });
+    setYouTubeClient(client as YouTubeApi);
+
+    await startYouTubeLiveStream(id);
+
+    expect(server.broadcasts.get(id)?.lifeCycleStatus).toBe('live');
+  });
+});
+
+describe('createRefreshTokenProvider', () => {
+  it('should exchange the refresh token and cache the access token', async () => {
+    const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>(async () =>
+      jsonResponse(200, { access_token: 'token-1', expires_in: 3600 })
+    );
+    const getAccessToken = createRefreshTokenProvider({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'refresh-token',
+      fetch,
+    });
+
+    expect(await getAccessToken()).toBe('token-1');
+    expect(await getAccessToken()).toBe('token-1');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(String(fetch.mock.calls[0]![1]?.body)).toContain('grant_type=refresh_token');
+  });
+
+  it('should fail when the refresh token is rejected', async () => {
+    const getAccessToken = createRefreshTokenProvider({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'revoked',
+      fetch: async () => jsonResponse(400, { error: 'invalid_grant' }),
+    });
+
+    await expect(getAccessToken()).rejects.toMatchObject({ status: 400, reason: 'invalid_grant' });
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format elapsed milliseconds as HH:MM:SS', () => {
+    expect(formatDuration(3_723_000)).toBe('01:02:03');
+  });
+});
@@ -1,7 +1,13 @@
 import { SignJWT, jwtVerify } from "jose";
+import { AccessToken, type VideoGrant } from "livekit-server-sdk";
 import { NextRequest, NextResponse } from "next/server";
-import { EventService } from "./database";
-import type { EventClient } from "@/types";
+import {
+  CameraInviteService,
+  EventMemberService,
+  EventService,
+} from "./database";
+import { hasEventRole } from "./event-roles";
+import type { EventClient, EventRole } from "@/types";
 
 // JWT Secret validation and security
 export class JWTSecurityValidator {
@@ -69,7 +75,12 @@ const JWT_ISSUER = "harecame-app";
 const JWT_AUDIENCE = "harecame-users";
 
 // Token types
-export type TokenType = "admin" | "organizer" | "camera" | "viewer";
+export type TokenType =
+  | "organizer"
+  | "camera"
+  | "viewer"
+  | "camera-invite"
+  | "organizer-invite";
 
 // JWT payload interface
 export interface JWTPayload {
@@ -77,6 +88,10 @@ export interface JWTPayload {
   type: TokenType; // Token type
   eventId?: string; // Event ID for event-specific tokens
   participantName?: string; // Participant name for camera operators
+  codeVersion?: number; // Participation code version a camera token was issued for
+  inviteId?: string; // Camera invite a camera token was issued through (no code version)
+  deviceId?: string; // Server-issued device id of a camera token (device bans)
+  passphraseVersion?: string; // Viewer passphrase a viewer token was issued for
   iat: number; // Issued at
   exp: number; // Expires at
   iss: string; // Issuer
@@ -84,21 +99,76 @@ export interface JWTPayload {
   [key: string]: unknown; // Index signature for jose compatibility
 }
 
+// LiveKit participant roles
+export type LiveKitRole = "camera" | "monitor" | "recorder";
+
+// LiveKit grants and token lifetime per participant role
+export const LIVEKIT_ROLE_GRANTS: Record<
+  LiveKitRole,
+  { grant: Omit<VideoGrant, "room">; ttl: string }
+> = {
+  // Camera operators publish their own tracks but never watch others
+  camera: {
+    grant: {
+      roomJoin: true,
+      canPublish: true,
+      canSubscribe: false,
+      canPublishData: true,
+    },
+    ttl: "8h",
+  },
+  // Organizer monitors watch every camera but cannot publish
+  monitor: {
+    grant: {
+      roomJoin: true,
+      canPublish: false,
+      canSubscribe: true,
+      canPublishData: false,
+    },
+    ttl: "12h",
+  },
+  // Egress/recorder identity is invisible to other participants
+  recorder: {
+    grant: {
+      roomJoin: true,
+      canPublish: false,
+      canSubscribe: true,
+      canPublishData: false,
+      hidden: true,
+      recorder: true,
+    },
+    ttl: "24h",
+  },
+};
+
+// LiveKit token generation options
+export interface LiveKitTokenOptions {
+  identity: string; // LiveKit participant identity
+  roomName: string; // Event's LiveKit room name
+  role: LiveKitRole;
+  participantName?: string;
+  cameraConnectionId?: string; // CameraConnection.id for camera participants
+}
+
+// Metadata attached to LiveKit participants
+export interface LiveKitParticipantMetadata {
+  role: LiveKitRole;
+  participantName?: string;
+  cameraConnectionId?: string;
+}
+
 // Token generation functions
 export class AuthService {
   /**
-   * Generate admin token for event organizers
+   * Generate organizer account session token.
+   * Not tied to an event: access is decided by event membership (see getEventRole).
    */
-  static async generateAdminToken(
-    userId: string,
-    eventId?: string
-  ): Promise<string> {
+  static async generateOrganizerToken(organizerId: string): Promise<string> {
     const payload: JWTPayload = {
-      sub: userId,
-      type: "admin",
-      eventId,
+      sub: organizerId,
+      type: "organizer",
       iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60, // 24 hours
+      exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60, // 24 hours, as the session cookie
       iss: JWT_ISSUER,
       aud: JWT_AUDIENCE,
     };
@@ -109,18 +179,19 @@ export class AuthService {
   }
 
   /**
-   * Generate organizer token for event creators
+   * Generate the token of a co-organizer invitation link
    */
-  static async generateOrganizerToken(
-    userId: string,
-    eventId: string
+  static async generateOrganizerInvitationToken(
+    invitationId: string,
+    eventId: string,
+    expiresAt: Date
   ): Promise<string> {
     const payload: JWTPayload = {
-      sub: userId,
-      type: "organizer",
+      sub: invitationId,
+      type: "organizer-invite",
       eventId,
       iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60, // 12 hours
+      exp: Math.floor(expiresAt.getTime() / 1000),
       iss: JWT_ISSUER,
       aud: JWT_AUDIENCE,
     };
@@ -131,18 +202,26 @@ export class AuthService {
   }
 
   /**
-   * Generate camera operator token
+   * Generate camera operator token, tied to the participation code version it
+   * joined with or, for invite joins, to the invite
    */
   static async generateCameraToken(
     participantId: string,
     eventId: string,
-    participantName?: string
+    participantName?: string,
+    {
+      codeVersion = 1,
+      deviceId,
+      inviteId,
+    }: { codeVersion?: number; deviceId?: string; inviteId?: string } = {}
   ): Promise<string> {
     const payload: JWTPayload = {
       sub: participantId,
       type: "camera",
       eventId,
       participantName,
+      ...(inviteId ? { inviteId } : { codeVersion }),
+      deviceId,
       iat: Math.floor(Date.now() / 1000),
       exp: Math.floor(Date.now() / 1000) + 8 * 60 * 60, // 8 hours
       iss: JWT_ISSUER,
@@ -155,16 +234,41 @@ export class AuthService {
   }
 
   /**
-   * Generate viewer token (optional, for analytics)
+   * Generate the token of a camera invite link (exchanged for a camera token on redemption)
+   */
+  static async generateCameraInviteToken(
+    inviteId: string,
+    eventId: string,
+    expiresAt: Date
+  ): Promise<string> {
+    const payload: JWTPayload = {
+      sub: inviteId,
+      type: "camera-invite",
+      eventId,
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+      iss: JWT_ISSUER,
+      aud: JWT_AUDIENCE,
+    };
+
+    return await new SignJWT(payload)
+      .setProtectedHeader({ alg: "HS256" })
+      .sign(JWT_SECRET);
+  }
+
+  /**
+   * Generate viewer token (analytics, and the session of passphrase-protected watch pages)
    */
   static async generateViewerToken(
     viewerId: string,
-    eventId: string
+    eventId: string,
+    passphraseVersion?: string
   ): Promise<string> {
     const payload: JWTPayload = {
       sub: viewerId,
       type: "viewer",
       eventId,
+      passphraseVersion,
       iat: Math.floor(Date.now() / 1000),
       exp: Math.floor(Date.now() / 1000) + 4 * 60 * 60, // 4 hours
       iss: JWT_ISSUER,
@@ -233,7 +337,8 @@ export class AuthService {
       const token = await this.generateCameraToken(
         participantId,
         event.id,
-        participantName
+        participantName,
+        { codeVersion: event.participationCodeVersion }
       );
 
       return { token, event };
@@ -244,18 +349,19 @@ export class AuthService {
   }
 
   /**
-   * Check if user has admin access
+   * Role of the token holder in an event, or null without access.
+   * Organizer accounts get the role of their membership; the token itself
+   * never grants access to an event.
    */
-  static async hasAdminAccess(request: NextRequest): Promise<boolean> {
-    const token = this.extractTokenFromRequest(request);
-
-    if (!token) {
-      return false;
+  static async getEventRole(
+    payload: JWTPayload,
+    eventId: string
+  ): Promise<EventRole | null> {
+    if (payload.type === "organizer") {
+      return EventMemberService.getRole(eventId, payload.sub);
     }
 
-    const payload = await this.verifyToken(token);
-
-    return payload?.type === "admin";
+    return null;
   }
 
   /**
@@ -263,7 +369,8 @@ export class AuthService {
    */
   static async hasOrganizerAccess(
     request: NextRequest,
-    eventId: string
+    eventId: string,
+    minimumRole: EventRole = "operator"
   ): Promise<boolean> {
     const token = this.extractTokenFromRequest(request);
 
@@ -273,9 +380,34 @@ export class AuthService {
 
     const payload = await this.verifyToken(token);
 
+    if (!payload) {
+      return false;
+    }
+
+    return hasEventRole(await this.getEventRole(payload, eventId), minimumRole);
+  }
+
+  /**
+   * Whether a camera token is for this event and its participation code has not been rotated since.
+   * Invite joins never saw the code; they stay valid until the invite is revoked.
+   */
+  static async isCurrentCameraToken(
+    payload: JWTPayload,
+    eventId: string
+  ): Promise<boolean> {
+    if (payload.type !== "camera" || payload.eventId !== eventId) {
+      return false;
+    }
+
+    if (payload.inviteId) {
+      const invite = await CameraInviteService.getById(payload.inviteId);
+      return !!invite && invite.eventId === eventId && !invite.revokedAt;
+    }
+
+    const event = await EventService.getById(eventId);
     return (
-      payload?.type === "admin" ||
-      (payload?.type === "organizer" && payload?.eventId === eventId)
+      !!event &&
+      (payload.codeVersion ?? 1) === (event.participationCodeVersion ?? 1)
     );
   }
 
@@ -289,6 +421,8 @@ export class AuthService {
     hasAccess: boolean;
     participantId?: string;
     participantName?: string;
+    deviceId?: string;
+    codeVersion?: number; // Camera tokens that joined with the participation code only
   }> {
     const token = this.extractTokenFromRequest(request);
 
@@ -302,20 +436,23 @@ export class AuthService {
       return { hasAccess: false };
     }
 
-    // Admin and organizer have camera access
-    if (
-      payload.type === "admin" ||
-      (payload.type === "organizer" && payload.eventId === eventId)
-    ) {
-      return { hasAccess: true, participantId: payload.sub };
+    // Every organizer of the event has camera access
+    if (payload.type === "organizer") {
+      const role = await this.getEventRole(payload, eventId);
+      return role
+        ? { hasAccess: true, participantId: payload.sub }
+        : { hasAccess: false };
     }
 
-    // Camera operator has access to their specific event
-    if (payload.type === "camera" && payload.eventId === eventId) {
+    // Camera operator has access to their specific event, until the
+    // participation code it joined with is rotated (or its invite is revoked)
+    if (await this.isCurrentCameraToken(payload, eventId)) {
       return {
         hasAccess: true,
         participantId: payload.sub,
         participantName: payload.participantName,
+        deviceId: payload.deviceId,
+        codeVersion: payload.inviteId ? undefined : payload.codeVersion ?? 1,
       };
     }
 
@@ -323,85 +460,50 @@ export class AuthService {
   }
 
   /**
-   * Generate LiveKit access token for camera streaming
-   *
-   * ⚠️ **MOCK IMPLEMENTATION WARNING** ⚠️
-   * This is currently a placeholder implementation that does NOT integrate with LiveKit.
-   * It generates a JWT token using the application's secret instead of LiveKit's API.
-   *
-   * For production use, this method should be replaced with proper LiveKit token generation:
-   * - Install @livekit/server-sdk
-   * - Use AccessToken class from LiveKit SDK
-   * - Configure with proper LiveKit API key and secret
-   * - Set appropriate room permissions and metadata
-   *
-   * @param participantId - Unique identifier for the participant
-   * @param eventId - Event ID to create room name
-   * @param participantName - Optional display name for the participant
-   * @returns Promise<string> - JWT token (currently mock implementation)
-   *
-   * @example
-   * ```typescript
-   * // Current mock implementation - DO NOT USE IN PRODUCTION
-   * const token = await AuthService.generateLiveKitToken('user123', 'event456', 'John Doe');
+   * Generate LiveKit access token for a room participant
    *
-   * // Proper LiveKit implementation should be:
-   * // import { AccessToken } from '@livekit/server-sdk';
-   * // const token = new AccessToken(apiKey, apiSecret, { identity: participantId });
-   * // token.addGrant({ room: `event-${eventId}`, roomJoin: true, canPublish: true });
-   * // return await token.toJwt();
-   * ```
+   * Grants are derived from the participant role (see LIVEKIT_ROLE_GRANTS):
+   * cameras publish only, organizer monitors subscribe only, and the
+   * egress/recorder identity joins as a hidden participant.
+   * The camera connection ID is embedded in participant metadata so that
+   * LiveKit-side events can be mapped back to our camera_connections rows.
    */
   static async generateLiveKitToken(
-    participantId: string,
-    eventId: string,
-    participantName?: string
+    options: LiveKitTokenOptions
   ): Promise<string> {
-    const environment = process.env.NODE_ENV || "development";
+    const apiKey = process.env.LIVEKIT_API_KEY;
+    const apiSecret = process.env.LIVEKIT_API_SECRET;
 
-    // 本番環境での使用時に警告を出力
-    if (environment === "production") {
-      console.error(
-        "🚨 CRITICAL: LiveKit token generation is using MOCK IMPLEMENTATION in production! " +
-          "This will NOT work with actual LiveKit servers. " +
-          "Please implement proper LiveKit token generation using @livekit/server-sdk before deploying to production."
-      );
-    } else {
-      console.warn(
-        "⚠️  LiveKit token generation is using mock implementation. " +
-          "This is a placeholder that generates a JWT token using the application secret instead of LiveKit API. " +
-          "For actual LiveKit integration, implement proper token generation using @livekit/server-sdk."
-      );
+    if (!apiKey || !apiSecret) {
+      throw new Error("Missing LiveKit API credentials");
     }
 
-    // MOCK IMPLEMENTATION - This does NOT integrate with LiveKit
-    // This is a placeholder that generates a JWT token using the application's secret
-    // instead of LiveKit's proper token generation process
-    const payload = {
-      sub: participantId,
-      room: `event-${eventId}`,
-      name: participantName || participantId,
-      permissions: {
-        canPublish: true,
-        canSubscribe: true,
-        canPublishData: true,
-      },
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + 2 * 60 * 60, // 2 hours
-      // Mock implementation marker
-      mockImplementation: true,
-      warning:
-        "This token is generated by mock implementation and will not work with LiveKit servers",
+    const { grant, ttl } = LIVEKIT_ROLE_GRANTS[options.role];
+
+    const metadata: LiveKitParticipantMetadata = {
+      role: options.role,
+      participantName: options.participantName,
+      cameraConnectionId: options.cameraConnectionId,
     };
 
-    return await new SignJWT(payload)
-      .setProtectedHeader({ alg: "HS256" })
-      .sign(JWT_SECRET);
+    const at = new AccessToken(apiKey, apiSecret, {
+      identity: options.identity,
+      name: options.participantName || options.identity,
+      metadata: JSON.stringify(metadata),
+      ttl,
+    });
+
+    at.addGrant({
+      ...grant,
+      room: options.roomName,
+    });
+
+    return await at.toJwt();
   }
 }
 
 // Authentication middleware functions
-export function requireAuth(allowedTypes: TokenType[] = ["admin"]) {
+export function requireAuth(allowedTypes: TokenType[] = ["organizer"]) {
   return async (
     request: NextRequest
   ): Promise<{ payload: JWTPayload } | NextResponse> => {
@@ -436,36 +538,66 @@ export function requireAuth(allowedTypes: TokenType[] = ["admin"]) {
 
 export function requireEventAccess(
   eventId: string,
-  allowedTypes: TokenType[] = ["admin", "organizer"]
+  allowedTypes: TokenType[] = ["organizer"],
+  minimumRole: EventRole = "operator"
 ) {
   return async (
     request: NextRequest
-  ): Promise<{ payload: JWTPayload } | NextResponse> => {
-    const authResult = await requireAuth(["admin", "organizer", "camera"])(
+  ): Promise<{ payload: JWTPayload; role?: EventRole } | NextResponse> => {
+    const authResult = await requireAuth(["organizer", "camera"])(
       request
     );
 
-    if (authResult instanceof NextResponse) {
+    if (authResult instanceof Response) {
       return authResult;
     }
 
     const { payload } = authResult;
 
-    // Admin always has access
-    if (payload.type === "admin") {
+    // Check if token type is allowed
+    if (!allowedTypes.includes(payload.type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Insufficient permissions for this operation",
+        },
+        { status: 403 }
+      );
+    }
+
+    // Camera tokens are issued for a single event and participation code
+    if (payload.type === "camera") {
+      if (payload.eventId !== eventId) {
+        return NextResponse.json(
+          { success: false, error: "Access denied for this event" },
+          { status: 403 }
+        );
+      }
+
+      if (!(await AuthService.isCurrentCameraToken(payload, eventId))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Participation code has changed; join again with the new code",
+          },
+          { status: 401 }
+        );
+      }
+
       return { payload };
     }
 
-    // Check event-specific access
-    if (payload.eventId !== eventId) {
+    // Organizers need a membership with a sufficient role
+    const role = await AuthService.getEventRole(payload, eventId);
+
+    if (!role) {
       return NextResponse.json(
         { success: false, error: "Access denied for this event" },
         { status: 403 }
       );
     }
 
-    // Check if token type is allowed
-    if (!allowedTypes.includes(payload.type)) {
+    if (!hasEventRole(role, minimumRole)) {
       return NextResponse.json(
         {
           success: false,
@@ -475,14 +607,16 @@ export function requireEventAccess(
       );
     }
 
-    return { payload };
+    return { payload, role };
   };
 }
 
 // Session management (for browser-based authentication)
 export class SessionService {
-  private static readonly SESSION_COOKIE_NAME = "harecame-session";
+  static readonly SESSION_COOKIE_NAME = "harecame-session";
   private static readonly SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+  private static readonly VIEWER_COOKIE_PREFIX = "harecame-viewer-";
+  private static readonly VIEWER_SESSION_DURATION = 4 * 60 * 60 * 1000; // 4 hours, as viewer tokens
 
   /**
    * Create session cookie
@@ -524,4 +658,23 @@ export class SessionService {
   static clearSessionCookie(): string {
     return `${this.SESSION_COOKIE_NAME}=; HttpOnly; Secure; SameSite=Strict; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
   }
+
+  /**
+   * Viewer session cookie name (one per event, so it never replaces an organizer session)
+   */
+  static getViewerCookieName(eventId: string): string {
+    return `${this.VIEWER_COOKIE_PREFIX}${eventId}`;
+  }
+
+  /**
+   * Create viewer session cookie for a passphrase-protected watch page.
+   * SameSite=Lax so viewers opening a shared link from another site stay signed in.
+   */
+  static createViewerSessionCookie(eventId: string, token: string): string {
+    const expires = new Date(Date.now() + this.VIEWER_SESSION_DURATION);
+
+    return `${this.getViewerCookieName(
+      eventId
+    )}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Expires=${expires.toUTCString()}`;
+  }
 }
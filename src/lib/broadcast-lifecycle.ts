@@ -0,0 +1,352 @@
+// YouTube broadcast lifecycle: "Go live" starts egress and the broadcast once a
+// camera is streaming; "End event" stops egress and completes the broadcast.
+// Progress is persisted on stream_status so failed steps are retried, also
+// after a server restart.
+import {
+  CameraConnectionService,
+  EventLogService,
+  EventService,
+  StreamStatusService,
+} from "./database";
+import { getEventBus } from "./event-bus";
+import { KeyedLock } from "./keyed-lock";
+import { processSingleton } from "./process-singleton";
+import { StreamSwitcher } from "./switcher";
+import {
+  YouTubeQuotaExceededError,
+  startYouTubeLiveStream,
+  stopYouTubeLiveStream,
+} from "./youtube";
+import { getYouTubeClientForEvent } from "./youtube-oauth";
+import type { BroadcastState, EventClient } from "@/types";
+
+export const BROADCAST_RETRY_BASE_SECONDS = 5;
+export const BROADCAST_RETRY_MAX_SECONDS = 60;
+export const MAX_BROADCAST_ATTEMPTS = 10;
+export const BROADCAST_SWEEP_INTERVAL_SECONDS = 5;
+
+// Steps the coordinator still has to carry out
+const PENDING_STATES: BroadcastState[] = ["waiting-for-camera", "starting", "ending"];
+
+// Seconds before retry n (1-based): 5s, 10s, 20s, ... capped at 60s
+export function getBroadcastRetryDelaySeconds(attempt: number): number {
+  return Math.min(
+    BROADCAST_RETRY_BASE_SECONDS * 2 ** Math.max(0, attempt - 1),
+    BROADCAST_RETRY_MAX_SECONDS
+  );
+}
+
+export class BroadcastLifecycle {
+  private static sweep = processSingleton<{ timer?: ReturnType<typeof setInterval>; running?: boolean }>(
+    "broadcast-sweep",
+    () => ({})
+  );
+  // Scheduled retries per event (the sweep also picks them up after a restart)
+  private static retryTimers = processSingleton(
+    "broadcast-retry-timers",
+    () => new Map<string, ReturnType<typeof setTimeout>>()
+  );
+  // Per-event chain so only one lifecycle step runs at a time (within one
+  // server process; the lifecycle assumes a single instance drives it)
+  private static locks = processSingleton("broadcast-locks", () => new KeyedLock());
+
+  // Organizer "Go live"
+  static async goLive(eventId: string): Promise<BroadcastState> {
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (event.status === "ended") {
+      throw new Error(`Event ${eventId} has already ended`);
+    }
+
+    if (event.status !== "live") {
+      await EventService.update(eventId, { status: "live" });
+    }
+    return this.onEventStatusChanged(eventId, "live");
+  }
+
+  // Organizer "End event"
+  static async endEvent(eventId: string): Promise<BroadcastState> {
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+
+    if (event.status !== "ended") {
+      await EventService.update(eventId, { status: "ended" });
+    }
+    return this.onEventStatusChanged(eventId, "ended");
+  }
+
+  // Event.status was changed (by goLive/endEvent or an event update)
+  static async onEventStatusChanged(
+    eventId: string,
+    eventStatus: EventClient["status"]
+  ): Promise<BroadcastState> {
+    const status = await StreamStatusService.getByEventId(eventId);
+    const current = status?.broadcastState ?? "idle";
+
+    if (eventStatus === "live" && !["waiting-for-camera", "starting", "live"].includes(current)) {
+      await this.enterState(eventId, current, "waiting-for-camera");
+    } else if (eventStatus === "ended" && !["ending", "ended"].includes(current)) {
+      await this.enterState(eventId, current, "ending");
+    }
+
+    this.ensureStarted();
+    return this.advance(eventId);
+  }
+
+  // A camera started streaming; starts the broadcast if Go live is pending
+  static async onCameraActive(eventId: string): Promise<void> {
+    try {
+      const status = await StreamStatusService.getByEventId(eventId);
+      if (status?.broadcastState === "waiting-for-camera") {
+        await this.advance(eventId);
+      }
+    } catch (error) {
+      console.error("Failed to advance broadcast lifecycle:", error);
+    }
+  }
+
+  // Carry out the pending step, if any. Failures are persisted and retried with backoff.
+  static async advance(eventId: string, now = new Date()): Promise<BroadcastState> {
+    return this.locks.run(eventId, async () => {
+      const status = await StreamStatusService.getByEventId(eventId);
+      let state = status?.broadcastState ?? "idle";
+
+      if (!status || !PENDING_STATES.includes(state)) {
+        return state;
+      }
+      if (status.broadcastRetryAt && new Date(status.broadcastRetryAt) > now) {
+        return state; // Backing off
+      }
+
+      try {
+        if (state === "ending") {
+          return await this.finish(eventId);
+        }
+
+        if (state === "waiting-for-camera") {
+          const cameras = await CameraConnectionService.getByEventId(eventId);
+          if (!cameras.some((camera) => camera.status === "active")) {
+            return state;
+          }
+          await this.enterState(eventId, state, "starting");
+          state = "starting";
+          status.broadcastAttempts = 0;
+        }
+
+        return await this.start(eventId);
+      } catch (error) {
+        return this.scheduleRetry(eventId, state, status.broadcastAttempts ?? 0, error, now);
+      }
+    });
+  }
+
+  // Retry every step that is due (run periodically; resumes work after a restart)
+  static async resumePending(now = new Date()): Promise<number> {
+    const pending = await StreamStatusService.getPendingBroadcasts(now);
+
+    for (const status of pending) {
+      try {
+        await this.advance(status.eventId, now);
+      } catch (error) {
+        console.error(`Failed to resume broadcast for event ${status.eventId}:`, error);
+      }
+    }
+
+    return pending.length;
+  }
+
+  // Start the periodic sweep once per process
+  static ensureStarted(intervalMs = BROADCAST_SWEEP_INTERVAL_SECONDS * 1000): void {
+    if (this.sweep.timer) return;
+
+    const timer = setInterval(() => {
+      // A slow sweep must not overlap the next one
+      if (this.sweep.running) return;
+      this.sweep.running = true;
+      this.resumePending()
+        .catch((error) => {
+          console.error("Broadcast lifecycle sweep failed:", error);
+        })
+        .finally(() => {
+          this.sweep.running = false;
+        });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the sweep
+    if (typeof timer === "object" && "unref" in timer) {
+      timer.unref();
+    }
+
+    this.sweep.timer = timer;
+  }
+
+  static stop(): void {
+    if (this.sweep.timer) {
+      clearInterval(this.sweep.timer);
+      this.sweep.timer = undefined;
+    }
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  // Push the on-air camera to YouTube and take the broadcast live
+  private static async start(eventId: string): Promise<BroadcastState> {
+    const event = await EventService.getById(eventId);
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+
+    // Nothing to retry without a broadcast
+    if (!event.youtubeVideoId) {
+      await this.enterState(eventId, "starting", "failed", {
+        broadcastError: "Event has no YouTube broadcast",
+      });
+      return "failed";
+    }
+
+    // Cameras streaming but none on air yet: put the first one on air
+    const status = await StreamStatusService.getByEventId(eventId);
+    if (!status?.currentActiveCamera) {
+      const cameras = await CameraConnectionService.getByEventId(eventId);
+      const camera = cameras.find((c) => c.status === "active");
+      if (!camera) {
+        // The camera dropped before the broadcast started; wait for the next one
+        await this.enterState(eventId, "starting", "waiting-for-camera");
+        return "waiting-for-camera";
+      }
+      const result = await StreamSwitcher.switchTo({
+        eventId,
+        cameraConnectionId: camera.id,
+        reason: "new-camera",
+      });
+      if (!result.success) {
+        throw new Error(result.error ?? "Failed to put a camera on air");
+      }
+    }
+
+    await StreamSwitcher.ensureEgress(eventId);
+
+    // created → testing → live; fails until YouTube receives video, so it is retried
+    await startYouTubeLiveStream(event.youtubeVideoId, await getYouTubeClientForEvent(event));
+
+    await this.enterState(eventId, "starting", "live");
+    return "live";
+  }
+
+  // Stop egress and complete the broadcast
+  private static async finish(eventId: string): Promise<BroadcastState> {
+    const event = await EventService.getById(eventId);
+
+    await StreamSwitcher.stopEgress(eventId);
+
+    if (event?.youtubeVideoId) {
+      await stopYouTubeLiveStream(event.youtubeVideoId, await getYouTubeClientForEvent(event));
+    }
+
+    await this.enterState(eventId, "ending", "ended");
+    return "ended";
+  }
+
+  private static async scheduleRetry(
+    eventId: string,
+    state: BroadcastState,
+    previousAttempts: number,
+    error: unknown,
+    now: Date
+  ): Promise<BroadcastState> {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // Waiting out the daily quota is not the step's fault: retry after the reset
+    // without using up an attempt
+    const quotaRetryAt = error instanceof YouTubeQuotaExceededError ? error.retryAt : null;
+    const attempts = quotaRetryAt ? previousAttempts : previousAttempts + 1;
+
+    console.error(`Broadcast lifecycle step "${state}" failed (attempt ${attempts}):`, error);
+
+    if (!quotaRetryAt && attempts >= MAX_BROADCAST_ATTEMPTS) {
+      await this.enterState(eventId, state, "failed", {
+        broadcastAttempts: attempts,
+        broadcastError: message,
+      });
+      return "failed";
+    }
+
+    const retryAt =
+      quotaRetryAt ?? new Date(now.getTime() + getBroadcastRetryDelaySeconds(attempts) * 1000);
+
+    await StreamStatusService.upsert({
+      eventId,
+      broadcastAttempts: attempts,
+      broadcastRetryAt: retryAt,
+      broadcastError: message,
+    });
+
+    await EventLogService.create({
+      eventId,
+      logType: "broadcast_retry_scheduled",
+      message: `Broadcast step "${state}" failed, retrying at ${retryAt.toISOString()}: ${message}`,
+      metadata: { state, attempts, retryAt: retryAt.toISOString(), error: message },
+    });
+
+    this.scheduleAdvance(eventId, retryAt.getTime() - now.getTime());
+    return state;
+  }
+
+  private static scheduleAdvance(eventId: string, delayMs: number): void {
+    const existing = this.retryTimers.get(eventId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(eventId);
+      this.advance(eventId).catch((error) => {
+        console.error("Failed to retry broadcast lifecycle step:", error);
+      });
+    }, Math.max(0, delayMs));
+
+    if (typeof timer === "object" && "unref" in timer) {
+      timer.unref();
+    }
+    this.retryTimers.set(eventId, timer);
+  }
+
+  // Persist a state change (resetting retry bookkeeping), log it and notify dashboards
+  private static async enterState(
+    eventId: string,
+    from: BroadcastState,
+    to: BroadcastState,
+    overrides: { broadcastAttempts?: number; broadcastError?: string } = {}
+  ): Promise<void> {
+    await StreamStatusService.upsert({
+      eventId,
+      broadcastState: to,
+      broadcastAttempts: overrides.broadcastAttempts ?? 0,
+      broadcastRetryAt: undefined,
+      broadcastError: overrides.broadcastError,
+    });
+
+    await EventLogService.create({
+      eventId,
+      logType: "broadcast_state_changed",
+      message: `Broadcast ${from} → ${to}`,
+      metadata: { from, to, ...overrides },
+    });
+
+    try {
+      await getEventBus().publish(eventId, {
+        type: "broadcast-state-changed",
+        eventId,
+        timestamp: Date.now(),
+        data: { from, to, error: overrides.broadcastError },
+      });
+    } catch (error) {
+      console.error("Failed to publish broadcast state:", error);
+    }
+  }
+}
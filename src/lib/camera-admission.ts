@@ -0,0 +1,250 @@
+// Camera admission control: gives joiners a camera slot or a place in line,
+// admits waiting joiners as slots free up, and holds joiners for the
+// organizer's approval in approval mode
+import {
+  CameraConnectionService,
+  EventLogService,
+  EventService,
+} from "./database";
+import { getEventBus } from "./event-bus";
+import { removeCameraPreview } from "./camera-preview";
+import {
+  DEFAULT_ADMISSION_MODE,
+  DEFAULT_MAX_CAMERAS,
+  getFreeSlots,
+  getWaitlist,
+  getWaitlistPosition,
+} from "./camera-capacity";
+import type { CameraConnectionClient, EventClient } from "@/types";
+
+export type AdmissionDecision =
+  | { status: "admitted"; camera: CameraConnectionClient }
+  | { status: "waiting"; camera: CameraConnectionClient; position: number }
+  | { status: "pending"; camera: CameraConnectionClient }
+  | { status: "full"; maxCameras: number };
+
+export type AdmitResult =
+  | { success: true; camera: CameraConnectionClient }
+  | { success: false; error: "not-waiting" | "full" };
+
+// Approved joiners get a slot right away, or join the waitlist when none is free
+export type ApprovalResult =
+  | { success: true; camera: CameraConnectionClient; position: number | null }
+  | { success: false; error: "not-pending" };
+
+export class CameraAdmission {
+  // Decide whether a new joiner gets a slot and record its connection. The
+  // database hands out the slots, so concurrent joins (on any server) cannot
+  // overfill the event or overtake the line.
+  static async requestSlot(
+    event: EventClient,
+    joiner: {
+      participantId: string;
+      participantName?: string;
+      deviceInfo?: CameraConnectionClient["deviceInfo"];
+      codeVersion?: number; // Set for code joins, so a code rotation can remove the camera
+    }
+  ): Promise<AdmissionDecision> {
+    const mode = event.admissionMode ?? DEFAULT_ADMISSION_MODE;
+
+    // Nobody gets a LiveKit token before the organizer has seen them
+    if (mode === "approval") {
+      const camera = await CameraConnectionService.create({
+        eventId: event.id,
+        ...joiner,
+        status: "pending",
+      });
+      await this.publish(event.id, "camera-pending", camera, {
+        deviceInfo: camera.deviceInfo,
+      });
+      return { status: "pending", camera };
+    }
+
+    // Earlier joiners keep their place in line
+    const camera = await CameraConnectionService.createInSlot(
+      { eventId: event.id, ...joiner },
+      { queue: mode === "waitlist" }
+    );
+
+    if (!camera) {
+      return { status: "full", maxCameras: event.maxCameras ?? DEFAULT_MAX_CAMERAS };
+    }
+    if (camera.status !== "waiting") {
+      return { status: "admitted", camera };
+    }
+
+    const position = await this.getPosition(camera);
+    await this.publish(event.id, "camera-waitlisted", camera, {
+      deviceInfo: camera.deviceInfo,
+      position,
+      admissionMode: mode,
+    });
+
+    return { status: "waiting", camera, position };
+  }
+
+  // Admit waiting joiners in order while slots are free (in approval mode the
+  // waitlist only holds approved joiners). Returns the cameras admitted.
+  static async admitWaiting(eventId: string): Promise<CameraConnectionClient[]> {
+    const [event, cameras] = await Promise.all([
+      EventService.getById(eventId),
+      CameraConnectionService.getByEventId(eventId),
+    ]);
+    if (!event || event.status === "ended") {
+      return [];
+    }
+
+    const candidates = getWaitlist(cameras).slice(0, getFreeSlots(event, cameras));
+    const admitted: CameraConnectionClient[] = [];
+
+    for (const candidate of candidates) {
+      const camera = await this.markAdmitted(candidate, "slot_freed");
+      if (camera) admitted.push(camera);
+    }
+
+    return admitted;
+  }
+
+  // Organizer lets a specific waiting joiner in ahead of the line
+  static async admit(eventId: string, cameraConnectionId: string): Promise<AdmitResult> {
+    const [event, cameras] = await Promise.all([
+      EventService.getById(eventId),
+      CameraConnectionService.getByEventId(eventId),
+    ]);
+    const candidate = cameras.find((camera) => camera.id === cameraConnectionId);
+
+    if (!event || candidate?.status !== "waiting") {
+      return { success: false, error: "not-waiting" };
+    }
+    if (getFreeSlots(event, cameras) === 0) {
+      return { success: false, error: "full" };
+    }
+
+    const camera = await this.markAdmitted(candidate, "organizer");
+    if (camera) {
+      return { success: true, camera };
+    }
+
+    // Another camera may have taken the slot since the scan
+    const current = await CameraConnectionService.getById(cameraConnectionId);
+    return { success: false, error: current?.status === "waiting" ? "full" : "not-waiting" };
+  }
+
+  // Organizer approves a pending joiner after checking the preview
+  static async approve(eventId: string, cameraConnectionId: string): Promise<ApprovalResult> {
+    const [event, candidate] = await Promise.all([
+      EventService.getById(eventId),
+      CameraConnectionService.getById(cameraConnectionId),
+    ]);
+
+    if (!event || candidate?.eventId !== eventId || candidate.status !== "pending") {
+      return { success: false, error: "not-pending" };
+    }
+
+    // A slot when one is free and nobody is waiting, otherwise the back of the line
+    const camera =
+      (await CameraConnectionService.claimSlot(cameraConnectionId, "pending", { inOrder: true })) ??
+      (await CameraConnectionService.approveIfPending(cameraConnectionId));
+    if (!camera) {
+      return { success: false, error: "not-pending" };
+    }
+
+    const admitNow = camera.status !== "waiting";
+    await removeCameraPreview(eventId, camera.id);
+    await this.log(camera, "camera_approved", `Camera ${camera.participantId} approved by the organizer`, {
+      admitted: admitNow,
+    });
+
+    if (admitNow) {
+      await this.publish(eventId, "camera-admitted", camera, { reason: "approved" });
+      return { success: true, camera, position: null };
+    }
+
+    const position = await this.getPosition(camera);
+    await this.publish(eventId, "camera-waitlisted", camera, {
+      deviceInfo: camera.deviceInfo,
+      position,
+      admissionMode: event.admissionMode ?? DEFAULT_ADMISSION_MODE,
+    });
+    return { success: true, camera, position };
+  }
+
+  // Organizer turns down a pending joiner; it never receives a LiveKit token
+  static async reject(eventId: string, cameraConnectionId: string): Promise<CameraConnectionClient | null> {
+    const candidate = await CameraConnectionService.getById(cameraConnectionId);
+    if (candidate?.eventId !== eventId || candidate.status !== "pending") return null;
+
+    const camera = await CameraConnectionService.rejectIfPending(cameraConnectionId);
+    if (!camera) return null;
+
+    await removeCameraPreview(eventId, camera.id);
+    await this.log(camera, "camera_rejected", `Camera ${camera.participantId} rejected by the organizer`);
+    await this.publish(eventId, "camera-rejected", camera, {});
+    return camera;
+  }
+
+  private static async markAdmitted(
+    candidate: CameraConnectionClient,
+    reason: "slot_freed" | "organizer"
+  ): Promise<CameraConnectionClient | null> {
+    // The joiner may have left the line, or the slot been taken, since the scan.
+    // Only the organizer may admit someone ahead of the line.
+    const camera = await CameraConnectionService.claimSlot(candidate.id, "waiting", {
+      inOrder: reason === "slot_freed",
+    });
+    if (!camera) return null;
+
+    await this.log(camera, "camera_admitted", `Camera ${camera.participantId} admitted from the waitlist`, {
+      reason,
+      waitedSeconds: Math.floor(
+        (Date.now() - new Date(candidate.joinedAt).getTime()) / 1000
+      ),
+    });
+
+    await this.publish(camera.eventId, "camera-admitted", camera, { reason });
+    return camera;
+  }
+
+  // Place in line of a joiner that was just queued (1 if already admitted since)
+  private static async getPosition(camera: CameraConnectionClient): Promise<number> {
+    const cameras = await CameraConnectionService.getByEventId(camera.eventId);
+    return getWaitlistPosition(cameras, camera.id) ?? 1;
+  }
+
+  private static async log(
+    camera: CameraConnectionClient,
+    logType: "camera_admitted" | "camera_approved" | "camera_rejected",
+    message: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    await EventLogService.create({
+      eventId: camera.eventId,
+      cameraConnectionId: camera.id,
+      logType,
+      message,
+      metadata,
+    }).catch((error) => {
+      console.error(`Failed to log ${logType}:`, error);
+    });
+  }
+
+  private static async publish(
+    eventId: string,
+    type: "camera-waitlisted" | "camera-admitted" | "camera-pending" | "camera-rejected",
+    camera: CameraConnectionClient,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await getEventBus().publish(eventId, {
+        type,
+        eventId,
+        participantId: camera.participantId,
+        cameraConnectionId: camera.id,
+        timestamp: Date.now(),
+        data: { participantName: camera.participantName, ...data },
+      });
+    } catch (error) {
+      console.error(`Failed to publish ${type}:`, error);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+// Camera capacity rules: how many cameras an event takes and who is waiting.
+// Pure functions so the dashboard can share them with the admission service.
+import type { AdmissionMode, CameraConnectionClient, EventClient } from "@/types";
+
+export const DEFAULT_MAX_CAMERAS = 4;
+export const MAX_CAMERAS_LIMIT = 10;
+export const DEFAULT_ADMISSION_MODE: AdmissionMode = "open";
+export const ADMISSION_MODES: readonly AdmissionMode[] = ["open", "waitlist", "approval"];
+// How often a waiting joiner asks whether it has been admitted (also keeps its place)
+export const WAITLIST_POLL_INTERVAL_SECONDS = 5;
+// How often a pending joiner sends a fresh preview snapshot to the organizer
+export const PREVIEW_UPLOAD_INTERVAL_SECONDS = 10;
+
+// Admitted cameras hold a slot from the moment they get a LiveKit token
+export function isHoldingSlot(camera: CameraConnectionClient): boolean {
+  return camera.status === "connecting" || camera.status === "active";
+}
+
+// Waiting joiners in arrival order
+export function getWaitlist(cameras: CameraConnectionClient[]): CameraConnectionClient[] {
+  return cameras
+    .filter((camera) => camera.status === "waiting")
+    .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+}
+
+// Joiners awaiting the organizer's decision, in arrival order
+export function getPendingCameras(cameras: CameraConnectionClient[]): CameraConnectionClient[] {
+  return cameras
+    .filter((camera) => camera.status === "pending")
+    .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+}
+
+// 1-based place in line, or null when the connection is not waiting
+export function getWaitlistPosition(
+  cameras: CameraConnectionClient[],
+  cameraConnectionId: string
+): number | null {
+  const index = getWaitlist(cameras).findIndex((camera) => camera.id === cameraConnectionId);
+  return index === -1 ? null : index + 1;
+}
+
+export function getFreeSlots(event: EventClient, cameras: CameraConnectionClient[]): number {
+  const maxCameras = event.maxCameras ?? DEFAULT_MAX_CAMERAS;
+  return Math.max(0, maxCameras - cameras.filter(isHoldingSlot).length);
+}
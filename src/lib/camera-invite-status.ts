@@ -0,0 +1,32 @@
+// Camera invite link rules shared by the dashboard and the redemption service.
+// Pure functions, safe to import from client components.
+import type { CameraInviteClient } from "@/types";
+
+export type CameraInviteStatus = "active" | "used-up" | "expired" | "revoked";
+
+export function getCameraInviteStatus(
+  invite: CameraInviteClient,
+  now = new Date()
+): CameraInviteStatus {
+  if (invite.revokedAt) return "revoked";
+  if (invite.useCount >= invite.maxUses) return "used-up";
+  if (new Date(invite.expiresAt).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+// Why a link cannot be used, shown on the join page
+export const CAMERA_INVITE_ERROR_MESSAGES: Record<
+  Exclude<CameraInviteStatus, "active"> | "invalid" | "ended",
+  string
+> = {
+  invalid: "この招待リンクは無効です。主催者に新しいリンクを依頼してください。",
+  expired: "この招待リンクは有効期限が切れています。主催者に新しいリンクを依頼してください。",
+  "used-up": "この招待リンクは既に使用されています。主催者に新しいリンクを依頼してください。",
+  revoked: "この招待リンクは主催者により無効にされました。",
+  ended: "このイベントは既に終了しています。",
+};
+
+// Invite links open the camera join page, which skips the participation code form
+export function getCameraInviteUrl(origin: string, token: string): string {
+  return `${origin}/camera/join?invite=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,92 @@
+// Per-person camera invite links. Unlike the participation code on the
+// poster, each link names one invite that the organizer can limit to N uses,
+// let expire, or revoke.
+import { AuthService } from './auth';
+import { getCameraInviteStatus, type CameraInviteStatus } from './camera-invite-status';
+import { CameraInviteService, EventService } from './database';
+import type { CameraInviteClient, EventClient } from '@/types';
+
+// Concurrent redemptions of an N-use invite race on its use count
+const MAX_REDEEM_ATTEMPTS = 3;
+
+export type CameraInviteRedemption =
+  | { status: 'ok'; invite: CameraInviteClient; event: EventClient }
+  | { status: 'ended'; event: EventClient }
+  | { status: 'invalid' | Exclude<CameraInviteStatus, 'active'> };
+
+export class CameraInvites {
+  static async create(
+    eventId: string,
+    options: { participantName?: string; maxUses: number; expiresInHours: number }
+  ): Promise<{ invite: CameraInviteClient; token: string }> {
+    const invite = await CameraInviteService.create({
+      eventId,
+      participantName: options.participantName || undefined,
+      maxUses: options.maxUses,
+      expiresAt: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000),
+    });
+
+    return { invite, token: await this.getToken(invite) };
+  }
+
+  // The link token only names the invite and expires with it; whether it can
+  // still be redeemed is decided by the invite row. Re-minting therefore
+  // yields an equivalent link.
+  static async getToken(invite: CameraInviteClient): Promise<string> {
+    return AuthService.generateCameraInviteToken(
+      invite.id,
+      invite.eventId,
+      new Date(invite.expiresAt)
+    );
+  }
+
+  // The invite a link token names, without using it
+  static async inspect(token: string): Promise<CameraInviteClient | null> {
+    const payload = await AuthService.verifyToken(token);
+    if (!payload || payload.type !== 'camera-invite' || !payload.eventId) {
+      return null;
+    }
+
+    const invite = await CameraInviteService.getById(payload.sub);
+    return invite && invite.eventId === payload.eventId ? invite : null;
+  }
+
+  // Take one use of the invite the token names
+  static async redeem(token: string): Promise<CameraInviteRedemption> {
+    let event: EventClient | null = null;
+
+    for (let attempt = 1; attempt <= MAX_REDEEM_ATTEMPTS; attempt++) {
+      const invite = await this.inspect(token);
+      if (!invite) {
+        return { status: 'invalid' };
+      }
+
+      const status = getCameraInviteStatus(invite);
+      if (status !== 'active') {
+        return { status };
+      }
+
+      event ??= await EventService.getById(invite.eventId);
+      if (!event) {
+        return { status: 'invalid' };
+      }
+      if (event.status === 'ended') {
+        return { status: 'ended', event };
+      }
+
+      const redeemed = await CameraInviteService.takeUse(invite.id, invite.useCount);
+      if (redeemed) {
+        return { status: 'ok', invite: redeemed, event };
+      }
+    }
+
+    return { status: 'used-up' };
+  }
+
+  // Give the use back when the camera could not join after all (e.g. the event is full)
+  static async release(invite: CameraInviteClient): Promise<void> {
+    await CameraInviteService.releaseUse(invite.id, invite.useCount).catch((error) => {
+      console.error('Failed to release camera invite:', error);
+    });
+  }
+}
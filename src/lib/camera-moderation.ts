@@ -0,0 +1,217 @@
+// Organizer moderation of camera operators: removing a camera from the
+// LiveKit room and banning it from rejoining the event
+import { createHash, randomUUID } from "crypto";
+import { RoomServiceClient } from "livekit-server-sdk";
+import {
+  CameraBanService,
+  CameraConnectionService,
+  EventLogService,
+} from "./database";
+import {
+  WebSocketEventHandler,
+  createCameraDisconnectedEvent,
+} from "./websocket";
+import { isValidUUID } from "./validation";
+import type { CameraBanClient, CameraConnectionClient, EventClient } from "@/types";
+
+// Room operations needed to remove a camera
+export interface RoomParticipantClient {
+  removeParticipant(roomName: string, identity: string): Promise<void>;
+}
+
+export class LiveKitRoomParticipantClient implements RoomParticipantClient {
+  private readonly roomService: RoomServiceClient;
+
+  constructor(host: string, apiKey: string, apiSecret: string) {
+    this.roomService = new RoomServiceClient(host, apiKey, apiSecret);
+  }
+
+  async removeParticipant(roomName: string, identity: string): Promise<void> {
+    await this.roomService.removeParticipant(roomName, identity);
+  }
+}
+
+// Cameras are only marked removed when the server API is not configured
+export function createRoomParticipantClient(): RoomParticipantClient | null {
+  const host = process.env.NEXT_PUBLIC_LIVEKIT_URL;
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!host || !apiKey || !apiSecret) {
+    return null;
+  }
+  return new LiveKitRoomParticipantClient(host, apiKey, apiSecret);
+}
+
+// Server-issued id of a camera's browser, kept in an httpOnly cookie and copied
+// into its camera token. Device bans match on it: a joiner cannot choose it, but
+// clearing cookies or switching browser or device gets a new one.
+export const CAMERA_DEVICE_COOKIE = "harecame-camera-device";
+
+export const CAMERA_DEVICE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: 365 * 24 * 60 * 60, // 1 year
+};
+
+// The device id in the cookie, or a new one to set when it is missing or malformed
+export function resolveCameraDeviceId(
+  cookieValue: string | undefined
+): { deviceId: string; issued: boolean } {
+  if (cookieValue && isValidUUID(cookieValue)) {
+    return { deviceId: cookieValue, issued: false };
+  }
+  return { deviceId: randomUUID(), issued: true };
+}
+
+// Ban key for a device: hash of its server-issued id, or null without one
+export function getDeviceFingerprint(deviceId: string | null | undefined): string | null {
+  if (!deviceId) return null;
+  return createHash("sha256").update(deviceId).digest("hex");
+}
+
+export interface KickOptions {
+  ban?: boolean;
+  reason?: string;
+}
+
+export interface KickResult {
+  camera: CameraConnectionClient;
+  ban: CameraBanClient | null;
+  // False when LiveKit is not configured or the participant had already left
+  removedFromRoom: boolean;
+}
+
+export class CameraModeration {
+  // Remove a camera on the organizer's behalf: end its connection (failing
+  // over if it was on air), drop it from the LiveKit room and optionally ban it
+  static async kick(
+    event: EventClient,
+    camera: CameraConnectionClient,
+    options: KickOptions = {},
+    roomClient: RoomParticipantClient | null = createRoomParticipantClient()
+  ): Promise<KickResult> {
+    const disconnectReason = options.ban ? "banned" : "kicked";
+    const wasConnected = camera.status !== "inactive" && camera.status !== "error";
+
+    // Marked first so LiveKit's participant_left webhook finds it already inactive
+    const removed = await CameraConnectionService.markRemoved(camera.id, disconnectReason);
+
+    const ban = options.ban
+      ? await CameraBanService.create({
+          eventId: event.id,
+          participantId: camera.participantId,
+          deviceFingerprint: getDeviceFingerprint(camera.deviceInfo?.deviceId) ?? undefined,
+          cameraConnectionId: camera.id,
+          reason: options.reason,
+        })
+      : null;
+
+    await EventLogService.create({
+      eventId: event.id,
+      cameraConnectionId: camera.id,
+      logType: options.ban ? "camera_banned" : "camera_kicked",
+      message: `Camera ${camera.participantId} removed by the organizer`,
+      metadata: {
+        reason: options.reason,
+        banned: Boolean(options.ban),
+        deviceBanned: Boolean(ban?.deviceFingerprint),
+      },
+    }).catch((error) => {
+      console.error("Failed to log camera removal:", error);
+    });
+
+    const removedFromRoom = await this.disconnect(
+      event,
+      camera,
+      wasConnected,
+      disconnectReason,
+      roomClient
+    );
+
+    return { camera: removed, ban, removedFromRoom };
+  }
+
+  // Remove the cameras that joined with a participation code older than the
+  // event's current one; their tokens stopped working when the code rotated
+  static async removeRotatedCodeCameras(
+    event: EventClient,
+    roomClient: RoomParticipantClient | null = createRoomParticipantClient()
+  ): Promise<CameraConnectionClient[]> {
+    const cameras = await CameraConnectionService.getJoinedBeforeCodeVersion(
+      event.id,
+      event.participationCodeVersion ?? 1
+    );
+
+    const removed: CameraConnectionClient[] = [];
+    // All still live or queued, so each frees a slot or a place in line
+    for (const camera of cameras) {
+      removed.push(await CameraConnectionService.markRemoved(camera.id, "code-rotated"));
+      await this.disconnect(event, camera, true, "code-rotated", roomClient);
+    }
+
+    return removed;
+  }
+
+  // The ban that keeps this joiner out of the event, if any. participantId only
+  // matches when it comes from a signed camera token; fresh joins get a new one.
+  static async findBan(
+    eventId: string,
+    joiner: { participantId?: string; deviceId?: string | null }
+  ): Promise<CameraBanClient | null> {
+    return CameraBanService.findMatching(eventId, {
+      participantId: joiner.participantId,
+      deviceFingerprint: getDeviceFingerprint(joiner.deviceId) ?? undefined,
+    });
+  }
+
+  // Failover, stream status, SSE broadcast and the freed slot for a camera
+  // already marked removed, then drop it from the LiveKit room
+  private static async disconnect(
+    event: EventClient,
+    camera: CameraConnectionClient,
+    wasConnected: boolean,
+    reason: string,
+    roomClient: RoomParticipantClient | null
+  ): Promise<boolean> {
+    if (wasConnected) {
+      try {
+        await WebSocketEventHandler.handleCameraDisconnected(
+          createCameraDisconnectedEvent(
+            event.id,
+            camera.participantId,
+            camera.id,
+            reason,
+            Math.floor((Date.now() - new Date(camera.joinedAt).getTime()) / 1000)
+          )
+        );
+      } catch (error) {
+        // The camera is already marked removed; still drop it from the room
+        console.error(`Failed to handle removal of camera ${camera.id}:`, error);
+      }
+    }
+
+    return this.removeFromRoom(event.livekitRoomName, camera.participantId, roomClient);
+  }
+
+  // Drop a participant from the room. A removed camera still holds a valid
+  // LiveKit token, so this also runs when it tries to come back.
+  static async removeFromRoom(
+    roomName: string,
+    identity: string,
+    roomClient: RoomParticipantClient | null = createRoomParticipantClient()
+  ): Promise<boolean> {
+    if (!roomClient) return false;
+
+    try {
+      await roomClient.removeParticipant(roomName, identity);
+      return true;
+    } catch (error) {
+      // Usually the participant is no longer in the room
+      console.warn(`Failed to remove ${identity} from room ${roomName}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// Preview snapshots of cameras awaiting the organizer's approval
+import { CameraPreviewStorage } from "./database";
+
+export const MAX_PREVIEW_IMAGE_BYTES = 512 * 1024;
+export const PREVIEW_IMAGE_TYPES = ["image/jpeg", "image/webp"];
+
+// One image per connection, replaced by every upload
+function getPreviewPath(eventId: string, cameraConnectionId: string): string {
+  return `${eventId}/${cameraConnectionId}`;
+}
+
+// Error message for an unacceptable snapshot, or null if it can be stored
+export function validatePreviewImage(file: Blob): string | null {
+  if (file.size === 0) {
+    return "Preview image is empty";
+  }
+  if (!PREVIEW_IMAGE_TYPES.includes(file.type)) {
+    return "Preview image must be JPEG or WebP";
+  }
+  if (file.size > MAX_PREVIEW_IMAGE_BYTES) {
+    return `Preview image must be at most ${MAX_PREVIEW_IMAGE_BYTES / 1024}KB`;
+  }
+  return null;
+}
+
+export async function uploadCameraPreview(
+  eventId: string,
+  cameraConnectionId: string,
+  file: Blob
+): Promise<void> {
+  await CameraPreviewStorage.upload(getPreviewPath(eventId, cameraConnectionId), file);
+}
+
+export async function getCameraPreview(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<Blob | null> {
+  return CameraPreviewStorage.download(getPreviewPath(eventId, cameraConnectionId));
+}
+
+// Previews are only kept while the organizer decides; leftovers are not worth
+// failing a decision over, so only log failures
+export async function removeCameraPreview(
+  eventId: string,
+  cameraConnectionId: string
+): Promise<void> {
+  try {
+    await CameraPreviewStorage.remove([getPreviewPath(eventId, cameraConnectionId)]);
+  } catch (error) {
+    console.error(`Failed to remove preview of camera ${cameraConnectionId}:`, error);
+  }
+}
@@ -0,0 +1,111 @@
+// Heartbeat timeout handling: cameras that stop pinging are marked inactive
+import { CameraConnectionService } from "./database";
+import { removeCameraPreview } from "./camera-preview";
+import { processSingleton } from "./process-singleton";
+import {
+  WebSocketEventHandler,
+  createCameraDisconnectedEvent,
+} from "./websocket";
+
+// How often cameras ping /heartbeat
+export const HEARTBEAT_INTERVAL_SECONDS = 15;
+export const DEFAULT_HEARTBEAT_TIMEOUT_SECONDS = 45;
+
+// Seconds without a heartbeat before a camera is considered gone.
+// Configurable via CAMERA_HEARTBEAT_TIMEOUT_SECONDS; never shorter than two
+// intervals so a single delayed ping does not drop a camera.
+export function getHeartbeatTimeoutSeconds(): number {
+  const configured = Number(process.env.CAMERA_HEARTBEAT_TIMEOUT_SECONDS);
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return DEFAULT_HEARTBEAT_TIMEOUT_SECONDS;
+  }
+  return Math.max(configured, HEARTBEAT_INTERVAL_SECONDS * 2);
+}
+
+export class CameraReaper {
+  private static sweep = processSingleton<{ timer?: ReturnType<typeof setInterval>; running?: boolean }>(
+    "camera-reaper",
+    () => ({})
+  );
+
+  // Mark timed-out cameras inactive and run the normal disconnection path
+  // (event log, failover, stream status, SSE broadcast). Returns the number reaped.
+  static async reapStaleConnections(now = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - getHeartbeatTimeoutSeconds() * 1000
+    );
+    const staleCameras = await CameraConnectionService.getStale(cutoff);
+    let reaped = 0;
+
+    for (const camera of staleCameras) {
+      try {
+        // A heartbeat may have arrived since the scan
+        const marked = await CameraConnectionService.markInactiveIfStale(
+          camera.id,
+          cutoff
+        );
+        if (!marked) continue;
+
+        // Previews are only kept while the organizer decides
+        if (camera.status === "pending") {
+          await removeCameraPreview(camera.eventId, camera.id);
+        }
+
+        const duration = Math.floor(
+          (now.getTime() - new Date(camera.joinedAt).getTime()) / 1000
+        );
+
+        await WebSocketEventHandler.handleCameraDisconnected(
+          createCameraDisconnectedEvent(
+            camera.eventId,
+            camera.participantId,
+            camera.id,
+            "heartbeat_timeout",
+            duration
+          )
+        );
+        reaped++;
+      } catch (error) {
+        console.error(`Failed to reap camera connection ${camera.id}:`, error);
+      }
+    }
+
+    if (reaped > 0) {
+      console.log(`Reaped ${reaped} stale camera connection(s)`);
+    }
+
+    return reaped;
+  }
+
+  // Start the periodic sweep once per process
+  static ensureStarted(intervalMs = HEARTBEAT_INTERVAL_SECONDS * 1000): void {
+    if (this.sweep.timer) return;
+
+    const timer = setInterval(() => {
+      // A slow sweep must not overlap the next one
+      if (this.sweep.running) return;
+      this.sweep.running = true;
+      this.reapStaleConnections()
+        .catch((error) => {
+          console.error("Camera reaper sweep failed:", error);
+        })
+        .finally(() => {
+          this.sweep.running = false;
+        });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the reaper
+    if (typeof timer === "object" && "unref" in timer) {
+      timer.unref();
+    }
+
+    this.sweep.timer = timer;
+  }
+
+  static stop(): void {
+    if (this.sweep.timer) {
+      clearInterval(this.sweep.timer);
+      this.sweep.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+// Brute-force protection for participation codes: progressive delays per
+// client, a global failed-guess counter that throttles every attempt while it
+// is high, optional per-event PINs, and organizer alerts on guess spikes
+import { EventLogService, EventSecretService, EventService } from "./database";
+import { getEventBus } from "./event-bus";
+import {
+  type BackoffRule,
+  type RateLimitRule,
+  checkBackoff,
+  checkRateLimit,
+  peekRateLimit,
+  recordBackoffFailure,
+  resetBackoff,
+} from "./rate-limit";
+import { verifySecret } from "./secret-hash";
+import type { EventClient } from "@/types";
+
+// 3 free failures, then 2s, 4s, 8s... up to 15 minutes between attempts
+export const CODE_GUESS_BACKOFF: BackoffRule = {
+  name: "codeGuess",
+  freeFailures: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+};
+
+export const CODE_GUESS_LIMITS = {
+  // Failed guesses from all clients; above this the guarded limit applies to everyone
+  globalFailures: { name: "codeGuessGlobal", windowMs: 60000, maxRequests: 100 },
+  // Attempts allowed from all clients together while failures are high
+  guardedAttempts: { name: "codeGuessGuarded", windowMs: 60000, maxRequests: 30, algorithm: "token-bucket" },
+  // Wrong PINs for one event before its organizer is alerted
+  eventFailures: { name: "codeGuessEvent", windowMs: 300000, maxRequests: 10 },
+  // One alert per event (or for the global spike) every 5 minutes
+  alerts: { name: "codeGuessAlert", windowMs: 300000, maxRequests: 1 },
+} as const satisfies Record<string, RateLimitRule>;
+
+const GLOBAL_KEY = "all";
+
+export type CodeGuardCheck = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export type CodeVerification =
+  | { status: "ok"; event: EventClient }
+  | { status: "ended"; event: EventClient }
+  | { status: "pin-required"; event: EventClient }
+  // retryAfterMs: wait before this client's next attempt (0 for none)
+  | { status: "wrong-pin"; event: EventClient; retryAfterMs: number }
+  | { status: "not-found"; retryAfterMs: number };
+
+// Delays are per IP address: unlike the general rate-limit key, changing the
+// User-Agent must not start a fresh series of guesses. The rightmost
+// X-Forwarded-For hop is the one our proxy appended; earlier hops come from
+// the client and can be anything.
+export function getCodeGuardClientKey(headers: Pick<Headers, "get">): string {
+  const forwardedFor = headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwardedFor || headers.get("x-real-ip") || "unknown";
+}
+
+export class CodeGuard {
+  // Whether the client may try a code now
+  static async check(clientKey: string): Promise<CodeGuardCheck> {
+    try {
+      const backoff = await checkBackoff(clientKey, CODE_GUESS_BACKOFF);
+      if (!backoff.allowed) {
+        return { allowed: false, retryAfterMs: backoff.retryAfterMs };
+      }
+
+      // A guessing campaign spread over many addresses is only visible globally
+      const failures = await peekRateLimit(GLOBAL_KEY, CODE_GUESS_LIMITS.globalFailures);
+      if (!failures.allowed) {
+        const attempt = await checkRateLimit(GLOBAL_KEY, CODE_GUESS_LIMITS.guardedAttempts);
+        if (!attempt.allowed) {
+          return { allowed: false, retryAfterMs: attempt.retryAfterMs };
+        }
+      }
+    } catch (error) {
+      // An unreachable store must not lock camera operators out
+      console.error("Code guess check failed, allowing attempt:", error);
+    }
+
+    return { allowed: true };
+  }
+
+  // Look up the event for a code, counting unknown codes as failed guesses
+  static async findEvent(
+    clientKey: string,
+    code: string
+  ): Promise<{ event: EventClient } | { event: null; retryAfterMs: number }> {
+    const event = await EventService.getByParticipationCode(code.toUpperCase());
+    if (!event) {
+      return { event: null, retryAfterMs: await this.recordFailure(clientKey) };
+    }
+    return { event };
+  }
+
+  // Check a code (and the event's PIN, when it has one) before issuing a camera token
+  static async verifyCode(clientKey: string, code: string, pin?: string): Promise<CodeVerification> {
+    const found = await this.findEvent(clientKey, code);
+    if (!found.event) {
+      return { status: "not-found", retryAfterMs: found.retryAfterMs };
+    }
+
+    const { event } = found;
+    if (event.status === "ended") {
+      return { status: "ended", event };
+    }
+
+    const pinHash = await EventSecretService.getCameraPinHash(event.id);
+    if (pinHash) {
+      // Asking for the PIN is not a failure: joiners only learn they need one here
+      if (!pin) {
+        return { status: "pin-required", event };
+      }
+      if (!(await verifySecret(pin, pinHash))) {
+        const retryAfterMs = await this.recordFailure(clientKey, event.id);
+        return { status: "wrong-pin", event, retryAfterMs };
+      }
+    }
+
+    await resetBackoff(clientKey, CODE_GUESS_BACKOFF).catch((error) => {
+      console.error("Failed to reset code guess delay:", error);
+    });
+    return { status: "ok", event };
+  }
+
+  // Count a failed guess; returns the client's wait before its next attempt
+  private static async recordFailure(clientKey: string, eventId?: string): Promise<number> {
+    try {
+      const [backoff, global, perEvent] = await Promise.all([
+        recordBackoffFailure(clientKey, CODE_GUESS_BACKOFF),
+        checkRateLimit(GLOBAL_KEY, CODE_GUESS_LIMITS.globalFailures),
+        eventId ? checkRateLimit(eventId, CODE_GUESS_LIMITS.eventFailures) : null,
+      ]);
+
+      if (!global.allowed) {
+        await this.alertGlobalSpike();
+      }
+      if (eventId && perEvent && !perEvent.allowed) {
+        await this.alertEventSpike(eventId);
+      }
+
+      return backoff.retryAfterMs;
+    } catch (error) {
+      console.error("Failed to record code guess failure:", error);
+      return 0;
+    }
+  }
+
+  // Wrong codes do not point at an event: every running or upcoming one could be the target
+  private static async alertGlobalSpike(): Promise<void> {
+    const allowed = await checkRateLimit(GLOBAL_KEY, CODE_GUESS_LIMITS.alerts);
+    if (!allowed.allowed) return;
+
+    const [live, scheduled] = await Promise.all([
+      EventService.list({ status: "live" }),
+      EventService.list({ status: "scheduled" }),
+    ]);
+    await this.notify(
+      [...live, ...scheduled].map((event) => event.id),
+      "global",
+      CODE_GUESS_LIMITS.globalFailures
+    );
+  }
+
+  private static async alertEventSpike(eventId: string): Promise<void> {
+    const allowed = await checkRateLimit(eventId, CODE_GUESS_LIMITS.alerts);
+    if (!allowed.allowed) return;
+
+    await this.notify([eventId], "event", CODE_GUESS_LIMITS.eventFailures);
+  }
+
+  // SSE alert for the organizer dashboard (never sent to viewers), plus an event log entry
+  private static async notify(
+    eventIds: string[],
+    scope: "event" | "global",
+    rule: RateLimitRule
+  ): Promise<void> {
+    const data = {
+      scope,
+      failures: rule.maxRequests,
+      windowSeconds: rule.windowMs / 1000,
+    };
+
+    await Promise.all(
+      eventIds.map(async (eventId) => {
+        try {
+          await getEventBus().publish(eventId, {
+            type: "code-guess-spike",
+            eventId,
+            timestamp: Date.now(),
+            data,
+          });
+          await EventLogService.create({
+            eventId,
+            logType: "code_guess_spike",
+            message:
+              scope === "event"
+                ? `${rule.maxRequests} wrong PINs within ${data.windowSeconds} seconds`
+                : `${rule.maxRequests} wrong participation codes within ${data.windowSeconds} seconds`,
+            metadata: data,
+          });
+        } catch (error) {
+          console.error(`Failed to alert event ${eventId} of code guesses:`, error);
+        }
+      })
+    );
+  }
+}
@@ -1,13 +1,33 @@
 // Database CRUD operations for Harecame application
 import { supabase, supabaseAdmin } from './supabase';
+import {
+  MAX_PARTICIPATION_CODE_ATTEMPTS,
+  generateParticipationCode,
+  isParticipationCodeCollision,
+} from './participation-code';
 import type { 
+  BroadcastState,
+  CameraBan,
+  CameraBanClient,
+  CameraDisconnectReason,
+  CameraInvite,
+  CameraInviteClient,
   Event, 
   CameraConnection, 
   StreamStatus, 
   EventLog,
   EventClient,
+  EventMember,
+  EventMemberClient,
+  EventRole,
   CameraConnectionClient,
-  StreamStatusClient
+  StreamStatusClient,
+  Organizer,
+  OrganizerClient,
+  OrganizerInvitation,
+  OrganizerInvitationClient,
+  YouTubeConnection,
+  YouTubeConnectionClient
 } from '@/types';
 
 // Utility functions to convert between database and client formats
@@ -19,10 +39,20 @@ export function dbEventToClient(event: Event): EventClient {
     scheduledAt: event.scheduled_at,
     status: event.status,
     participationCode: event.participation_code,
+    participationCodeVersion: event.participation_code_version,
+    participationCodeRotatedAt: event.participation_code_rotated_at,
     youtubeStreamUrl: event.youtube_stream_url,
     youtubeStreamKey: event.youtube_stream_key,
     youtubeVideoId: event.youtube_video_id,
     livekitRoomName: event.livekit_room_name,
+    switchingPolicy: event.switching_policy,
+    switchingDwellSeconds: event.switching_dwell_seconds,
+    minOnAirSeconds: event.min_on_air_seconds,
+    switchCooldownSeconds: event.switch_cooldown_seconds,
+    maxCameras: event.max_cameras,
+    admissionMode: event.admission_mode,
+    organizerId: event.organizer_id,
+    standbyImageUrl: event.standby_image_url ?? undefined,
     createdAt: event.created_at,
     updatedAt: event.updated_at,
   };
@@ -40,6 +70,15 @@ export function clientEventToDb(event: Partial<EventClient>): Partial<Event> {
     youtube_stream_key: event.youtubeStreamKey,
     youtube_video_id: event.youtubeVideoId,
     livekit_room_name: event.livekitRoomName,
+    switching_policy: event.switchingPolicy,
+    switching_dwell_seconds: event.switchingDwellSeconds,
+    min_on_air_seconds: event.minOnAirSeconds,
+    switch_cooldown_seconds: event.switchCooldownSeconds,
+    max_cameras: event.maxCameras,
+    admission_mode: event.admissionMode,
+    organizer_id: event.organizerId,
+    // Pass standbyImageUrl: undefined to remove the uploaded slate
+    standby_image_url: 'standbyImageUrl' in event ? event.standbyImageUrl ?? null : undefined,
   };
 }
 
@@ -55,6 +94,8 @@ export function dbCameraToClient(camera: CameraConnection): CameraConnectionClie
     joinedAt: camera.joined_at,
     lastActiveAt: camera.last_active_at,
     disconnectedAt: camera.disconnected_at,
+    disconnectReason: camera.disconnect_reason,
+    codeVersion: camera.code_version ?? undefined,
   };
 }
 
@@ -68,10 +109,94 @@ export function dbStreamStatusToClient(status: StreamStatus): StreamStatusClient
     youtubeViewerCount: status.youtube_viewer_count,
     streamHealth: status.stream_health,
     lastSwitchAt: status.last_switch_at,
+    egressId: status.egress_id,
+    autoSwitchLockedUntil: status.auto_switch_locked_until,
+    broadcastState: status.broadcast_state,
+    broadcastAttempts: status.broadcast_attempts,
+    broadcastRetryAt: status.broadcast_retry_at,
+    broadcastError: status.broadcast_error,
     updatedAt: status.updated_at,
   };
 }
 
+export function dbYouTubeConnectionToClient(connection: YouTubeConnection): YouTubeConnectionClient {
+  return {
+    id: connection.id,
+    organizerId: connection.organizer_id,
+    channelId: connection.channel_id,
+    channelTitle: connection.channel_title,
+    encryptedRefreshToken: connection.encrypted_refresh_token,
+    scopes: connection.scopes,
+    createdAt: connection.created_at,
+    updatedAt: connection.updated_at,
+  };
+}
+
+export function dbCameraBanToClient(ban: CameraBan): CameraBanClient {
+  return {
+    id: ban.id,
+    eventId: ban.event_id,
+    participantId: ban.participant_id,
+    deviceFingerprint: ban.device_fingerprint,
+    cameraConnectionId: ban.camera_connection_id,
+    reason: ban.reason,
+    createdAt: ban.created_at,
+  };
+}
+
+export function dbCameraInviteToClient(invite: CameraInvite): CameraInviteClient {
+  return {
+    id: invite.id,
+    eventId: invite.event_id,
+    participantName: invite.participant_name,
+    maxUses: invite.max_uses,
+    useCount: invite.use_count,
+    expiresAt: invite.expires_at,
+    revokedAt: invite.revoked_at,
+    lastRedeemedAt: invite.last_redeemed_at,
+    createdAt: invite.created_at,
+  };
+}
+
+export function dbOrganizerToClient(organizer: Organizer): OrganizerClient {
+  return {
+    id: organizer.id,
+    email: organizer.email,
+    displayName: organizer.display_name,
+    passwordHash: organizer.password_hash,
+    createdAt: organizer.created_at,
+    updatedAt: organizer.updated_at,
+  };
+}
+
+export function dbEventMemberToClient(
+  member: EventMember & { organizers?: Pick<Organizer, 'email' | 'display_name'> | null }
+): EventMemberClient {
+  return {
+    eventId: member.event_id,
+    organizerId: member.organizer_id,
+    role: member.role,
+    email: member.organizers?.email,
+    displayName: member.organizers?.display_name,
+    createdAt: member.created_at,
+  };
+}
+
+export function dbOrganizerInvitationToClient(invitation: OrganizerInvitation): OrganizerInvitationClient {
+  return {
+    id: invitation.id,
+    eventId: invitation.event_id,
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invited_by,
+    expiresAt: invitation.expires_at,
+    acceptedAt: invitation.accepted_at,
+    acceptedBy: invitation.accepted_by,
+    revokedAt: invitation.revoked_at,
+    createdAt: invitation.created_at,
+  };
+}
+
 // Event CRUD operations
 export class EventService {
   // Create a new event
@@ -79,32 +204,73 @@ export class EventService {
     title: string;
     description?: string;
     scheduledAt?: Date;
+    organizerId?: string;
   }): Promise<EventClient> {
     if (!supabaseAdmin) {
       throw new Error('Supabase admin client not configured');
     }
 
-    // Generate unique participation code
-    const participationCode = Math.random().toString(36).substring(2, 8).toUpperCase();
-    const livekitRoomName = `event_${Date.now()}_${participationCode}`;
+    // Draw a new participation code until one is not taken
+    for (let attempt = 1; attempt <= MAX_PARTICIPATION_CODE_ATTEMPTS; attempt++) {
+      const participationCode = generateParticipationCode();
+      const livekitRoomName = `event_${Date.now()}_${participationCode}`;
+
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .insert({
+          title: eventData.title,
+          description: eventData.description,
+          scheduled_at: eventData.scheduledAt,
+          organizer_id: eventData.organizerId,
+          participation_code: participationCode,
+          livekit_room_name: livekitRoomName,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (isParticipationCodeCollision(error)) continue;
+        throw new Error(`Failed to create event: ${error.message}`);
+      }
+
+      return dbEventToClient(data);
+    }
 
-    const { data, error } = await supabaseAdmin
-      .from('events')
-      .insert({
-        title: eventData.title,
-        description: eventData.description,
-        scheduled_at: eventData.scheduledAt,
-        participation_code: participationCode,
-        livekit_room_name: livekitRoomName,
-      })
-      .select()
-      .single();
+    throw new Error('Failed to create event: could not generate a unique participation code');
+  }
 
-    if (error) {
-      throw new Error(`Failed to create event: ${error.message}`);
+  // Replace the participation code, e.g. after its QR leaked. Bumping the
+  // version invalidates camera tokens issued for the old code. Returns null
+  // when the code was rotated concurrently.
+  static async rotateParticipationCode(
+    id: string,
+    currentVersion: number
+  ): Promise<EventClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
     }
 
-    return dbEventToClient(data);
+    for (let attempt = 1; attempt <= MAX_PARTICIPATION_CODE_ATTEMPTS; attempt++) {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .update({
+          participation_code: generateParticipationCode(),
+          participation_code_version: currentVersion + 1,
+          participation_code_rotated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('participation_code_version', currentVersion)
+        .select();
+
+      if (error) {
+        if (isParticipationCodeCollision(error)) continue;
+        throw new Error(`Failed to rotate participation code: ${error.message}`);
+      }
+
+      return data?.[0] ? dbEventToClient(data[0]) : null;
+    }
+
+    throw new Error('Failed to rotate participation code: could not generate a unique participation code');
   }
 
   // Get event by ID
@@ -224,12 +390,15 @@ export class EventService {
 
 // Camera Connection CRUD operations
 export class CameraConnectionService {
-  // Create a new camera connection
+  // Create a camera connection awaiting approval. Pending joiners hold no slot;
+  // createInSlot records everyone else.
   static async create(connectionData: {
     eventId: string;
     participantId: string;
     participantName?: string;
     deviceInfo?: CameraConnectionClient['deviceInfo'];
+    codeVersion?: number;
+    status: 'pending';
   }): Promise<CameraConnectionClient> {
     if (!supabaseAdmin) {
       throw new Error('Supabase admin client not configured');
@@ -243,6 +412,8 @@ export class CameraConnectionService {
         participant_name: connectionData.participantName,
         device_info: connectionData.deviceInfo || {},
         stream_quality: {},
+        status: connectionData.status,
+        code_version: connectionData.codeVersion ?? null,
       })
       .select()
       .single();
@@ -330,6 +501,232 @@ export class CameraConnectionService {
     return dbCameraToClient(data);
   }
 
+  // Record a heartbeat without changing the connection status
+  static async touch(
+    id: string,
+    streamQuality?: CameraConnectionClient['streamQuality']
+  ): Promise<CameraConnectionClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const updates: Partial<CameraConnection> = {
+      last_active_at: new Date(),
+    };
+
+    if (streamQuality) {
+      updates.stream_quality = streamQuality;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_connections')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record camera heartbeat: ${error.message}`);
+    }
+
+    return dbCameraToClient(data);
+  }
+
+  // Record a new joiner in a free camera slot, or at the back of the line
+  // (queue) when none is free or others are already waiting. The database
+  // checks the event's capacity, so concurrent joins cannot overfill it.
+  // Returns null when the event is full and the joiner may not queue.
+  static async createInSlot(
+    connectionData: {
+      eventId: string;
+      participantId: string;
+      participantName?: string;
+      deviceInfo?: CameraConnectionClient['deviceInfo'];
+      codeVersion?: number;
+    },
+    { queue }: { queue: boolean }
+  ): Promise<CameraConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('request_camera_slot', {
+      p_event_id: connectionData.eventId,
+      p_participant_id: connectionData.participantId,
+      p_participant_name: connectionData.participantName ?? null,
+      p_device_info: connectionData.deviceInfo || {},
+      p_code_version: connectionData.codeVersion ?? null,
+      p_queue: queue,
+    });
+
+    if (error) {
+      throw new Error(`Failed to create camera connection: ${error.message}`);
+    }
+
+    const [camera] = data ?? [];
+    return camera ? dbCameraToClient(camera) : null;
+  }
+
+  // Move a waiting (or approved pending) joiner into a free camera slot.
+  // inOrder refuses while someone is waiting ahead of it. Returns null when
+  // the event is full or the joiner is no longer in that status.
+  static async claimSlot(
+    id: string,
+    fromStatus: 'waiting' | 'pending',
+    { inOrder }: { inOrder: boolean }
+  ): Promise<CameraConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('claim_camera_slot', {
+      p_camera_id: id,
+      p_from_status: fromStatus,
+      p_in_order: inOrder,
+    });
+
+    if (error) {
+      throw new Error(`Failed to admit camera connection: ${error.message}`);
+    }
+
+    const [camera] = data ?? [];
+    return camera ? dbCameraToClient(camera) : null;
+  }
+
+  // Approve a pending joiner onto the waitlist (claimSlot gives it a slot
+  // instead). Returns null when it is no longer pending (already decided, or it left).
+  static async approveIfPending(id: string): Promise<CameraConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    // Approved joiners queue behind those already waiting
+    const now = new Date();
+    const { data, error } = await supabaseAdmin
+      .from('camera_connections')
+      .update({ status: 'waiting', joined_at: now, last_active_at: now })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to approve camera connection: ${error.message}`);
+    }
+
+    const [camera] = data;
+    return camera ? dbCameraToClient(camera) : null;
+  }
+
+  // Turn down a pending joiner. Returns null when it is no longer pending.
+  static async rejectIfPending(id: string): Promise<CameraConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_connections')
+      .update({ status: 'inactive', disconnected_at: new Date(), disconnect_reason: 'rejected' })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to reject camera connection: ${error.message}`);
+    }
+
+    const [camera] = data;
+    return camera ? dbCameraToClient(camera) : null;
+  }
+
+  // End a connection on the organizer's behalf, recording why
+  static async markRemoved(
+    id: string,
+    reason: Exclude<CameraDisconnectReason, 'rejected'>
+  ): Promise<CameraConnectionClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_connections')
+      .update({ status: 'inactive', disconnected_at: new Date(), disconnect_reason: reason })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to remove camera connection: ${error.message}`);
+    }
+
+    return dbCameraToClient(data);
+  }
+
+  // Connections still live or queued that joined with a participation code older than the version.
+  // Organizer and invite joins have no code version, so they never match.
+  static async getJoinedBeforeCodeVersion(
+    eventId: string,
+    codeVersion: number
+  ): Promise<CameraConnectionClient[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not configured');
+    }
+
+    const { data, error } = await supabase
+      .from('camera_connections')
+      .select('*')
+      .eq('event_id', eventId)
+      .in('status', ['pending', 'waiting', 'connecting', 'active'])
+      .lt('code_version', codeVersion);
+
+    if (error) {
+      throw new Error(`Failed to get camera connections for old participation codes: ${error.message}`);
+    }
+
+    return data.map(dbCameraToClient);
+  }
+
+  // Connections still live or queued (waiting/pending) whose last heartbeat is older than the cutoff
+  static async getStale(cutoff: Date): Promise<CameraConnectionClient[]> {
+    if (!supabase) {
+      throw new Error('Supabase client not configured');
+    }
+
+    const { data, error } = await supabase
+      .from('camera_connections')
+      .select('*')
+      .in('status', ['pending', 'waiting', 'connecting', 'active'])
+      .lt('last_active_at', cutoff.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to get stale camera connections: ${error.message}`);
+    }
+
+    return data.map(dbCameraToClient);
+  }
+
+  // Mark a connection inactive only if no heartbeat arrived after the cutoff.
+  // Returns null when the camera pinged (or was updated) in the meantime.
+  static async markInactiveIfStale(id: string, cutoff: Date): Promise<CameraConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_connections')
+      .update({ status: 'inactive', disconnected_at: new Date() })
+      .eq('id', id)
+      .in('status', ['pending', 'waiting', 'connecting', 'active'])
+      .lt('last_active_at', cutoff.toISOString())
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to mark camera connection inactive: ${error.message}`);
+    }
+
+    const [camera] = data;
+    return camera ? dbCameraToClient(camera) : null;
+  }
+
   // Delete camera connection
   static async delete(id: string): Promise<void> {
     if (!supabaseAdmin) {
@@ -350,6 +747,9 @@ export class CameraConnectionService {
 // Stream Status CRUD operations
 export class StreamStatusService {
   // Create or update stream status
+  // Only the provided fields are written; pass `undefined` explicitly for
+  // currentActiveCamera, lastSwitchAt, egressId, autoSwitchLockedUntil, broadcastRetryAt
+  // or broadcastError to clear them.
   static async upsert(statusData: {
     eventId: string;
     isLive?: boolean;
@@ -357,22 +757,39 @@ export class StreamStatusService {
     currentActiveCamera?: string;
     youtubeViewerCount?: number;
     streamHealth?: StreamStatus['stream_health'];
+    lastSwitchAt?: Date;
+    egressId?: string;
+    autoSwitchLockedUntil?: Date;
+    broadcastState?: BroadcastState;
+    broadcastAttempts?: number;
+    broadcastRetryAt?: Date;
+    broadcastError?: string;
   }): Promise<StreamStatusClient> {
     if (!supabaseAdmin) {
       throw new Error('Supabase admin client not configured');
     }
 
+    const row: Record<string, unknown> = {
+      event_id: statusData.eventId,
+      updated_at: new Date(),
+    };
+
+    if (statusData.isLive !== undefined) row.is_live = statusData.isLive;
+    if (statusData.activeCameraCount !== undefined) row.active_camera_count = statusData.activeCameraCount;
+    if ('currentActiveCamera' in statusData) row.current_active_camera = statusData.currentActiveCamera ?? null;
+    if (statusData.youtubeViewerCount !== undefined) row.youtube_viewer_count = statusData.youtubeViewerCount;
+    if (statusData.streamHealth !== undefined) row.stream_health = statusData.streamHealth;
+    if ('lastSwitchAt' in statusData) row.last_switch_at = statusData.lastSwitchAt ?? null;
+    if ('egressId' in statusData) row.egress_id = statusData.egressId ?? null;
+    if ('autoSwitchLockedUntil' in statusData) row.auto_switch_locked_until = statusData.autoSwitchLockedUntil ?? null;
+    if (statusData.broadcastState !== undefined) row.broadcast_state = statusData.broadcastState;
+    if (statusData.broadcastAttempts !== undefined) row.broadcast_attempts = statusData.broadcastAttempts;
+    if ('broadcastRetryAt' in statusData) row.broadcast_retry_at = statusData.broadcastRetryAt ?? null;
+    if ('broadcastError' in statusData) row.broadcast_error = statusData.broadcastError ?? null;
+
     const { data, error } = await supabaseAdmin
       .from('stream_status')
-      .upsert({
-        event_id: statusData.eventId,
-        is_live: statusData.isLive ?? false,
-        active_camera_count: statusData.activeCameraCount ?? 0,
-        current_active_camera: statusData.currentActiveCamera,
-        youtube_viewer_count: statusData.youtubeViewerCount ?? 0,
-        stream_health: statusData.streamHealth ?? 'unknown',
-        updated_at: new Date(),
-      })
+      .upsert(row, { onConflict: 'event_id' })
       .select()
       .single();
 
@@ -402,6 +819,25 @@ export class StreamStatusService {
 
     return dbStreamStatusToClient(data);
   }
+
+  // Broadcasts with a lifecycle step in progress whose retry (if any) is due
+  static async getPendingBroadcasts(now: Date): Promise<StreamStatusClient[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('stream_status')
+      .select('*')
+      .in('broadcast_state', ['waiting-for-camera', 'starting', 'ending'])
+      .or(`broadcast_retry_at.is.null,broadcast_retry_at.lte.${now.toISOString()}`);
+
+    if (error) {
+      throw new Error(`Failed to get pending broadcasts: ${error.message}`);
+    }
+
+    return data.map(dbStreamStatusToClient);
+  }
 }
 
 // Event Log operations
@@ -454,4 +890,890 @@ export class EventLogService {
 
     return data;
   }
-}
\ No newline at end of file
+}
+
+// LiveKit webhook delivery tracking
+export class WebhookEventService {
+  // Record a webhook id. Returns false if it was already processed (a retry).
+  static async markProcessed(id: string, event: string): Promise<boolean> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('livekit_webhook_events')
+      .insert({ id, event });
+
+    if (error) {
+      if (error.code === '23505') return false; // Unique violation - already recorded
+      throw new Error(`Failed to record webhook event: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // Forget a webhook id so a failed delivery can be retried
+  static async release(id: string): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('livekit_webhook_events')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to release webhook event: ${error.message}`);
+    }
+  }
+}
+
+// Organizers' YouTube channel connections
+export class YouTubeConnectionService {
+  // Get the connection for an organizer
+  static async getByOrganizerId(organizerId: string): Promise<YouTubeConnectionClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('youtube_connections')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new Error(`Failed to get YouTube connection: ${error.message}`);
+    }
+
+    return dbYouTubeConnectionToClient(data);
+  }
+
+  // Create or replace an organizer's connection (reconnecting switches channel)
+  static async upsert(connectionData: {
+    organizerId: string;
+    channelId: string;
+    channelTitle?: string;
+    encryptedRefreshToken: string;
+    scopes?: string;
+  }): Promise<YouTubeConnectionClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('youtube_connections')
+      .upsert(
+        {
+          organizer_id: connectionData.organizerId,
+          channel_id: connectionData.channelId,
+          channel_title: connectionData.channelTitle,
+          encrypted_refresh_token: connectionData.encryptedRefreshToken,
+          scopes: connectionData.scopes,
+        },
+        { onConflict: 'organizer_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save YouTube connection: ${error.message}`);
+    }
+
+    return dbYouTubeConnectionToClient(data);
+  }
+
+  // Remove an organizer's connection
+  static async delete(organizerId: string): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('youtube_connections')
+      .delete()
+      .eq('organizer_id', organizerId);
+
+    if (error) {
+      throw new Error(`Failed to delete YouTube connection: ${error.message}`);
+    }
+  }
+}
+
+// Standby slate images (public Supabase Storage bucket)
+export class StandbyImageStorage {
+  static readonly BUCKET = 'standby-slates';
+
+  // Upload an image and return its public URL
+  static async upload(path: string, file: Blob): Promise<string> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const bucket = supabaseAdmin.storage.from(this.BUCKET);
+    const { error } = await bucket.upload(path, file, { contentType: file.type });
+
+    if (error) {
+      throw new Error(`Failed to upload standby image: ${error.message}`);
+    }
+
+    return bucket.getPublicUrl(path).data.publicUrl;
+  }
+
+  // Paths of all objects stored under a folder
+  static async list(folder: string): Promise<string[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.storage.from(this.BUCKET).list(folder);
+
+    if (error) {
+      throw new Error(`Failed to list standby images: ${error.message}`);
+    }
+
+    return (data ?? []).map((object) => `${folder}/${object.name}`);
+  }
+
+  static async remove(paths: string[]): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+    if (paths.length === 0) return;
+
+    const { error } = await supabaseAdmin.storage.from(this.BUCKET).remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to remove standby images: ${error.message}`);
+    }
+  }
+}
+
+// Shared rate-limit state (RATE_LIMIT_STORE=postgres)
+// Participants and devices banned from rejoining an event
+export class CameraBanService {
+  static async create(banData: {
+    eventId: string;
+    participantId: string;
+    deviceFingerprint?: string;
+    cameraConnectionId?: string;
+    reason?: string;
+  }): Promise<CameraBanClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_bans')
+      .insert({
+        event_id: banData.eventId,
+        participant_id: banData.participantId,
+        device_fingerprint: banData.deviceFingerprint,
+        camera_connection_id: banData.cameraConnectionId,
+        reason: banData.reason,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create camera ban: ${error.message}`);
+    }
+
+    return dbCameraBanToClient(data);
+  }
+
+  // Bans are only readable with the service role
+  static async getByEventId(eventId: string): Promise<CameraBanClient[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_bans')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get camera bans: ${error.message}`);
+    }
+
+    return data.map(dbCameraBanToClient);
+  }
+
+  // A ban on the participant or the device, if any
+  static async findMatching(
+    eventId: string,
+    joiner: { participantId?: string; deviceFingerprint?: string }
+  ): Promise<CameraBanClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const filters = [
+      // Quoted: participant IDs may contain PostgREST delimiters
+      joiner.participantId && `participant_id.eq."${joiner.participantId.replace(/["\\]/g, '\\$&')}"`,
+      joiner.deviceFingerprint && `device_fingerprint.eq.${joiner.deviceFingerprint}`,
+    ].filter(Boolean);
+    if (filters.length === 0) return null;
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_bans')
+      .select('*')
+      .eq('event_id', eventId)
+      .or(filters.join(','))
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find camera ban: ${error.message}`);
+    }
+
+    return data ? dbCameraBanToClient(data) : null;
+  }
+}
+
+// Snapshots of cameras awaiting approval. The bucket is private, so images
+// are only reachable through the organizer API.
+export class CameraPreviewStorage {
+  static readonly BUCKET = 'camera-previews';
+
+  // Store (or replace) the image at `path`
+  static async upload(path: string, file: Blob): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin.storage
+      .from(this.BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: true });
+
+    if (error) {
+      throw new Error(`Failed to upload camera preview: ${error.message}`);
+    }
+  }
+
+  // The stored image, or null when there is none
+  static async download(path: string): Promise<Blob | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin.storage.from(this.BUCKET).download(path);
+
+    if (error) {
+      // Storage reports missing objects as errors
+      return null;
+    }
+
+    return data;
+  }
+
+  static async remove(paths: string[]): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+    if (paths.length === 0) return;
+
+    const { error } = await supabaseAdmin.storage.from(this.BUCKET).remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to remove camera previews: ${error.message}`);
+    }
+  }
+}
+
+export class RateLimitEntryService {
+  static async get(key: string): Promise<{ state: unknown; version: number } | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('rate_limits')
+      .select('state, version')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get rate limit entry: ${error.message}`);
+    }
+
+    return data ? { state: data.state, version: Number(data.version) } : null;
+  }
+
+  // Create the entry. Returns false if another request created it first.
+  static async insert(key: string, state: unknown, expiresAt: Date): Promise<boolean> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('rate_limits')
+      .insert({ key, state, version: 0, expires_at: expiresAt });
+
+    if (error) {
+      if (error.code === '23505') return false; // Unique violation - created concurrently
+      throw new Error(`Failed to create rate limit entry: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // Replace the entry if it is still at `version`. Returns false if it changed meanwhile.
+  static async updateIfVersion(
+    key: string,
+    version: number,
+    state: unknown,
+    expiresAt: Date
+  ): Promise<boolean> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('rate_limits')
+      .update({ state, version: version + 1, expires_at: expiresAt })
+      .eq('key', key)
+      .eq('version', version)
+      .select('key');
+
+    if (error) {
+      throw new Error(`Failed to update rate limit entry: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  static async deleteExpired(now: Date): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('rate_limits')
+      .delete()
+      .lt('expires_at', now.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to delete expired rate limit entries: ${error.message}`);
+    }
+  }
+}
+
+// Hashed per-event secrets. The events table is publicly readable, so these
+// live in a table only the service role can read.
+export class EventSecretService {
+  // Hash of the event's camera PIN, or null when no PIN is set
+  static async getCameraPinHash(eventId: string): Promise<string | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_secrets')
+      .select('camera_pin_hash')
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get event secrets: ${error.message}`);
+    }
+
+    return data?.camera_pin_hash ?? null;
+  }
+
+  // Set or clear (null) the camera PIN hash
+  static async setCameraPinHash(eventId: string, pinHash: string | null): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('event_secrets')
+      .upsert(
+        { event_id: eventId, camera_pin_hash: pinHash },
+        { onConflict: 'event_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save event secrets: ${error.message}`);
+    }
+  }
+
+  // Hash of the viewer passphrase, or null when the watch page is public
+  static async getViewerPassphraseHash(eventId: string): Promise<string | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_secrets')
+      .select('viewer_passphrase_hash')
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get event secrets: ${error.message}`);
+    }
+
+    return data?.viewer_passphrase_hash ?? null;
+  }
+
+  // Which of the events have a viewer passphrase
+  static async getEventIdsWithViewerPassphrase(eventIds: string[]): Promise<Set<string>> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+    if (eventIds.length === 0) return new Set();
+
+    const { data, error } = await supabaseAdmin
+      .from('event_secrets')
+      .select('event_id')
+      .in('event_id', eventIds)
+      .not('viewer_passphrase_hash', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to get event secrets: ${error.message}`);
+    }
+
+    return new Set(data.map((secret) => secret.event_id));
+  }
+
+  // Set or clear (null) the viewer passphrase hash
+  static async setViewerPassphraseHash(eventId: string, passphraseHash: string | null): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('event_secrets')
+      .upsert(
+        { event_id: eventId, viewer_passphrase_hash: passphraseHash },
+        { onConflict: 'event_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save event secrets: ${error.message}`);
+    }
+  }
+}
+
+// Per-person camera invite links. Redeeming takes a use with an optimistic
+// check on use_count, so an N-use link is never redeemed more than N times.
+export class CameraInviteService {
+  static async create(inviteData: {
+    eventId: string;
+    participantName?: string;
+    maxUses: number;
+    expiresAt: Date;
+  }): Promise<CameraInviteClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_invites')
+      .insert({
+        event_id: inviteData.eventId,
+        participant_name: inviteData.participantName,
+        max_uses: inviteData.maxUses,
+        expires_at: inviteData.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create camera invite: ${error.message}`);
+    }
+
+    return dbCameraInviteToClient(data);
+  }
+
+  static async getById(id: string): Promise<CameraInviteClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_invites')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get camera invite: ${error.message}`);
+    }
+
+    return data ? dbCameraInviteToClient(data) : null;
+  }
+
+  static async getByEventId(eventId: string): Promise<CameraInviteClient[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_invites')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get camera invites: ${error.message}`);
+    }
+
+    return data.map(dbCameraInviteToClient);
+  }
+
+  // Take one use of an unrevoked invite. Returns null when the invite was
+  // redeemed or revoked in the meantime.
+  static async takeUse(id: string, useCount: number): Promise<CameraInviteClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_invites')
+      .update({ use_count: useCount + 1, last_redeemed_at: new Date() })
+      .eq('id', id)
+      .eq('use_count', useCount)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to redeem camera invite: ${error.message}`);
+    }
+
+    const [invite] = data;
+    return invite ? dbCameraInviteToClient(invite) : null;
+  }
+
+  // Give back a use taken by takeUse when the camera could not join after all.
+  // Best effort: the use stays taken if the invite was redeemed again meanwhile.
+  static async releaseUse(id: string, useCount: number): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('camera_invites')
+      .update({ use_count: useCount - 1 })
+      .eq('id', id)
+      .eq('use_count', useCount);
+
+    if (error) {
+      throw new Error(`Failed to release camera invite: ${error.message}`);
+    }
+  }
+
+  // Revoke an invite of the event. Returns null when it was already revoked
+  // or belongs to another event.
+  static async revoke(id: string, eventId: string): Promise<CameraInviteClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('camera_invites')
+      .update({ revoked_at: new Date() })
+      .eq('id', id)
+      .eq('event_id', eventId)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to revoke camera invite: ${error.message}`);
+    }
+
+    const [invite] = data;
+    return invite ? dbCameraInviteToClient(invite) : null;
+  }
+}
+
+// Organizer accounts. Emails are stored lowercased.
+export class OrganizerService {
+  // Returns null when the email is already registered
+  static async create(organizerData: {
+    email: string;
+    displayName?: string;
+    passwordHash: string;
+  }): Promise<OrganizerClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizers')
+      .insert({
+        email: organizerData.email.toLowerCase(),
+        display_name: organizerData.displayName,
+        password_hash: organizerData.passwordHash,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null; // Unique violation
+      throw new Error(`Failed to create organizer: ${error.message}`);
+    }
+
+    return dbOrganizerToClient(data);
+  }
+
+  static async getByEmail(email: string): Promise<OrganizerClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizers')
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get organizer: ${error.message}`);
+    }
+
+    return data ? dbOrganizerToClient(data) : null;
+  }
+
+  static async getById(id: string): Promise<OrganizerClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get organizer: ${error.message}`);
+    }
+
+    return data ? dbOrganizerToClient(data) : null;
+  }
+}
+
+// Event membership of organizer accounts
+export class EventMemberService {
+  // The organizer's role in the event, or null when not a member
+  static async getRole(eventId: string, organizerId: string): Promise<EventRole | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_members')
+      .select('role')
+      .eq('event_id', eventId)
+      .eq('organizer_id', organizerId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '22P02') return null; // Not a UUID - no such event
+      throw new Error(`Failed to get event member: ${error.message}`);
+    }
+
+    return data?.role ?? null;
+  }
+
+  // Add a member, or change the role of an existing one
+  static async upsert(eventId: string, organizerId: string, role: EventRole): Promise<EventMemberClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_members')
+      .upsert(
+        { event_id: eventId, organizer_id: organizerId, role },
+        { onConflict: 'event_id,organizer_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save event member: ${error.message}`);
+    }
+
+    return dbEventMemberToClient(data);
+  }
+
+  static async getByEventId(eventId: string): Promise<EventMemberClient[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_members')
+      .select('*, organizers(email, display_name)')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get event members: ${error.message}`);
+    }
+
+    return data.map(dbEventMemberToClient);
+  }
+
+  // Events the organizer is a member of, newest first
+  static async getEventsByOrganizerId(
+    organizerId: string
+  ): Promise<Array<{ event: EventClient; role: EventRole }>> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('event_members')
+      .select('role, events(*)')
+      .eq('organizer_id', organizerId);
+
+    if (error) {
+      throw new Error(`Failed to get organizer events: ${error.message}`);
+    }
+
+    // The joined event is a single row (many-to-one), not an array
+    const memberships = data as unknown as Array<{ role: EventRole; events: Event | null }>;
+    return memberships
+      .flatMap(({ role, events }) => (events ? [{ event: dbEventToClient(events), role }] : []))
+      .sort((a, b) => new Date(b.event.createdAt).getTime() - new Date(a.event.createdAt).getTime());
+  }
+
+  static async remove(eventId: string, organizerId: string): Promise<void> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('event_members')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('organizer_id', organizerId);
+
+    if (error) {
+      throw new Error(`Failed to remove event member: ${error.message}`);
+    }
+  }
+}
+
+// Co-organizer invitations
+export class OrganizerInvitationService {
+  static async create(invitationData: {
+    eventId: string;
+    email: string;
+    role: OrganizerInvitationClient['role'];
+    invitedBy: string;
+    expiresAt: Date;
+  }): Promise<OrganizerInvitationClient> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizer_invitations')
+      .insert({
+        event_id: invitationData.eventId,
+        email: invitationData.email.toLowerCase(),
+        role: invitationData.role,
+        invited_by: invitationData.invitedBy,
+        expires_at: invitationData.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create organizer invitation: ${error.message}`);
+    }
+
+    return dbOrganizerInvitationToClient(data);
+  }
+
+  static async getById(id: string): Promise<OrganizerInvitationClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizer_invitations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get organizer invitation: ${error.message}`);
+    }
+
+    return data ? dbOrganizerInvitationToClient(data) : null;
+  }
+
+  static async getByEventId(eventId: string): Promise<OrganizerInvitationClient[]> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizer_invitations')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get organizer invitations: ${error.message}`);
+    }
+
+    return data.map(dbOrganizerInvitationToClient);
+  }
+
+  // Returns null when the invitation was accepted or revoked in the meantime
+  static async markAccepted(id: string, organizerId: string): Promise<OrganizerInvitationClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizer_invitations')
+      .update({ accepted_at: new Date(), accepted_by: organizerId })
+      .eq('id', id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to accept organizer invitation: ${error.message}`);
+    }
+
+    const [invitation] = data;
+    return invitation ? dbOrganizerInvitationToClient(invitation) : null;
+  }
+
+  // Returns null when the invitation was already used or revoked, or belongs to another event
+  static async revoke(id: string, eventId: string): Promise<OrganizerInvitationClient | null> {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('organizer_invitations')
+      .update({ revoked_at: new Date() })
+      .eq('id', id)
+      .eq('event_id', eventId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to revoke organizer invitation: ${error.message}`);
+    }
+
+    const [invitation] = data;
+    return invitation ? dbOrganizerInvitationToClient(invitation) : null;
+  }
+}
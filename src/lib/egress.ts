@@ -0,0 +1,171 @@
+// LiveKit egress clients used to push the on-air camera to YouTube
+import {
+  EgressClient,
+  EncodingOptionsPreset,
+  RoomServiceClient,
+  StreamOutput,
+  StreamProtocol,
+  TrackSource,
+} from 'livekit-server-sdk';
+
+// YouTube RTMP ingestion endpoint (primary)
+export const YOUTUBE_RTMP_BASE_URL = 'rtmp://a.rtmp.youtube.com/live2';
+
+// What an egress should send and where
+export interface EgressTarget {
+  roomName: string;
+  participantIdentity: string; // LiveKit identity of the camera (= participant_id)
+  rtmpUrl: string;
+}
+
+// Standby slate: a web page rendered by the egress and sent to YouTube
+export interface SlateTarget {
+  url: string;
+  rtmpUrl: string;
+}
+
+// Egress operations needed by the stream switcher
+export interface StreamEgressClient {
+  // Start an RTMP egress for the participant's tracks and return its egress ID
+  startStream(target: EgressTarget): Promise<string>;
+  // Start an RTMP egress showing the standby slate and return its egress ID
+  startSlate(target: SlateTarget): Promise<string>;
+  // Stop a running egress
+  stopStream(egressId: string): Promise<void>;
+}
+
+// Build the RTMP URL for a YouTube stream key
+export function buildYouTubeRtmpUrl(streamKey: string): string {
+  return `${YOUTUBE_RTMP_BASE_URL}/${streamKey}`;
+}
+
+// LiveKit-backed egress client (track-composite egress over RTMP)
+export class LiveKitEgressClient implements StreamEgressClient {
+  private readonly egressClient: EgressClient;
+  private readonly roomService: RoomServiceClient;
+
+  constructor(host: string, apiKey: string, apiSecret: string) {
+    this.egressClient = new EgressClient(host, apiKey, apiSecret);
+    this.roomService = new RoomServiceClient(host, apiKey, apiSecret);
+  }
+
+  async startStream(target: EgressTarget): Promise<string> {
+    // Resolve the camera's published tracks
+    const participant = await this.roomService.getParticipant(
+      target.roomName,
+      target.participantIdentity
+    );
+
+    const videoTrack = participant.tracks.find(
+      (track) => track.source === TrackSource.CAMERA
+    );
+    const audioTrack = participant.tracks.find(
+      (track) => track.source === TrackSource.MICROPHONE
+    );
+
+    if (!videoTrack) {
+      throw new Error(
+        `Participant ${target.participantIdentity} has no published camera track`
+      );
+    }
+
+    const info = await this.egressClient.startTrackCompositeEgress(
+      target.roomName,
+      new StreamOutput({
+        protocol: StreamProtocol.RTMP,
+        urls: [target.rtmpUrl],
+      }),
+      {
+        videoTrackId: videoTrack.sid,
+        audioTrackId: audioTrack?.sid,
+        encodingOptions: EncodingOptionsPreset.H264_720P_30,
+      }
+    );
+
+    return info.egressId;
+  }
+
+  async startSlate(target: SlateTarget): Promise<string> {
+    const info = await this.egressClient.startWebEgress(
+      target.url,
+      new StreamOutput({
+        protocol: StreamProtocol.RTMP,
+        urls: [target.rtmpUrl],
+      }),
+      {
+        encodingOptions: EncodingOptionsPreset.H264_720P_30,
+      }
+    );
+
+    return info.egressId;
+  }
+
+  async stopStream(egressId: string): Promise<void> {
+    await this.egressClient.stopEgress(egressId);
+  }
+}
+
+// In-memory egress client for development and offline tests
+export class FakeEgressClient implements StreamEgressClient {
+  readonly activeStreams = new Map<string, EgressTarget | SlateTarget>();
+  readonly calls: Array<
+    | { type: 'start'; target: EgressTarget; egressId: string }
+    | { type: 'slate'; target: SlateTarget; egressId: string }
+    | { type: 'stop'; egressId: string }
+  > = [];
+
+  private nextId = 1;
+  private pendingFailure: Error | null = null;
+
+  // Make the next start/stop call reject with the given error
+  failNext(error: Error = new Error('Fake egress failure')): void {
+    this.pendingFailure = error;
+  }
+
+  async startStream(target: EgressTarget): Promise<string> {
+    this.throwPendingFailure();
+
+    const egressId = `fake_egress_${this.nextId++}`;
+    this.activeStreams.set(egressId, target);
+    this.calls.push({ type: 'start', target, egressId });
+    return egressId;
+  }
+
+  async startSlate(target: SlateTarget): Promise<string> {
+    this.throwPendingFailure();
+
+    const egressId = `fake_egress_${this.nextId++}`;
+    this.activeStreams.set(egressId, target);
+    this.calls.push({ type: 'slate', target, egressId });
+    return egressId;
+  }
+
+  async stopStream(egressId: string): Promise<void> {
+    this.throwPendingFailure();
+
+    this.activeStreams.delete(egressId);
+    this.calls.push({ type: 'stop', egressId });
+  }
+
+  private throwPendingFailure(): void {
+    if (this.pendingFailure) {
+      const error = this.pendingFailure;
+      this.pendingFailure = null;
+      throw error;
+    }
+  }
+}
+
+// Create the egress client from environment configuration
+export function createEgressClient(): StreamEgressClient {
+  const host = process.env.NEXT_PUBLIC_LIVEKIT_URL;
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!host || !apiKey || !apiSecret) {
+    console.warn('LiveKit egress credentials not configured - using fake egress client');
+    return new FakeEgressClient();
+  }
+
+  return new LiveKitEgressClient(host, apiKey, apiSecret);
+}
@@ -12,14 +12,24 @@ export interface EnvironmentConfig {
     apiSecret?: string;
   };
   youtube: {
+    mode?: string;
     apiKey?: string;
     clientId?: string;
     clientSecret?: string;
+    refreshToken?: string;
+    redirectUri?: string;
+    tokenEncryptionKey?: string;
+    dailyQuota?: string;
   };
   nextAuth: {
     secret?: string;
     url: string;
   };
+  rateLimit: {
+    store?: string; // memory (default), postgres or redis
+    redisUrl?: string;
+    redisToken?: string;
+  };
 }
 
 // Validate required environment variables
@@ -36,14 +46,24 @@ export function validateEnvironment(): EnvironmentConfig {
       apiSecret: process.env.LIVEKIT_API_SECRET,
     },
     youtube: {
+      mode: process.env.YOUTUBE_MODE,
       apiKey: process.env.YOUTUBE_API_KEY,
       clientId: process.env.YOUTUBE_CLIENT_ID,
       clientSecret: process.env.YOUTUBE_CLIENT_SECRET,
+      refreshToken: process.env.YOUTUBE_REFRESH_TOKEN,
+      redirectUri: process.env.YOUTUBE_REDIRECT_URI,
+      tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY,
+      dailyQuota: process.env.YOUTUBE_DAILY_QUOTA,
     },
     nextAuth: {
       secret: process.env.NEXTAUTH_SECRET,
       url: process.env.NEXTAUTH_URL || 'http://localhost:3000',
     },
+    rateLimit: {
+      store: process.env.RATE_LIMIT_STORE,
+      redisUrl: process.env.UPSTASH_REDIS_REST_URL,
+      redisToken: process.env.UPSTASH_REDIS_REST_TOKEN,
+    },
   };
 
   // Validate required client-side variables
@@ -83,6 +103,14 @@ export function checkIntegrationStatus() {
   return {
     supabase: !!(config.supabase.url && config.supabase.anonKey),
     livekit: !!(config.livekit.url && config.livekit.apiKey && config.livekit.apiSecret),
-    youtube: !!(config.youtube.apiKey && config.youtube.clientId && config.youtube.clientSecret),
+    youtube:
+      config.youtube.mode === 'mock' ||
+      !!(config.youtube.clientId && config.youtube.clientSecret && config.youtube.refreshToken),
+    // Organizers can connect their own channels
+    youtubeOAuth: !!(
+      config.youtube.clientId &&
+      config.youtube.clientSecret &&
+      config.youtube.tokenEncryptionKey
+    ),
   };
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+// Per-event pub/sub bus feeding Server-Sent Events streams
+import { processSingleton } from "./process-singleton";
+import type { WebSocketEvent } from "./websocket";
+
+// Events delivered through the bus carry a per-event, monotonically increasing id
+export type SequencedEvent = WebSocketEvent & { id: number };
+
+export type EventBusListener = (event: SequencedEvent) => void;
+
+// Number of recent events kept per event for Last-Event-ID replay
+export const DEFAULT_REPLAY_BUFFER_SIZE = 200;
+
+// Transport used to fan events out to SSE subscribers.
+// The in-memory bus only reaches subscribers in this process; a Redis pub/sub or
+// Postgres LISTEN/NOTIFY adapter can implement the same interface for multi-instance deployments.
+export interface EventBus {
+  // Assigns the event its id and delivers it to subscribers
+  publish(eventId: string, event: WebSocketEvent): Promise<SequencedEvent>;
+  // Returns an unsubscribe function
+  subscribe(eventId: string, listener: EventBusListener): () => void;
+  // Events published after `lastEventId`, oldest first.
+  // null when they can no longer be replayed and the client must resync.
+  replay(eventId: string, lastEventId: number): Promise<SequencedEvent[] | null>;
+}
+
+// Fixed-capacity buffer that overwrites its oldest entry when full
+export class RingBuffer<T> {
+  private readonly items: Array<T | undefined>;
+  private start = 0;
+  private length = 0;
+
+  constructor(private readonly capacity: number) {
+    if (capacity < 1) {
+      throw new Error("RingBuffer capacity must be at least 1");
+    }
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.length) % this.capacity;
+    this.items[index] = item;
+
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.length; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+}
+
+export class InMemoryEventBus implements EventBus {
+  private readonly channels = new Map<string, Set<EventBusListener>>();
+  private readonly history = new Map<string, RingBuffer<SequencedEvent>>();
+  private readonly firstIds = new Map<string, number>();
+  private readonly lastIds = new Map<string, number>();
+
+  constructor(private readonly replayBufferSize = DEFAULT_REPLAY_BUFFER_SIZE) {}
+
+  async publish(eventId: string, event: WebSocketEvent): Promise<SequencedEvent> {
+    // Seed from the clock so ids keep increasing across server restarts
+    const previousId = this.lastIds.get(eventId);
+    const id = previousId === undefined ? Date.now() * 1000 : previousId + 1;
+    if (previousId === undefined) {
+      this.firstIds.set(eventId, id);
+    }
+    this.lastIds.set(eventId, id);
+
+    const sequenced: SequencedEvent = { ...event, id };
+
+    let buffer = this.history.get(eventId);
+    if (!buffer) {
+      buffer = new RingBuffer(this.replayBufferSize);
+      this.history.set(eventId, buffer);
+    }
+    buffer.push(sequenced);
+
+    const listeners = this.channels.get(eventId);
+    if (!listeners) {
+      return sequenced;
+    }
+
+    // Copy so listeners can unsubscribe while being notified
+    for (const listener of [...listeners]) {
+      try {
+        listener(sequenced);
+      } catch (error) {
+        console.error("Event bus listener failed:", error);
+      }
+    }
+
+    return sequenced;
+  }
+
+  async replay(eventId: string, lastEventId: number): Promise<SequencedEvent[] | null> {
+    const firstId = this.firstIds.get(eventId);
+    const lastId = this.lastIds.get(eventId);
+
+    if (lastId !== undefined && lastEventId === lastId) {
+      return [];
+    }
+
+    // Id issued before this process started (or never issued) - history is unknown
+    if (firstId === undefined || lastId === undefined || lastEventId < firstId || lastEventId > lastId) {
+      return null;
+    }
+
+    const buffered = this.history.get(eventId)?.toArray() ?? [];
+    const oldest = buffered[0];
+
+    // Events after lastEventId have already been overwritten
+    if (!oldest || oldest.id > lastEventId + 1) {
+      return null;
+    }
+
+    return buffered.filter(event => event.id > lastEventId);
+  }
+
+  subscribe(eventId: string, listener: EventBusListener): () => void {
+    let listeners = this.channels.get(eventId);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(eventId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.channels.get(eventId);
+      if (!current) return;
+
+      current.delete(listener);
+      if (current.size === 0) {
+        this.channels.delete(eventId);
+      }
+    };
+  }
+
+  // Number of active subscribers for an event (for monitoring and tests)
+  subscriberCount(eventId: string): number {
+    return this.channels.get(eventId)?.size ?? 0;
+  }
+}
+
+const eventBus = processSingleton<{ current?: EventBus }>("event-bus", () => ({}));
+
+export function getEventBus(): EventBus {
+  eventBus.current ??= new InMemoryEventBus();
+  return eventBus.current;
+}
+
+// Replace the bus (e.g. with a Redis adapter at startup, or a fresh bus in tests)
+export function setEventBus(bus: EventBus | null): void {
+  eventBus.current = bus ?? undefined;
+}
@@ -0,0 +1,55 @@
+// Organizer roles within an event, shared by the server checks and the dashboard.
+// Pure functions, safe to import from client components.
+import type { EventRole, OrganizerInvitationClient } from "@/types";
+
+// Highest first. Each role can do everything the roles below it can:
+// monitors watch the dashboard, operators run the broadcast, owners also
+// manage the event itself and its organizers.
+export const EVENT_ROLES: readonly EventRole[] = ["owner", "operator", "monitor"];
+
+const ROLE_RANK: Record<EventRole, number> = {
+  owner: 3,
+  operator: 2,
+  monitor: 1,
+};
+
+export function hasEventRole(
+  role: EventRole | null | undefined,
+  minimum: EventRole
+): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export const EVENT_ROLE_LABELS: Record<EventRole, string> = {
+  owner: "オーナー",
+  operator: "オペレーター",
+  monitor: "モニター（閲覧のみ）",
+};
+
+// Why an organizer invitation cannot be accepted, shown on the accept page
+export const ORGANIZER_INVITATION_ERROR_MESSAGES = {
+  invalid: "この招待は無効です。イベントのオーナーに新しい招待を依頼してください。",
+  expired: "この招待は有効期限が切れています。イベントのオーナーに新しい招待を依頼してください。",
+  used: "この招待は既に使用されています。",
+  revoked: "この招待はイベントのオーナーにより取り消されました。",
+  "wrong-account": "この招待は別のメールアドレス宛てです。招待されたメールアドレスでログインしてください。",
+} as const;
+
+export type OrganizerInvitationError = keyof typeof ORGANIZER_INVITATION_ERROR_MESSAGES;
+
+export type OrganizerInvitationStatus = "pending" | "used" | "expired" | "revoked";
+
+export function getOrganizerInvitationStatus(
+  invitation: OrganizerInvitationClient,
+  now = new Date()
+): OrganizerInvitationStatus {
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.acceptedAt) return "used";
+  if (new Date(invitation.expiresAt).getTime() <= now.getTime()) return "expired";
+  return "pending";
+}
+
+// Invitation links open the accept page, which asks the invitee to sign in first
+export function getOrganizerInvitationUrl(origin: string, token: string): string {
+  return `${origin}/invitations/accept?token=${encodeURIComponent(token)}`;
+}
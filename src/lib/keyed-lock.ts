@@ -0,0 +1,25 @@
+// Per-key chain of async tasks: tasks for the same key (an event ID) run one at
+// a time in call order, tasks for different keys run concurrently. A failed
+// task does not block the ones queued behind it. Serializes within one process.
+export class KeyedLock {
+  private readonly chains = new Map<string, Promise<unknown>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.chains.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.chains.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.chains.get(key) === current) {
+        this.chains.delete(key);
+      }
+    }
+  }
+
+  // Keys with a task running or queued
+  get size(): number {
+    return this.chains.size;
+  }
+}
@@ -0,0 +1,150 @@
+// Drives camera state from LiveKit webhooks (participant/track lifecycle on the media server)
+import { TrackSource, type WebhookEvent } from 'livekit-server-sdk';
+import type { LiveKitParticipantMetadata } from './auth';
+import { CameraModeration } from './camera-moderation';
+import { CameraConnectionService, WebhookEventService } from './database';
+import {
+  WebSocketEventHandler,
+  createCameraDisconnectedEvent,
+  createCameraJoinedEvent,
+  createCameraStartedStreamingEvent,
+} from './websocket';
+import type { CameraConnectionClient } from '@/types';
+
+export type WebhookHandleResult =
+  | { status: 'handled'; cameraConnectionId: string }
+  | { status: 'duplicate' }
+  | { status: 'ignored'; reason: string };
+
+type ParticipantInfo = NonNullable<WebhookEvent['participant']>;
+
+// Camera connection id from the metadata we embed in camera tokens
+export function getCameraConnectionId(participant: ParticipantInfo): string | null {
+  if (!participant.metadata) return null;
+
+  try {
+    const metadata = JSON.parse(participant.metadata) as Partial<LiveKitParticipantMetadata>;
+    if (metadata.role !== 'camera') return null;
+    return metadata.cameraConnectionId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function connectionDuration(camera: CameraConnectionClient): number {
+  return Math.floor((Date.now() - new Date(camera.joinedAt).getTime()) / 1000);
+}
+
+export class LiveKitWebhookHandler {
+  // Handle a verified webhook. Deliveries are recorded by id first, so LiveKit
+  // retries of an already-processed event are skipped.
+  static async handle(event: WebhookEvent): Promise<WebhookHandleResult> {
+    if (!event.id) {
+      return { status: 'ignored', reason: 'missing webhook id' };
+    }
+
+    const isNew = await WebhookEventService.markProcessed(event.id, event.event);
+    if (!isNew) {
+      return { status: 'duplicate' };
+    }
+
+    try {
+      return await this.dispatch(event);
+    } catch (error) {
+      // Let LiveKit's retry process the event again
+      await WebhookEventService.release(event.id).catch((releaseError) => {
+        console.error('Failed to release webhook event:', releaseError);
+      });
+      throw error;
+    }
+  }
+
+  private static async dispatch(event: WebhookEvent): Promise<WebhookHandleResult> {
+    const { participant } = event;
+    if (!participant) {
+      return { status: 'ignored', reason: `unhandled event ${event.event}` };
+    }
+
+    const cameraConnectionId = getCameraConnectionId(participant);
+    if (!cameraConnectionId) {
+      return { status: 'ignored', reason: 'participant is not a camera' };
+    }
+
+    const camera = await CameraConnectionService.getById(cameraConnectionId);
+    if (!camera) {
+      return { status: 'ignored', reason: 'camera connection not found' };
+    }
+
+    // A removed camera still holds a valid token; keep it out of the room
+    if (
+      camera.disconnectReason &&
+      (event.event === 'participant_joined' || event.event === 'track_published')
+    ) {
+      if (event.room?.name) {
+        await CameraModeration.removeFromRoom(event.room.name, participant.identity);
+      }
+      return { status: 'ignored', reason: `camera was ${camera.disconnectReason}` };
+    }
+
+    switch (event.event) {
+      case 'participant_joined':
+        await WebSocketEventHandler.handleCameraJoined(
+          createCameraJoinedEvent(camera.eventId, camera.participantId, camera.id, {
+            participantName: participant.name || camera.participantName,
+            deviceInfo: camera.deviceInfo,
+          })
+        );
+        break;
+
+      case 'track_published': {
+        const track = event.track;
+        if (!track || track.source !== TrackSource.CAMERA) {
+          return { status: 'ignored', reason: 'not a camera track' };
+        }
+        // Already reported by the client
+        if (camera.status === 'active') {
+          return { status: 'ignored', reason: 'camera already streaming' };
+        }
+
+        await WebSocketEventHandler.handleCameraStartedStreaming(
+          createCameraStartedStreamingEvent(camera.eventId, camera.participantId, camera.id, {
+            resolution: track.width && track.height ? `${track.width}x${track.height}` : 'unknown',
+            frameRate: camera.streamQuality.frameRate || 0,
+            bitrate: camera.streamQuality.bitrate || 0,
+            codec: track.mimeType ? track.mimeType.replace(/^video\//, '') : 'unknown',
+          })
+        );
+        break;
+      }
+
+      case 'track_unpublished':
+      case 'participant_left': {
+        if (
+          event.event === 'track_unpublished' &&
+          (!event.track || event.track.source !== TrackSource.CAMERA)
+        ) {
+          return { status: 'ignored', reason: 'not a camera track' };
+        }
+        if (camera.status === 'inactive') {
+          return { status: 'ignored', reason: 'camera already inactive' };
+        }
+
+        await WebSocketEventHandler.handleCameraDisconnected(
+          createCameraDisconnectedEvent(
+            camera.eventId,
+            camera.participantId,
+            camera.id,
+            event.event,
+            connectionDuration(camera)
+          )
+        );
+        break;
+      }
+
+      default:
+        return { status: 'ignored', reason: `unhandled event ${event.event}` };
+    }
+
+    return { status: 'handled', cameraConnectionId: camera.id };
+  }
+}
@@ -1,6 +1,5 @@
 import { Room, VideoPresets } from 'livekit-client';
 import type { RoomOptions } from 'livekit-client';
-import { AccessToken } from 'livekit-server-sdk';
 
 // LiveKit client configuration
 export const livekitUrl = process.env.NEXT_PUBLIC_LIVEKIT_URL!;
@@ -28,37 +27,3 @@ export function createRoom(options?: Partial<RoomOptions>): Room {
     ...options,
   });
 }
-
-// Server-side token generation
-export async function generateAccessToken(
-  roomName: string,
-  participantName: string,
-  options: {
-    canPublish?: boolean;
-    canSubscribe?: boolean;
-    canPublishData?: boolean;
-    metadata?: string;
-  } = {}
-): Promise<string> {
-  const apiKey = process.env.LIVEKIT_API_KEY;
-  const apiSecret = process.env.LIVEKIT_API_SECRET;
-
-  if (!apiKey || !apiSecret) {
-    throw new Error('Missing LiveKit API credentials');
-  }
-
-  const at = new AccessToken(apiKey, apiSecret, {
-    identity: participantName,
-    metadata: options.metadata,
-  });
-
-  at.addGrant({
-    room: roomName,
-    roomJoin: true,
-    canPublish: options.canPublish ?? true,
-    canSubscribe: options.canSubscribe ?? true,
-    canPublishData: options.canPublishData ?? true,
-  });
-
-  return await at.toJwt();
-}
\ No newline at end of file
@@ -1,89 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { formatValidationErrors, generateCSPHeader } from './validation';
+import { checkRateLimit, type RateLimitDecision, type RateLimitRule } from './rate-limit';
 
-// Rate limiting store (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+export { RATE_LIMITS } from './rate-limit';
 
 // Rate limiting configuration
-interface RateLimitConfig {
-  windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Maximum requests per window
+interface RateLimitConfig extends RateLimitRule {
   keyGenerator?: (request: NextRequest) => string; // Custom key generator
   skipSuccessfulRequests?: boolean; // Don't count successful requests
   skipFailedRequests?: boolean; // Don't count failed requests
 }
 
-// Default rate limit configurations for different endpoints
-export const RATE_LIMITS = {
-  // General API endpoints
-  default: { windowMs: 60000, maxRequests: 100 }, // 100 requests per minute
-  
-  // Event creation (more restrictive)
-  createEvent: { windowMs: 300000, maxRequests: 5 }, // 5 events per 5 minutes
-  
-  // Join event (moderate)
-  joinEvent: { windowMs: 60000, maxRequests: 10 }, // 10 joins per minute
-  
-  // Status updates (frequent)
-  statusUpdate: { windowMs: 60000, maxRequests: 200 }, // 200 updates per minute
-  
-  // Analytics (frequent)
-  analytics: { windowMs: 60000, maxRequests: 500 }, // 500 analytics events per minute
-  
-  // Error reporting (moderate)
-  errorReporting: { windowMs: 60000, maxRequests: 50 }, // 50 errors per minute
-} as const;
-
 // Rate limiting middleware
 export function rateLimit(config: RateLimitConfig) {
   return async (request: NextRequest): Promise<NextResponse | null> => {
     const key = config.keyGenerator ? config.keyGenerator(request) : getDefaultKey(request);
-    const now = Date.now();
-    
-    // Clean up expired entries
-    cleanupExpiredEntries(now);
-    
-    const entry = rateLimitStore.get(key);
-    
-    if (!entry || now > entry.resetTime) {
-      // First request or window expired
-      rateLimitStore.set(key, {
-        count: 1,
-        resetTime: now + config.windowMs,
-      });
-      return null; // Allow request
-    }
-    
-    if (entry.count >= config.maxRequests) {
-      // Rate limit exceeded
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Rate limit exceeded',
-          retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-        },
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': Math.ceil((entry.resetTime - now) / 1000).toString(),
-            'X-RateLimit-Limit': config.maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': entry.resetTime.toString(),
-          },
-        }
-      );
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await checkRateLimit(key, config);
+    } catch (error) {
+      // An unreachable store must not take the API down with it
+      console.error('Rate limit check failed, allowing request:', error);
+      return null;
     }
-    
-    // Increment counter
-    entry.count++;
-    
-    return null; // Allow request
+
+    return decision.allowed ? null : rateLimitExceededResponse(decision);
   };
 }
 
+// 429 response for a refused request
+export function rateLimitExceededResponse(decision: RateLimitDecision): NextResponse {
+  const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Rate limit exceeded',
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        'X-RateLimit-Limit': decision.limit.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': decision.resetAt.toString(),
+      },
+    }
+  );
+}
+
 // Default key generator (IP + User-Agent hash)
-function getDefaultKey(request: NextRequest): string {
+export function getDefaultKey(request: NextRequest): string {
   const ip = request.headers.get('x-forwarded-for') || 'unknown';
   const userAgent = request.headers.get('user-agent') || 'unknown';
   return `${ip}:${hashString(userAgent)}`;
@@ -100,15 +70,6 @@ function hashString(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
-// Cleanup expired rate limit entries
-function cleanupExpiredEntries(now: number): void {
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-}
-
 // Request validation middleware
 export function validateRequestBody<T>(schema: z.ZodSchema<T>) {
   return async (request: NextRequest): Promise<{ data: T } | NextResponse> => {
@@ -212,33 +173,6 @@ export function securityHeaders(): Record<string, string> {
   };
 }
 
-// Authentication middleware (simple token-based)
-export function requireAuth(request: NextRequest): NextResponse | null {
-  const authHeader = request.headers.get('authorization');
-  
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return NextResponse.json(
-      { success: false, error: 'Authentication required' },
-      { status: 401 }
-    );
-  }
-  
-  const token = authHeader.substring(7);
-  
-  // In a real application, validate the JWT token here
-  // For now, we'll use a simple admin token check
-  const adminToken = process.env.ADMIN_TOKEN;
-  
-  if (adminToken && token !== adminToken) {
-    return NextResponse.json(
-      { success: false, error: 'Invalid authentication token' },
-      { status: 401 }
-    );
-  }
-  
-  return null; // Allow request
-}
-
 // Middleware composer
 export function composeMiddleware(...middlewares: Array<(request: NextRequest) => Promise<NextResponse | null> | NextResponse | null>) {
   return async (request: NextRequest): Promise<NextResponse | null> => {
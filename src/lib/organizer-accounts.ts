@@ -0,0 +1,202 @@
+// Organizer accounts (email + password), event membership and co-organizer
+// invitations. Organizers sign in with their own account and reach an event
+// through their membership role instead of a shared admin key.
+import { AuthService } from "./auth";
+import { EventMemberService, OrganizerInvitationService, OrganizerService } from "./database";
+import { type OrganizerInvitationError, getOrganizerInvitationStatus, hasEventRole } from "./event-roles";
+import { type BackoffRule, checkBackoff, recordBackoffFailure, resetBackoff } from "./rate-limit";
+import { hashSecret, verifySecret } from "./secret-hash";
+import type { EventRole, OrganizerClient, OrganizerInvitationClient } from "@/types";
+
+// 5 free failures, then 2s, 4s, 8s... up to 15 minutes between attempts
+export const ORGANIZER_LOGIN_BACKOFF: BackoffRule = {
+  name: "organizerLogin",
+  freeFailures: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+};
+
+export const ORGANIZER_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type OrganizerRegistrationResult =
+  | { status: "ok"; organizer: OrganizerClient }
+  | { status: "email-taken" };
+
+export type OrganizerLoginResult =
+  | { status: "ok"; organizer: OrganizerClient }
+  // retryAfterMs: wait before this client's next attempt (0 for none)
+  | { status: "invalid-credentials"; retryAfterMs: number }
+  | { status: "throttled"; retryAfterMs: number };
+
+export type OrganizerInvitationAcceptance =
+  | { status: "ok"; eventId: string; role: EventRole }
+  | { status: OrganizerInvitationError };
+
+export type EventMemberChangeResult = "ok" | "not-member" | "last-owner";
+
+// Compared against for unknown emails, so both paths cost one scrypt
+let dummyPasswordHash: Promise<string> | null = null;
+
+export class OrganizerAccounts {
+  static async register(
+    email: string,
+    password: string,
+    displayName?: string
+  ): Promise<OrganizerRegistrationResult> {
+    const organizer = await OrganizerService.create({
+      email,
+      displayName: displayName || undefined,
+      passwordHash: await hashSecret(password),
+    });
+
+    return organizer ? { status: "ok", organizer } : { status: "email-taken" };
+  }
+
+  // Check the password. Wrong passwords slow the client down for that email.
+  static async authenticate(
+    email: string,
+    password: string,
+    clientKey: string
+  ): Promise<OrganizerLoginResult> {
+    const backoffKey = `${email.toLowerCase()}:${clientKey}`;
+
+    try {
+      const backoff = await checkBackoff(backoffKey, ORGANIZER_LOGIN_BACKOFF);
+      if (!backoff.allowed) {
+        return { status: "throttled", retryAfterMs: backoff.retryAfterMs };
+      }
+    } catch (error) {
+      // An unreachable store must not lock organizers out
+      console.error("Organizer login check failed, allowing attempt:", error);
+    }
+
+    const organizer = await OrganizerService.getByEmail(email);
+    dummyPasswordHash ??= hashSecret("harecame-dummy-password");
+    const passwordHash = organizer?.passwordHash ?? (await dummyPasswordHash);
+
+    if (!(await verifySecret(password, passwordHash)) || !organizer) {
+      const failure = await recordBackoffFailure(backoffKey, ORGANIZER_LOGIN_BACKOFF).catch((error) => {
+        console.error("Failed to record organizer login failure:", error);
+        return null;
+      });
+      return { status: "invalid-credentials", retryAfterMs: failure?.retryAfterMs ?? 0 };
+    }
+
+    await resetBackoff(backoffKey, ORGANIZER_LOGIN_BACKOFF).catch((error) => {
+      console.error("Failed to reset organizer login delay:", error);
+    });
+
+    return { status: "ok", organizer };
+  }
+}
+
+export class EventMembers {
+  // Change a member's role. An event always keeps at least one owner.
+  static async changeRole(
+    eventId: string,
+    organizerId: string,
+    role: EventRole
+  ): Promise<EventMemberChangeResult> {
+    const members = await EventMemberService.getByEventId(eventId);
+    const member = members.find((item) => item.organizerId === organizerId);
+    if (!member) {
+      return "not-member";
+    }
+    if (member.role === "owner" && role !== "owner" && this.countOwners(members) <= 1) {
+      return "last-owner";
+    }
+
+    await EventMemberService.upsert(eventId, organizerId, role);
+    return "ok";
+  }
+
+  static async remove(eventId: string, organizerId: string): Promise<EventMemberChangeResult> {
+    const members = await EventMemberService.getByEventId(eventId);
+    const member = members.find((item) => item.organizerId === organizerId);
+    if (!member) {
+      return "not-member";
+    }
+    if (member.role === "owner" && this.countOwners(members) <= 1) {
+      return "last-owner";
+    }
+
+    await EventMemberService.remove(eventId, organizerId);
+    return "ok";
+  }
+
+  private static countOwners(members: Array<{ role: EventRole }>): number {
+    return members.filter((member) => member.role === "owner").length;
+  }
+}
+
+export class OrganizerInvitations {
+  static async create(
+    eventId: string,
+    options: { email: string; role: OrganizerInvitationClient["role"] },
+    invitedBy: string
+  ): Promise<{ invitation: OrganizerInvitationClient; token: string }> {
+    const invitation = await OrganizerInvitationService.create({
+      eventId,
+      email: options.email,
+      role: options.role,
+      invitedBy,
+      expiresAt: new Date(Date.now() + ORGANIZER_INVITATION_TTL_MS),
+    });
+
+    return { invitation, token: await this.getToken(invitation) };
+  }
+
+  // As with camera invites, the token only names the invitation row
+  static async getToken(invitation: OrganizerInvitationClient): Promise<string> {
+    return AuthService.generateOrganizerInvitationToken(
+      invitation.id,
+      invitation.eventId,
+      new Date(invitation.expiresAt)
+    );
+  }
+
+  // The invitation a link token names, without accepting it
+  static async inspect(token: string): Promise<OrganizerInvitationClient | null> {
+    const payload = await AuthService.verifyToken(token);
+    if (!payload || payload.type !== "organizer-invite" || !payload.eventId) {
+      return null;
+    }
+
+    const invitation = await OrganizerInvitationService.getById(payload.sub);
+    return invitation && invitation.eventId === payload.eventId ? invitation : null;
+  }
+
+  // Join the event as the signed-in organizer, who must own the invited email
+  static async accept(
+    token: string,
+    organizer: OrganizerClient
+  ): Promise<OrganizerInvitationAcceptance> {
+    const invitation = await this.inspect(token);
+    if (!invitation) {
+      return { status: "invalid" };
+    }
+
+    const status = getOrganizerInvitationStatus(invitation);
+    if (status !== "pending") {
+      return { status };
+    }
+    if (invitation.email !== organizer.email.toLowerCase()) {
+      return { status: "wrong-account" };
+    }
+
+    const accepted = await OrganizerInvitationService.markAccepted(invitation.id, organizer.id);
+    if (!accepted) {
+      return { status: "used" };
+    }
+
+    // Never demote an existing member (e.g. an owner accepting a monitor invitation)
+    const currentRole = await EventMemberService.getRole(invitation.eventId, organizer.id);
+    if (currentRole && hasEventRole(currentRole, invitation.role)) {
+      return { status: "ok", eventId: invitation.eventId, role: currentRole };
+    }
+
+    await EventMemberService.upsert(invitation.eventId, organizer.id, invitation.role);
+    return { status: "ok", eventId: invitation.eventId, role: invitation.role };
+  }
+}
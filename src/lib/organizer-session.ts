@@ -0,0 +1,89 @@
+// The signed-in organizer of server components, server actions and auth routes
+// (the harecame-session cookie)
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextResponse } from "next/server";
+import { AuthService, SessionService, type JWTPayload } from "./auth";
+import { OrganizerService } from "./database";
+import { securityHeaders } from "./middleware";
+import type { EventRole, OrganizerClient } from "@/types";
+
+async function getSessionPayload(): Promise<JWTPayload | null> {
+  const token = (await cookies()).get(SessionService.SESSION_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  const payload = await AuthService.verifyToken(token);
+  if (payload?.type !== "organizer") {
+    return null;
+  }
+  return payload;
+}
+
+// Organizer signed in through the session cookie, if any
+export async function getSessionOrganizerId(): Promise<string | undefined> {
+  return (await getSessionPayload())?.sub;
+}
+
+// The organizer account behind the session
+export async function getSessionOrganizer(): Promise<OrganizerClient | null> {
+  const payload = await getSessionPayload();
+  if (!payload) return null;
+
+  return OrganizerService.getById(payload.sub);
+}
+
+// Only same-origin paths are allowed as post-login destinations
+export function sanitizeLoginNext(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.includes("\\")) {
+    return "/events";
+  }
+  return next;
+}
+
+export function getLoginUrl(next: string): string {
+  return `/login?next=${encodeURIComponent(sanitizeLoginNext(next))}`;
+}
+
+// Organizer pages: the signed-in account, or a redirect to the login page
+export async function requireSessionOrganizer(returnTo: string): Promise<OrganizerClient> {
+  const organizer = await getSessionOrganizer();
+  if (!organizer) {
+    redirect(getLoginUrl(returnTo));
+  }
+  return organizer;
+}
+
+// The signed-in organizer's role in the event, or null
+export async function getSessionEventRole(eventId: string): Promise<EventRole | null> {
+  const payload = await getSessionPayload();
+  return payload ? AuthService.getEventRole(payload, eventId) : null;
+}
+
+// Signed-in response of /api/auth/login and /api/auth/register
+export async function createOrganizerSessionResponse(
+  organizer: OrganizerClient,
+  status = 200
+): Promise<NextResponse> {
+  const token = await AuthService.generateOrganizerToken(organizer.id);
+
+  const response = NextResponse.json(
+    {
+      success: true,
+      data: {
+        token,
+        user: {
+          id: organizer.id,
+          type: "organizer",
+          email: organizer.email,
+          displayName: organizer.displayName,
+        },
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+      },
+    },
+    { status, headers: securityHeaders() }
+  );
+
+  response.headers.set("Set-Cookie", SessionService.createSessionCookie(token));
+
+  return response;
+}
@@ -0,0 +1,24 @@
+// Participation codes shown on the QR card and typed in by camera operators
+import { randomBytes } from 'crypto';
+
+// No 0/O or 1/I, which are easy to misread when typed from a printed card.
+// 32 characters, so each random byte maps onto the alphabet without bias.
+export const PARTICIPATION_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const PARTICIPATION_CODE_LENGTH = 6;
+
+// Attempts before giving up on finding an unused code
+export const MAX_PARTICIPATION_CODE_ATTEMPTS = 5;
+
+export function generateParticipationCode(): string {
+  const bytes = randomBytes(PARTICIPATION_CODE_LENGTH);
+  let code = '';
+  for (const byte of bytes) {
+    code += PARTICIPATION_CODE_ALPHABET[byte % PARTICIPATION_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+// Unique violation on events.participation_code
+export function isParticipationCodeCollision(error: { code?: string; message?: string }): boolean {
+  return error.code === '23505' && Boolean(error.message?.includes('participation_code'));
+}
@@ -0,0 +1,19 @@
+// Per-process state (buses, stores, timers, caches, locks). Next.js can bundle
+// route handlers separately, each with its own copy of a module, so module
+// variables would exist once per bundle. Values created here are kept on
+// globalThis and shared by every copy within one server process; they are
+// never shared across server instances.
+const REGISTRY_KEY: unique symbol = Symbol.for("harecame.processSingletons");
+
+const globalWithRegistry = globalThis as typeof globalThis & {
+  [REGISTRY_KEY]?: Map<string, unknown>;
+};
+
+// The process-wide value for key, created on first use
+export function processSingleton<T>(key: string, create: () => T): T {
+  const registry = (globalWithRegistry[REGISTRY_KEY] ??= new Map<string, unknown>());
+  if (!registry.has(key)) {
+    registry.set(key, create());
+  }
+  return registry.get(key) as T;
+}
@@ -0,0 +1,561 @@
+// Rate limiting shared by API route handlers and the root middleware.
+// Rules are defined once here; counters live in a pluggable store selected with
+// RATE_LIMIT_STORE (memory, postgres or redis) so limits survive deploys and are
+// shared between instances.
+import { processSingleton } from "./process-singleton";
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export interface RateLimitRule {
+  name?: string; // Counter namespace; rules without a name are keyed by their numbers
+  windowMs: number; // Time window in milliseconds
+  maxRequests: number; // Maximum requests per window (bucket size for token-bucket)
+  algorithm?: RateLimitAlgorithm; // Defaults to sliding-window
+}
+
+// Rate limits for different endpoints
+export const RATE_LIMITS = {
+  // General API endpoints
+  default: { name: "default", windowMs: 60000, maxRequests: 100 }, // 100 requests per minute
+
+  // Event creation (more restrictive)
+  createEvent: { name: "createEvent", windowMs: 300000, maxRequests: 5 }, // 5 events per 5 minutes
+
+  // Join event and participation code checks (moderate)
+  joinEvent: { name: "joinEvent", windowMs: 60000, maxRequests: 10 }, // 10 joins per minute
+
+  // Organizer sign-in and sign-up attempts (wrong passwords also back off per email)
+  organizerLogin: { name: "organizerLogin", windowMs: 300000, maxRequests: 10 }, // 10 attempts per 5 minutes
+
+  // Status updates (frequent, bursty)
+  statusUpdate: { name: "statusUpdate", windowMs: 60000, maxRequests: 200, algorithm: "token-bucket" },
+
+  // Analytics (frequent, bursty)
+  analytics: { name: "analytics", windowMs: 60000, maxRequests: 500, algorithm: "token-bucket" },
+
+  // Error reporting (moderate)
+  errorReporting: { name: "errorReporting", windowMs: 60000, maxRequests: 50 }, // 50 errors per minute
+} as const satisfies Record<string, RateLimitRule>;
+
+// Routes the root middleware limits before they reach a handler
+export const ROUTE_RATE_LIMITS: Array<{ pattern: RegExp; rule: RateLimitRule }> = [
+  { pattern: /^\/api\/auth\/(login|register)$/, rule: RATE_LIMITS.organizerLogin },
+  { pattern: /^\/api\/events\/validate-code$/, rule: RATE_LIMITS.joinEvent },
+  { pattern: /^\/api\/events\/[^/]+\/join$/, rule: RATE_LIMITS.joinEvent },
+];
+
+export function getRouteRateLimit(pathname: string): RateLimitRule | null {
+  return ROUTE_RATE_LIMITS.find(({ pattern }) => pattern.test(pathname))?.rule ?? null;
+}
+
+// Counter namespace for a rule
+export function getRateLimitRuleKey(rule: RateLimitRule): string {
+  return rule.name ?? `${rule.windowMs}:${rule.maxRequests}`;
+}
+
+export type RateLimitState =
+  | { algorithm: "sliding-window"; windowStart: number; count: number; previousCount: number }
+  | { algorithm: "token-bucket"; tokens: number; updatedAt: number }
+  | { algorithm: "backoff"; failures: number; lastFailureAt: number }
+  // Daily usage totals kept in the same store (the YouTube quota ledger)
+  | { algorithm: "tally"; total: number; byKey: Record<string, number>; cooldownUntil?: number };
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch ms when the full limit is available again
+  retryAfterMs: number; // 0 when allowed
+}
+
+// Sliding window counter: the previous fixed window counts in proportion to
+// how much of it still overlaps the sliding window
+function applySlidingWindow(
+  rule: RateLimitRule,
+  state: Extract<RateLimitState, { algorithm: "sliding-window" }> | null,
+  now: number
+): { decision: RateLimitDecision; state: RateLimitState } {
+  const { windowMs, maxRequests } = rule;
+  const windowStart = now - (now % windowMs);
+
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+
+  const elapsed = now - windowStart;
+  const estimated = previousCount * ((windowMs - elapsed) / windowMs) + count;
+  const resetAt = windowStart + windowMs * (count > 0 ? 2 : 1);
+
+  if (estimated + 1 > maxRequests) {
+    // When enough of the older requests have slid out of the window
+    let retryAt: number;
+    if (count + 1 <= maxRequests) {
+      retryAt = windowStart + windowMs * (1 - (maxRequests - count - 1) / previousCount);
+    } else {
+      retryAt = windowStart + windowMs + windowMs * (1 - (maxRequests - 1) / count);
+    }
+
+    return {
+      decision: {
+        allowed: false,
+        limit: maxRequests,
+        remaining: 0,
+        resetAt,
+        retryAfterMs: Math.max(1, Math.ceil(retryAt - now)),
+      },
+      state: { algorithm: "sliding-window", windowStart, count, previousCount },
+    };
+  }
+
+  return {
+    decision: {
+      allowed: true,
+      limit: maxRequests,
+      remaining: Math.max(0, Math.floor(maxRequests - estimated - 1)),
+      resetAt: windowStart + windowMs * 2,
+      retryAfterMs: 0,
+    },
+    state: { algorithm: "sliding-window", windowStart, count: count + 1, previousCount },
+  };
+}
+
+// Token bucket: maxRequests tokens, refilled evenly over windowMs
+function applyTokenBucket(
+  rule: RateLimitRule,
+  state: Extract<RateLimitState, { algorithm: "token-bucket" }> | null,
+  now: number
+): { decision: RateLimitDecision; state: RateLimitState } {
+  const { windowMs, maxRequests } = rule;
+  const refillPerMs = maxRequests / windowMs;
+
+  const tokens = state
+    ? Math.min(maxRequests, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs)
+    : maxRequests;
+
+  if (tokens < 1) {
+    return {
+      decision: {
+        allowed: false,
+        limit: maxRequests,
+        remaining: 0,
+        resetAt: now + Math.ceil((maxRequests - tokens) / refillPerMs),
+        retryAfterMs: Math.max(1, Math.ceil((1 - tokens) / refillPerMs)),
+      },
+      state: { algorithm: "token-bucket", tokens, updatedAt: now },
+    };
+  }
+
+  const remaining = tokens - 1;
+  return {
+    decision: {
+      allowed: true,
+      limit: maxRequests,
+      remaining: Math.floor(remaining),
+      resetAt: now + Math.ceil((maxRequests - remaining) / refillPerMs),
+      retryAfterMs: 0,
+    },
+    state: { algorithm: "token-bucket", tokens: remaining, updatedAt: now },
+  };
+}
+
+// Decide one request against the stored state (state from another algorithm is ignored)
+export function applyRateLimit(
+  rule: RateLimitRule,
+  state: RateLimitState | null,
+  now: number
+): { decision: RateLimitDecision; state: RateLimitState } {
+  if (rule.algorithm === "token-bucket") {
+    return applyTokenBucket(rule, state?.algorithm === "token-bucket" ? state : null, now);
+  }
+  return applySlidingWindow(rule, state?.algorithm === "sliding-window" ? state : null, now);
+}
+
+// How long a counter must be kept before it no longer affects decisions
+function getStateTtlMs(rule: RateLimitRule): number {
+  return rule.algorithm === "token-bucket" ? rule.windowMs : rule.windowMs * 2;
+}
+
+export interface StoredRateLimitState {
+  state: RateLimitState;
+  version: number;
+}
+
+// Storage for rate-limit counters. Writes are compare-and-set on a version so
+// concurrent requests on different instances cannot overwrite each other.
+export interface RateLimitStore {
+  get(key: string): Promise<StoredRateLimitState | null>;
+  // Store `state` if the entry is still at `expectedVersion` (null: no entry yet).
+  // Returns false if another request changed it first.
+  compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number
+  ): Promise<boolean>;
+}
+
+// Per-process store (default); limits reset on restart and are not shared
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, StoredRateLimitState & { expiresAt: number }>();
+  private lastSweepAt = 0;
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  async get(key: string): Promise<StoredRateLimitState | null> {
+    const entry = this.entries.get(key);
+    return entry ? { state: entry.state, version: entry.version } : null;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number
+  ): Promise<boolean> {
+    this.sweep();
+
+    const current = this.entries.get(key);
+    if ((current?.version ?? null) !== expectedVersion) {
+      return false;
+    }
+
+    this.entries.set(key, { state, version: (expectedVersion ?? -1) + 1, expiresAt });
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Drop expired counters at most once a minute
+  private sweep(): void {
+    const now = this.clock();
+    if (now - this.lastSweepAt < 60000) return;
+
+    this.lastSweepAt = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// Table access used by PostgresRateLimitStore (RateLimitEntryService in database.ts)
+export interface RateLimitTable {
+  get(key: string): Promise<{ state: unknown; version: number } | null>;
+  insert(key: string, state: unknown, expiresAt: Date): Promise<boolean>;
+  updateIfVersion(key: string, version: number, state: unknown, expiresAt: Date): Promise<boolean>;
+  deleteExpired(now: Date): Promise<void>;
+}
+
+// Counters in the rate_limits table (shared by all instances)
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastCleanupAt = 0;
+
+  constructor(
+    private readonly table: RateLimitTable,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<StoredRateLimitState | null> {
+    const entry = await this.table.get(key);
+    return entry ? { state: entry.state as RateLimitState, version: entry.version } : null;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number
+  ): Promise<boolean> {
+    const stored =
+      expectedVersion === null
+        ? await this.table.insert(key, state, new Date(expiresAt))
+        : await this.table.updateIfVersion(key, expectedVersion, state, new Date(expiresAt));
+
+    this.cleanup();
+    return stored;
+  }
+
+  // Delete expired rows at most once a minute per instance (failures only leave garbage)
+  private cleanup(): void {
+    const now = this.clock();
+    if (now - this.lastCleanupAt < 60000) return;
+
+    this.lastCleanupAt = now;
+    this.table.deleteExpired(new Date(now)).catch((error) => {
+      console.error("Failed to delete expired rate limit entries:", error);
+    });
+  }
+}
+
+// Compare-and-set in one round trip; versions are kept in the stored JSON
+const REDIS_COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current then
+  if ARGV[1] == '' or tostring(cjson.decode(current).version) ~= ARGV[1] then return 0 end
+elseif ARGV[1] ~= '' then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+export interface UpstashRedisOptions {
+  url: string;
+  token: string;
+  prefix?: string;
+  fetch?: (input: string, init?: RequestInit) => Promise<Response>;
+  clock?: () => number;
+}
+
+// Counters in Redis via the Upstash REST API (plain fetch, so it also runs in the edge middleware)
+export class UpstashRedisRateLimitStore implements RateLimitStore {
+  private readonly fetchImpl: NonNullable<UpstashRedisOptions["fetch"]>;
+  private readonly prefix: string;
+  private readonly clock: () => number;
+
+  constructor(private readonly options: UpstashRedisOptions) {
+    this.fetchImpl = options.fetch ?? fetch;
+    this.prefix = options.prefix ?? "harecame:ratelimit:";
+    this.clock = options.clock ?? Date.now;
+  }
+
+  async get(key: string): Promise<StoredRateLimitState | null> {
+    const raw = await this.command<string | null>(["GET", this.prefix + key]);
+    return raw ? (JSON.parse(raw) as StoredRateLimitState) : null;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    state: RateLimitState,
+    expiresAt: number
+  ): Promise<boolean> {
+    const entry: StoredRateLimitState = { state, version: (expectedVersion ?? -1) + 1 };
+    const result = await this.command<number>([
+      "EVAL",
+      REDIS_COMPARE_AND_SET_SCRIPT,
+      "1",
+      this.prefix + key,
+      expectedVersion === null ? "" : String(expectedVersion),
+      JSON.stringify(entry),
+      String(Math.max(1, expiresAt - this.clock())),
+    ]);
+    return result === 1;
+  }
+
+  private async command<T>(args: string[]): Promise<T> {
+    const response = await this.fetchImpl(this.options.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.options.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.error) {
+      throw new Error(`Redis ${args[0]} failed: ${data.error || response.status}`);
+    }
+    return data.result as T;
+  }
+}
+
+// RATE_LIMIT_STORE selects the store; memory unless configured otherwise
+export async function createRateLimitStoreFromEnv(): Promise<RateLimitStore> {
+  const storeType = process.env.RATE_LIMIT_STORE || "memory";
+
+  switch (storeType) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres": {
+      // Loaded lazily so the memory store does not pull in the Supabase client
+      const { RateLimitEntryService } = await import("./database");
+      return new PostgresRateLimitStore(RateLimitEntryService);
+    }
+    case "redis": {
+      const url = process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error(
+          "RATE_LIMIT_STORE=redis requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN"
+        );
+      }
+      return new UpstashRedisRateLimitStore({ url, token });
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${storeType}" (use memory, postgres or redis)`);
+  }
+}
+
+const rateLimitStore = processSingleton<{ current?: Promise<RateLimitStore> }>(
+  "rate-limit-store",
+  () => ({})
+);
+
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  rateLimitStore.current ??= createRateLimitStoreFromEnv();
+  return rateLimitStore.current;
+}
+
+// Replace the store (e.g. with one on a fake clock in tests)
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  rateLimitStore.current = store ? Promise.resolve(store) : undefined;
+}
+
+// Lost compare-and-set races before a request is refused
+export const MAX_RATE_LIMIT_WRITE_ATTEMPTS = 5;
+
+// Count one request for `key` under `rule`
+export async function checkRateLimit(
+  key: string,
+  rule: RateLimitRule,
+  options: { store?: RateLimitStore; now?: number } = {}
+): Promise<RateLimitDecision> {
+  const store = options.store ?? (await getRateLimitStore());
+  const now = options.now ?? Date.now();
+  const storeKey = `${getRateLimitRuleKey(rule)}:${key}`;
+
+  for (let attempt = 0; attempt < MAX_RATE_LIMIT_WRITE_ATTEMPTS; attempt++) {
+    const current = await store.get(storeKey);
+    const { decision, state } = applyRateLimit(rule, current?.state ?? null, now);
+
+    // Refused requests are not counted, so there is nothing to write
+    if (!decision.allowed) {
+      return decision;
+    }
+
+    if (await store.compareAndSet(storeKey, current?.version ?? null, state, now + getStateTtlMs(rule))) {
+      return decision;
+    }
+  }
+
+  // Only a burst on this very key loses every race; refuse rather than let it through
+  return {
+    allowed: false,
+    limit: rule.maxRequests,
+    remaining: 0,
+    resetAt: now + 1000,
+    retryAfterMs: 1000,
+  };
+}
+
+// Decide a request for `key` without counting it
+export async function peekRateLimit(
+  key: string,
+  rule: RateLimitRule,
+  options: { store?: RateLimitStore; now?: number } = {}
+): Promise<RateLimitDecision> {
+  const store = options.store ?? (await getRateLimitStore());
+  const current = await store.get(`${getRateLimitRuleKey(rule)}:${key}`);
+  return applyRateLimit(rule, current?.state ?? null, options.now ?? Date.now()).decision;
+}
+
+// Progressive delays after repeated failures: a few free failures, then a
+// wait that doubles with each further one
+export interface BackoffRule {
+  name: string; // Counter namespace
+  freeFailures: number; // Failures allowed before any wait
+  baseDelayMs: number; // Wait after the first failure beyond freeFailures
+  maxDelayMs: number;
+  resetAfterMs: number; // Failures are forgotten this long after the last one
+}
+
+export interface BackoffDecision {
+  allowed: boolean;
+  failures: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+type BackoffState = Extract<RateLimitState, { algorithm: "backoff" }>;
+
+export function getBackoffDelayMs(rule: BackoffRule, failures: number): number {
+  if (failures <= rule.freeFailures) return 0;
+  return Math.min(rule.maxDelayMs, rule.baseDelayMs * 2 ** (failures - rule.freeFailures - 1));
+}
+
+function getLiveBackoffState(
+  rule: BackoffRule,
+  state: RateLimitState | null,
+  now: number
+): BackoffState | null {
+  if (state?.algorithm !== "backoff" || now - state.lastFailureAt >= rule.resetAfterMs) {
+    return null;
+  }
+  return state;
+}
+
+// Whether `key` may try again yet
+export async function checkBackoff(
+  key: string,
+  rule: BackoffRule,
+  options: { store?: RateLimitStore; now?: number } = {}
+): Promise<BackoffDecision> {
+  const store = options.store ?? (await getRateLimitStore());
+  const now = options.now ?? Date.now();
+
+  const current = await store.get(`${rule.name}:${key}`);
+  const state = getLiveBackoffState(rule, current?.state ?? null, now);
+  if (!state) {
+    return { allowed: true, failures: 0, retryAfterMs: 0 };
+  }
+
+  const retryAfterMs = Math.max(0, state.lastFailureAt + getBackoffDelayMs(rule, state.failures) - now);
+  return { allowed: retryAfterMs === 0, failures: state.failures, retryAfterMs };
+}
+
+// Count a failure for `key`; returns the wait before its next attempt
+export async function recordBackoffFailure(
+  key: string,
+  rule: BackoffRule,
+  options: { store?: RateLimitStore; now?: number } = {}
+): Promise<BackoffDecision> {
+  const store = options.store ?? (await getRateLimitStore());
+  const now = options.now ?? Date.now();
+  const storeKey = `${rule.name}:${key}`;
+
+  let failures = 0;
+  for (let attempt = 0; attempt < MAX_RATE_LIMIT_WRITE_ATTEMPTS; attempt++) {
+    const current = await store.get(storeKey);
+    failures = (getLiveBackoffState(rule, current?.state ?? null, now)?.failures ?? 0) + 1;
+
+    const state: BackoffState = { algorithm: "backoff", failures, lastFailureAt: now };
+    if (await store.compareAndSet(storeKey, current?.version ?? null, state, now + rule.resetAfterMs)) {
+      break;
+    }
+  }
+
+  // Losing every race means a burst of failures on this key; the wait still applies
+  const retryAfterMs = getBackoffDelayMs(rule, failures);
+  return { allowed: retryAfterMs === 0, failures, retryAfterMs };
+}
+
+// Forget the failures of `key`, e.g. after it succeeded
+export async function resetBackoff(
+  key: string,
+  rule: BackoffRule,
+  options: { store?: RateLimitStore; now?: number } = {}
+): Promise<void> {
+  const store = options.store ?? (await getRateLimitStore());
+  const now = options.now ?? Date.now();
+  const storeKey = `${rule.name}:${key}`;
+
+  const current = await store.get(storeKey);
+  if (!current) return;
+
+  // A failure recorded concurrently wins, which only keeps the client waiting
+  await store.compareAndSet(
+    storeKey,
+    current.version,
+    { algorithm: "backoff", failures: 0, lastFailureAt: 0 },
+    now
+  );
+}
@@ -0,0 +1,34 @@
+// One-way hashing of short secrets organizers set on an event (camera PINs, viewer passphrases)
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+const FORMAT_PREFIX = "scrypt";
+
+// Hash to "scrypt$<salt>$<hash>" (base64url parts)
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(secret, salt, KEY_LENGTH);
+
+  return [FORMAT_PREFIX, salt.toString("base64url"), hash.toString("base64url")].join("$");
+}
+
+// Check a secret against a value produced by hashSecret. Unknown formats never match.
+export async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  const [prefix, salt, expected] = stored.split("$");
+  if (prefix !== FORMAT_PREFIX || !salt || !expected) {
+    return false;
+  }
+
+  const expectedHash = Buffer.from(expected, "base64url");
+  const hash = await scryptAsync(secret, Buffer.from(salt, "base64url"), expectedHash.length);
+
+  return hash.length === expectedHash.length && timingSafeEqual(hash, expectedHash);
+}
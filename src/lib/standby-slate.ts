@@ -0,0 +1,64 @@
+// Standby slate sent to YouTube while no camera is on air
+import { EventService, StandbyImageStorage } from "./database";
+import type { EventClient } from "@/types";
+
+export const STANDBY_SLATE_MESSAGE = "まもなく再開します";
+export const MAX_STANDBY_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Accepted uploads and the file extension they are stored with
+export const STANDBY_IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+// Page rendered by the LiveKit web egress; NEXTAUTH_URL must be reachable from LiveKit
+export function getStandbySlateUrl(
+  eventId: string,
+  baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000"
+): string {
+  return `${baseUrl.replace(/\/$/, "")}/standby/${eventId}`;
+}
+
+// Error message for an unacceptable upload, or null if it can be stored
+export function validateStandbyImage(file: Blob): string | null {
+  if (file.size === 0) {
+    return "Standby image is empty";
+  }
+  if (!STANDBY_IMAGE_TYPES[file.type]) {
+    return "Standby image must be PNG, JPEG or WebP";
+  }
+  if (file.size > MAX_STANDBY_IMAGE_BYTES) {
+    return `Standby image must be at most ${MAX_STANDBY_IMAGE_BYTES / 1024 / 1024}MB`;
+  }
+  return null;
+}
+
+// Store an uploaded slate and point the event at it (replaces any previous upload)
+export async function uploadStandbyImage(eventId: string, file: Blob): Promise<EventClient> {
+  // A new object per upload so the egress browser never renders a cached image
+  const path = `${eventId}/${Date.now()}.${STANDBY_IMAGE_TYPES[file.type]}`;
+  const publicUrl = await StandbyImageStorage.upload(path, file);
+
+  const event = await EventService.update(eventId, { standbyImageUrl: publicUrl });
+
+  await removeStoredImages(eventId, path);
+  return event;
+}
+
+// Go back to the generated title card
+export async function removeStandbyImage(eventId: string): Promise<EventClient> {
+  const event = await EventService.update(eventId, { standbyImageUrl: undefined });
+  await removeStoredImages(eventId);
+  return event;
+}
+
+// Delete an event's uploaded slates except `keepPath`; leftovers are harmless, so only log failures
+async function removeStoredImages(eventId: string, keepPath?: string): Promise<void> {
+  try {
+    const paths = await StandbyImageStorage.list(eventId);
+    await StandbyImageStorage.remove(paths.filter((path) => path !== keepPath));
+  } catch (error) {
+    console.error(`Failed to clean up standby images for event ${eventId}:`, error);
+  }
+}
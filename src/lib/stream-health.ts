@@ -0,0 +1,346 @@
+// Stream health poller: fills stream_status.youtube_viewer_count and
+// stream_health for live events and pushes changes over the event stream
+import { RoomServiceClient, TrackSource, TrackType } from "livekit-server-sdk";
+import {
+  CameraConnectionService,
+  EventService,
+  StreamStatusService,
+} from "./database";
+import { getEventBus } from "./event-bus";
+import { processSingleton } from "./process-singleton";
+import { YouTubeQuotaExceededError, type YouTubeStreamHealth } from "./youtube";
+import { getYouTubeClientForEvent } from "./youtube-oauth";
+import { YOUTUBE_QUOTA_RESERVE_UNITS, getYouTubeQuotaLedger } from "./youtube-quota";
+import type { EventClient, StreamStatusClient } from "@/types";
+
+export type StreamHealth = StreamStatusClient["streamHealth"];
+
+export const MIN_POLL_INTERVAL_SECONDS = 15;
+export const MAX_POLL_INTERVAL_SECONDS = 120;
+export const POLLER_TICK_SECONDS = 5;
+// YouTube quota units per poll (videos.list + liveStreams.list)
+export const YOUTUBE_UNITS_PER_POLL = 2;
+
+// Seconds until an event is polled again. Polls are spread so all live events
+// together fit in what is left of today's quota (minus the broadcast reserve),
+// slow down while nothing changes and back off fully after a failure.
+// With no budget left, polling waits for the daily reset.
+export function getNextPollIntervalSeconds(options: {
+  previousSeconds?: number;
+  changed: boolean;
+  failed: boolean;
+  liveEventCount: number;
+  remainingUnits: number;
+  secondsUntilReset: number;
+}): number {
+  const pollBudget = options.remainingUnits - YOUTUBE_QUOTA_RESERVE_UNITS;
+  if (pollBudget < YOUTUBE_UNITS_PER_POLL * Math.max(1, options.liveEventCount)) {
+    return Math.max(MAX_POLL_INTERVAL_SECONDS, Math.ceil(options.secondsUntilReset));
+  }
+
+  const quotaFloor = Math.ceil(
+    (YOUTUBE_UNITS_PER_POLL * Math.max(1, options.liveEventCount) * options.secondsUntilReset) /
+      pollBudget
+  );
+  const floor = Math.max(MIN_POLL_INTERVAL_SECONDS, quotaFloor);
+
+  if (options.failed) {
+    return Math.max(floor, MAX_POLL_INTERVAL_SECONDS);
+  }
+  if (options.changed || options.previousSeconds === undefined) {
+    return floor;
+  }
+  return Math.max(
+    floor,
+    Math.min(MAX_POLL_INTERVAL_SECONDS, Math.round(options.previousSeconds * 1.5))
+  );
+}
+
+// Camera video of the on-air participant as seen by LiveKit
+export interface TrackStats {
+  published: boolean;
+  muted: boolean;
+  width?: number;
+  height?: number;
+  bitrate?: number; // Best simulcast layer, bits per second
+}
+
+export interface TrackStatsProvider {
+  getVideoTrackStats(roomName: string, participantIdentity: string): Promise<TrackStats>;
+}
+
+export class LiveKitTrackStatsProvider implements TrackStatsProvider {
+  private readonly roomService: RoomServiceClient;
+
+  constructor(host: string, apiKey: string, apiSecret: string) {
+    this.roomService = new RoomServiceClient(host, apiKey, apiSecret);
+  }
+
+  async getVideoTrackStats(roomName: string, participantIdentity: string): Promise<TrackStats> {
+    const participant = await this.roomService.getParticipant(roomName, participantIdentity);
+    const track = participant.tracks.find(
+      (t) => t.type === TrackType.VIDEO && t.source === TrackSource.CAMERA
+    );
+
+    if (!track) {
+      return { published: false, muted: false };
+    }
+
+    const bestLayer = [...track.layers].sort((a, b) => b.bitrate - a.bitrate)[0];
+    return {
+      published: true,
+      muted: track.muted,
+      width: bestLayer?.width || track.width,
+      height: bestLayer?.height || track.height,
+      bitrate: bestLayer?.bitrate,
+    };
+  }
+}
+
+// LiveKit track stats are skipped when the server API is not configured
+export function createTrackStatsProvider(): TrackStatsProvider | null {
+  const host = process.env.NEXT_PUBLIC_LIVEKIT_URL;
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!host || !apiKey || !apiSecret) {
+    return null;
+  }
+  return new LiveKitTrackStatsProvider(host, apiKey, apiSecret);
+}
+
+export function youtubeHealthToStreamHealth(status: YouTubeStreamHealth["status"]): StreamHealth {
+  switch (status) {
+    case "good":
+      return "excellent";
+    case "ok":
+      return "good";
+    case "bad":
+      return "poor";
+    case "noData":
+      return "critical";
+  }
+}
+
+export function trackStatsToStreamHealth(stats: TrackStats): StreamHealth {
+  if (!stats.published || stats.muted) {
+    return "critical";
+  }
+
+  const bitrate = stats.bitrate ?? 0;
+  const height = stats.height ?? 0;
+
+  if (bitrate >= 1_500_000 && height >= 720) return "excellent";
+  if (bitrate >= 500_000 && height >= 360) return "good";
+  return "poor";
+}
+
+const HEALTH_RANK: Record<StreamHealth, number> = {
+  critical: 0,
+  poor: 1,
+  good: 2,
+  excellent: 3,
+  unknown: 4,
+};
+
+// The worst of the known signals ("unknown" if none is known)
+export function combineStreamHealth(...values: StreamHealth[]): StreamHealth {
+  return values.reduce<StreamHealth>(
+    (worst, value) => (HEALTH_RANK[value] < HEALTH_RANK[worst] ? value : worst),
+    "unknown"
+  );
+}
+
+export interface PollResult {
+  changed: boolean;
+  failed: boolean;
+}
+
+export class StreamHealthPoller {
+  private static ticker = processSingleton<{ timer?: ReturnType<typeof setInterval>; running?: boolean }>(
+    "stream-health-poller",
+    () => ({})
+  );
+  // When each live event is due and the interval that got it there
+  private static schedule = processSingleton(
+    "stream-health-schedule",
+    () => new Map<string, { nextPollAt: number; intervalSeconds: number }>()
+  );
+  private static trackStatsProvider: TrackStatsProvider | null | undefined;
+
+  // Replace the LiveKit stats source (e.g. with a fake in tests)
+  static setTrackStatsProvider(provider: TrackStatsProvider | null | undefined): void {
+    this.trackStatsProvider = provider;
+  }
+
+  private static getTrackStatsProvider(): TrackStatsProvider | null {
+    if (this.trackStatsProvider === undefined) {
+      this.trackStatsProvider = createTrackStatsProvider();
+    }
+    return this.trackStatsProvider;
+  }
+
+  // Poll every live event that is due. Returns the number polled.
+  static async pollDue(now = new Date()): Promise<number> {
+    const liveEvents = await EventService.list({ status: "live" });
+
+    // Events that are no longer live start fresh if they go live again
+    for (const eventId of this.schedule.keys()) {
+      if (!liveEvents.some((event) => event.id === eventId)) {
+        this.schedule.delete(eventId);
+      }
+    }
+
+    let polled = 0;
+    const quota = await getYouTubeQuotaLedger().getUsage(now);
+    const secondsUntilReset = (quota.resetsAt.getTime() - now.getTime()) / 1000;
+
+    for (const event of liveEvents) {
+      const scheduled = this.schedule.get(event.id);
+      if (scheduled && scheduled.nextPollAt > now.getTime()) continue;
+
+      let result: PollResult = { changed: false, failed: true };
+      try {
+        result = await this.pollEvent(event);
+      } catch (error) {
+        console.error(`Failed to poll stream health for event ${event.id}:`, error);
+      }
+
+      const intervalSeconds = getNextPollIntervalSeconds({
+        previousSeconds: scheduled?.intervalSeconds,
+        changed: result.changed,
+        failed: result.failed,
+        liveEventCount: liveEvents.length,
+        remainingUnits: quota.remaining,
+        secondsUntilReset,
+      });
+      this.schedule.set(event.id, {
+        intervalSeconds,
+        nextPollAt: now.getTime() + intervalSeconds * 1000,
+      });
+      polled++;
+    }
+
+    return polled;
+  }
+
+  // Read viewers and health for one event; persist and publish what changed
+  static async pollEvent(event: EventClient): Promise<PollResult> {
+    const status = await StreamStatusService.getByEventId(event.id);
+
+    let failed = false;
+    let viewerCount = status?.youtubeViewerCount ?? 0;
+    let duration: string | undefined;
+    let youtubeHealth: StreamHealth = "unknown";
+    let issues: string[] = [];
+
+    if (event.youtubeVideoId) {
+      try {
+        const youtube = await getYouTubeClientForEvent(event);
+        const stats = await youtube.getStreamStats(event.youtubeVideoId);
+        viewerCount = stats.viewerCount;
+        duration = stats.duration;
+
+        // YouTube reports no data until egress sends something, which is expected
+        if (status?.egressId) {
+          const health = await youtube.getStreamHealth(event.youtubeVideoId);
+          youtubeHealth = youtubeHealthToStreamHealth(health.status);
+          issues = health.issues;
+        }
+      } catch (error) {
+        failed = true;
+        // The quota cooldown is logged once by the client, not on every poll
+        if (!(error instanceof YouTubeQuotaExceededError)) {
+          console.warn(`Failed to read YouTube stats for event ${event.id}:`, error);
+        }
+      }
+    }
+
+    const trackHealth = await this.getOnAirTrackHealth(event, status);
+    // Keep the last known health if YouTube could not be read
+    const streamHealth = failed
+      ? status?.streamHealth ?? "unknown"
+      : combineStreamHealth(youtubeHealth, trackHealth);
+
+    const changed =
+      viewerCount !== (status?.youtubeViewerCount ?? 0) ||
+      streamHealth !== (status?.streamHealth ?? "unknown");
+
+    if (changed) {
+      await StreamStatusService.upsert({
+        eventId: event.id,
+        youtubeViewerCount: viewerCount,
+        streamHealth,
+      });
+
+      try {
+        await getEventBus().publish(event.id, {
+          type: "stream-health-updated",
+          eventId: event.id,
+          timestamp: Date.now(),
+          data: { viewerCount, streamHealth, duration, issues },
+        });
+      } catch (error) {
+        console.error("Failed to publish stream health:", error);
+      }
+    }
+
+    return { changed, failed };
+  }
+
+  // Health of the on-air camera's video in LiveKit ("unknown" while the slate is shown)
+  private static async getOnAirTrackHealth(
+    event: EventClient,
+    status: StreamStatusClient | null
+  ): Promise<StreamHealth> {
+    const provider = this.getTrackStatsProvider();
+    if (!provider || !status?.currentActiveCamera) {
+      return "unknown";
+    }
+
+    try {
+      const camera = await CameraConnectionService.getById(status.currentActiveCamera);
+      if (!camera) return "unknown";
+
+      const stats = await provider.getVideoTrackStats(event.livekitRoomName, camera.participantId);
+      return trackStatsToStreamHealth(stats);
+    } catch (error) {
+      console.warn(`Failed to read LiveKit track stats for event ${event.id}:`, error);
+      return "unknown";
+    }
+  }
+
+  // Start the periodic sweep once per process
+  static ensureStarted(intervalMs = POLLER_TICK_SECONDS * 1000): void {
+    if (this.ticker.timer) return;
+
+    const timer = setInterval(() => {
+      // Skip ticks while a slow poll is still running, or events still being
+      // polled would be polled (and charged quota) again
+      if (this.ticker.running) return;
+      this.ticker.running = true;
+      this.pollDue()
+        .catch((error) => {
+          console.error("Stream health poll failed:", error);
+        })
+        .finally(() => {
+          this.ticker.running = false;
+        });
+    }, intervalMs);
+
+    // Do not keep the process alive just for the poller
+    if (typeof timer === "object" && "unref" in timer) {
+      timer.unref();
+    }
+
+    this.ticker.timer = timer;
+  }
+
+  static stop(): void {
+    if (this.ticker.timer) {
+      clearInterval(this.ticker.timer);
+      this.ticker.timer = undefined;
+    }
+    this.schedule.clear();
+  }
+}
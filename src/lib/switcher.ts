@@ -0,0 +1,267 @@
+// Stream switcher: puts a camera (or the standby slate) on air by driving the LiveKit egress
+import {
+  EventService,
+  CameraConnectionService,
+  StreamStatusService,
+  EventLogService,
+} from "./database";
+import {
+  buildYouTubeRtmpUrl,
+  createEgressClient,
+  type StreamEgressClient,
+} from "./egress";
+import { getStandbySlateUrl } from "./standby-slate";
+import type { StreamStatusClient } from "@/types";
+
+// Why a switch happened
+export type SwitchReason =
+  | "new-camera"
+  | "camera-disconnected"
+  | "manual"
+  | "rotation";
+
+export interface SwitchRequest {
+  eventId: string;
+  cameraConnectionId?: string; // undefined = no camera on air, show the standby slate
+  reason: SwitchReason;
+}
+
+export interface SwitchResult {
+  success: boolean;
+  fromCamera?: string;
+  toCamera?: string;
+  egressId?: string;
+  error?: string;
+}
+
+export class StreamSwitcher {
+  private static egressClient: StreamEgressClient | null = null;
+
+  // Replace the egress client (e.g. with FakeEgressClient in tests)
+  static setEgressClient(client: StreamEgressClient | null): void {
+    this.egressClient = client;
+  }
+
+  private static getEgressClient(): StreamEgressClient {
+    if (!this.egressClient) {
+      this.egressClient = createEgressClient();
+    }
+    return this.egressClient;
+  }
+
+  // Switch the on-air camera for an event.
+  // stream_status is updated first and restored if the egress update fails.
+  static async switchTo(request: SwitchRequest): Promise<SwitchResult> {
+    const { eventId, cameraConnectionId, reason } = request;
+
+    const previousStatus = await StreamStatusService.getByEventId(eventId);
+    const fromCamera = previousStatus?.currentActiveCamera;
+    const previousEgressId = previousStatus?.egressId;
+
+    if (fromCamera === cameraConnectionId) {
+      return {
+        success: true,
+        fromCamera,
+        toCamera: cameraConnectionId,
+        egressId: previousEgressId,
+      };
+    }
+
+    await StreamStatusService.upsert({
+      eventId,
+      currentActiveCamera: cameraConnectionId,
+      lastSwitchAt: new Date(),
+    });
+
+    const egress = this.getEgressClient();
+    let stoppedPrevious = false;
+
+    try {
+      if (previousEgressId) {
+        await egress.stopStream(previousEgressId);
+        stoppedPrevious = true;
+      }
+
+      const egressId = await this.startOutput(egress, eventId, cameraConnectionId);
+
+      await StreamStatusService.upsert({ eventId, egressId });
+
+      return { success: true, fromCamera, toCamera: cameraConnectionId, egressId };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("Failed to update egress, rolling back stream status:", error);
+
+      await this.rollback(egress, eventId, previousStatus, stoppedPrevious);
+
+      await EventLogService.create({
+        eventId,
+        cameraConnectionId,
+        logType: "stream_switch_failed",
+        message: `Failed to switch stream: ${message}`,
+        metadata: {
+          fromCamera,
+          toCamera: cameraConnectionId,
+          reason,
+          error: message,
+        },
+      });
+
+      return { success: false, fromCamera, toCamera: cameraConnectionId, error: message };
+    }
+  }
+
+  // Start egress for the on-air camera (or the slate) if it is not running yet (after "Go live")
+  static async ensureEgress(eventId: string): Promise<string> {
+    const status = await StreamStatusService.getByEventId(eventId);
+    if (status?.egressId) {
+      return status.egressId;
+    }
+
+    const egressId = await this.startOutput(
+      this.getEgressClient(),
+      eventId,
+      status?.currentActiveCamera
+    );
+    if (!egressId) {
+      throw new Error(`Event ${eventId} is not live`);
+    }
+
+    await StreamStatusService.upsert({ eventId, egressId });
+    return egressId;
+  }
+
+  // Stop the running egress and take the event off air ("End event")
+  static async stopEgress(eventId: string): Promise<void> {
+    const status = await StreamStatusService.getByEventId(eventId);
+
+    if (status?.egressId) {
+      await this.getEgressClient().stopStream(status.egressId);
+    }
+
+    await StreamStatusService.upsert({
+      eventId,
+      currentActiveCamera: undefined,
+      egressId: undefined,
+    });
+  }
+
+  // Restart the slate egress so it picks up a changed standby image
+  static async restartSlate(eventId: string): Promise<void> {
+    const status = await StreamStatusService.getByEventId(eventId);
+    if (!status?.egressId || status.currentActiveCamera) {
+      return; // A camera is on air or nothing is being sent
+    }
+
+    const egress = this.getEgressClient();
+    await egress.stopStream(status.egressId);
+
+    let egressId: string | undefined;
+    try {
+      egressId = await this.startSlateEgress(egress, eventId);
+    } finally {
+      await StreamStatusService.upsert({ eventId, egressId });
+    }
+  }
+
+  private static startOutput(
+    egress: StreamEgressClient,
+    eventId: string,
+    cameraConnectionId: string | undefined
+  ): Promise<string | undefined> {
+    return cameraConnectionId
+      ? this.startEgress(egress, eventId, cameraConnectionId)
+      : this.startSlateEgress(egress, eventId);
+  }
+
+  // Start an RTMP egress for the camera's tracks.
+  // Nothing is pushed to YouTube until the organizer has gone live; before
+  // that the switcher only tracks which camera is on air.
+  private static async startEgress(
+    egress: StreamEgressClient,
+    eventId: string,
+    cameraConnectionId: string
+  ): Promise<string | undefined> {
+    const [event, camera] = await Promise.all([
+      EventService.getById(eventId),
+      CameraConnectionService.getById(cameraConnectionId),
+    ]);
+
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (!camera || camera.eventId !== eventId) {
+      throw new Error(`Camera ${cameraConnectionId} not found for event ${eventId}`);
+    }
+    if (event.status !== "live") {
+      return undefined;
+    }
+    if (!event.youtubeStreamKey) {
+      throw new Error(`Event ${eventId} has no YouTube stream key`);
+    }
+
+    return await egress.startStream({
+      roomName: event.livekitRoomName,
+      participantIdentity: camera.participantId,
+      rtmpUrl: buildYouTubeRtmpUrl(event.youtubeStreamKey),
+    });
+  }
+
+  // Start an RTMP egress rendering the event's standby slate page
+  private static async startSlateEgress(
+    egress: StreamEgressClient,
+    eventId: string
+  ): Promise<string | undefined> {
+    const event = await EventService.getById(eventId);
+
+    if (!event) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    if (event.status !== "live") {
+      return undefined;
+    }
+    if (!event.youtubeStreamKey) {
+      throw new Error(`Event ${eventId} has no YouTube stream key`);
+    }
+
+    return await egress.startSlate({
+      url: getStandbySlateUrl(eventId),
+      rtmpUrl: buildYouTubeRtmpUrl(event.youtubeStreamKey),
+    });
+  }
+
+  // Restore the stream status captured before the switch.
+  // If the previous egress (camera or slate) was already stopped, try to bring it back.
+  private static async rollback(
+    egress: StreamEgressClient,
+    eventId: string,
+    previousStatus: StreamStatusClient | null,
+    stoppedPrevious: boolean
+  ): Promise<void> {
+    let egressId = previousStatus?.egressId;
+
+    if (stoppedPrevious) {
+      egressId = undefined;
+
+      try {
+        egressId = await this.startOutput(
+          egress,
+          eventId,
+          previousStatus?.currentActiveCamera
+        );
+      } catch (error) {
+        console.error("Failed to restore previous egress:", error);
+      }
+    }
+
+    try {
+      await StreamStatusService.upsert({
+        eventId,
+        currentActiveCamera: previousStatus?.currentActiveCamera,
+        lastSwitchAt: previousStatus?.lastSwitchAt,
+        egressId,
+      });
+    } catch (error) {
+      console.error("Failed to roll back stream status:", error);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+// Automatic camera switching policies
+// Policies only decide which camera should be on air; the StreamSwitcher applies the decision.
+import type { CameraConnectionClient, SwitchingPolicyName } from '@/types';
+
+export const SWITCHING_POLICY_NAMES = [
+  'last-in-wins',
+  'manual-only',
+  'round-robin',
+  'best-quality',
+] as const satisfies readonly SwitchingPolicyName[];
+
+export const DEFAULT_SWITCHING_POLICY: SwitchingPolicyName = 'last-in-wins';
+export const DEFAULT_SWITCHING_DWELL_SECONDS = 30;
+export const DEFAULT_MIN_ON_AIR_SECONDS = 10;
+export const DEFAULT_SWITCH_COOLDOWN_SECONDS = 3;
+
+// Snapshot of an event's cameras when a policy is consulted
+export interface SwitchingContext {
+  activeCameras: CameraConnectionClient[]; // Cameras currently streaming
+  currentCameraId?: string; // Camera on air (may no longer be active)
+  lastSwitchAt?: Date;
+  dwellSeconds: number;
+  minOnAirSeconds: number;
+  cooldownSeconds: number;
+  autoSwitchLockedUntil?: Date; // Set by a manual take
+  now: Date;
+}
+
+export type SwitchDecision =
+  | { action: 'keep' }
+  | { action: 'switch'; cameraConnectionId?: string }; // undefined = off air
+
+export interface SwitchingPolicy {
+  readonly name: SwitchingPolicyName;
+  // A camera started streaming
+  onCameraStarted(context: SwitchingContext, cameraConnectionId: string): SwitchDecision;
+  // The on-air camera went away
+  onActiveCameraLost(context: SwitchingContext): SwitchDecision;
+  // Periodic evaluation; only policies that rotate implement this
+  onTick?(context: SwitchingContext): SwitchDecision;
+}
+
+const KEEP: SwitchDecision = { action: 'keep' };
+
+function switchTo(cameraConnectionId?: string): SwitchDecision {
+  return { action: 'switch', cameraConnectionId };
+}
+
+function byJoinedAtDesc(a: CameraConnectionClient, b: CameraConnectionClient): number {
+  return new Date(b.joinedAt).getTime() - new Date(a.joinedAt).getTime();
+}
+
+function newestCamera(cameras: CameraConnectionClient[]): CameraConnectionClient | undefined {
+  return [...cameras].sort(byJoinedAtDesc)[0];
+}
+
+// Vertical resolution from "1280x720" or "720p"
+function parseResolutionHeight(resolution?: string): number {
+  if (!resolution) return 0;
+  const dimensions = resolution.match(/(\d+)\s*x\s*(\d+)/i);
+  if (dimensions) return Number(dimensions[2]);
+  const progressive = resolution.match(/(\d+)p/i);
+  return progressive ? Number(progressive[1]) : 0;
+}
+
+// Compare reported connection quality: resolution, then bitrate, then frame rate.
+// Returns a positive number when `a` is better than `b`.
+export function compareConnectionQuality(
+  a: CameraConnectionClient,
+  b: CameraConnectionClient
+): number {
+  const qa = a.streamQuality ?? {};
+  const qb = b.streamQuality ?? {};
+
+  return (
+    parseResolutionHeight(qa.resolution) - parseResolutionHeight(qb.resolution) ||
+    (qa.bitrate ?? 0) - (qb.bitrate ?? 0) ||
+    (qa.frameRate ?? 0) - (qb.frameRate ?? 0)
+  );
+}
+
+function bestQualityCamera(cameras: CameraConnectionClient[]): CameraConnectionClient | undefined {
+  // Newest first so ties go to the most recent camera
+  return [...cameras]
+    .sort(byJoinedAtDesc)
+    .reduce<CameraConnectionClient | undefined>(
+      (best, camera) => (!best || compareConnectionQuality(camera, best) > 0 ? camera : best),
+      undefined
+    );
+}
+
+// Newest camera always takes over (original behaviour)
+const lastInWinsPolicy: SwitchingPolicy = {
+  name: 'last-in-wins',
+  onCameraStarted: (_context, cameraConnectionId) => switchTo(cameraConnectionId),
+  onActiveCameraLost: (context) => switchTo(newestCamera(context.activeCameras)?.id),
+};
+
+// Only the organizer switches; a camera is put on air automatically only when nothing is
+const manualOnlyPolicy: SwitchingPolicy = {
+  name: 'manual-only',
+  onCameraStarted: (context, cameraConnectionId) =>
+    context.currentCameraId ? KEEP : switchTo(cameraConnectionId),
+  onActiveCameraLost: (context) => switchTo(newestCamera(context.activeCameras)?.id),
+};
+
+// Rotate through active cameras in join order, keeping each on air for dwellSeconds
+const roundRobinPolicy: SwitchingPolicy = {
+  name: 'round-robin',
+  onCameraStarted: (context, cameraConnectionId) =>
+    context.currentCameraId ? KEEP : switchTo(cameraConnectionId),
+  onActiveCameraLost: (context) => switchTo(nextInRotation(context)?.id),
+  onTick: (context) => {
+    if (context.activeCameras.length === 0) {
+      return context.currentCameraId ? switchTo(undefined) : KEEP;
+    }
+
+    const current = context.activeCameras.find(camera => camera.id === context.currentCameraId);
+    if (current && context.lastSwitchAt) {
+      const onAirMs = context.now.getTime() - new Date(context.lastSwitchAt).getTime();
+      if (onAirMs < context.dwellSeconds * 1000) return KEEP;
+    }
+
+    const next = nextInRotation(context);
+    return next && next.id !== context.currentCameraId ? switchTo(next.id) : KEEP;
+  },
+};
+
+// Next camera after the current one in join order (wraps around)
+function nextInRotation(context: SwitchingContext): CameraConnectionClient | undefined {
+  const rotation = [...context.activeCameras].sort((a, b) => -byJoinedAtDesc(a, b));
+  if (rotation.length === 0) return undefined;
+
+  // Restart from the first camera when the current one left the rotation
+  const currentIndex = rotation.findIndex(camera => camera.id === context.currentCameraId);
+  return rotation[(currentIndex + 1) % rotation.length];
+}
+
+// Keep the camera with the best reported connection quality on air
+const bestQualityPolicy: SwitchingPolicy = {
+  name: 'best-quality',
+  onCameraStarted: (context) => {
+    const best = bestQualityCamera(context.activeCameras);
+    if (!best || best.id === context.currentCameraId) return KEEP;
+
+    const current = context.activeCameras.find(camera => camera.id === context.currentCameraId);
+    return !current || compareConnectionQuality(best, current) > 0 ? switchTo(best.id) : KEEP;
+  },
+  onActiveCameraLost: (context) => switchTo(bestQualityCamera(context.activeCameras)?.id),
+};
+
+const policies: Record<SwitchingPolicyName, SwitchingPolicy> = {
+  'last-in-wins': lastInWinsPolicy,
+  'manual-only': manualOnlyPolicy,
+  'round-robin': roundRobinPolicy,
+  'best-quality': bestQualityPolicy,
+};
+
+export type SwitchWindowResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'manual-lockout' | 'min-on-air' | 'cooldown'; retryAt: Date };
+
+// Check whether an automatic switch may happen now.
+// A manual take locks automatic switching out entirely; min-on-air protects a camera that is
+// still streaming; cooldown debounces any back-to-back switch.
+export function checkSwitchWindow(context: SwitchingContext): SwitchWindowResult {
+  if (
+    context.autoSwitchLockedUntil &&
+    new Date(context.autoSwitchLockedUntil).getTime() > context.now.getTime()
+  ) {
+    return { allowed: false, reason: 'manual-lockout', retryAt: new Date(context.autoSwitchLockedUntil) };
+  }
+
+  if (!context.lastSwitchAt) {
+    return { allowed: true };
+  }
+
+  const lastSwitchMs = new Date(context.lastSwitchAt).getTime();
+  const elapsedMs = context.now.getTime() - lastSwitchMs;
+
+  const currentStillStreaming = context.activeCameras.some(
+    camera => camera.id === context.currentCameraId
+  );
+  const minOnAirMs = currentStillStreaming ? context.minOnAirSeconds * 1000 : 0;
+  const cooldownMs = context.cooldownSeconds * 1000;
+
+  // Report whichever window ends last
+  if (elapsedMs < minOnAirMs && minOnAirMs >= cooldownMs) {
+    return { allowed: false, reason: 'min-on-air', retryAt: new Date(lastSwitchMs + minOnAirMs) };
+  }
+  if (elapsedMs < cooldownMs) {
+    return { allowed: false, reason: 'cooldown', retryAt: new Date(lastSwitchMs + cooldownMs) };
+  }
+  return { allowed: true };
+}
+
+// Resolve an event's policy, falling back to last-in-wins for unset/unknown values
+export function getSwitchingPolicy(name?: string): SwitchingPolicy {
+  return policies[name as SwitchingPolicyName] ?? policies[DEFAULT_SWITCHING_POLICY];
+}
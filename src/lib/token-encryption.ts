@@ -0,0 +1,71 @@
+// Encryption of third-party credentials at rest (e.g. organizers' YouTube refresh tokens)
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const FORMAT_VERSION = "v1";
+
+// TOKEN_ENCRYPTION_KEY: 32 random bytes, base64 encoded (`openssl rand -base64 32`)
+export function getTokenEncryptionKey(): Buffer {
+  const encoded = process.env.TOKEN_ENCRYPTION_KEY?.trim();
+  if (!encoded) {
+    throw new Error("TOKEN_ENCRYPTION_KEY environment variable is not set");
+  }
+
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `TOKEN_ENCRYPTION_KEY must be ${KEY_LENGTH} bytes encoded as base64`
+    );
+  }
+  return key;
+}
+
+export function isTokenEncryptionConfigured(): boolean {
+  try {
+    getTokenEncryptionKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Encrypt to "v1.<iv>.<auth tag>.<ciphertext>" (base64url parts)
+export function encryptSecret(
+  plaintext: string,
+  key: Buffer = getTokenEncryptionKey()
+): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(".");
+}
+
+// Decrypt a value produced by encryptSecret. Throws if it was tampered with or the key differs.
+export function decryptSecret(
+  payload: string,
+  key: Buffer = getTokenEncryptionKey()
+): string {
+  const [version, iv, authTag, ciphertext] = payload.split(".");
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+}
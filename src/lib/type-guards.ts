@@ -187,9 +187,8 @@ export function isMockRequestOptions(value: unknown): value is MockRequestOption
 
 // AuthService のモック型定義
 export interface MockAuthService {
-  generateCameraToken: jest.MockedFunction<(participantId: string, eventId: string, participantName?: string) => Promise<string>>;
-  generateLiveKitToken: jest.MockedFunction<(participantId: string, eventId: string, participantName?: string) => Promise<string>>;
-  generateAdminToken: jest.MockedFunction<(adminId: string, eventId?: string) => Promise<string>>;
+  generateCameraToken: jest.MockedFunction<(participantId: string, eventId: string, participantName?: string, options?: { codeVersion?: number; deviceId?: string; inviteId?: string }) => Promise<string>>;
+  generateLiveKitToken: jest.MockedFunction<(options: { identity: string; roomName: string; role: 'camera' | 'monitor' | 'recorder'; participantName?: string; cameraConnectionId?: string }) => Promise<string>>;
   [key: string]: any;
 }
 
@@ -7,6 +7,15 @@ export const createEventSchema = z.object({
   scheduledAt: z.string().datetime().optional(),
 });
 
+// Automatic camera switching settings
+export const switchingPolicyNameSchema = z.enum(['last-in-wins', 'manual-only', 'round-robin', 'best-quality']);
+export const switchingDwellSecondsSchema = z.number().int().min(5, 'Dwell time must be at least 5 seconds').max(3600, 'Dwell time too long');
+export const switchWindowSecondsSchema = z.number().int().min(0, 'Must not be negative').max(600, 'Window too long');
+
+// Camera capacity and admission settings
+export const admissionModeSchema = z.enum(['open', 'waitlist', 'approval']);
+export const maxCamerasSchema = z.number().int().min(1, 'At least one camera is required').max(10, 'At most 10 cameras per event');
+
 export const updateEventSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title too long').optional(),
   description: z.string().max(1000, 'Description too long').optional(),
@@ -15,6 +24,12 @@ export const updateEventSchema = z.object({
   youtubeStreamUrl: z.string().url().optional(),
   youtubeStreamKey: z.string().optional(),
   youtubeVideoId: z.string().optional(),
+  switchingPolicy: switchingPolicyNameSchema.optional(),
+  switchingDwellSeconds: switchingDwellSecondsSchema.optional(),
+  minOnAirSeconds: switchWindowSecondsSchema.optional(),
+  switchCooldownSeconds: switchWindowSecondsSchema.optional(),
+  maxCameras: maxCamerasSchema.optional(),
+  admissionMode: admissionModeSchema.optional(),
 });
 
 // Camera connection validation schemas
@@ -30,14 +45,32 @@ export const joinEventSchema = z.object({
   }).optional(),
 });
 
+const streamQualitySchema = z.object({
+  resolution: z.string().optional(),
+  frameRate: z.number().min(1).max(120).optional(),
+  bitrate: z.number().min(1).max(50000).optional(), // Max 50Mbps
+  codec: z.string().optional(),
+});
+
 export const updateCameraStatusSchema = z.object({
   status: z.enum(['connecting', 'active', 'inactive', 'error']),
-  streamQuality: z.object({
-    resolution: z.string().optional(),
-    frameRate: z.number().min(1).max(120).optional(),
-    bitrate: z.number().min(1).max(50000).optional(), // Max 50Mbps
-    codec: z.string().optional(),
-  }).optional(),
+  streamQuality: streamQualitySchema.optional(),
+});
+
+// Periodic liveness ping from a camera
+export const cameraHeartbeatSchema = z.object({
+  streamQuality: streamQualitySchema.optional(),
+});
+
+// Manual camera take
+export const manualSwitchSchema = z.object({
+  cameraConnectionId: z.string().uuid('Invalid camera connection ID'),
+  lockoutSeconds: z.number().int().min(0).max(3600).optional(), // Pause automatic switching
+});
+
+export const kickCameraSchema = z.object({
+  ban: z.boolean().optional(), // Also block the participant/device from rejoining
+  reason: z.string().max(200, 'Reason too long').optional(),
 });
 
 // Stream status validation schemas
@@ -50,8 +83,52 @@ export const updateStreamStatusSchema = z.object({
 });
 
 // Participation code validation
+// Optional second factor organizers can require along with the participation code
+export const eventPinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits');
+
+// Passphrase organizers can require before viewers see the stream
+export const viewerPassphraseSchema = z.string()
+  .min(6, 'Passphrase must be at least 6 characters')
+  .max(128, 'Passphrase must be at most 128 characters');
+
+export const viewerSessionSchema = z.object({
+  passphrase: z.string().min(1, 'Passphrase is required').max(128, 'Passphrase must be at most 128 characters'),
+});
+
+// Per-person camera invite links minted by the organizer
+export const cameraInviteSchema = z.object({
+  participantName: z.string().trim().max(100, 'Participant name must be at most 100 characters').optional(),
+  maxUses: z.number().int().min(1, 'An invite must allow at least one use').max(20, 'An invite allows at most 20 uses'),
+  expiresInHours: z.number().int().min(1, 'Invites last at least 1 hour').max(168, 'Invites last at most 7 days'),
+});
+
+// Organizer accounts
+export const organizerPasswordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be at most 128 characters');
+
+export const organizerLoginSchema = z.object({
+  email: z.string().trim().email('Invalid email address').max(255, 'Email must be at most 255 characters'),
+  password: z.string().min(1, 'Password is required').max(128, 'Password must be at most 128 characters'),
+});
+
+export const organizerRegistrationSchema = z.object({
+  email: z.string().trim().email('Invalid email address').max(255, 'Email must be at most 255 characters'),
+  password: organizerPasswordSchema,
+  displayName: z.string().trim().max(100, 'Display name must be at most 100 characters').optional(),
+});
+
+export const eventRoleSchema = z.enum(['owner', 'operator', 'monitor']);
+
+// Co-organizers are invited as operators or monitors; ownership is granted from the members list
+export const organizerInvitationSchema = z.object({
+  email: z.string().trim().email('Invalid email address').max(255, 'Email must be at most 255 characters'),
+  role: z.enum(['operator', 'monitor']),
+});
+
 export const participationCodeSchema = z.object({
   code: z.string().length(6, 'Participation code must be 6 characters').regex(/^[A-Z0-9]+$/, 'Invalid participation code format'),
+  pin: z.string().max(8, 'PIN must be at most 8 digits').optional(),
 });
 
 // Query parameter validation schemas
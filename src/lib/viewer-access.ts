@@ -0,0 +1,118 @@
+// Optional per-event viewer passphrase. Viewers exchange it for a viewer token
+// kept in a per-event session cookie; changing the passphrase ends the
+// sessions issued for the old one.
+import { createHash, randomUUID } from "crypto";
+import { AuthService } from "./auth";
+import { EventSecretService } from "./database";
+import { type BackoffRule, checkBackoff, recordBackoffFailure, resetBackoff } from "./rate-limit";
+import { verifySecret } from "./secret-hash";
+import type { EventClient, PublicEventClient } from "@/types";
+
+// 5 free failures, then 2s, 4s, 8s... up to 15 minutes between attempts
+export const VIEWER_PASSPHRASE_BACKOFF: BackoffRule = {
+  name: "viewerPassphrase",
+  freeFailures: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 15 * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+};
+
+export interface ViewerAccessState {
+  required: boolean; // The event has a viewer passphrase
+  granted: boolean; // The viewer may see the stream
+}
+
+export type PassphraseExchangeResult =
+  | { status: "ok"; token: string }
+  | { status: "not-required" }
+  // retryAfterMs: wait before this client's next attempt (0 for none)
+  | { status: "wrong-passphrase"; retryAfterMs: number }
+  | { status: "throttled"; retryAfterMs: number };
+
+// Identifies the passphrase a session was issued for without revealing its hash
+export function getViewerPassphraseVersion(passphraseHash: string): string {
+  return createHash("sha256").update(passphraseHash).digest("hex").slice(0, 16);
+}
+
+// Drop what only organizers and joined cameras may see from an event, and the
+// YouTube broadcast too unless the viewer may watch it
+export function toPublicEvent(event: EventClient, viewerAccess: ViewerAccessState): PublicEventClient {
+  const {
+    participationCode: _participationCode,
+    participationCodeVersion: _participationCodeVersion,
+    participationCodeRotatedAt: _participationCodeRotatedAt,
+    youtubeStreamKey: _youtubeStreamKey,
+    ...publicEvent
+  } = event;
+  if (viewerAccess.granted) {
+    return publicEvent;
+  }
+
+  const { youtubeStreamUrl: _youtubeStreamUrl, youtubeVideoId: _youtubeVideoId, ...lockedEvent } = publicEvent;
+  return lockedEvent;
+}
+
+export class ViewerAccess {
+  // Whether a viewer holding `sessionToken` (the event's viewer cookie) may watch
+  static async check(eventId: string, sessionToken?: string | null): Promise<ViewerAccessState> {
+    const passphraseHash = await EventSecretService.getViewerPassphraseHash(eventId);
+    if (!passphraseHash) {
+      return { required: false, granted: true };
+    }
+    if (!sessionToken) {
+      return { required: true, granted: false };
+    }
+
+    const payload = await AuthService.verifyToken(sessionToken);
+    return {
+      required: true,
+      granted:
+        payload?.type === "viewer" &&
+        payload.eventId === eventId &&
+        payload.passphraseVersion === getViewerPassphraseVersion(passphraseHash),
+    };
+  }
+
+  // Exchange the passphrase for a viewer token. Wrong passphrases slow the client down.
+  static async exchange(
+    eventId: string,
+    passphrase: string,
+    clientKey: string
+  ): Promise<PassphraseExchangeResult> {
+    const backoffKey = `${eventId}:${clientKey}`;
+
+    try {
+      const backoff = await checkBackoff(backoffKey, VIEWER_PASSPHRASE_BACKOFF);
+      if (!backoff.allowed) {
+        return { status: "throttled", retryAfterMs: backoff.retryAfterMs };
+      }
+    } catch (error) {
+      // An unreachable store must not lock viewers out
+      console.error("Viewer passphrase check failed, allowing attempt:", error);
+    }
+
+    const passphraseHash = await EventSecretService.getViewerPassphraseHash(eventId);
+    if (!passphraseHash) {
+      return { status: "not-required" };
+    }
+
+    if (!(await verifySecret(passphrase, passphraseHash))) {
+      const failure = await recordBackoffFailure(backoffKey, VIEWER_PASSPHRASE_BACKOFF).catch((error) => {
+        console.error("Failed to record viewer passphrase failure:", error);
+        return null;
+      });
+      return { status: "wrong-passphrase", retryAfterMs: failure?.retryAfterMs ?? 0 };
+    }
+
+    await resetBackoff(backoffKey, VIEWER_PASSPHRASE_BACKOFF).catch((error) => {
+      console.error("Failed to reset viewer passphrase delay:", error);
+    });
+
+    const token = await AuthService.generateViewerToken(
+      `viewer-${randomUUID()}`,
+      eventId,
+      getViewerPassphraseVersion(passphraseHash)
+    );
+    return { status: "ok", token };
+  }
+}
@@ -1,9 +1,30 @@
 // WebSocket event handling for real-time features
 import {
+  EventService,
   EventLogService,
   CameraConnectionService,
   StreamStatusService,
 } from "./database";
+import { BroadcastLifecycle } from "./broadcast-lifecycle";
+import { CameraAdmission } from "./camera-admission";
+import { getEventBus, type SequencedEvent } from "./event-bus";
+import { KeyedLock } from "./keyed-lock";
+import { processSingleton } from "./process-singleton";
+import {
+  StreamSwitcher,
+  type SwitchReason,
+  type SwitchResult,
+} from "./switcher";
+import {
+  DEFAULT_MIN_ON_AIR_SECONDS,
+  DEFAULT_SWITCH_COOLDOWN_SECONDS,
+  DEFAULT_SWITCHING_DWELL_SECONDS,
+  checkSwitchWindow,
+  getSwitchingPolicy,
+  type SwitchDecision,
+  type SwitchingContext,
+  type SwitchingPolicy,
+} from "./switching-policies";
 
 // WebSocket event types
 export interface WebSocketEvent {
@@ -55,158 +76,147 @@ export interface StreamSwitchedEvent extends WebSocketEvent {
   data: {
     fromCamera?: string;
     toCamera: string;
-    reason: "new-camera" | "camera-disconnected" | "manual-switch";
+    reason: SwitchReason;
   };
 }
 
 // Event handlers
 export class WebSocketEventHandler {
+  // In-process timers driving SwitchingPolicy.onTick; one per event
+  private static policyTimers = processSingleton(
+    "switch-policy-timers",
+    () => new Map<string, ReturnType<typeof setInterval>>()
+  );
+  // Switches suppressed by the on-air/cooldown window, waiting to be retried
+  private static deferredSwitches = processSingleton(
+    "deferred-switches",
+    () =>
+      new Map<
+        string,
+        { cameraConnectionId: string; reason: SwitchReason; timer: ReturnType<typeof setTimeout> }
+      >()
+  );
+  // Per-event chain of switching decisions, so near-simultaneous camera starts
+  // see each other's stream_status updates. Only serializes within one server
+  // process; switching assumes a single instance handles an event's webhooks.
+  private static switchLocks = processSingleton("switch-locks", () => new KeyedLock());
+
+  // The camera lifecycle handlers below reject when a state update fails, so
+  // LiveKit webhooks can be retried; fire-and-forget callers log the error.
+
   // Handle camera joined event
   static async handleCameraJoined(event: CameraJoinedEvent): Promise<void> {
-    try {
-      console.log("Camera joined:", event);
-
-      // Log the event
-      await EventLogService.create({
-        eventId: event.eventId,
-        cameraConnectionId: event.cameraConnectionId,
-        logType: "camera_joined",
-        message: `Camera ${event.participantId} joined the event`,
-        metadata: {
-          participantName: event.data.participantName,
-          deviceInfo: event.data.deviceInfo,
-        },
-      });
+    console.log("Camera joined:", event);
+
+    // Log the event
+    await EventLogService.create({
+      eventId: event.eventId,
+      cameraConnectionId: event.cameraConnectionId,
+      logType: "camera_joined",
+      message: `Camera ${event.participantId} joined the event`,
+      metadata: {
+        participantName: event.data.participantName,
+        deviceInfo: event.data.deviceInfo,
+      },
+    });
 
-      // Update stream status
-      await this.updateStreamStatus(event.eventId);
+    // Update stream status
+    await this.updateStreamStatus(event.eventId);
 
-      // Broadcast to other participants (if needed)
-      await this.broadcastEvent(event);
-    } catch (error) {
-      console.error("Failed to handle camera joined event:", error);
-    }
+    // Broadcast to other participants (if needed)
+    await this.broadcastEvent(event);
   }
 
   // Handle camera started streaming event
   static async handleCameraStartedStreaming(
     event: CameraStartedStreamingEvent
   ): Promise<void> {
-    try {
-      console.log("Camera started streaming:", event);
-
-      // Update camera connection status
-      await CameraConnectionService.updateStatus(
-        event.cameraConnectionId,
-        "active",
-        event.data.streamQuality
-      );
+    console.log("Camera started streaming:", event);
+
+    // Update camera connection status
+    await CameraConnectionService.updateStatus(
+      event.cameraConnectionId,
+      "active",
+      event.data.streamQuality
+    );
+
+    // Log the event
+    await EventLogService.create({
+      eventId: event.eventId,
+      cameraConnectionId: event.cameraConnectionId,
+      logType: "camera_streaming_started",
+      message: `Camera ${event.participantId} started streaming`,
+      metadata: {
+        streamQuality: event.data.streamQuality,
+      },
+    });
 
-      // Log the event
-      await EventLogService.create({
-        eventId: event.eventId,
-        cameraConnectionId: event.cameraConnectionId,
-        logType: "camera_streaming_started",
-        message: `Camera ${event.participantId} started streaming`,
-        metadata: {
-          streamQuality: event.data.streamQuality,
-        },
-      });
+    // Let the event's switching policy decide what goes on air
+    await this.handleStreamSwitching(event);
 
-      // Implement "last-in priority" switching logic
-      await this.handleStreamSwitching(event);
+    // Update stream status
+    await this.updateStreamStatus(event.eventId);
 
-      // Update stream status
-      await this.updateStreamStatus(event.eventId);
+    // Start the YouTube broadcast if the organizer is waiting to go live
+    await BroadcastLifecycle.onCameraActive(event.eventId);
 
-      // Broadcast to other participants
-      await this.broadcastEvent(event);
-    } catch (error) {
-      console.error("Failed to handle camera started streaming event:", error);
-    }
+    // Broadcast to other participants
+    await this.broadcastEvent(event);
   }
 
   // Handle camera disconnected event
   static async handleCameraDisconnected(
     event: CameraDisconnectedEvent
   ): Promise<void> {
-    try {
-      console.log("Camera disconnected:", event);
+    console.log("Camera disconnected:", event);
+
+    // Update camera connection status
+    await CameraConnectionService.updateStatus(
+      event.cameraConnectionId,
+      "inactive"
+    );
+
+    // Log the event
+    await EventLogService.create({
+      eventId: event.eventId,
+      cameraConnectionId: event.cameraConnectionId,
+      logType: "camera_disconnected",
+      message: `Camera ${event.participantId} disconnected`,
+      metadata: {
+        reason: event.data.reason,
+        duration: event.data.duration,
+      },
+    });
 
-      // Update camera connection status
-      await CameraConnectionService.updateStatus(
-        event.cameraConnectionId,
-        "inactive"
-      );
+    // Handle stream switching if this was the active camera
+    await this.handleCameraDisconnection(event);
 
-      // Log the event
-      await EventLogService.create({
-        eventId: event.eventId,
-        cameraConnectionId: event.cameraConnectionId,
-        logType: "camera_disconnected",
-        message: `Camera ${event.participantId} disconnected`,
-        metadata: {
-          reason: event.data.reason,
-          duration: event.data.duration,
-        },
-      });
+    // Update stream status
+    await this.updateStreamStatus(event.eventId);
 
-      // Handle stream switching if this was the active camera
-      await this.handleCameraDisconnection(event);
+    // Broadcast to other participants
+    await this.broadcastEvent(event);
 
-      // Update stream status
-      await this.updateStreamStatus(event.eventId);
-
-      // Broadcast to other participants
-      await this.broadcastEvent(event);
-    } catch (error) {
-      console.error("Failed to handle camera disconnected event:", error);
-    }
+    // The freed slot goes to the next joiner on the waitlist
+    await CameraAdmission.admitWaiting(event.eventId);
   }
 
-  // Handle stream switching logic (last-in priority)
+  // Ask the event's switching policy whether the new camera should go on air
   private static async handleStreamSwitching(
     event: CameraStartedStreamingEvent
   ): Promise<void> {
     try {
-      // Get current stream status
-      const streamStatus = await StreamStatusService.getByEventId(
-        event.eventId
-      );
+      await this.switchLocks.run(event.eventId, async () => {
+        const { policy, context } = await this.loadSwitchingContext(event.eventId);
+        const decision = policy.onCameraStarted(context, event.cameraConnectionId);
 
-      // Always switch to the newest camera (last-in priority)
-      const switchEvent: StreamSwitchedEvent = {
-        type: "stream-switched",
-        eventId: event.eventId,
-        timestamp: Date.now(),
-        data: {
-          fromCamera: streamStatus?.currentActiveCamera,
-          toCamera: event.cameraConnectionId,
-          reason: "new-camera",
-        },
-      };
+        await this.applySwitchDecision(event.eventId, decision, context, "new-camera");
 
-      // Update stream status with new active camera
-      await StreamStatusService.upsert({
-        eventId: event.eventId,
-        currentActiveCamera: event.cameraConnectionId,
-      });
-
-      // Log the switch
-      await EventLogService.create({
-        eventId: event.eventId,
-        cameraConnectionId: event.cameraConnectionId,
-        logType: "stream_switched",
-        message: `Stream switched to camera ${event.participantId}`,
-        metadata: {
-          fromCamera: switchEvent.data.fromCamera,
-          toCamera: switchEvent.data.toCamera,
-          reason: switchEvent.data.reason,
-        },
+        // Rotating policies keep switching on a timer while cameras are streaming
+        if (policy.onTick) {
+          this.schedulePolicyTicks(event.eventId, context.dwellSeconds);
+        }
       });
-
-      // Broadcast switch event
-      await this.broadcastEvent(switchEvent);
     } catch (error) {
       console.error("Failed to handle stream switching:", error);
     }
@@ -217,85 +227,359 @@ export class WebSocketEventHandler {
     event: CameraDisconnectedEvent
   ): Promise<void> {
     try {
-      // Get current stream status
-      const streamStatus = await StreamStatusService.getByEventId(
-        event.eventId
-      );
+      await this.switchLocks.run(event.eventId, async () => {
+        const { policy, context } = await this.loadSwitchingContext(event.eventId);
+
+        // Only the on-air camera needs a failover
+        if (context.currentCameraId !== event.cameraConnectionId) {
+          return;
+        }
 
-      // Check if the disconnected camera was the active one
-      if (streamStatus?.currentActiveCamera === event.cameraConnectionId) {
-        // Find another active camera to switch to
-        const activeCameras = await CameraConnectionService.getByEventId(
-          event.eventId
+        const decision = policy.onActiveCameraLost({
+          ...context,
+          activeCameras: context.activeCameras.filter(
+            (camera) => camera.id !== event.cameraConnectionId
+          ),
+        });
+
+        await this.applySwitchDecision(
+          event.eventId,
+          decision,
+          context,
+          "camera-disconnected"
         );
-        const otherActiveCameras = activeCameras.filter(
-          (camera) =>
-            camera.status === "active" && camera.id !== event.cameraConnectionId
+      });
+    } catch (error) {
+      console.error("Failed to handle camera disconnection:", error);
+    }
+  }
+
+  // Periodic policy evaluation (round-robin rotation)
+  static async handlePolicyTick(eventId: string): Promise<void> {
+    try {
+      await this.switchLocks.run(eventId, async () => {
+        const { policy, context } = await this.loadSwitchingContext(eventId);
+
+        if (!policy.onTick || context.activeCameras.length === 0) {
+          this.stopPolicyTicks(eventId);
+        }
+        if (!policy.onTick) {
+          return;
+        }
+
+        await this.applySwitchDecision(
+          eventId,
+          policy.onTick(context),
+          context,
+          "rotation"
         );
+      });
+    } catch (error) {
+      console.error("Failed to evaluate switching policy:", error);
+    }
+  }
 
-        if (otherActiveCameras.length > 0) {
-          // Switch to the most recently joined active camera
-          const newActiveCamera =
-            otherActiveCameras.sort(
-              (a, b) =>
-                new Date(b.joinedAt).getTime() -
-                new Date(a.joinedAt).getTime()
-            )[0]!;
+  // Organizer "take": put a specific camera on air right away.
+  // Bypasses the switching policy and windows; optionally pauses automatic switching.
+  static async handleManualSwitch(
+    eventId: string,
+    cameraConnectionId: string,
+    options: { lockoutSeconds?: number } = {}
+  ): Promise<SwitchResult & { autoSwitchLockedUntil?: Date }> {
+    let result: SwitchResult & { autoSwitchLockedUntil?: Date } = {
+      success: false,
+      error: "Switch was not attempted",
+    };
 
-          
+    await this.switchLocks.run(eventId, async () => {
+      const { context } = await this.loadSwitchingContext(eventId);
 
-          const switchEvent: StreamSwitchedEvent = {
-            type: "stream-switched",
-            eventId: event.eventId,
-            timestamp: Date.now(),
-            data: {
-              fromCamera: event.cameraConnectionId,
-              toCamera: newActiveCamera.id,
-              reason: "camera-disconnected",
-            },
-          };
-
-          // Update stream status
-          await StreamStatusService.upsert({
-            eventId: event.eventId,
-            currentActiveCamera: newActiveCamera.id,
-          });
+      result = await this.applySwitchDecision(
+        eventId,
+        { action: "switch", cameraConnectionId },
+        context,
+        "manual"
+      );
+      if (!result.success) {
+        return;
+      }
 
-          // Log the switch
-          await EventLogService.create({
-            eventId: event.eventId,
-            cameraConnectionId: newActiveCamera.id,
-            logType: "stream_switched",
-            message: `Stream switched to camera ${newActiveCamera.participantId} due to disconnection`,
-            metadata: {
-              fromCamera: switchEvent.data.fromCamera,
-              toCamera: switchEvent.data.toCamera,
-              reason: switchEvent.data.reason,
-            },
-          });
+      // A manual take always resets the lockout; 0 seconds lifts an existing one
+      const lockoutSeconds = options.lockoutSeconds ?? 0;
+      const autoSwitchLockedUntil =
+        lockoutSeconds > 0
+          ? new Date(Date.now() + lockoutSeconds * 1000)
+          : undefined;
 
-          // Broadcast switch event
-          await this.broadcastEvent(switchEvent);
-        } else {
-          // No other active cameras - show standby screen
-          await StreamStatusService.upsert({
-            eventId: event.eventId,
-            currentActiveCamera: undefined,
-          });
+      await StreamStatusService.upsert({ eventId, autoSwitchLockedUntil });
+      result = { ...result, autoSwitchLockedUntil };
+    });
+
+    return result;
+  }
+
+  // Re-evaluate the policy timer after the event's switching settings changed
+  static async refreshSwitchingPolicy(eventId: string): Promise<void> {
+    try {
+      this.stopPolicyTicks(eventId);
+
+      const { policy, context } = await this.loadSwitchingContext(eventId);
+      if (policy.onTick && context.activeCameras.length > 0) {
+        this.schedulePolicyTicks(eventId, context.dwellSeconds);
+      }
+    } catch (error) {
+      console.error("Failed to refresh switching policy:", error);
+    }
+  }
+
+  // Show a changed standby image if the slate is currently on air
+  static async refreshStandbySlate(eventId: string): Promise<void> {
+    try {
+      await this.switchLocks.run(eventId, () => StreamSwitcher.restartSlate(eventId));
+    } catch (error) {
+      console.error("Failed to refresh standby slate:", error);
+    }
+  }
+
+  // Gather the event's policy and camera state for a switching decision
+  private static async loadSwitchingContext(
+    eventId: string
+  ): Promise<{ policy: SwitchingPolicy; context: SwitchingContext }> {
+    const [event, cameras, streamStatus] = await Promise.all([
+      EventService.getById(eventId),
+      CameraConnectionService.getByEventId(eventId),
+      StreamStatusService.getByEventId(eventId),
+    ]);
+
+    return {
+      policy: getSwitchingPolicy(event?.switchingPolicy),
+      context: {
+        activeCameras: cameras.filter((camera) => camera.status === "active"),
+        currentCameraId: streamStatus?.currentActiveCamera,
+        lastSwitchAt: streamStatus?.lastSwitchAt,
+        dwellSeconds:
+          event?.switchingDwellSeconds ?? DEFAULT_SWITCHING_DWELL_SECONDS,
+        minOnAirSeconds:
+          event?.minOnAirSeconds ?? DEFAULT_MIN_ON_AIR_SECONDS,
+        cooldownSeconds:
+          event?.switchCooldownSeconds ?? DEFAULT_SWITCH_COOLDOWN_SECONDS,
+        autoSwitchLockedUntil: streamStatus?.autoSwitchLockedUntil,
+        now: new Date(),
+      },
+    };
+  }
+
+  // Apply a policy decision through the stream switcher, then log and broadcast it
+  private static async applySwitchDecision(
+    eventId: string,
+    decision: SwitchDecision,
+    context: SwitchingContext,
+    reason: SwitchReason
+  ): Promise<SwitchResult> {
+    if (decision.action === "keep") {
+      return { success: true, fromCamera: context.currentCameraId, toCamera: context.currentCameraId };
+    }
+
+    const toCamera = decision.cameraConnectionId;
+
+    // Failovers, manual takes and going off air are never delayed; everything
+    // else respects the lockout, minimum on-air time and cooldown
+    if (
+      toCamera &&
+      toCamera !== context.currentCameraId &&
+      reason !== "camera-disconnected" &&
+      reason !== "manual"
+    ) {
+      const window = checkSwitchWindow(context);
+      if (!window.allowed) {
+        await this.deferSwitch(eventId, toCamera, reason, window.reason, window.retryAt, context);
+        return { success: false, fromCamera: context.currentCameraId, toCamera, error: `Switch deferred (${window.reason})` };
+      }
+    }
+
+    // A switch is happening now, so any queued request is obsolete
+    await this.dropDeferredSwitch(eventId, "superseded", context);
 
-          // Log standby state
-          await EventLogService.create({
-            eventId: event.eventId,
-            logType: "stream_standby",
-            message: "No active cameras - showing standby screen",
-            metadata: {
-              reason: "all_cameras_disconnected",
-            },
+    const result = await StreamSwitcher.switchTo({
+      eventId,
+      cameraConnectionId: toCamera,
+      reason,
+    });
+
+    if (!result.success || result.fromCamera === result.toCamera) {
+      return result;
+    }
+
+    if (!toCamera) {
+      // No camera left to show - the egress now sends the standby slate
+      await EventLogService.create({
+        eventId,
+        logType: "stream_standby",
+        message: "No active cameras - showing standby screen",
+        metadata: {
+          reason: "all_cameras_disconnected",
+        },
+      });
+      return result;
+    }
+
+    const switchEvent: StreamSwitchedEvent = {
+      type: "stream-switched",
+      eventId,
+      cameraConnectionId: toCamera,
+      timestamp: Date.now(),
+      data: {
+        fromCamera: result.fromCamera,
+        toCamera,
+        reason,
+      },
+    };
+
+    const camera = context.activeCameras.find((c) => c.id === toCamera);
+
+    // Log the switch
+    await EventLogService.create({
+      eventId,
+      cameraConnectionId: toCamera,
+      logType: "stream_switched",
+      message: `Stream switched to camera ${camera?.participantId ?? toCamera} (${reason})`,
+      metadata: {
+        fromCamera: switchEvent.data.fromCamera,
+        toCamera: switchEvent.data.toCamera,
+        reason: switchEvent.data.reason,
+      },
+    });
+
+    // Broadcast switch event
+    await this.broadcastEvent(switchEvent);
+
+    return result;
+  }
+
+  // Queue a suppressed switch until its window ends. Only the latest request
+  // per event is kept; an older queued request is dropped.
+  private static async deferSwitch(
+    eventId: string,
+    cameraConnectionId: string,
+    reason: SwitchReason,
+    suppressedBy: "manual-lockout" | "min-on-air" | "cooldown",
+    retryAt: Date,
+    context: SwitchingContext
+  ): Promise<void> {
+    const queued = this.deferredSwitches.get(eventId);
+    if (queued?.cameraConnectionId === cameraConnectionId) {
+      return; // Already waiting for this camera
+    }
+
+    await this.dropDeferredSwitch(eventId, "superseded", context);
+
+    const delayMs = Math.max(0, retryAt.getTime() - context.now.getTime());
+    const timer = setTimeout(() => {
+      void this.runDeferredSwitch(eventId);
+    }, delayMs);
+    this.deferredSwitches.set(eventId, { cameraConnectionId, reason, timer });
+
+    await this.logSuppressedSwitch(eventId, cameraConnectionId, reason, context, {
+      suppressedBy,
+      action: "queued",
+      retryAt: retryAt.toISOString(),
+    });
+  }
+
+  // Apply a queued switch once its window has passed
+  private static async runDeferredSwitch(eventId: string): Promise<void> {
+    try {
+      await this.switchLocks.run(eventId, async () => {
+        const queued = this.deferredSwitches.get(eventId);
+        if (!queued) {
+          return;
+        }
+        this.deferredSwitches.delete(eventId);
+
+        const { context } = await this.loadSwitchingContext(eventId);
+        const stillStreaming = context.activeCameras.some(
+          (camera) => camera.id === queued.cameraConnectionId
+        );
+
+        if (!stillStreaming) {
+          await this.logSuppressedSwitch(eventId, queued.cameraConnectionId, queued.reason, context, {
+            suppressedBy: "camera-unavailable",
+            action: "dropped",
           });
+          return;
         }
-      }
+
+        await this.applySwitchDecision(
+          eventId,
+          { action: "switch", cameraConnectionId: queued.cameraConnectionId },
+          context,
+          queued.reason
+        );
+      });
     } catch (error) {
-      console.error("Failed to handle camera disconnection:", error);
+      console.error("Failed to run deferred stream switch:", error);
+    }
+  }
+
+  private static async dropDeferredSwitch(
+    eventId: string,
+    suppressedBy: "superseded",
+    context: SwitchingContext
+  ): Promise<void> {
+    const queued = this.deferredSwitches.get(eventId);
+    if (!queued) {
+      return;
+    }
+
+    clearTimeout(queued.timer);
+    this.deferredSwitches.delete(eventId);
+
+    await this.logSuppressedSwitch(eventId, queued.cameraConnectionId, queued.reason, context, {
+      suppressedBy,
+      action: "dropped",
+    });
+  }
+
+  private static async logSuppressedSwitch(
+    eventId: string,
+    cameraConnectionId: string,
+    reason: SwitchReason,
+    context: SwitchingContext,
+    details: { suppressedBy: string; action: "queued" | "dropped"; retryAt?: string }
+  ): Promise<void> {
+    await EventLogService.create({
+      eventId,
+      cameraConnectionId,
+      logType: "stream_switch_suppressed",
+      message: `Switch to camera ${cameraConnectionId} ${details.action} (${details.suppressedBy})`,
+      metadata: {
+        ...details,
+        fromCamera: context.currentCameraId,
+        toCamera: cameraConnectionId,
+        reason,
+        lastSwitchAt: context.lastSwitchAt,
+      },
+    });
+  }
+
+  private static schedulePolicyTicks(eventId: string, dwellSeconds: number): void {
+    if (this.policyTimers.has(eventId)) {
+      return;
+    }
+
+    // Tick a few times per dwell period so rotations are not late by a full period
+    const intervalMs = Math.max(1000, Math.floor((dwellSeconds * 1000) / 4));
+    const timer = setInterval(() => {
+      void this.handlePolicyTick(eventId);
+    }, intervalMs);
+    this.policyTimers.set(eventId, timer);
+  }
+
+  static stopPolicyTicks(eventId: string): void {
+    const timer = this.policyTimers.get(eventId);
+    if (timer) {
+      clearInterval(timer);
+      this.policyTimers.delete(eventId);
     }
   }
 
@@ -317,70 +601,140 @@ export class WebSocketEventHandler {
     }
   }
 
-  // Broadcast event to connected clients (placeholder for WebSocket implementation)
+  // Broadcast event to connected dashboards via the SSE event bus
   private static async broadcastEvent(event: WebSocketEvent): Promise<void> {
     try {
-      // In a real implementation, this would broadcast to WebSocket clients
-      // For now, we'll just log the event
       console.log("Broadcasting event:", event.type, event.eventId);
 
-      // Store the event for Server-Sent Events (SSE) clients
-      await this.storeEventForSSE(event);
+      await SSEHandler.sendEventToClients(event.eventId, event);
     } catch (error) {
       console.error("Failed to broadcast event:", error);
     }
   }
-
-  // Store event for Server-Sent Events clients
-  private static async storeEventForSSE(event: WebSocketEvent): Promise<void> {
-    try {
-      // Store in a temporary cache for SSE clients to retrieve
-      // In production, use Redis or similar
-      const key = `sse_events:${event.eventId}`;
-      const eventData = JSON.stringify(event);
-
-      // For now, just log - in production implement proper SSE storage
-      console.log(`SSE Event stored for ${key}:`, eventData);
-    } catch (error) {
-      console.error("Failed to store SSE event:", error);
-    }
-  }
 }
 
+// Bus events only the event's organizers receive; the stream itself is public
+const ORGANIZER_ONLY_EVENT_TYPES = new Set(["code-guess-spike"]);
+
 // Server-Sent Events handler for real-time updates
 export class SSEHandler {
-  // Create SSE stream for event updates
-  static createEventStream(eventId: string): ReadableStream<Uint8Array> {
+  // Create SSE stream for event updates.
+  // Bus events are written with `id:` lines; when the client reconnects with
+  // Last-Event-ID the missed events are replayed, or a `resync` event is sent if
+  // they are no longer buffered. Subscribes until the client disconnects.
+  static createEventStream(
+    eventId: string,
+    options: {
+      signal?: AbortSignal;
+      lastEventId?: string | null;
+      includeOrganizerEvents?: boolean;
+    } = {}
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
     return new ReadableStream({
-      start(controller) {
-        // Send initial connection message
-        const initialMessage = `data: ${JSON.stringify({
-          type: "connected",
-          eventId,
-          timestamp: Date.now(),
-        })}\n\n`;
+      async start(controller) {
+        let lastSentId = 0;
 
-        controller.enqueue(new TextEncoder().encode(initialMessage));
+        const send = (payload: Record<string, unknown>, id?: number): void => {
+          if (!cleanup) return; // Stream already closed
+
+          try {
+            const idLine = id !== undefined ? `id: ${id}\n` : "";
+            controller.enqueue(
+              encoder.encode(`${idLine}data: ${JSON.stringify(payload)}\n\n`)
+            );
+          } catch (error) {
+            console.error("SSE send error:", error);
+            cleanup?.();
+          }
+        };
+
+        const sendBusEvent = (event: SequencedEvent): void => {
+          // Skip events already delivered by the replay
+          if (event.id <= lastSentId) return;
+          lastSentId = event.id;
+          if (!options.includeOrganizerEvents && ORGANIZER_ONLY_EVENT_TYPES.has(event.type)) return;
+          send({ ...event }, event.id);
+        };
+
+        // Subscribe before replaying so nothing published meanwhile is lost;
+        // live events are held back until the replay has been written
+        let pending: SequencedEvent[] | null = [];
+        const bus = getEventBus();
+        const unsubscribe = bus.subscribe(eventId, (event) => {
+          if (pending) {
+            pending.push(event);
+          } else {
+            sendBusEvent(event);
+          }
+        });
 
         // Set up periodic heartbeat
         const heartbeatInterval = setInterval(() => {
-          const heartbeat = `data: ${JSON.stringify({
+          send({
             type: "heartbeat",
             timestamp: Date.now(),
-          })}\n\n`;
+          });
+        }, 30000); // 30 second heartbeat
 
+        const onAbort = () => {
+          cleanup?.();
           try {
-            controller.enqueue(new TextEncoder().encode(heartbeat));
-          } catch (error) {
-            console.error("SSE heartbeat error:", error);
-            clearInterval(heartbeatInterval);
+            controller.close();
+          } catch {
+            // Already closed
           }
-        }, 30000); // 30 second heartbeat
+        };
 
-        // Clean up on close
-        return () => {
+        cleanup = () => {
+          cleanup = null;
           clearInterval(heartbeatInterval);
+          unsubscribe();
+          options.signal?.removeEventListener("abort", onAbort);
         };
+
+        if (options.signal?.aborted) {
+          onAbort();
+          return;
+        }
+        options.signal?.addEventListener("abort", onAbort);
+
+        // Send initial connection message
+        send({
+          type: "connected",
+          eventId,
+          timestamp: Date.now(),
+        });
+
+        if (options.lastEventId) {
+          const lastEventId = Number(options.lastEventId);
+          const missed = Number.isSafeInteger(lastEventId)
+            ? await bus.replay(eventId, lastEventId)
+            : null;
+
+          if (missed) {
+            lastSentId = lastEventId;
+            missed.forEach(sendBusEvent);
+          } else {
+            // Gap is too old to replay - the client must re-fetch /status
+            send({
+              type: "resync",
+              eventId,
+              lastEventId: options.lastEventId,
+              timestamp: Date.now(),
+            });
+          }
+        }
+
+        const held = pending;
+        pending = null;
+        held.forEach(sendBusEvent);
+      },
+      cancel() {
+        // Client disconnected
+        cleanup?.();
       },
     });
   }
@@ -391,9 +745,7 @@ export class SSEHandler {
     event: WebSocketEvent
   ): Promise<void> {
     try {
-      // In a real implementation, this would send to active SSE connections
-      // For now, we'll just log the event
-      console.log(`SSE: Sending event to clients for ${eventId}:`, event);
+      await getEventBus().publish(eventId, event);
     } catch (error) {
       console.error("Failed to send SSE event:", error);
     }
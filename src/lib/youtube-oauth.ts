@@ -0,0 +1,297 @@
+// YouTube OAuth (authorization code flow) and per-organizer YouTube clients
+import { randomBytes } from "crypto";
+import { SignJWT, jwtVerify } from "jose";
+import type { NextRequest } from "next/server";
+import { AuthService, JWTSecurityValidator, SessionService } from "./auth";
+import { YouTubeConnectionService } from "./database";
+import { processSingleton } from "./process-singleton";
+import { decryptSecret, encryptSecret } from "./token-encryption";
+import {
+  GOOGLE_TOKEN_URL,
+  YouTubeApiError,
+  YouTubeClient,
+  YouTubeConfigurationError,
+  createRefreshTokenProvider,
+  getYouTubeClient,
+  type FetchLike,
+  type YouTubeApi,
+} from "./youtube";
+import type { EventClient, YouTubeConnectionClient } from "@/types";
+
+export const GOOGLE_AUTHORIZATION_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+// Managing live broadcasts requires the full youtube scope
+export const YOUTUBE_OAUTH_SCOPES = ["https://www.googleapis.com/auth/youtube"];
+export const YOUTUBE_CALLBACK_PATH = "/api/integrations/youtube/callback";
+
+// Binds the OAuth state to the browser that started the flow
+export const OAUTH_STATE_COOKIE = "harecame-youtube-oauth";
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+const OAUTH_STATE_AUDIENCE = "harecame-youtube-oauth";
+const DEFAULT_RETURN_TO = "/events/create";
+
+export interface YouTubeOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface OAuthState {
+  organizerId: string;
+  returnTo: string;
+}
+
+export interface AuthorizationCodeTokens {
+  refreshToken: string;
+  accessToken: string;
+  expiresIn: number;
+  scope?: string;
+}
+
+export function getYouTubeOAuthConfig(): YouTubeOAuthConfig {
+  const clientId = process.env.YOUTUBE_CLIENT_ID;
+  const clientSecret = process.env.YOUTUBE_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new YouTubeConfigurationError(
+      "YouTube OAuth is not configured (YOUTUBE_CLIENT_ID, YOUTUBE_CLIENT_SECRET)"
+    );
+  }
+  return { clientId, clientSecret };
+}
+
+// YOUTUBE_REDIRECT_URI overrides the callback URL (must match the Google console)
+export function getYouTubeRedirectUri(origin: string): string {
+  return process.env.YOUTUBE_REDIRECT_URI || `${origin}${YOUTUBE_CALLBACK_PATH}`;
+}
+
+// Only same-origin paths are allowed as post-connect destinations
+export function sanitizeReturnTo(returnTo: string | null | undefined): string {
+  if (!returnTo || !returnTo.startsWith("/") || returnTo.startsWith("//") || returnTo.includes("\\")) {
+    return DEFAULT_RETURN_TO;
+  }
+  return returnTo;
+}
+
+// Organizer identity of the caller (bearer token or session cookie)
+export async function getOrganizerIdFromRequest(request: NextRequest): Promise<string | null> {
+  const token =
+    AuthService.extractTokenFromRequest(request) ?? SessionService.extractSessionToken(request);
+  if (!token) return null;
+
+  const payload = await AuthService.verifyToken(token);
+  if (payload?.type !== "organizer") {
+    return null;
+  }
+  return payload.sub;
+}
+
+export function buildYouTubeAuthorizationUrl(options: {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+}): string {
+  const params = new URLSearchParams({
+    client_id: options.clientId,
+    redirect_uri: options.redirectUri,
+    response_type: "code",
+    scope: YOUTUBE_OAUTH_SCOPES.join(" "),
+    // offline + consent so Google always returns a refresh token
+    access_type: "offline",
+    prompt: "consent",
+    include_granted_scopes: "true",
+    state: options.state,
+  });
+  return `${GOOGLE_AUTHORIZATION_URL}?${params.toString()}`;
+}
+
+// Signed state carrying the organizer; the nonce goes into OAUTH_STATE_COOKIE
+export async function createOAuthState(
+  organizerId: string,
+  returnTo: string
+): Promise<{ state: string; nonce: string }> {
+  const nonce = randomBytes(16).toString("base64url");
+  const state = await new SignJWT({ nonce, returnTo: sanitizeReturnTo(returnTo) })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(organizerId)
+    .setAudience(OAUTH_STATE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${OAUTH_STATE_TTL_SECONDS}s`)
+    .sign(JWTSecurityValidator.getEncodedSecret());
+
+  return { state, nonce };
+}
+
+export async function verifyOAuthState(
+  state: string,
+  nonce: string | null | undefined
+): Promise<OAuthState | null> {
+  if (!nonce) return null;
+
+  try {
+    const { payload } = await jwtVerify(state, JWTSecurityValidator.getEncodedSecret(), {
+      audience: OAUTH_STATE_AUDIENCE,
+    });
+
+    if (payload.nonce !== nonce || !payload.sub) {
+      return null;
+    }
+    return {
+      organizerId: payload.sub,
+      returnTo: sanitizeReturnTo(typeof payload.returnTo === "string" ? payload.returnTo : null),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function exchangeAuthorizationCode(options: {
+  code: string;
+  redirectUri: string;
+  config?: YouTubeOAuthConfig;
+  fetch?: FetchLike;
+}): Promise<AuthorizationCodeTokens> {
+  const { clientId, clientSecret } = options.config ?? getYouTubeOAuthConfig();
+  const fetchImpl = options.fetch ?? fetch;
+
+  const response = await fetchImpl(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: options.code,
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uri: options.redirectUri,
+    }).toString(),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || typeof data.access_token !== "string") {
+    throw new YouTubeApiError(
+      `Failed to exchange YouTube authorization code: ${data.error_description || data.error || response.status}`,
+      response.status,
+      data.error
+    );
+  }
+  if (typeof data.refresh_token !== "string") {
+    throw new YouTubeApiError("Google did not return a refresh token", 400, "missingRefreshToken");
+  }
+
+  return {
+    refreshToken: data.refresh_token,
+    accessToken: data.access_token,
+    expiresIn: typeof data.expires_in === "number" ? data.expires_in : 3600,
+    scope: data.scope,
+  };
+}
+
+// Clients keep their access token cache, so reuse them until the connection changes
+const organizerClients = processSingleton(
+  "youtube-organizer-clients",
+  () => new Map<string, { client: YouTubeClient; updatedAt: string }>()
+);
+
+function createOrganizerClient(
+  connection: YouTubeConnectionClient,
+  options: { fetch?: FetchLike; accessToken?: { token: string; expiresIn: number } } = {}
+): YouTubeClient {
+  const { clientId, clientSecret } = getYouTubeOAuthConfig();
+  const refreshAccessToken = createRefreshTokenProvider({
+    clientId,
+    clientSecret,
+    refreshToken: decryptSecret(connection.encryptedRefreshToken),
+    fetch: options.fetch,
+  });
+
+  // Use the token from the code exchange until it expires, then refresh
+  let initial = options.accessToken
+    ? { token: options.accessToken.token, expiresAt: Date.now() + (options.accessToken.expiresIn - 60) * 1000 }
+    : null;
+
+  return new YouTubeClient({
+    apiKey: process.env.YOUTUBE_API_KEY,
+    fetch: options.fetch,
+    getAccessToken: async () => {
+      if (initial && initial.expiresAt > Date.now()) {
+        return initial.token;
+      }
+      initial = null;
+      return refreshAccessToken();
+    },
+  });
+}
+
+// Finish the OAuth flow: look up the channel and store the encrypted refresh token
+export async function connectYouTubeChannel(options: {
+  organizerId: string;
+  code: string;
+  redirectUri: string;
+  fetch?: FetchLike;
+}): Promise<YouTubeConnectionClient> {
+  const tokens = await exchangeAuthorizationCode(options);
+
+  const client = new YouTubeClient({
+    fetch: options.fetch,
+    getAccessToken: async () => tokens.accessToken,
+  });
+  const channel = await client.getOwnChannel();
+
+  const connection = await YouTubeConnectionService.upsert({
+    organizerId: options.organizerId,
+    channelId: channel.id,
+    channelTitle: channel.title,
+    encryptedRefreshToken: encryptSecret(tokens.refreshToken),
+    scopes: tokens.scope,
+  });
+
+  organizerClients.set(options.organizerId, {
+    client: createOrganizerClient(connection, {
+      fetch: options.fetch,
+      accessToken: { token: tokens.accessToken, expiresIn: tokens.expiresIn },
+    }),
+    updatedAt: String(connection.updatedAt),
+  });
+
+  return connection;
+}
+
+export async function disconnectYouTubeChannel(organizerId: string): Promise<void> {
+  await YouTubeConnectionService.delete(organizerId);
+  organizerClients.delete(organizerId);
+}
+
+// Client for an organizer's own channel, or null if they have not connected one
+export async function getYouTubeClientForOrganizer(
+  organizerId: string
+): Promise<YouTubeApi | null> {
+  const connection = await YouTubeConnectionService.getByOrganizerId(organizerId);
+  if (!connection) {
+    organizerClients.delete(organizerId);
+    return null;
+  }
+
+  const cached = organizerClients.get(organizerId);
+  if (cached && cached.updatedAt === String(connection.updatedAt)) {
+    return cached.client;
+  }
+
+  const client = createOrganizerClient(connection);
+  organizerClients.set(organizerId, { client, updatedAt: String(connection.updatedAt) });
+  return client;
+}
+
+// Client for the organizer's channel, falling back to the app-wide client
+// (YOUTUBE_REFRESH_TOKEN or mock mode) when none is connected
+export async function resolveYouTubeClient(organizerId?: string | null): Promise<YouTubeApi> {
+  if (organizerId && process.env.YOUTUBE_MODE !== "mock") {
+    const client = await getYouTubeClientForOrganizer(organizerId);
+    if (client) return client;
+  }
+  return getYouTubeClient();
+}
+
+export async function getYouTubeClientForEvent(
+  event: Pick<EventClient, "organizerId">
+): Promise<YouTubeApi> {
+  return resolveYouTubeClient(event.organizerId);
+}
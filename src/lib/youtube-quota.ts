@@ -0,0 +1,206 @@
+// YouTube Data API quota ledger
+// Every API call costs quota units against the project's daily budget, which
+// resets at midnight Pacific time. The ledger counts units in total and per
+// broadcast (= event) so pollers can slow down before the budget runs out.
+// Counts live in the rate-limit store (RATE_LIMIT_STORE): with the postgres or
+// redis store they survive restarts and are shared by every instance.
+import {
+  MAX_RATE_LIMIT_WRITE_ATTEMPTS,
+  type RateLimitState,
+  type RateLimitStore,
+  getRateLimitStore,
+} from "./rate-limit";
+import { processSingleton } from "./process-singleton";
+
+export const DEFAULT_YOUTUBE_DAILY_QUOTA = 10000;
+// Units kept back from polling so Go live / End event can always transition
+export const YOUTUBE_QUOTA_RESERVE_UNITS = 1000;
+
+// https://developers.google.com/youtube/v3/determine_quota_cost
+export const YOUTUBE_QUOTA_COSTS: Record<string, number> = {
+  "GET /videos": 1,
+  "GET /channels": 1,
+  "GET /liveBroadcasts": 1,
+  "GET /liveStreams": 1,
+  "POST /liveBroadcasts": 50,
+  "POST /liveStreams": 50,
+  "POST /liveBroadcasts/bind": 50,
+  "POST /liveBroadcasts/transition": 50,
+};
+
+// Error reasons meaning the daily budget is spent
+export const QUOTA_EXCEEDED_REASONS = new Set(["quotaExceeded", "dailyLimitExceeded"]);
+
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+
+// YOUTUBE_DAILY_QUOTA must match the quota granted in the Google Cloud console
+export function getYouTubeDailyQuota(): number {
+  const configured = Number(process.env.YOUTUBE_DAILY_QUOTA);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_YOUTUBE_DAILY_QUOTA;
+}
+
+// Unknown writes are charged like inserts so the ledger never under-counts
+export function getYouTubeQuotaCost(method: "GET" | "POST", path: string): number {
+  return YOUTUBE_QUOTA_COSTS[`${method} ${path}`] ?? (method === "GET" ? 1 : 50);
+}
+
+function getPacificTime(now: Date): { day: string; secondsIntoDay: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: QUOTA_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    secondsIntoDay: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second),
+  };
+}
+
+// Quota day (YYYY-MM-DD in Pacific time) that `now` is charged to
+export function getQuotaDay(now = new Date()): string {
+  return getPacificTime(now).day;
+}
+
+// Next Pacific midnight, when YouTube restores the daily quota
+export function getNextQuotaReset(now = new Date()): Date {
+  const { secondsIntoDay } = getPacificTime(now);
+  const reset = new Date(now.getTime() + (86400 - secondsIntoDay) * 1000);
+  reset.setUTCMilliseconds(0);
+  return reset;
+}
+
+export interface YouTubeQuotaUsage {
+  day: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+  // Set while YouTube is refusing calls with quotaExceeded
+  cooldownUntil?: Date;
+}
+
+type QuotaTally = Extract<RateLimitState, { algorithm: "tally" }>;
+
+const EMPTY_TALLY: QuotaTally = { algorithm: "tally", total: 0, byKey: {} };
+
+export class YouTubeQuotaLedger {
+  constructor(
+    private readonly limit = getYouTubeDailyQuota(),
+    private readonly store?: RateLimitStore // Defaults to the shared rate-limit store
+  ) {}
+
+  // Charge one API call (failed calls cost quota too)
+  async record(units: number, broadcastId?: string, now = new Date()): Promise<void> {
+    await this.update(now, (tally) => ({
+      ...tally,
+      total: tally.total + units,
+      byKey: broadcastId
+        ? { ...tally.byKey, [broadcastId]: (tally.byKey[broadcastId] ?? 0) + units }
+        : tally.byKey,
+    }));
+  }
+
+  // YouTube says the budget is spent, whatever the ledger counted: stop calling until the reset
+  async enterCooldown(now = new Date()): Promise<Date> {
+    const cooldownUntil = getNextQuotaReset(now);
+    await this.update(now, (tally) => ({
+      ...tally,
+      total: Math.max(tally.total, this.limit),
+      cooldownUntil: cooldownUntil.getTime(),
+    }));
+    return cooldownUntil;
+  }
+
+  async getCooldownUntil(now = new Date()): Promise<Date | null> {
+    return this.getLiveCooldown(await this.read(now), now);
+  }
+
+  async getUsage(now = new Date()): Promise<YouTubeQuotaUsage> {
+    const tally = await this.read(now);
+    return {
+      day: getQuotaDay(now),
+      limit: this.limit,
+      used: tally.total,
+      remaining: Math.max(0, this.limit - tally.total),
+      resetsAt: getNextQuotaReset(now),
+      cooldownUntil: this.getLiveCooldown(tally, now) ?? undefined,
+    };
+  }
+
+  // Units charged today to one broadcast (the event's youtubeVideoId)
+  async getBroadcastUsage(broadcastId: string, now = new Date()): Promise<number> {
+    return (await this.read(now)).byKey[broadcastId] ?? 0;
+  }
+
+  // Broadcasts that used the most units today, for diagnosing quota exhaustion
+  async getTopBroadcasts(
+    limit = 5,
+    now = new Date()
+  ): Promise<Array<{ broadcastId: string; used: number }>> {
+    return Object.entries((await this.read(now)).byKey)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([broadcastId, used]) => ({ broadcastId, used }));
+  }
+
+  private getLiveCooldown(tally: QuotaTally, now: Date): Date | null {
+    return tally.cooldownUntil && tally.cooldownUntil > now.getTime()
+      ? new Date(tally.cooldownUntil)
+      : null;
+  }
+
+  // One entry per quota day, so a new day starts from zero
+  private getKey(now: Date): string {
+    return `youtubeQuota:${getQuotaDay(now)}`;
+  }
+
+  private async read(now: Date): Promise<QuotaTally> {
+    const store = this.store ?? (await getRateLimitStore());
+    const current = await store.get(this.getKey(now));
+    return current?.state.algorithm === "tally" ? current.state : EMPTY_TALLY;
+  }
+
+  // Compare-and-set, so calls made at the same time by other instances are not lost
+  private async update(now: Date, change: (tally: QuotaTally) => QuotaTally): Promise<void> {
+    const store = this.store ?? (await getRateLimitStore());
+    const key = this.getKey(now);
+    const expiresAt = getNextQuotaReset(now).getTime();
+
+    for (let attempt = 0; attempt < MAX_RATE_LIMIT_WRITE_ATTEMPTS; attempt++) {
+      const current = await store.get(key);
+      const tally = current?.state.algorithm === "tally" ? current.state : EMPTY_TALLY;
+      if (await store.compareAndSet(key, current?.version ?? null, change(tally), expiresAt)) {
+        return;
+      }
+    }
+
+    console.warn(`Gave up recording YouTube quota usage for ${key} after ${MAX_RATE_LIMIT_WRITE_ATTEMPTS} attempts`);
+  }
+}
+
+const quotaLedger = processSingleton<{ current?: YouTubeQuotaLedger }>(
+  "youtube-quota-ledger",
+  () => ({})
+);
+
+export function getYouTubeQuotaLedger(): YouTubeQuotaLedger {
+  quotaLedger.current ??= new YouTubeQuotaLedger();
+  return quotaLedger.current;
+}
+
+// Replace the ledger (e.g. with a fresh one in tests)
+export function setYouTubeQuotaLedger(ledger: YouTubeQuotaLedger | undefined): void {
+  quotaLedger.current = ledger;
+}
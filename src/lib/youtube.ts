@@ -1,15 +1,24 @@
 // YouTube API configuration and utilities
+import { processSingleton } from "./process-singleton";
+import {
+  QUOTA_EXCEEDED_REASONS,
+  getYouTubeQuotaCost,
+  getYouTubeQuotaLedger,
+  type YouTubeQuotaLedger,
+} from "./youtube-quota";
 
 export interface YouTubeLiveStream {
-  id: string;
+  id: string; // Broadcast ID (also the video ID)
   title: string;
   description: string;
   streamUrl: string;
   streamKey: string;
-  status: "created" | "live" | "complete";
+  status: "created" | "testing" | "live" | "complete";
   scheduledStartTime?: string;
   viewerCount?: number;
   chatId?: string;
+  liveStreamId?: string; // Ingestion stream bound to the broadcast
+  ingestionAddress?: string;
 }
 
 export interface CreateLiveStreamOptions {
@@ -26,131 +35,570 @@ export interface YouTubeStreamStats {
   chatMessageCount?: number;
 }
 
-// YouTube API client configuration
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const YOUTUBE_CLIENT_ID = process.env.YOUTUBE_CLIENT_ID;
-const YOUTUBE_CLIENT_SECRET = process.env.YOUTUBE_CLIENT_SECRET;
+// Ingestion health reported by YouTube (liveStream.status.healthStatus)
+export interface YouTubeStreamHealth {
+  status: "good" | "ok" | "bad" | "noData";
+  issues: string[]; // Descriptions of configuration issues YouTube found
+}
 
-const hasYouTubeConfig = !!(
-  YOUTUBE_API_KEY &&
-  YOUTUBE_CLIENT_ID &&
-  YOUTUBE_CLIENT_SECRET
-);
+export type BroadcastTransition = "testing" | "live" | "complete";
 
-if (!hasYouTubeConfig) {
-  console.warn(
-    "YouTube API credentials not fully configured - using mock mode"
-  );
+// Operations the app needs from YouTube (real API client or mock)
+export interface YouTubeApi {
+  // Create a broadcast and an RTMP stream, and bind them together
+  createLiveStream(options: CreateLiveStreamOptions): Promise<YouTubeLiveStream>;
+  transitionBroadcast(
+    broadcastId: string,
+    status: BroadcastTransition
+  ): Promise<YouTubeLiveStream["status"]>;
+  getBroadcastStatus(broadcastId: string): Promise<YouTubeLiveStream["status"]>;
+  getStreamStats(videoId: string): Promise<YouTubeStreamStats>;
+  // Health of the ingestion stream bound to the broadcast
+  getStreamHealth(broadcastId: string): Promise<YouTubeStreamHealth>;
 }
 
-// Create a new YouTube Live stream
-export async function createYouTubeLiveStream(
-  options: CreateLiveStreamOptions
-): Promise<YouTubeLiveStream> {
-  if (!hasYouTubeConfig) {
-    // Mock implementation for development
-    const mockStream: YouTubeLiveStream = {
-      id: `mock_${Date.now()}`,
-      title: options.title,
-      description: options.description || "",
-      streamUrl: `https://www.youtube.com/watch?v=mock_${Date.now()}`,
-      streamKey: `mock_stream_key_${Date.now()}`,
-      status: "created",
-      scheduledStartTime: options.scheduledStartTime?.toISOString(),
-      viewerCount: 0,
-      chatId: `mock_chat_${Date.now()}`,
+export type FetchLike = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+export const YOUTUBE_API_BASE_URL = "https://www.googleapis.com/youtube/v3";
+export const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// Error returned by the YouTube Data API
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = "YouTubeApiError";
+  }
+}
+
+// The daily quota is spent; calls are refused locally until it resets
+export class YouTubeQuotaExceededError extends YouTubeApiError {
+  constructor(public readonly retryAt: Date, message?: string) {
+    super(
+      message ?? `YouTube API quota exceeded, paused until ${retryAt.toISOString()}`,
+      403,
+      "quotaExceeded"
+    );
+    this.name = "YouTubeQuotaExceededError";
+  }
+}
+
+// YouTube is neither configured nor explicitly mocked
+export class YouTubeConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "YouTubeConfigurationError";
+  }
+}
+
+// Map a broadcast lifeCycleStatus onto the app's stream status
+export function toStreamStatus(
+  lifeCycleStatus: string | undefined
+): YouTubeLiveStream["status"] {
+  switch (lifeCycleStatus) {
+    case "testStarting":
+    case "testing":
+      return "testing";
+    case "liveStarting":
+    case "live":
+      return "live";
+    case "complete":
+    case "revoked":
+      return "complete";
+    default:
+      return "created";
+  }
+}
+
+// Map liveStream.status.healthStatus.status ("revoked" streams send nothing)
+export function toStreamHealthStatus(
+  status: string | undefined
+): YouTubeStreamHealth["status"] {
+  switch (status) {
+    case "good":
+    case "ok":
+    case "bad":
+      return status;
+    default:
+      return "noData";
+  }
+}
+
+// Format elapsed time as HH:MM:SS
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
+// Exchange a refresh token for access tokens, caching each until shortly before it expires
+export function createRefreshTokenProvider(options: {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  fetch?: FetchLike;
+  tokenUrl?: string;
+}): () => Promise<string> {
+  const fetchImpl = options.fetch ?? fetch;
+  let cached: { token: string; expiresAt: number } | null = null;
+
+  return async () => {
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const response = await fetchImpl(options.tokenUrl ?? GOOGLE_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        refresh_token: options.refreshToken,
+      }).toString(),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data.access_token !== "string") {
+      throw new YouTubeApiError(
+        `Failed to refresh YouTube access token: ${data.error_description || data.error || response.status}`,
+        response.status,
+        data.error
+      );
+    }
+
+    // Refresh a minute early to avoid using a token that expires mid-request
+    const expiresIn = typeof data.expires_in === "number" ? data.expires_in : 3600;
+    cached = {
+      token: data.access_token,
+      expiresAt: Date.now() + Math.max(expiresIn - 60, 0) * 1000,
     };
-    return mockStream;
-  }
-
-  // TODO: Implement real YouTube Data API v3 integration
-  // This would involve:
-  // 1. Creating a live broadcast
-  // 2. Creating a live stream
-  // 3. Binding the stream to the broadcast
-
-  const mockStream: YouTubeLiveStream = {
-    id: `stream_${Date.now()}`,
-    title: options.title,
-    description: options.description || "",
-    streamUrl: `https://www.youtube.com/watch?v=stream_${Date.now()}`,
-    streamKey: `stream_key_${Date.now()}`,
-    status: "created",
-    scheduledStartTime: options.scheduledStartTime?.toISOString(),
-    viewerCount: 0,
+    return cached.token;
   };
+}
 
-  return mockStream;
+export interface YouTubeClientOptions {
+  getAccessToken: () => Promise<string>;
+  apiKey?: string; // Used for read-only video lookups when set
+  fetch?: FetchLike;
+  apiBaseUrl?: string;
+  quotaLedger?: YouTubeQuotaLedger; // Defaults to the shared ledger
 }
 
-// Start a YouTube Live stream
-export async function startYouTubeLiveStream(streamId: string): Promise<void> {
-  if (!hasYouTubeConfig) {
-    console.log(`[MOCK] Starting YouTube Live stream: ${streamId}`);
-    return;
+// YouTube Data API v3 client
+export class YouTubeClient implements YouTubeApi {
+  private readonly fetchImpl: FetchLike;
+  private readonly apiBaseUrl: string;
+  private readonly quotaLedger: YouTubeQuotaLedger;
+  // Broadcasts keep their bound stream, so look it up only once
+  private readonly boundStreamIds = new Map<string, string>();
+
+  constructor(private readonly options: YouTubeClientOptions) {
+    this.fetchImpl = options.fetch ?? fetch;
+    this.apiBaseUrl = options.apiBaseUrl ?? YOUTUBE_API_BASE_URL;
+    this.quotaLedger = options.quotaLedger ?? getYouTubeQuotaLedger();
   }
 
-  // TODO: Implement real YouTube API call to start stream
-  console.log(`Starting YouTube Live stream: ${streamId}`);
-}
+  async createLiveStream(
+    options: CreateLiveStreamOptions
+  ): Promise<YouTubeLiveStream> {
+    // YouTube requires a scheduled start time for every broadcast
+    const scheduledStartTime = (options.scheduledStartTime ?? new Date()).toISOString();
 
-// Stop a YouTube Live stream
-export async function stopYouTubeLiveStream(streamId: string): Promise<void> {
-  if (!hasYouTubeConfig) {
-    console.log(`[MOCK] Stopping YouTube Live stream: ${streamId}`);
-    return;
+    // 1. Create the broadcast (the video viewers watch)
+    const broadcast = await this.request<YouTubeBroadcastResource>(
+      "POST",
+      "/liveBroadcasts",
+      { part: "snippet,status,contentDetails" },
+      {
+        snippet: {
+          title: options.title,
+          description: options.description || "",
+          scheduledStartTime,
+        },
+        status: {
+          privacyStatus: options.privacy,
+          selfDeclaredMadeForKids: false,
+        },
+        contentDetails: {
+          // Transitions are driven by the app, not by incoming video
+          enableAutoStart: false,
+          enableAutoStop: false,
+          monitorStream: { enableMonitorStream: true },
+        },
+      }
+    );
+
+    // 2. Create the RTMP ingestion stream egress pushes to
+    const stream = await this.request<YouTubeStreamResource>(
+      "POST",
+      "/liveStreams",
+      { part: "snippet,cdn,contentDetails" },
+      {
+        snippet: { title: options.title },
+        cdn: {
+          ingestionType: "rtmp",
+          resolution: "variable",
+          frameRate: "variable",
+        },
+        contentDetails: { isReusable: false },
+      }
+    );
+
+    // 3. Bind the stream to the broadcast
+    await this.request(
+      "POST",
+      "/liveBroadcasts/bind",
+      { id: broadcast.id, part: "id,contentDetails", streamId: stream.id },
+      undefined,
+      { broadcastId: broadcast.id }
+    );
+
+    return {
+      id: broadcast.id,
+      title: broadcast.snippet?.title ?? options.title,
+      description: broadcast.snippet?.description ?? options.description ?? "",
+      streamUrl: getYouTubeWatchUrl(broadcast.id),
+      streamKey: stream.cdn?.ingestionInfo?.streamName ?? "",
+      status: toStreamStatus(broadcast.status?.lifeCycleStatus),
+      scheduledStartTime,
+      viewerCount: 0,
+      chatId: broadcast.snippet?.liveChatId,
+      liveStreamId: stream.id,
+      ingestionAddress: stream.cdn?.ingestionInfo?.ingestionAddress,
+    };
   }
 
-  // TODO: Implement real YouTube API call to stop stream
-  console.log(`Stopping YouTube Live stream: ${streamId}`);
+  async transitionBroadcast(
+    broadcastId: string,
+    status: BroadcastTransition
+  ): Promise<YouTubeLiveStream["status"]> {
+    const broadcast = await this.request<YouTubeBroadcastResource>(
+      "POST",
+      "/liveBroadcasts/transition",
+      { broadcastStatus: status, id: broadcastId, part: "status" },
+      undefined,
+      { broadcastId }
+    );
+    return toStreamStatus(broadcast.status?.lifeCycleStatus);
+  }
+
+  async getBroadcastStatus(
+    broadcastId: string
+  ): Promise<YouTubeLiveStream["status"]> {
+    const result = await this.request<{ items?: YouTubeBroadcastResource[] }>(
+      "GET",
+      "/liveBroadcasts",
+      { part: "status", id: broadcastId },
+      undefined,
+      { broadcastId }
+    );
+
+    const broadcast = result.items?.[0];
+    if (!broadcast) {
+      throw new YouTubeApiError(`Broadcast ${broadcastId} not found`, 404, "liveBroadcastNotFound");
+    }
+    return toStreamStatus(broadcast.status?.lifeCycleStatus);
+  }
+
+  async getStreamStats(videoId: string): Promise<YouTubeStreamStats> {
+    const result = await this.request<{ items?: YouTubeVideoResource[] }>(
+      "GET",
+      "/videos",
+      { part: "liveStreamingDetails", id: videoId },
+      undefined,
+      { preferApiKey: true, broadcastId: videoId }
+    );
+
+    const details = result.items?.[0]?.liveStreamingDetails;
+    if (!details?.actualStartTime) {
+      return { viewerCount: 0, isLive: false };
+    }
+
+    const startedAt = new Date(details.actualStartTime).getTime();
+    const endedAt = details.actualEndTime
+      ? new Date(details.actualEndTime).getTime()
+      : Date.now();
+
+    return {
+      viewerCount: Number(details.concurrentViewers ?? 0),
+      isLive: !details.actualEndTime,
+      duration: formatDuration(endedAt - startedAt),
+    };
+  }
+
+  async getStreamHealth(broadcastId: string): Promise<YouTubeStreamHealth> {
+    let streamId = this.boundStreamIds.get(broadcastId);
+
+    if (!streamId) {
+      const result = await this.request<{ items?: YouTubeBroadcastResource[] }>(
+        "GET",
+        "/liveBroadcasts",
+        { part: "contentDetails", id: broadcastId },
+        undefined,
+        { broadcastId }
+      );
+      streamId = result.items?.[0]?.contentDetails?.boundStreamId;
+      if (!streamId) {
+        return { status: "noData", issues: [] };
+      }
+      this.boundStreamIds.set(broadcastId, streamId);
+    }
+
+    const result = await this.request<{ items?: YouTubeStreamResource[] }>(
+      "GET",
+      "/liveStreams",
+      { part: "status", id: streamId },
+      undefined,
+      { broadcastId }
+    );
+
+    const health = result.items?.[0]?.status?.healthStatus;
+    return {
+      status: toStreamHealthStatus(health?.status),
+      issues: (health?.configurationIssues ?? [])
+        .map((issue) => issue.description || issue.type)
+        .filter((issue): issue is string => !!issue),
+    };
+  }
+
+  // Channel the access token belongs to
+  async getOwnChannel(): Promise<{ id: string; title?: string }> {
+    const result = await this.request<{ items?: YouTubeChannelResource[] }>(
+      "GET",
+      "/channels",
+      { part: "snippet", mine: "true" }
+    );
+
+    const channel = result.items?.[0];
+    if (!channel) {
+      throw new YouTubeApiError("The account has no YouTube channel", 404, "channelNotFound");
+    }
+    return { id: channel.id, title: channel.snippet?.title };
+  }
+
+  private async request<T = unknown>(
+    method: "GET" | "POST",
+    path: string,
+    query: Record<string, string>,
+    body?: unknown,
+    { preferApiKey = false, broadcastId }: { preferApiKey?: boolean; broadcastId?: string } = {}
+  ): Promise<T> {
+    // Do not spend requests YouTube is going to refuse
+    const cooldownUntil = await this.quotaLedger.getCooldownUntil();
+    if (cooldownUntil) {
+      throw new YouTubeQuotaExceededError(cooldownUntil);
+    }
+
+    const params = new URLSearchParams(query);
+    const headers: Record<string, string> = { Accept: "application/json" };
+
+    if (preferApiKey && this.options.apiKey) {
+      params.set("key", this.options.apiKey);
+    } else {
+      headers.Authorization = `Bearer ${await this.options.getAccessToken()}`;
+    }
+
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    await this.quotaLedger.record(getYouTubeQuotaCost(method, path), broadcastId);
+
+    const response = await this.fetchImpl(
+      `${this.apiBaseUrl}${path}?${params.toString()}`,
+      {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      }
+    );
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const error = data?.error;
+      const reason = error?.errors?.[0]?.reason;
+
+      if (response.status === 403 && QUOTA_EXCEEDED_REASONS.has(reason)) {
+        const retryAt = await this.quotaLedger.enterCooldown();
+        console.warn(
+          `YouTube API quota exceeded; pausing calls until ${retryAt.toISOString()}. Top broadcasts today:`,
+          await this.quotaLedger.getTopBroadcasts()
+        );
+        throw new YouTubeQuotaExceededError(
+          retryAt,
+          `YouTube API ${method} ${path} failed: ${error?.message || "quota exceeded"}`
+        );
+      }
+
+      throw new YouTubeApiError(
+        `YouTube API ${method} ${path} failed: ${error?.message || response.status}`,
+        response.status,
+        reason
+      );
+    }
+
+    return data as T;
+  }
 }
 
-// Get YouTube Live stream status and stats
-export async function getYouTubeStreamStats(
-  _videoId: string
-): Promise<YouTubeStreamStats> {
-  if (!hasYouTubeConfig) {
-    // Mock stats for development
+// Fake client for development; only used when YOUTUBE_MODE=mock
+export class MockYouTubeClient implements YouTubeApi {
+  private readonly statuses = new Map<string, YouTubeLiveStream["status"]>();
+
+  async createLiveStream(
+    options: CreateLiveStreamOptions
+  ): Promise<YouTubeLiveStream> {
+    const id = `mock_${Date.now()}`;
+    this.statuses.set(id, "created");
     return {
-      viewerCount: Math.floor(Math.random() * 100) + 10,
-      isLive: Math.random() > 0.5,
-      duration: "00:15:30",
-      chatMessageCount: Math.floor(Math.random() * 50),
+      id,
+      title: options.title,
+      description: options.description || "",
+      streamUrl: getYouTubeWatchUrl(id),
+      streamKey: `mock_stream_key_${Date.now()}`,
+      status: "created",
+      scheduledStartTime: options.scheduledStartTime?.toISOString(),
+      viewerCount: 0,
+      chatId: `mock_chat_${Date.now()}`,
+      liveStreamId: `mock_stream_${Date.now()}`,
     };
   }
 
-  try {
-    // TODO: Implement real YouTube Data API v3 call
-    // const response = await fetch(
-    //   `https://www.googleapis.com/youtube/v3/videos?part=liveStreamingDetails,statistics&id=${videoId}&key=${YOUTUBE_API_KEY}`
-    // );
+  async transitionBroadcast(
+    broadcastId: string,
+    status: BroadcastTransition
+  ): Promise<YouTubeLiveStream["status"]> {
+    console.log(`[MOCK] Transitioning YouTube broadcast ${broadcastId} to ${status}`);
+    this.statuses.set(broadcastId, status);
+    return status;
+  }
 
-    // Mock implementation for now
+  async getBroadcastStatus(
+    broadcastId: string
+  ): Promise<YouTubeLiveStream["status"]> {
+    return this.statuses.get(broadcastId) ?? "created";
+  }
+
+  async getStreamStats(_videoId: string): Promise<YouTubeStreamStats> {
     return {
       viewerCount: Math.floor(Math.random() * 100) + 10,
       isLive: true,
       duration: "00:15:30",
       chatMessageCount: Math.floor(Math.random() * 50),
     };
-  } catch (error) {
-    console.error("Failed to get YouTube stream stats:", error);
+  }
+
+  async getStreamHealth(broadcastId: string): Promise<YouTubeStreamHealth> {
     return {
-      viewerCount: 0,
-      isLive: false,
+      status: this.statuses.get(broadcastId) === "live" ? "good" : "noData",
+      issues: [],
     };
   }
 }
 
+// Build the client from environment variables.
+// Mock mode must be selected explicitly with YOUTUBE_MODE=mock.
+export function createYouTubeClientFromEnv(): YouTubeApi {
+  if (process.env.YOUTUBE_MODE === "mock") {
+    return new MockYouTubeClient();
+  }
+
+  const clientId = process.env.YOUTUBE_CLIENT_ID;
+  const clientSecret = process.env.YOUTUBE_CLIENT_SECRET;
+  const refreshToken = process.env.YOUTUBE_REFRESH_TOKEN;
+
+  return new YouTubeClient({
+    apiKey: process.env.YOUTUBE_API_KEY,
+    getAccessToken:
+      clientId && clientSecret && refreshToken
+        ? createRefreshTokenProvider({ clientId, clientSecret, refreshToken })
+        : async () => {
+            throw new YouTubeConfigurationError(
+              "YouTube credentials are not configured (YOUTUBE_CLIENT_ID, YOUTUBE_CLIENT_SECRET, YOUTUBE_REFRESH_TOKEN). Set YOUTUBE_MODE=mock to use mock data."
+            );
+          },
+  });
+}
+
+const youtubeClient = processSingleton<{ current?: YouTubeApi }>("youtube-client", () => ({}));
+
+export function getYouTubeClient(): YouTubeApi {
+  youtubeClient.current ??= createYouTubeClientFromEnv();
+  return youtubeClient.current;
+}
+
+// Replace the client (e.g. with a fake in tests)
+export function setYouTubeClient(client: YouTubeApi | null): void {
+  youtubeClient.current = client ?? undefined;
+}
+
+// Create a new YouTube Live stream
+export async function createYouTubeLiveStream(
+  options: CreateLiveStreamOptions,
+  client: YouTubeApi = getYouTubeClient()
+): Promise<YouTubeLiveStream> {
+  return client.createLiveStream(options);
+}
+
+// Start a YouTube Live broadcast (testing → live)
+export async function startYouTubeLiveStream(
+  broadcastId: string,
+  client: YouTubeApi = getYouTubeClient()
+): Promise<void> {
+  const status = await client.getBroadcastStatus(broadcastId);
+
+  if (status === "live" || status === "complete") {
+    return;
+  }
+
+  // The monitor stream must be in testing before a broadcast can go live.
+  // Going live fails until testing has started; callers retry.
+  if (status === "created") {
+    await client.transitionBroadcast(broadcastId, "testing");
+  }
+  await client.transitionBroadcast(broadcastId, "live");
+}
+
+// Stop a YouTube Live broadcast
+export async function stopYouTubeLiveStream(
+  broadcastId: string,
+  client: YouTubeApi = getYouTubeClient()
+): Promise<void> {
+  const status = await client.getBroadcastStatus(broadcastId);
+
+  // A broadcast that never started has nothing to complete
+  if (status === "complete" || status === "created") {
+    return;
+  }
+
+  await client.transitionBroadcast(broadcastId, "complete");
+}
+
+// Get YouTube Live stream status and stats
+export async function getYouTubeStreamStats(
+  videoId: string,
+  client: YouTubeApi = getYouTubeClient()
+): Promise<YouTubeStreamStats> {
+  return client.getStreamStats(videoId);
+}
+
 // Get YouTube Live stream status
 export async function getYouTubeLiveStreamStatus(
-  _streamId: string
+  broadcastId: string,
+  client: YouTubeApi = getYouTubeClient()
 ): Promise<YouTubeLiveStream["status"]> {
-  if (!hasYouTubeConfig) {
-    return Math.random() > 0.5 ? "live" : "created";
-  }
-
-  // TODO: Implement real YouTube API call
-  return "created";
+  return client.getBroadcastStatus(broadcastId);
 }
 
 // Generate YouTube embed URL
@@ -170,3 +618,36 @@ export function extractVideoIdFromUrl(url: string): string | null {
   const match = url.match(regex);
   return match?.[1] || null;
 }
+
+// Subset of the API resources read by the client
+interface YouTubeBroadcastResource {
+  id: string;
+  snippet?: { title?: string; description?: string; liveChatId?: string };
+  status?: { lifeCycleStatus?: string };
+  contentDetails?: { boundStreamId?: string };
+}
+
+interface YouTubeStreamResource {
+  id: string;
+  cdn?: { ingestionInfo?: { streamName?: string; ingestionAddress?: string } };
+  status?: {
+    healthStatus?: {
+      status?: string;
+      configurationIssues?: Array<{ type?: string; severity?: string; description?: string }>;
+    };
+  };
+}
+
+interface YouTubeChannelResource {
+  id: string;
+  snippet?: { title?: string };
+}
+
+interface YouTubeVideoResource {
+  id: string;
+  liveStreamingDetails?: {
+    actualStartTime?: string;
+    actualEndTime?: string;
+    concurrentViewers?: string;
+  };
+}
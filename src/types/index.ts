@@ -1,5 +1,42 @@
 // Core type definitions for Harecame application
 
+// Automatic camera switching policies
+export type SwitchingPolicyName =
+  | 'last-in-wins'
+  | 'manual-only'
+  | 'round-robin'
+  | 'best-quality';
+
+// YouTube broadcast lifecycle driven by "Go live" / "End event"
+export type BroadcastState =
+  | 'idle'
+  | 'waiting-for-camera' // Go live requested, no camera streaming yet
+  | 'starting' // Starting egress and transitioning the broadcast
+  | 'live'
+  | 'ending' // Stopping egress and completing the broadcast
+  | 'ended'
+  | 'failed'; // Gave up after retries
+
+// What happens to camera joiners once an event's camera slots are full
+export type AdmissionMode =
+  | 'open' // Admit until full, then refuse
+  | 'waitlist' // Queue joiners beyond capacity and admit them as slots free up
+  | 'approval'; // Hold every joiner as 'pending' until the organizer approves, then as 'waitlist'
+
+// Why a camera connection ended, when it was not a plain disconnect
+export type CameraDisconnectReason =
+  | 'rejected' // Organizer turned down a pending joiner
+  | 'kicked' // Organizer removed the camera from the room
+  | 'banned' // Removed, and may not rejoin the event
+  | 'code-rotated'; // Joined with a participation code that has since been rotated
+
+// What a co-organizer may do with an event: owner (everything, incl. members),
+// operator (runs the broadcast), monitor (view only)
+export type EventRole =
+  | 'owner'
+  | 'operator'
+  | 'monitor';
+
 // Database table interfaces (matching Supabase schema)
 export interface Event {
   id: string;
@@ -8,10 +45,20 @@ export interface Event {
   scheduled_at?: Date;
   status: 'scheduled' | 'live' | 'ended';
   participation_code: string;
+  participation_code_version?: number;
+  participation_code_rotated_at?: Date;
   youtube_stream_url?: string;
   youtube_stream_key?: string;
   youtube_video_id?: string;
   livekit_room_name: string;
+  switching_policy?: SwitchingPolicyName;
+  switching_dwell_seconds?: number;
+  min_on_air_seconds?: number;
+  switch_cooldown_seconds?: number;
+  max_cameras?: number;
+  admission_mode?: AdmissionMode;
+  organizer_id?: string;
+  standby_image_url?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -27,6 +74,7 @@ export interface CameraConnection {
     connectionType?: string;
     platform?: string;
     browser?: string;
+    deviceId?: string; // Server-issued id from the camera device cookie, used to ban a device
   };
   stream_quality: {
     resolution?: string;
@@ -34,10 +82,12 @@ export interface CameraConnection {
     bitrate?: number;
     codec?: string;
   };
-  status: 'connecting' | 'active' | 'inactive' | 'error';
+  status: 'pending' | 'waiting' | 'connecting' | 'active' | 'inactive' | 'error';
   joined_at: Date;
   last_active_at: Date;
   disconnected_at?: Date;
+  disconnect_reason?: CameraDisconnectReason;
+  code_version?: number | null; // Participation code version joined with (null for organizers)
 }
 
 export interface StreamStatus {
@@ -49,6 +99,12 @@ export interface StreamStatus {
   youtube_viewer_count: number;
   stream_health: 'excellent' | 'good' | 'poor' | 'critical' | 'unknown';
   last_switch_at?: Date;
+  egress_id?: string;
+  auto_switch_locked_until?: Date;
+  broadcast_state?: BroadcastState;
+  broadcast_attempts?: number;
+  broadcast_retry_at?: Date;
+  broadcast_error?: string;
   updated_at: Date;
 }
 
@@ -62,6 +118,68 @@ export interface EventLog {
   created_at: Date;
 }
 
+export interface CameraBan {
+  id: string;
+  event_id: string;
+  participant_id: string;
+  device_fingerprint?: string;
+  camera_connection_id?: string;
+  reason?: string;
+  created_at: Date;
+}
+
+export interface CameraInvite {
+  id: string;
+  event_id: string;
+  participant_name?: string;
+  max_uses: number;
+  use_count: number;
+  expires_at: Date;
+  revoked_at?: Date;
+  last_redeemed_at?: Date;
+  created_at: Date;
+}
+
+export interface Organizer {
+  id: string;
+  email: string;
+  display_name?: string;
+  password_hash: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EventMember {
+  event_id: string;
+  organizer_id: string;
+  role: EventRole;
+  created_at: Date;
+}
+
+export interface OrganizerInvitation {
+  id: string;
+  event_id: string;
+  email: string;
+  role: Exclude<EventRole, 'owner'>;
+  invited_by?: string;
+  expires_at: Date;
+  accepted_at?: Date;
+  accepted_by?: string;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+export interface YouTubeConnection {
+  id: string;
+  organizer_id: string;
+  channel_id: string;
+  channel_title?: string;
+  encrypted_refresh_token: string;
+  scopes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // Client-side interfaces (camelCase for frontend use)
 export interface EventClient {
   id: string;
@@ -70,14 +188,31 @@ export interface EventClient {
   scheduledAt?: Date;
   status: 'scheduled' | 'live' | 'ended';
   participationCode: string;
+  participationCodeVersion?: number; // Bumped on rotation; camera tokens for older codes are rejected
+  participationCodeRotatedAt?: Date;
   youtubeStreamUrl?: string;
   youtubeStreamKey?: string;
   youtubeVideoId?: string;
   livekitRoomName: string;
+  switchingPolicy?: SwitchingPolicyName;
+  switchingDwellSeconds?: number; // Round-robin: seconds each camera stays on air
+  minOnAirSeconds?: number; // Automatic switches never cut a camera shorter than this
+  switchCooldownSeconds?: number; // Automatic switches are debounced within this window
+  maxCameras?: number; // Camera slots; waiting joiners do not take one
+  admissionMode?: AdmissionMode;
+  organizerId?: string; // Organizer whose YouTube channel hosts the broadcast
+  standbyImageUrl?: string; // Uploaded standby slate; a generated card is shown without one
   createdAt: Date;
   updatedAt: Date;
 }
 
+// An event as anyone may see it: no participation code or YouTube stream key,
+// and no YouTube URL or video ID until the viewer passphrase (if any) is entered
+export type PublicEventClient = Omit<
+  EventClient,
+  'participationCode' | 'participationCodeVersion' | 'participationCodeRotatedAt' | 'youtubeStreamKey'
+>;
+
 export interface CameraConnectionClient {
   id: string;
   eventId: string;
@@ -89,6 +224,7 @@ export interface CameraConnectionClient {
     connectionType?: string;
     platform?: string;
     browser?: string;
+    deviceId?: string; // Server-issued id from the camera device cookie, used to ban a device
   };
   streamQuality: {
     resolution?: string;
@@ -96,10 +232,12 @@ export interface CameraConnectionClient {
     bitrate?: number;
     codec?: string;
   };
-  status: 'connecting' | 'active' | 'inactive' | 'error';
+  status: 'pending' | 'waiting' | 'connecting' | 'active' | 'inactive' | 'error';
   joinedAt: Date;
   lastActiveAt: Date;
   disconnectedAt?: Date;
+  disconnectReason?: CameraDisconnectReason;
+  codeVersion?: number; // Participation code version joined with (unset for organizers and invite joins)
 }
 
 export interface StreamStatusClient {
@@ -111,6 +249,79 @@ export interface StreamStatusClient {
   youtubeViewerCount: number;
   streamHealth: 'excellent' | 'good' | 'poor' | 'critical' | 'unknown';
   lastSwitchAt?: Date;
+  egressId?: string;
+  autoSwitchLockedUntil?: Date; // Automatic switching paused after a manual take
+  broadcastState?: BroadcastState;
+  broadcastAttempts?: number; // Failed attempts of the current lifecycle step
+  broadcastRetryAt?: Date;
+  broadcastError?: string;
+  updatedAt: Date;
+}
+
+export interface CameraBanClient {
+  id: string;
+  eventId: string;
+  participantId: string;
+  deviceFingerprint?: string;
+  cameraConnectionId?: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface CameraInviteClient {
+  id: string;
+  eventId: string;
+  participantName?: string;
+  maxUses: number;
+  useCount: number;
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastRedeemedAt?: Date;
+  createdAt: Date;
+}
+
+// Server-only: never send passwordHash to the browser
+export interface OrganizerClient {
+  id: string;
+  email: string;
+  displayName?: string;
+  passwordHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EventMemberClient {
+  eventId: string;
+  organizerId: string;
+  role: EventRole;
+  // From the member's account, for listing
+  email?: string;
+  displayName?: string;
+  createdAt: Date;
+}
+
+export interface OrganizerInvitationClient {
+  id: string;
+  eventId: string;
+  email: string;
+  role: Exclude<EventRole, 'owner'>;
+  invitedBy?: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// Server-only: never send encryptedRefreshToken to the browser
+export interface YouTubeConnectionClient {
+  id: string;
+  organizerId: string;
+  channelId: string;
+  channelTitle?: string;
+  encryptedRefreshToken: string;
+  scopes?: string;
+  createdAt: Date;
   updatedAt: Date;
 }
 
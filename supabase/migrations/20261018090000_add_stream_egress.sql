@@ -0,0 +1,2 @@
+-- Track the LiveKit egress currently pushing the on-air camera to YouTube
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS egress_id VARCHAR(100);
@@ -0,0 +1,6 @@
+-- Per-event automatic camera switching policy
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS switching_policy VARCHAR(30) DEFAULT 'last-in-wins'
+    CHECK (switching_policy IN ('last-in-wins', 'manual-only', 'round-robin', 'best-quality')),
+  ADD COLUMN IF NOT EXISTS switching_dwell_seconds INTEGER DEFAULT 30
+    CHECK (switching_dwell_seconds > 0);
@@ -0,0 +1,6 @@
+-- Minimum on-air time and cooldown for automatic camera switches
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS min_on_air_seconds INTEGER DEFAULT 10
+    CHECK (min_on_air_seconds >= 0),
+  ADD COLUMN IF NOT EXISTS switch_cooldown_seconds INTEGER DEFAULT 3
+    CHECK (switch_cooldown_seconds >= 0);
@@ -0,0 +1,2 @@
+-- Pause automatic camera switching after an organizer's manual take
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS auto_switch_locked_until TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,2 @@
+-- Speed up the scan for cameras whose heartbeat has timed out
+CREATE INDEX IF NOT EXISTS idx_camera_connections_status_last_active_at ON camera_connections(status, last_active_at);
@@ -0,0 +1,11 @@
+-- Processed LiveKit webhook deliveries (for idempotent handling of retries)
+CREATE TABLE IF NOT EXISTS livekit_webhook_events (
+  id VARCHAR(100) PRIMARY KEY, -- LiveKit webhook event id
+  event VARCHAR(50) NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_livekit_webhook_events_received_at ON livekit_webhook_events(received_at);
+
+-- No policies: only the service role records webhook deliveries
+ALTER TABLE livekit_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- Organizers' YouTube channel connections (OAuth refresh tokens, encrypted)
+CREATE TABLE IF NOT EXISTS youtube_connections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organizer_id VARCHAR(255) UNIQUE NOT NULL,
+  channel_id VARCHAR(100) NOT NULL,
+  channel_title VARCHAR(255),
+  encrypted_refresh_token TEXT NOT NULL,
+  scopes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_youtube_connections_updated_at BEFORE UPDATE ON youtube_connections
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- No policies: refresh tokens are only read by the service role
+ALTER TABLE youtube_connections ENABLE ROW LEVEL SECURITY;
+
+-- Organizer whose YouTube channel hosts the broadcast
+ALTER TABLE events ADD COLUMN IF NOT EXISTS organizer_id VARCHAR(255);
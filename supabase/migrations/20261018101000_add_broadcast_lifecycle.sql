@@ -0,0 +1,8 @@
+-- YouTube broadcast lifecycle (Go live / End event), persisted so retries resume after a restart
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS broadcast_state VARCHAR(20) DEFAULT 'idle'
+  CHECK (broadcast_state IN ('idle', 'waiting-for-camera', 'starting', 'live', 'ending', 'ended', 'failed'));
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS broadcast_attempts INTEGER DEFAULT 0;
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS broadcast_retry_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE stream_status ADD COLUMN IF NOT EXISTS broadcast_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_stream_status_broadcast_state ON stream_status(broadcast_state);
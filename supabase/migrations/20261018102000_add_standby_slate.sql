@@ -0,0 +1,7 @@
+-- Uploaded standby slate shown while no camera is on air
+ALTER TABLE events ADD COLUMN IF NOT EXISTS standby_image_url TEXT;
+
+-- Standby slate images (public read; uploads go through the API with the service role)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('standby-slates', 'standby-slates', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,12 @@
+-- Shared rate-limit state (RATE_LIMIT_STORE=postgres); updated with optimistic version checks
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key VARCHAR(255) PRIMARY KEY,
+  state JSONB NOT NULL,
+  version BIGINT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
+
+-- No policies: only the service role reads and writes counters
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
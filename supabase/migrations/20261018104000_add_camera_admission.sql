@@ -0,0 +1,11 @@
+-- Per-event camera capacity and admission control
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS max_cameras INTEGER DEFAULT 4
+    CHECK (max_cameras BETWEEN 1 AND 10),
+  ADD COLUMN IF NOT EXISTS admission_mode VARCHAR(20) DEFAULT 'open'
+    CHECK (admission_mode IN ('open', 'waitlist', 'approval'));
+
+-- Joiners beyond capacity (or awaiting approval) wait in line without a LiveKit token
+ALTER TABLE camera_connections DROP CONSTRAINT IF EXISTS camera_connections_status_check;
+ALTER TABLE camera_connections ADD CONSTRAINT camera_connections_status_check
+  CHECK (status IN ('waiting', 'connecting', 'active', 'inactive', 'error'));
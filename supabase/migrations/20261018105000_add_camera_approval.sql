@@ -0,0 +1,15 @@
+-- Organizer approval queue: in approval mode joiners stay 'pending' until the
+-- organizer approves (they then get a slot or join the waitlist) or rejects them
+ALTER TABLE camera_connections DROP CONSTRAINT IF EXISTS camera_connections_status_check;
+ALTER TABLE camera_connections ADD CONSTRAINT camera_connections_status_check
+  CHECK (status IN ('pending', 'waiting', 'connecting', 'active', 'inactive', 'error'));
+
+-- Why a connection ended when it was not a plain disconnect (e.g. 'rejected')
+ALTER TABLE camera_connections ADD COLUMN IF NOT EXISTS disconnect_reason VARCHAR(50);
+
+-- Snapshots of pending cameras shown to the organizer. Pending cameras cannot
+-- publish to LiveKit, so the preview is uploaded as still images. Private:
+-- images are only served to the organizer through the API.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('camera-previews', 'camera-previews', false)
+ON CONFLICT (id) DO NOTHING;
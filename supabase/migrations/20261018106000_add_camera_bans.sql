@@ -0,0 +1,20 @@
+-- Camera operators removed (and optionally banned) by the organizer
+ALTER TABLE camera_connections DROP CONSTRAINT IF EXISTS camera_connections_disconnect_reason_check;
+ALTER TABLE camera_connections ADD CONSTRAINT camera_connections_disconnect_reason_check
+  CHECK (disconnect_reason IN ('rejected', 'kicked', 'banned'));
+
+-- Banned participants/devices may not rejoin the event
+CREATE TABLE IF NOT EXISTS camera_bans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  participant_id VARCHAR(255) NOT NULL,
+  device_fingerprint VARCHAR(64), -- SHA-256 of the server-issued camera device cookie
+  camera_connection_id UUID REFERENCES camera_connections(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_bans_event_id ON camera_bans(event_id);
+
+-- No policies: only the service role checks and records bans
+ALTER TABLE camera_bans ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,5 @@
+-- Participation codes can be rotated; camera tokens carry the version they were issued for
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS participation_code_version INTEGER NOT NULL DEFAULT 1
+    CHECK (participation_code_version >= 1),
+  ADD COLUMN IF NOT EXISTS participation_code_rotated_at TIMESTAMP WITH TIME ZONE;
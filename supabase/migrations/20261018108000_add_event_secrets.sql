@@ -0,0 +1,13 @@
+-- Hashed per-event secrets, kept out of the publicly readable events table
+CREATE TABLE IF NOT EXISTS event_secrets (
+  event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  camera_pin_hash TEXT, -- Optional PIN camera operators enter along with the participation code
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_event_secrets_updated_at BEFORE UPDATE ON event_secrets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- No policies: only the service role reads and writes secrets
+ALTER TABLE event_secrets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,2 @@
+-- Optional passphrase viewers must enter before the watch page shows the stream
+ALTER TABLE event_secrets ADD COLUMN IF NOT EXISTS viewer_passphrase_hash TEXT;
@@ -0,0 +1,18 @@
+-- Per-person camera invite links minted by the organizer.
+-- The link carries a signed token naming the invite; this row decides whether it can still be redeemed.
+CREATE TABLE IF NOT EXISTS camera_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  participant_name VARCHAR(100), -- Preset display name for the camera operator
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_redeemed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_invites_event_id ON camera_invites(event_id);
+
+-- No policies: only the service role mints and redeems invites
+ALTER TABLE camera_invites ENABLE ROW LEVEL SECURITY;
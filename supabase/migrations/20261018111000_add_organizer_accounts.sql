@@ -0,0 +1,46 @@
+-- Organizer accounts replace the shared ADMIN_KEY
+CREATE TABLE IF NOT EXISTS organizers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email VARCHAR(255) UNIQUE NOT NULL, -- Stored lowercased
+  display_name VARCHAR(100),
+  password_hash TEXT NOT NULL, -- scrypt, see src/lib/secret-hash.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_organizers_updated_at BEFORE UPDATE ON organizers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Who may manage an event: owner (everything), operator (runs the show), monitor (view only)
+CREATE TABLE IF NOT EXISTS event_members (
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  organizer_id UUID REFERENCES organizers(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'operator', 'monitor')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (event_id, organizer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_members_organizer_id ON event_members(organizer_id);
+
+-- Co-organizer invitations, accepted by signing in with the invited email
+CREATE TABLE IF NOT EXISTS organizer_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('operator', 'monitor')),
+  invited_by UUID REFERENCES organizers(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES organizers(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organizer_invitations_event_id ON organizer_invitations(event_id);
+
+-- Events created before accounts have no members; give them an owner with e.g.
+--   INSERT INTO event_members (event_id, organizer_id, role) VALUES ('<event>', '<organizer>', 'owner');
+-- No policies: only the service role reads accounts and memberships
+ALTER TABLE organizers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organizer_invitations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,8 @@
+-- Participation code version a camera joined with (NULL for organizers joining
+-- with their own token and for invite joins); cameras on an older version are
+-- removed on rotation
+ALTER TABLE camera_connections ADD COLUMN IF NOT EXISTS code_version INTEGER;
+
+ALTER TABLE camera_connections DROP CONSTRAINT IF EXISTS camera_connections_disconnect_reason_check;
+ALTER TABLE camera_connections ADD CONSTRAINT camera_connections_disconnect_reason_check
+  CHECK (disconnect_reason IN ('rejected', 'kicked', 'banned', 'code-rotated'));
@@ -0,0 +1,96 @@
+-- Camera slots are taken inside the database, so the cap and the waitlist
+-- order hold across server instances. Both functions lock the event row:
+-- joins and admissions of one event take turns, other events are unaffected.
+
+-- A new joiner gets a slot when one is free and nobody is waiting for it,
+-- otherwise a place in line (p_queue) or nothing (open mode, full)
+CREATE OR REPLACE FUNCTION request_camera_slot(
+  p_event_id UUID,
+  p_participant_id VARCHAR,
+  p_participant_name VARCHAR,
+  p_device_info JSONB,
+  p_code_version INTEGER,
+  p_queue BOOLEAN
+) RETURNS SETOF camera_connections AS $$
+DECLARE
+  v_max_cameras INTEGER;
+  v_holding INTEGER;
+  v_waiting INTEGER;
+  v_status VARCHAR(20);
+BEGIN
+  SELECT COALESCE(max_cameras, 4) INTO v_max_cameras
+  FROM events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status IN ('connecting', 'active')),
+    COUNT(*) FILTER (WHERE status = 'waiting')
+  INTO v_holding, v_waiting
+  FROM camera_connections WHERE event_id = p_event_id;
+
+  IF v_waiting = 0 AND v_holding < v_max_cameras THEN
+    v_status := 'connecting';
+  ELSIF p_queue THEN
+    v_status := 'waiting';
+  ELSE
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO camera_connections (
+    event_id, participant_id, participant_name, device_info, stream_quality, status, code_version
+  ) VALUES (
+    p_event_id, p_participant_id, p_participant_name, COALESCE(p_device_info, '{}'), '{}', v_status, p_code_version
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a waiting (or pending, on approval) joiner into a free slot. With
+-- p_in_order it only succeeds when nobody is waiting ahead of it; approved
+-- joiners queue behind everyone already waiting.
+CREATE OR REPLACE FUNCTION claim_camera_slot(
+  p_camera_id UUID,
+  p_from_status VARCHAR,
+  p_in_order BOOLEAN
+) RETURNS SETOF camera_connections AS $$
+DECLARE
+  v_camera camera_connections%ROWTYPE;
+  v_max_cameras INTEGER;
+  v_holding INTEGER;
+BEGIN
+  SELECT * INTO v_camera FROM camera_connections WHERE id = p_camera_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(max_cameras, 4) INTO v_max_cameras
+  FROM events WHERE id = v_camera.event_id FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_holding
+  FROM camera_connections
+  WHERE event_id = v_camera.event_id AND status IN ('connecting', 'active');
+  IF v_holding >= v_max_cameras THEN
+    RETURN;
+  END IF;
+
+  IF p_in_order AND EXISTS (
+    SELECT 1 FROM camera_connections
+    WHERE event_id = v_camera.event_id
+      AND status = 'waiting'
+      AND id <> p_camera_id
+      AND (p_from_status <> 'waiting' OR joined_at < v_camera.joined_at)
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- The joiner may have left or been decided on while this waited for the lock
+  RETURN QUERY
+  UPDATE camera_connections
+  SET status = 'connecting', joined_at = NOW(), last_active_at = NOW()
+  WHERE id = p_camera_id AND status = p_from_status
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -1,48 +0,0 @@
-// LiveKitトークン生成の実装状況確認用スクリプト
-import { readFileSync } from 'fs';
-
-// auth.tsファイルの内容を確認
-const authContent = readFileSync('./src/lib/auth.ts', 'utf8');
-
-// generateLiveKitTokenメソッドの実装を確認
-const methodMatch = authContent.match(/static async generateLiveKitToken\(([\s\S]*?)\n  \}/);
-
-if (methodMatch) {
-  console.log('✅ generateLiveKitTokenメソッドが見つかりました');
-  
-  // JSDocコメントの確認
-  const hasWarningComment = authContent.includes('⚠️ **MOCK IMPLEMENTATION WARNING** ⚠️');
-  const hasProductionExample = authContent.includes('@example');
-  const hasProperDocumentation = authContent.includes('This is currently a placeholder implementation');
-  
-  console.log('📝 JSDocコメントの確認:');
-  console.log(`  - モック実装警告: ${hasWarningComment ? '✅' : '❌'}`);
-  console.log(`  - 使用例の記載: ${hasProductionExample ? '✅' : '❌'}`);
-  console.log(`  - 実装状況の説明: ${hasProperDocumentation ? '✅' : '❌'}`);
-  
-  // 本番環境警告の確認
-  const hasProductionWarning = authContent.includes('environment === \'production\'');
-  const hasDevelopmentWarning = authContent.includes('console.warn');
-  const hasErrorOutput = authContent.includes('console.error');
-  
-  console.log('🚨 警告出力機能の確認:');
-  console.log(`  - 本番環境チェック: ${hasProductionWarning ? '✅' : '❌'}`);
-  console.log(`  - 開発環境警告: ${hasDevelopmentWarning ? '✅' : '❌'}`);
-  console.log(`  - 本番環境エラー出力: ${hasErrorOutput ? '✅' : '❌'}`);
-  
-  // モック実装マーカーの確認
-  const hasMockMarker = authContent.includes('mockImplementation: true');
-  const hasWarningInPayload = authContent.includes('warning: \'This token is generated by mock implementation');
-  
-  console.log('🏷️  モック実装マーカーの確認:');
-  console.log(`  - mockImplementationフラグ: ${hasMockMarker ? '✅' : '❌'}`);
-  console.log(`  - ペイロード内警告: ${hasWarningInPayload ? '✅' : '❌'}`);
-  
-  console.log('\n✅ タスク要件の確認:');
-  console.log('  - JSDocコメントを更新してモック実装であることを明記: ✅');
-  console.log('  - 本番環境での使用時に適切な警告を出力する機能を実装: ✅');
-  console.log('  - モック実装の警告を追加: ✅');
-  
-} else {
-  console.log('❌ generateLiveKitTokenメソッドが見つかりませんでした');
-}
\ No newline at end of file